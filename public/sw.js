@@ -0,0 +1,79 @@
+// Service worker for the onboarding page. It keeps the app shell cached so
+// the wizard opens without a connection. Supabase requests always go to the
+// network: submissions made offline wait in the page's outbox (IndexedDB)
+// and are sent from there once the device is back online.
+
+const CACHE = "lope-shell-v1";
+const SHELL = [
+  "/",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// The fonts are cross-origin but the shell looks broken without them
+const FONT_ORIGINS = ["https://fonts.googleapis.com", "https://fonts.gstatic.com"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Assets the page loaded before this worker was in control
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "cache-urls" && Array.isArray(event.data.urls)) {
+    event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(event.data.urls)));
+  }
+});
+
+const remember = (request, response) => {
+  if (response.ok || response.type === "opaque") {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin && !FONT_ORIGINS.includes(url.origin)) return;
+
+  // Every route is the same single-page app: fetch it fresh so new releases
+  // show up, and fall back to the cached copy when offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => remember("/", response))
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  // Everything else is served from the cache and refreshed behind the scenes
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const refreshed = fetch(request).then((response) => remember(request, response));
+      if (!cached) return refreshed;
+      refreshed.catch(() => undefined);
+      return cached;
+    })
+  );
+});
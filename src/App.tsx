@@ -6,33 +6,84 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
+import Status from "./pages/Status";
 import AdminDashboard from "./pages/AdminDashboard";
+import AdminCompliance from "./pages/AdminCompliance";
+import AdminEligibility from "./pages/AdminEligibility";
+import AdminAnalytics from "./pages/AdminAnalytics";
+import AdminTerms from "./pages/AdminTerms";
+import AdminDataRequests from "./pages/AdminDataRequests";
 import { ProtectedAdminRoute } from "./components/ProtectedAdminRoute";
+import { I18nProvider } from "./components/I18nProvider";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route
-            path="/admin"
-            element={
-              <ProtectedAdminRoute>
-                <AdminDashboard />
-              </ProtectedAdminRoute>
-            }
-          />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <I18nProvider>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/status" element={<Status />} />
+            <Route path="/resubmit/:token" element={<Index />} />
+            <Route
+              path="/admin"
+              element={
+                <ProtectedAdminRoute>
+                  <AdminDashboard />
+                </ProtectedAdminRoute>
+              }
+            />
+            <Route
+              path="/admin/compliance"
+              element={
+                <ProtectedAdminRoute>
+                  <AdminCompliance />
+                </ProtectedAdminRoute>
+              }
+            />
+            <Route
+              path="/admin/eligibility"
+              element={
+                <ProtectedAdminRoute>
+                  <AdminEligibility />
+                </ProtectedAdminRoute>
+              }
+            />
+            <Route
+              path="/admin/analytics"
+              element={
+                <ProtectedAdminRoute>
+                  <AdminAnalytics />
+                </ProtectedAdminRoute>
+              }
+            />
+            <Route
+              path="/admin/terms"
+              element={
+                <ProtectedAdminRoute>
+                  <AdminTerms />
+                </ProtectedAdminRoute>
+              }
+            />
+            <Route
+              path="/admin/data-requests"
+              element={
+                <ProtectedAdminRoute>
+                  <AdminDataRequests />
+                </ProtectedAdminRoute>
+              }
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </I18nProvider>
   </QueryClientProvider>
 );
 
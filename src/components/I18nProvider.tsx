@@ -0,0 +1,68 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  isLanguage,
+  localeFor,
+  translate,
+  type Language,
+} from "@/lib/i18n";
+import { I18nContext, type I18nContextValue } from "@/hooks/use-i18n";
+
+const STORAGE_KEY = "lope-language";
+
+// Saved choice first, then the browser's preferred languages
+function initialLanguage(): Language {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(saved)) return saved;
+  } catch {
+    // Storage unavailable (private mode)
+  }
+  const preferred = (navigator.languages ?? [navigator.language])
+    .map((l) => l.slice(0, 2).toLowerCase())
+    .find((l) => LANGUAGES.some((lang) => lang.code === l));
+  return isLanguage(preferred) ? preferred : DEFAULT_LANGUAGE;
+}
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [language, setLanguageState] = useState<Language>(initialLanguage);
+  const locale = localeFor(language);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage unavailable (private mode)
+    }
+  }, []);
+
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      language,
+      locale,
+      setLanguage,
+      t: (text, params) => translate(language, text, params),
+      formatDate: (date, options = { dateStyle: "medium" }) =>
+        new Intl.DateTimeFormat(locale, options).format(
+          typeof date === "string" ? new Date(date) : date
+        ),
+      formatNumber: (value, options) =>
+        new Intl.NumberFormat(locale, options).format(value),
+    }),
+    [language, locale, setLanguage]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
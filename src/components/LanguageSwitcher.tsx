@@ -0,0 +1,29 @@
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
+import { LANGUAGES, type Language } from "@/lib/i18n";
+
+export function LanguageSwitcher({ className }: { className?: string }) {
+  const { language, setLanguage, t } = useI18n();
+  return (
+    <Select value={language} onValueChange={(v) => setLanguage(v as Language)}>
+      <SelectTrigger className={className} aria-label={t("Language")}>
+        <Languages className="h-4 w-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((l) => (
+          <SelectItem key={l.code} value={l.code} lang={l.code}>
+            {l.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
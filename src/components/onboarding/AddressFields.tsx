@@ -0,0 +1,150 @@
+import { AlertTriangle } from "lucide-react";
+import { useFormContext } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  findPostalAreas,
+  provinceMismatch,
+  type PostalArea,
+} from "@shared/onboarding/postal-codes";
+import { PROVINCES, type FormValues } from "@shared/onboarding/schema";
+
+/**
+ * The postal code, looked up in the bundled dataset as it's typed. A known
+ * code fills in whichever of suburb, city and province are still empty, and
+ * the suburbs sharing it are offered to pick from.
+ */
+export function PostalCodeField() {
+  const { t } = useI18n();
+  const { control, watch, getValues, setValue } = useFormContext<FormValues>();
+  const areas = findPostalAreas(watch("postalCode") ?? "");
+
+  const apply = (area: PostalArea, overwrite: boolean) => {
+    const fields = [
+      ["suburb", area.suburb],
+      ["city", area.city],
+      ["province", area.province],
+    ] as const;
+    for (const [name, value] of fields) {
+      if (overwrite || !getValues(name)) {
+        setValue(name, value, { shouldValidate: true, shouldDirty: true });
+      }
+    }
+  };
+
+  return (
+    <FormField
+      name="postalCode"
+      control={control}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t("Postal Code")}</FormLabel>
+          <FormControl>
+            <Input
+              inputMode="numeric"
+              autoComplete="postal-code"
+              maxLength={4}
+              {...field}
+              onChange={(e) => {
+                const code = e.target.value.replace(/\D/g, "");
+                field.onChange(code);
+                const [first] = findPostalAreas(code);
+                if (first) apply(first, false);
+              }}
+            />
+          </FormControl>
+          {areas.length > 1 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              {t("Suburbs with this code:")}
+              {areas.map((area) => (
+                <Button
+                  key={area.suburb}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => apply(area, true)}
+                >
+                  {area.suburb}
+                </Button>
+              ))}
+            </div>
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+/**
+ * The province, with a warning when it isn't the one the postal code belongs
+ * to. Applicants may still go ahead; reviewers see the mismatch.
+ */
+export function ProvinceField() {
+  const { t } = useI18n();
+  const { control, watch, setValue } = useFormContext<FormValues>();
+  const expected = provinceMismatch(watch("postalCode") ?? "", watch("province") ?? "");
+
+  return (
+    <FormField
+      name="province"
+      control={control}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t("Province")}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue placeholder={t("Select")} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {PROVINCES.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {expected && (
+            <div className="flex flex-wrap items-center gap-1 text-xs text-amber-700">
+              <AlertTriangle className="h-3 w-3" />
+              {t("This postal code is in {province}.", { province: expected })}
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs"
+                onClick={() =>
+                  setValue("province", expected, {
+                    shouldValidate: true,
+                    shouldDirty: true,
+                  })
+                }
+              >
+                {t("Change to {province}", { province: expected })}
+              </Button>
+            </div>
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
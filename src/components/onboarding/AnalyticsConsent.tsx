@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  analyticsConsent,
+  setAnalyticsConsent,
+  type AnalyticsConsent as Consent,
+} from "@/lib/onboarding/analytics";
+
+/** Asks once whether we may count anonymously how applicants move through the form. */
+export function AnalyticsConsent() {
+  const { t } = useI18n();
+  const [asked, setAsked] = useState(() => analyticsConsent() !== null);
+  if (asked) return null;
+
+  const answer = (consent: Consent) => {
+    setAnalyticsConsent(consent);
+    setAsked(true);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border bg-muted/40 p-3 text-sm sm:flex-row sm:items-center">
+      <BarChart3 className="hidden h-5 w-5 shrink-0 text-primary sm:block" />
+      <p className="flex-1 text-muted-foreground">
+        {t(
+          "Help us improve this form? We'd like to count, anonymously, which steps applicants finish and where they get stuck. We never record your answers."
+        )}
+      </p>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={() => answer("denied")}>
+          {t("No thanks")}
+        </Button>
+        <Button type="button" size="sm" onClick={() => answer("granted")}>
+          {t("Allow")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+import { useState, type ReactNode } from "react";
+import { useFormContext } from "react-hook-form";
+import { Eye, EyeOff, Pencil, Truck, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import { isAttached } from "@/lib/onboarding/corrections";
+import {
+  visibleFields,
+  visibleSteps,
+  type CustomFieldKey,
+  type FieldDefinition,
+} from "@/lib/onboarding/wizard";
+import { CROSS_BORDER_COUNTRIES } from "@shared/onboarding/countries";
+import {
+  DRIVER_DOCUMENTS,
+  TRUCK_DOCUMENTS,
+  TRUCK_PHOTOS,
+  type FormValues,
+} from "@shared/onboarding/schema";
+
+type Translate = ReturnType<typeof useI18n>["t"];
+
+// Shown as dots until the applicant taps them
+const MASKED_FIELDS = new Set<string>(["accountNumber", "branchCode"]);
+
+// Blocks like the truck list span the whole summary rather than sitting in
+// the value column
+type Row = { label: string; value: ReactNode } | { block: ReactNode };
+
+const fileName = (value: unknown) =>
+  isAttached(value) ? (value as { name: string }).name : null;
+
+function Empty({ text = "—" }: { text?: string }) {
+  return <span className="text-muted-foreground">{text}</span>;
+}
+
+function FileName({ file }: { file: unknown }) {
+  const { t } = useI18n();
+  const name = fileName(file);
+  return name ? (
+    <span className="break-all">{name}</span>
+  ) : (
+    <span className="text-destructive">{t("Not attached")}</span>
+  );
+}
+
+function Masked({ value, label }: { value: string; label: string }) {
+  const { t } = useI18n();
+  const [shown, setShown] = useState(false);
+  if (!value) return <Empty />;
+  return (
+    <button
+      type="button"
+      onClick={() => setShown((s) => !s)}
+      aria-label={t(shown ? "Hide {label}" : "Show {label}", { label })}
+      className="inline-flex items-center gap-2 font-mono underline-offset-4 hover:underline"
+    >
+      {shown ? value : "•".repeat(Math.max(0, value.length - 3)) + value.slice(-3)}
+      {shown ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+    </button>
+  );
+}
+
+function Trucks({ values }: { values: FormValues }) {
+  const { t, formatNumber } = useI18n();
+  const drivers = values.drivers ?? [];
+  return (
+    <div className="space-y-3">
+      {values.trucks.map((truck, i) => {
+        const driver = drivers.findIndex((d) => d.id === truck.driverId);
+        return (
+          <div key={i} className="rounded-md border p-3 text-sm space-y-2">
+            <div className="flex items-center gap-2 font-medium">
+              <Truck className="h-4 w-4 text-primary" />
+              {truck.registrationNumber || t("Truck {number}", { number: i + 1 })}
+            </div>
+            <div className="text-muted-foreground">
+              {[
+                truck.vehicleType && t(truck.vehicleType),
+                `${formatNumber(truck.loadCapacity)} ${t("tons")}`,
+                truck.year,
+                truck.vin && `VIN ${truck.vin}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+            </div>
+            <div>
+              {t("Driver")}:{" "}
+              {driver >= 0
+                ? drivers[driver].fullName || t("Driver {number}", { number: driver + 1 })
+                : t("I drive it myself")}
+            </div>
+            <ul className="space-y-1">
+              {TRUCK_DOCUMENTS.map((doc) => (
+                <li key={doc.key}>
+                  <span className="text-muted-foreground">{t(doc.label)}:</span>{" "}
+                  <FileName file={truck[doc.key]} />
+                  {truck[doc.expiryKey] && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      ({t("Expiry date")} {truck[doc.expiryKey]})
+                    </span>
+                  )}
+                </li>
+              ))}
+              {TRUCK_PHOTOS.map((shot) => (
+                <li key={shot.key}>
+                  <span className="text-muted-foreground">
+                    {t("Photo")} – {t(shot.label)}:
+                  </span>{" "}
+                  <FileName file={truck.photos?.[shot.key]?.file} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function Drivers({ values }: { values: FormValues }) {
+  const { t } = useI18n();
+  if (!values.drivers?.length) return <Empty text={t("No drivers added")} />;
+  return (
+    <div className="space-y-3">
+      {values.drivers.map((driver, i) => (
+        <div key={driver.id} className="rounded-md border p-3 text-sm space-y-1">
+          <div className="flex items-center gap-2 font-medium">
+            <UserRound className="h-4 w-4 text-primary" />
+            {driver.fullName || t("Driver {number}", { number: i + 1 })}
+          </div>
+          <div className="text-muted-foreground">
+            {[
+              driver.idNumber,
+              driver.licenceCode && `${t("Licence code")} ${driver.licenceCode}`,
+              driver.prdpNumber && `PrDP ${driver.prdpNumber}`,
+              driver.prdpExpiry && `${t("PrDP expiry date")} ${driver.prdpExpiry}`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+          {DRIVER_DOCUMENTS.map((doc) => (
+            <div key={doc.key}>
+              <span className="text-muted-foreground">{t(doc.label)}:</span>{" "}
+              <FileName file={driver[doc.key]} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const list = (items: string[]) => (items.length ? items.join(", ") : null);
+
+// What each bespoke wizard field looks like in the summary
+function customRows(
+  key: CustomFieldKey,
+  values: FormValues,
+  t: Translate,
+  formatNumber: (value: number) => string
+): Row[] {
+  switch (key) {
+    case "idNumber":
+      return [
+        {
+          label: t(values.identityType === "passport" ? "Passport Number" : "ID Number"),
+          value: values.idNumber,
+        },
+      ];
+    case "mobile":
+      return [{ label: t("Mobile"), value: values.mobile }];
+    case "postalCode":
+      return [{ label: t("Postal Code"), value: values.postalCode }];
+    case "province":
+      return [{ label: t("Province"), value: values.province }];
+    case "truckCount":
+      return [{ label: t("Number of Trucks"), value: formatNumber(values.numberOfTrucks) }];
+    case "trucks":
+      return [{ block: <Trucks values={values} /> }];
+    case "vehicleDocuments":
+      return [
+        {
+          label: t("Additional Vehicle Documents"),
+          value: list((values.vehicleDocuments ?? []).map(fileName).filter(Boolean)),
+        },
+      ];
+    case "drivers":
+      return [{ block: <Drivers values={values} /> }];
+    case "serviceProvinces":
+      return [{ label: t("Provinces you service"), value: list(values.serviceProvinces ?? []) }];
+    case "serviceCities":
+      return [
+        {
+          label: t("Towns you service"),
+          value:
+            list((values.serviceCities ?? []).map((c) => `${c.city} (${c.province})`)) ??
+            t("Anywhere in these provinces"),
+        },
+      ];
+    case "lanes":
+      return [
+        {
+          label: t("Preferred lanes"),
+          value: list((values.lanes ?? []).map((l) => `${l.origin} → ${l.destination}`)),
+        },
+      ];
+    case "crossBorderCountries":
+      return [
+        {
+          label: t("Countries you drive to"),
+          value: list(
+            (values.crossBorderCountries ?? []).map(
+              (code) => CROSS_BORDER_COUNTRIES.find((c) => c.code === code)?.name ?? code
+            )
+          ),
+        },
+      ];
+    case "bankName":
+      return [{ label: t("Bank"), value: values.bankName }];
+    case "terms":
+      return [
+        {
+          label: t("Accept Terms of Use"),
+          value: values.acceptTerms === "yes" ? t("Accepted") : null,
+        },
+      ];
+    case "branchCode":
+      return [
+        {
+          label: t("Branch Code"),
+          value: <Masked value={values.branchCode} label={t("Branch Code")} />,
+        },
+      ];
+  }
+}
+
+function fieldRows(
+  field: FieldDefinition,
+  values: FormValues,
+  t: Translate,
+  formatNumber: (value: number) => string
+): Row[] {
+  if (field.kind === "custom") {
+    return customRows(field.component, values, t, formatNumber);
+  }
+  const label = t(field.label ?? field.name);
+  const value = values[field.name as keyof FormValues];
+  switch (field.kind) {
+    case "select":
+    case "radio": {
+      const option = field.options.find((o) => o.value === value);
+      return [{ label, value: option ? t(option.label) : null }];
+    }
+    case "consent":
+      return [{ label, value: value === "yes" ? t("Accepted") : null }];
+    case "file":
+      return [{ label, value: <FileName file={value} /> }];
+    default:
+      return [
+        {
+          label,
+          value: MASKED_FIELDS.has(field.name) ? (
+            <Masked value={String(value ?? "")} label={label} />
+          ) : (
+            (value as string) || null
+          ),
+        },
+      ];
+  }
+}
+
+/**
+ * Every answer in the application, grouped by wizard step, for a last look
+ * before it's sent. Steps the applicant may change have an Edit link.
+ */
+export function ApplicationReview({
+  canEdit,
+  onEdit,
+}: {
+  canEdit: (stepKey: string) => boolean;
+  onEdit: (stepKey: string) => void;
+}) {
+  const { t, formatNumber } = useI18n();
+  const { watch } = useFormContext<FormValues>();
+  const values = watch();
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        {t("Check your answers before you submit. Registrations and account numbers are easy to mistype.")}
+      </p>
+      {visibleSteps(values)
+        .filter((step) => step.fields.length > 0)
+        .map((step) => {
+          const rows = visibleFields(step, values).flatMap((f) =>
+            fieldRows(f, values, t, formatNumber)
+          );
+          return (
+            <section key={step.key} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="font-heading font-medium">{t(step.heading)}</h3>
+                {canEdit(step.key) && (
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0"
+                    onClick={() => onEdit(step.key)}
+                  >
+                    <Pencil className="h-3 w-3 mr-1" />
+                    {t("Edit")}
+                  </Button>
+                )}
+              </div>
+              <dl className="grid gap-x-4 gap-y-2 text-sm sm:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+                {rows.map((row, i) =>
+                  "block" in row ? (
+                    <div key={i} className="sm:col-span-2">
+                      {row.block}
+                    </div>
+                  ) : (
+                    <div key={i} className="contents">
+                      <dt className="text-muted-foreground">{row.label}</dt>
+                      <dd className="break-words">{row.value ?? <Empty />}</dd>
+                    </div>
+                  )
+                )}
+              </dl>
+            </section>
+          );
+        })}
+    </div>
+  );
+}
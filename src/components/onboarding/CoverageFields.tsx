@@ -0,0 +1,260 @@
+import { ArrowRight, Plus, X } from "lucide-react";
+import { useFormContext } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useI18n } from "@/hooks/use-i18n";
+import { CROSS_BORDER_COUNTRIES } from "@shared/onboarding/countries";
+import { POSTAL_AREAS } from "@shared/onboarding/postal-codes";
+import { MAX_LANES, PROVINCES, type FormValues } from "@shared/onboarding/schema";
+
+// Towns offered for each province, from the bundled postal code extract
+const TOWNS_BY_PROVINCE = new Map(
+  PROVINCES.map((province) => [
+    province,
+    [
+      ...new Set(
+        POSTAL_AREAS.filter((a) => a.province === province).map((a) => a.city)
+      ),
+    ].sort(),
+  ])
+);
+
+const ALL_TOWNS = [...new Set(POSTAL_AREAS.map((a) => a.city))].sort();
+
+const toggle = <T,>(list: T[], item: T, on: boolean) =>
+  on ? [...list, item] : list.filter((i) => i !== item);
+
+/**
+ * The provinces the applicant services. Dropping a province also drops the
+ * towns picked in it.
+ */
+export function ServiceProvincesField() {
+  const { t } = useI18n();
+  const { control, getValues, setValue } = useFormContext<FormValues>();
+
+  return (
+    <FormField
+      name="serviceProvinces"
+      control={control}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t("Provinces you service")}</FormLabel>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {PROVINCES.map((province) => (
+              <label
+                key={province}
+                className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={field.value.includes(province)}
+                  onCheckedChange={(checked) => {
+                    field.onChange(toggle(field.value, province, !!checked));
+                    if (!checked) {
+                      setValue(
+                        "serviceCities",
+                        getValues("serviceCities").filter(
+                          (c) => c.province !== province
+                        )
+                      );
+                    }
+                  }}
+                />
+                {province}
+              </label>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+/** Optional towns within the chosen provinces, for haulers who stay local. */
+export function ServiceCitiesField() {
+  const { t } = useI18n();
+  const { control, watch } = useFormContext<FormValues>();
+  const provinces = watch("serviceProvinces") ?? [];
+  if (provinces.length === 0) return null;
+
+  return (
+    <FormField
+      name="serviceCities"
+      control={control}
+      render={({ field }) => {
+        const picked = (city: string, province: string) =>
+          field.value.some((c) => c.city === city && c.province === province);
+        return (
+          <FormItem>
+            <FormLabel>{t("Towns you service (optional)")}</FormLabel>
+            <p className="text-xs text-muted-foreground">
+              {t("Leave these clear if you'll take loads anywhere in the provinces above.")}
+            </p>
+            {provinces.map((province) => (
+              <div key={province} className="space-y-1">
+                <div className="text-sm font-medium">{province}</div>
+                <div className="flex flex-wrap gap-1">
+                  {(TOWNS_BY_PROVINCE.get(province) ?? []).map((city) => {
+                    const on = picked(city, province);
+                    return (
+                      <Button
+                        key={city}
+                        type="button"
+                        size="sm"
+                        variant={on ? "default" : "outline"}
+                        className="h-7 px-2 text-xs"
+                        aria-pressed={on}
+                        onClick={() =>
+                          field.onChange(
+                            on
+                              ? field.value.filter(
+                                  (c) => !(c.city === city && c.province === province)
+                                )
+                              : [...field.value, { city, province }]
+                          )
+                        }
+                      >
+                        {city}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
+
+function LaneEnd({
+  name,
+  label,
+}: {
+  name: `lanes.${number}.${"origin" | "destination"}`;
+  label: string;
+}) {
+  const { control } = useFormContext<FormValues>();
+  return (
+    <FormField
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <FormItem className="flex-1">
+          <FormControl>
+            <Input
+              list="lane-towns"
+              autoComplete="off"
+              placeholder={label}
+              aria-label={label}
+              {...field}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+/** Origin–destination routes the applicant would like regular loads on. */
+export function LanesField() {
+  const { t } = useI18n();
+  const { watch, getValues, setValue } = useFormContext<FormValues>();
+  const lanes = watch("lanes") ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="text-sm font-medium">{t("Preferred lanes (optional)")}</div>
+        <p className="text-xs text-muted-foreground">
+          {t("Routes you'd like regular loads on, e.g. Johannesburg to Durban.")}
+        </p>
+      </div>
+      <datalist id="lane-towns">
+        {ALL_TOWNS.map((town) => (
+          <option key={town} value={town} />
+        ))}
+      </datalist>
+      {lanes.map((_, i) => (
+        <div key={i} className="flex items-start gap-2">
+          <LaneEnd name={`lanes.${i}.origin`} label={t("From")} />
+          <ArrowRight className="h-4 w-4 mt-3 shrink-0 text-muted-foreground" />
+          <LaneEnd name={`lanes.${i}.destination`} label={t("To")} />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() =>
+              setValue(
+                "lanes",
+                getValues("lanes").filter((_, j) => j !== i)
+              )
+            }
+            aria-label={t("Remove lane")}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={lanes.length >= MAX_LANES}
+        onClick={() =>
+          setValue("lanes", [...getValues("lanes"), { origin: "", destination: "" }])
+        }
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        {t("Add a lane")}
+      </Button>
+    </div>
+  );
+}
+
+/** The neighbouring countries a cross-border hauler drives to. */
+export function CrossBorderCountriesField() {
+  const { t } = useI18n();
+  const { control } = useFormContext<FormValues>();
+
+  return (
+    <FormField
+      name="crossBorderCountries"
+      control={control}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t("Countries you drive to")}</FormLabel>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {CROSS_BORDER_COUNTRIES.map((country) => (
+              <label
+                key={country.code}
+                className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={field.value.includes(country.code)}
+                  onCheckedChange={(checked) =>
+                    field.onChange(toggle(field.value, country.code, !!checked))
+                  }
+                />
+                {country.name}
+              </label>
+            ))}
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { ShieldCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  DATA_REQUEST_KINDS,
+  type DataRequest,
+  type DataRequestKind,
+  type DataRequestStatus,
+} from "@/lib/onboarding/data-requests";
+
+const statusLabels: Record<DataRequestStatus, string> = {
+  open: "Open",
+  completed: "Completed",
+  declined: "Declined",
+};
+
+const kindLabel = (kind: DataRequestKind) =>
+  DATA_REQUEST_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+
+function NewRequestDialog({
+  applicationId,
+  open,
+  onClose,
+  onLodged,
+}: {
+  applicationId: string;
+  open: boolean;
+  onClose: () => void;
+  onLodged: () => void;
+}) {
+  const { t } = useI18n();
+  const [kind, setKind] = useState<DataRequestKind>("access");
+  const [details, setDetails] = useState("");
+  const [busy, setBusy] = useState(false);
+  const needsDetails = kind === "correction" && !details.trim();
+
+  const lodge = async () => {
+    setBusy(true);
+    const { error } = await supabase.rpc("lodge_data_request", {
+      _application_id: applicationId,
+      _kind: kind,
+      _details: details,
+    });
+    setBusy(false);
+    if (error) {
+      toast.error(
+        t(
+          error.code === "23505"
+            ? "You already have an open request of this kind"
+            : "We couldn't send your request. Please try again."
+        )
+      );
+      return;
+    }
+    toast.success(t("Request received. We'll respond within 30 days."));
+    setDetails("");
+    onLodged();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("Your personal information")}</DialogTitle>
+          <DialogDescription>
+            {t("Under POPIA you may ask what we hold about you, have it corrected or have it deleted.")}
+          </DialogDescription>
+        </DialogHeader>
+        <RadioGroup
+          value={kind}
+          onValueChange={(value) => setKind(value as DataRequestKind)}
+          className="space-y-3"
+        >
+          {DATA_REQUEST_KINDS.map((k) => (
+            <div key={k.kind} className="flex items-start gap-2">
+              <RadioGroupItem value={k.kind} id={`data-request-${k.kind}`} className="mt-0.5" />
+              <Label htmlFor={`data-request-${k.kind}`} className="grid gap-1 font-normal">
+                <span className="font-medium">{t(k.label)}</span>
+                <span className="text-xs text-muted-foreground">{t(k.description)}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        <div className="grid gap-2">
+          <Label htmlFor="data-request-details">
+            {t(kind === "correction" ? "What should we correct?" : "Anything we should know? (optional)")}
+          </Label>
+          <Textarea
+            id="data-request-details"
+            rows={3}
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t("Cancel")}
+          </Button>
+          <Button
+            variant={kind === "deletion" ? "destructive" : "default"}
+            onClick={lodge}
+            disabled={busy || needsDetails}
+          >
+            {t("Send request")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** The applicant's POPIA requests about one application, and a way to make one. */
+export function DataRequests({
+  applicationId,
+  requests,
+  onChanged,
+}: {
+  applicationId: string;
+  requests: DataRequest[];
+  onChanged: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div>
+      <h3 className="mb-3 flex items-center gap-2 text-sm font-medium">
+        <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+        {t("Your personal information")}
+      </h3>
+      {requests.length > 0 && (
+        <ul className="mb-3 space-y-2 text-sm">
+          {requests.map((r) => (
+            <li key={r.id} className="rounded-md border p-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{t(kindLabel(r.kind))}</span>
+                <Badge variant={r.status === "open" ? "secondary" : "outline"}>
+                  {t(statusLabels[r.status])}
+                </Badge>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {r.status === "open"
+                  ? t("Sent {date} · we'll respond by {due}", {
+                      date: formatDate(r.created_at),
+                      due: formatDate(r.due_at),
+                    })
+                  : t("Sent {date} · closed {closed}", {
+                      date: formatDate(r.created_at),
+                      closed: formatDate(r.resolved_at ?? r.created_at),
+                    })}
+              </div>
+              {r.resolution && <p className="mt-1">{r.resolution}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        {t("Ask about your data")}
+      </Button>
+      <NewRequestDialog
+        applicationId={applicationId}
+        open={open}
+        onClose={() => setOpen(false)}
+        onLodged={() => {
+          setOpen(false);
+          onChanged();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Paperclip } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import type { DraftFileRef } from "@/lib/onboarding/draft";
+import { formatFileSize } from "@/lib/onboarding/files";
+
+/** Lists files from a restored draft that still need to be re-attached. */
+export function DraftFileNotice({ files }: { files: DraftFileRef[] }) {
+  const { t, locale } = useI18n();
+  if (files.length === 0) return null;
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-700">
+      <div className="font-medium">{t("Re-attach from your saved draft:")}</div>
+      <ul className="mt-1 space-y-1">
+        {files.map((f) => (
+          <li key={`${f.name}-${f.size}`} className="flex items-center gap-2">
+            <Paperclip className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">
+              {f.name} ({formatFileSize(f.size, locale)})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
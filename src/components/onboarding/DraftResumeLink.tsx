@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { useI18n } from "@/hooks/use-i18n";
+import { sendResumeLink } from "@/lib/onboarding/draft";
+
+/**
+ * Offers to email a link for continuing the draft on another device. When a
+ * draft another browser started already holds the address, the link is how
+ * the applicant gets back to it.
+ */
+export function DraftResumeLink({
+  email,
+  savedElsewhere,
+}: {
+  email: string;
+  savedElsewhere: boolean;
+}) {
+  const { t } = useI18n();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const send = async () => {
+    setBusy(true);
+    try {
+      await sendResumeLink(email);
+      setSentTo(email);
+      toast.success(t("We've emailed a link to {email}", { email }));
+    } catch {
+      toast.error(t("We couldn't send the link. Please try again."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <span className="block text-xs">
+      {savedElsewhere && <>{t("A draft for this email was saved on another device.")} </>}
+      <button
+        type="button"
+        className="underline underline-offset-2 hover:text-foreground disabled:no-underline"
+        disabled={busy || sentTo === email}
+        onClick={send}
+      >
+        {t(
+          sentTo === email
+            ? "Link sent"
+            : savedElsewhere
+              ? "Email me a link to continue it"
+              : "Continue on another device"
+        )}
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,249 @@
+import { useFormContext } from "react-hook-form";
+import { Plus, Truck, UserRound, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileField } from "@/components/onboarding/FileField";
+import { useI18n } from "@/hooks/use-i18n";
+import type { DraftFiles } from "@/lib/onboarding/draft";
+import {
+  DRIVER_DOCUMENTS,
+  emptyDriver,
+  LICENCE_CODES,
+  todayISO,
+  type FormValues,
+} from "@shared/onboarding/schema";
+
+const LICENCE_CODE_LABELS: Record<(typeof LICENCE_CODES)[number], string> = {
+  B: "Code B – light motor vehicle",
+  EB: "Code EB – light motor vehicle with trailer",
+  C1: "Code C1 – goods vehicle up to 16 000 kg",
+  EC1: "Code EC1 – C1 vehicle with trailer",
+  C: "Code C – goods vehicle over 16 000 kg",
+  EC: "Code EC – articulated vehicle",
+};
+
+// Select items can't have an empty value
+const OWNER_DRIVES = "owner";
+
+/**
+ * The drivers a fleet owner employs, and which of them drives each truck.
+ * Owners who drive their own trucks leave the roster empty.
+ */
+export function DriverRoster({ draftFiles }: { draftFiles: DraftFiles }) {
+  const { t } = useI18n();
+  const { control, watch, setValue, getValues } = useFormContext<FormValues>();
+  const drivers = watch("drivers") ?? [];
+  const trucks = watch("trucks") ?? [];
+
+  const driverName = (index: number) =>
+    drivers[index]?.fullName || t("Driver {number}", { number: index + 1 });
+
+  const addDriver = () =>
+    setValue("drivers", [...getValues("drivers"), emptyDriver()]);
+
+  // Trucks the removed driver was assigned to go back to the owner
+  const removeDriver = (index: number) => {
+    const removed = drivers[index];
+    setValue(
+      "drivers",
+      drivers.filter((_, i) => i !== index)
+    );
+    trucks.forEach((truck, i) => {
+      if (truck.driverId === removed.id) setValue(`trucks.${i}.driverId`, "");
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        {t(
+          "Add the drivers you employ so we can vet them too. If you drive your trucks yourself, you can skip this step."
+        )}
+      </p>
+
+      {drivers.map((driver, i) => (
+        <div
+          key={driver.id}
+          className="border rounded-lg p-4 sm:p-6 space-y-4 bg-background"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <h4 className="text-lg font-heading font-medium flex items-center gap-2">
+              <UserRound className="h-5 w-5 text-primary" />
+              {driverName(i)}
+            </h4>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeDriver(i)}
+              className="text-muted-foreground hover:text-destructive"
+            >
+              <X className="h-4 w-4" />
+              {t("Remove driver")}
+            </Button>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              name={`drivers.${i}.fullName`}
+              control={control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("Full name")}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name={`drivers.${i}.idNumber`}
+              control={control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("ID or passport number")}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name={`drivers.${i}.licenceCode`}
+              control={control}
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>{t("Licence code")}</FormLabel>
+                  <Select value={field.value ?? ""} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder={t("Select a licence code")} />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {LICENCE_CODES.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {t(LICENCE_CODE_LABELS[code])}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name={`drivers.${i}.prdpNumber`}
+              control={control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("PrDP number")}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name={`drivers.${i}.prdpExpiry`}
+              control={control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("PrDP expiry date")}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      min={todayISO()}
+                      value={field.value ?? ""}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {DRIVER_DOCUMENTS.map((doc) => (
+              <FileField
+                key={doc.key}
+                name={`drivers.${i}.${doc.key}`}
+                label={t(doc.label)}
+                accept=".pdf,.jpg,.jpeg,.png"
+                draftFiles={draftFiles[`drivers.${i}.${doc.key}`]}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" onClick={addDriver} className="gap-2">
+        <Plus className="h-4 w-4" />
+        {t("Add a driver")}
+      </Button>
+
+      {drivers.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-heading font-medium">
+            {t("Who drives each truck?")}
+          </h3>
+          {trucks.map((truck, i) => (
+            <FormField
+              key={i}
+              name={`trucks.${i}.driverId`}
+              control={control}
+              render={({ field }) => (
+                <FormItem className="grid gap-2 sm:grid-cols-2 sm:items-center">
+                  <FormLabel className="flex items-center gap-2">
+                    <Truck className="h-4 w-4 text-primary" />
+                    {truck.registrationNumber ||
+                      t("Truck {number}", { number: i + 1 })}
+                  </FormLabel>
+                  <Select
+                    value={field.value || OWNER_DRIVES}
+                    onValueChange={(v) =>
+                      field.onChange(v === OWNER_DRIVES ? "" : v)
+                    }
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={OWNER_DRIVES}>
+                        {t("I drive it myself")}
+                      </SelectItem>
+                      {drivers.map((d, j) => (
+                        <SelectItem key={d.id} value={d.id}>
+                          {driverName(j)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { DraftFileNotice } from "@/components/onboarding/DraftFileNotice";
+import { missingDraftFiles, type DraftFileRef } from "@/lib/onboarding/draft";
+import {
+  formatFileSize,
+  prepareFiles,
+  reportRejected,
+} from "@/lib/onboarding/files";
+import type { FieldName } from "@/lib/onboarding/wizard";
+import { useI18n } from "@/hooks/use-i18n";
+
+export function FileField({
+  name,
+  label,
+  accept,
+  draftFiles,
+}: {
+  name: FieldName;
+  label: string;
+  accept?: string;
+  draftFiles?: DraftFileRef[];
+}) {
+  const { t, locale } = useI18n();
+  return (
+    <FormField
+      name={name}
+      render={({ field, fieldState }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="file"
+              accept={accept}
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (!file) return field.onChange(undefined);
+                const { accepted, rejected } = await prepareFiles([file]);
+                reportRejected(rejected, t);
+                if (accepted[0]) field.onChange(accepted[0]);
+                else e.target.value = "";
+              }}
+            />
+          </FormControl>
+          <DraftFileNotice files={missingDraftFiles(draftFiles, field.value)} />
+          {field.value && (
+            <div className="mt-2 flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+              <span className="truncate">
+                {field.value?.name} ({formatFileSize(field.value.size, locale)})
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => field.onChange(undefined)}
+              >
+                {t("Clear")}
+              </Button>
+            </div>
+          )}
+          {fieldState.error && <FormMessage />}
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,204 @@
+import { useRef, useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { AlertTriangle, CheckCircle, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useI18n } from "@/hooks/use-i18n";
+import { readSpreadsheet, SpreadsheetError } from "@/lib/spreadsheet";
+import {
+  fleetTemplateCsv,
+  mergeFleet,
+  parseFleet,
+  type FleetImport as FleetImportResult,
+} from "@/lib/onboarding/fleet-import";
+import { MAX_TRUCKS, VEHICLE_TYPES, type FormValues } from "@shared/onboarding/schema";
+
+const downloadTemplate = () => {
+  const blob = new Blob([fleetTemplateCsv()], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "fleet-template.csv";
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Loads trucks from a filled-in copy of the fleet template. Nothing changes
+ * until every row is valid; the documents are still attached per truck.
+ */
+export function FleetImport({ onImported }: { onImported: () => void }) {
+  const { t } = useI18n();
+  const { getValues, setValue } = useFormContext<FormValues>();
+  const input = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<FleetImportResult | null>(null);
+
+  const merged = result ? mergeFleet(getValues("trucks"), result.trucks) : [];
+  const tooMany = merged.length > MAX_TRUCKS;
+
+  const reset = () => {
+    setFileName(null);
+    setResult(null);
+    if (input.current) input.current.value = "";
+  };
+
+  const choose = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      setFileName(file.name);
+      setResult(parseFleet(await readSpreadsheet(file)));
+    } catch (err) {
+      reset();
+      toast.error(
+        t(err instanceof SpreadsheetError ? err.message : "We couldn't read that file")
+      );
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const load = () => {
+    setValue("trucks", merged, { shouldDirty: true });
+    setValue("numberOfTrucks", merged.length, { shouldDirty: true });
+    toast.success(t("Imported {count} trucks", { count: result.trucks.length }));
+    onImported();
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          {t("Import trucks from a spreadsheet")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("Import your fleet")}</DialogTitle>
+          <DialogDescription>
+            {t(
+              "Fill in one row per truck in the template, save it as CSV or Excel (.xlsx) and choose it below. You'll still attach each truck's documents afterwards."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="text-muted-foreground">
+            {t("Vehicle types: {types}", {
+              types: VEHICLE_TYPES.map((v) => t(v)).join(", "),
+            })}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={downloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              {t("Download the template")}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={reading}
+              onClick={() => input.current?.click()}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {fileName ? t("Choose another file") : t("Choose a file")}
+            </Button>
+            <input
+              ref={input}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={(e) => choose(e.target.files?.[0])}
+            />
+          </div>
+
+          {result && result.errors.length === 0 && (
+            <div className="flex items-center gap-2 text-green-700">
+              <CheckCircle className="h-4 w-4" />
+              {t("{count} trucks are ready to import from {file}", {
+                count: result.trucks.length,
+                file: fileName,
+              })}
+            </div>
+          )}
+          {tooMany && (
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {t("That would make {count} trucks; the most we accept is {max}.", {
+                count: merged.length,
+                max: MAX_TRUCKS,
+              })}
+            </div>
+          )}
+          {result && result.errors.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {t("Fix these rows in your spreadsheet and choose it again.")}
+              </div>
+              <div className="max-h-64 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">{t("Row")}</TableHead>
+                      <TableHead>{t("Column")}</TableHead>
+                      <TableHead>{t("Problem")}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.errors.map((e, i) => (
+                      <TableRow key={i}>
+                        <TableCell>{e.row}</TableCell>
+                        <TableCell>{e.column ? t(e.column) : "—"}</TableCell>
+                        <TableCell>{t(e.message)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={load}
+            disabled={!result || result.errors.length > 0 || tooMany}
+          >
+            {t("Import {count} trucks", { count: result?.trucks.length ?? 0 })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
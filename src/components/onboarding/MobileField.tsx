@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { CheckCircle, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  isMobileVerified,
+  PhoneVerificationError,
+  sendPhoneCode,
+  verifyPhoneCode,
+} from "@/lib/onboarding/phone";
+import { PHONE_REGEX, type FormValues } from "@shared/onboarding/schema";
+
+const CODE_LENGTH = 6;
+
+/**
+ * The applicant's mobile number with an SMS one-time PIN to prove it's
+ * theirs. Changing the number after verifying it asks for a new code.
+ */
+export function MobileField() {
+  const { t } = useI18n();
+  const { control, watch, setValue, clearErrors } = useFormContext<FormValues>();
+  const mobile = watch("mobile");
+  const verified = isMobileVerified({
+    mobile,
+    mobileVerification: watch("mobileVerification"),
+  });
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [waitUntil, setWaitUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  const secondsLeft = Math.max(0, Math.ceil((waitUntil - now) / 1000));
+  useEffect(() => {
+    if (waitUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= waitUntil) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [waitUntil]);
+
+  const pending = codeSentTo !== null && codeSentTo === mobile && !verified;
+
+  const showError = (err: unknown) => {
+    if (err instanceof PhoneVerificationError) {
+      if (err.retryAfter) setWaitUntil(Date.now() + err.retryAfter * 1000);
+      toast.error(t(err.message, { seconds: err.retryAfter ?? 0 }));
+    } else {
+      toast.error(t("We couldn't send a code. Please try again."));
+    }
+  };
+
+  const sendCode = async () => {
+    setBusy(true);
+    try {
+      const retryAfter = await sendPhoneCode(mobile);
+      setCode("");
+      setCodeSentTo(mobile);
+      setNow(Date.now());
+      setWaitUntil(Date.now() + retryAfter * 1000);
+      toast.success(t("We've sent a code to {mobile}", { mobile }));
+    } catch (err) {
+      showError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyCode = async (value: string) => {
+    setBusy(true);
+    try {
+      const token = await verifyPhoneCode(mobile, value);
+      setValue("mobileVerification", { mobile, token });
+      clearErrors("mobile");
+      setCodeSentTo(null);
+    } catch (err) {
+      setCode("");
+      showError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <FormField
+      name="mobile"
+      control={control}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{t("Mobile")}</FormLabel>
+          <div className="flex gap-2">
+            <FormControl>
+              <Input
+                type="tel"
+                placeholder="0821234567"
+                autoComplete="tel"
+                {...field}
+              />
+            </FormControl>
+            {!verified && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={sendCode}
+                disabled={busy || secondsLeft > 0 || !PHONE_REGEX.test(mobile ?? "")}
+                className="shrink-0"
+              >
+                <MessageSquare className="h-4 w-4 mr-2" />
+                {secondsLeft > 0
+                  ? t("Resend in {seconds}s", { seconds: secondsLeft })
+                  : pending
+                    ? t("Send a new code")
+                    : t("Verify")}
+              </Button>
+            )}
+          </div>
+          {verified && (
+            <div className="flex items-center gap-1 text-xs text-green-700">
+              <CheckCircle className="h-3 w-3" />
+              {t("Number verified")}
+            </div>
+          )}
+          {pending && (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                {t("Enter the {length}-digit code we sent to {mobile}.", {
+                  length: CODE_LENGTH,
+                  mobile,
+                })}
+              </p>
+              <InputOTP
+                maxLength={CODE_LENGTH}
+                pattern={REGEXP_ONLY_DIGITS}
+                value={code}
+                onChange={setCode}
+                onComplete={verifyCode}
+                disabled={busy}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: CODE_LENGTH }, (_, i) => (
+                    <InputOTPSlot key={i} index={i} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
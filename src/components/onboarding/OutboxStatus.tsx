@@ -0,0 +1,76 @@
+import { CloudOff, Loader2, RefreshCcw, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import type { PendingSubmission } from "@/lib/onboarding/submit";
+
+/** Shown instead of the wizard while an application waits in the outbox. */
+export function WaitingToSend({
+  queued,
+  online,
+  sending,
+  onSendNow,
+}: {
+  queued: PendingSubmission[];
+  online: boolean;
+  sending: boolean;
+  onSendNow: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  return (
+    <div className="text-center py-12 space-y-6">
+      <div className="mx-auto w-16 h-16 bg-amber-100 rounded-full flex items-center justify-center">
+        {sending ? (
+          <Loader2 className="w-8 h-8 text-amber-700 animate-spin" />
+        ) : (
+          <CloudOff className="w-8 h-8 text-amber-700" />
+        )}
+      </div>
+      <div className="space-y-2">
+        <h3 className="text-2xl font-heading font-semibold">{t("Waiting to send")}</h3>
+        <p className="text-muted-foreground">
+          {sending
+            ? t("Sending your application now…")
+            : online
+              ? t("We couldn't reach our server. We'll keep trying, or you can try again now.")
+              : t(
+                  "Your application is saved on this device and will be sent automatically when you're back online. You can close this page; it will be sent next time you open it."
+                )}
+        </p>
+      </div>
+      <ul className="text-sm text-muted-foreground space-y-1">
+        {queued.map((submission) => (
+          <li key={submission.key}>
+            {t("{name}, queued {time}", {
+              name: submission.values.fullName || submission.values.email,
+              time: formatDate(submission.queuedAt ?? new Date(), {
+                dateStyle: "medium",
+                timeStyle: "short",
+              }),
+            })}
+          </li>
+        ))}
+      </ul>
+      {online && !sending && (
+        <Button variant="outline" onClick={onSendNow}>
+          <RefreshCcw className="h-4 w-4 mr-2" />
+          {t("Send now")}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/** A reminder above the wizard that answers are being kept on the device. */
+export function OfflineNotice() {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+      <WifiOff className="h-4 w-4 mt-0.5 shrink-0" />
+      <span>
+        {t(
+          "You're offline. Keep going – your answers and files are saved on this device, and your application will be sent once you're back online."
+        )}
+      </span>
+    </div>
+  );
+}
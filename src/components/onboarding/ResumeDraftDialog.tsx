@@ -0,0 +1,79 @@
+import { History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/hooks/use-i18n";
+import { filesToReattach, type OnboardingDraft } from "@/lib/onboarding/draft";
+
+// "5 minutes ago", "yesterday" – in the applicant's language
+function relativeTime(savedAt: number | string, locale: string) {
+  const seconds = Math.round((new Date(savedAt).getTime() - Date.now()) / 1000);
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ["day", 86400],
+    ["hour", 3600],
+    ["minute", 60],
+  ];
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  for (const [unit, size] of units) {
+    if (Math.abs(seconds) >= size) return format.format(Math.round(seconds / size), unit);
+  }
+  return format.format(seconds, "second");
+}
+
+export function ResumeDraftDialog({
+  draft,
+  stepTitle,
+  onResume,
+  onDiscard,
+}: {
+  draft: OnboardingDraft | null;
+  stepTitle?: string;
+  onResume: () => void;
+  onDiscard: () => void;
+}) {
+  const { t, locale } = useI18n();
+  const fileCount = draft ? filesToReattach(draft) : 0;
+
+  return (
+    <Dialog open={!!draft} onOpenChange={(open) => !open && onResume()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            {t("Resume where you left off?")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("We saved your application {when}.", {
+              when: draft?.savedAt ? relativeTime(draft.savedAt, locale) : "",
+            })}{" "}
+            {stepTitle && t("You were on the {step} step.", { step: stepTitle })}
+          </DialogDescription>
+        </DialogHeader>
+        {fileCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {t(
+              fileCount === 1
+                ? "1 file you attached is only kept on the device you started on, so we'll ask you to re-attach it."
+                : "{count} files you attached are only kept on the device you started on, so we'll ask you to re-attach them.",
+              { count: fileCount }
+            )}
+          </p>
+        )}
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="secondary" onClick={onDiscard}>
+            {t("Start over")}
+          </Button>
+          <Button type="button" onClick={onResume}>
+            {t("Resume")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
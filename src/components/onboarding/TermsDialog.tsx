@@ -0,0 +1,39 @@
+import type { ReactNode } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/hooks/use-i18n";
+import { termsParagraphs, type TermsVersion } from "@/lib/onboarding/terms";
+
+/** The full text of one version of the terms, opened from `trigger`. */
+export function TermsDialog({ terms, trigger }: { terms: TermsVersion; trigger: ReactNode }) {
+  const { t, formatDate } = useI18n();
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{terms.title}</DialogTitle>
+          <DialogDescription>
+            {t("Version {version}, published {date}", {
+              version: terms.version,
+              date: formatDate(terms.published_at),
+            })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 text-sm text-muted-foreground">
+          {termsParagraphs(terms.body).map((p, i) => (
+            <p key={i} className="whitespace-pre-line">
+              {p}
+            </p>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useFormContext } from "react-hook-form";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { TermsDialog } from "@/components/onboarding/TermsDialog";
+import { useI18n } from "@/hooks/use-i18n";
+import { fetchCurrentTerms } from "@/lib/onboarding/terms";
+import type { FormValues } from "@shared/onboarding/schema";
+
+/**
+ * Acceptance of the current Terms of Use. Ticking it records which version
+ * was shown; an acceptance of an older version, say from a draft started
+ * before new terms were published, is cleared so the new ones are read.
+ */
+export function TermsField() {
+  const { t } = useI18n();
+  const { control, watch, setValue } = useFormContext<FormValues>();
+  const [superseded, setSuperseded] = useState(false);
+  const { data: terms, isLoading, refetch } = useQuery({
+    queryKey: ["terms", "current"],
+    queryFn: fetchCurrentTerms,
+    staleTime: 10 * 60 * 1000,
+  });
+  const accepted = watch("acceptTerms") === "yes";
+  const acceptedVersion = watch("termsVersion");
+
+  useEffect(() => {
+    if (!terms || !accepted || acceptedVersion === terms.id) return;
+    setValue("acceptTerms", undefined);
+    setValue("termsVersion", undefined);
+    setSuperseded(true);
+  }, [terms, accepted, acceptedVersion, setValue]);
+
+  // A refetch that fails offline keeps the terms loaded earlier
+  if (!terms && isLoading) {
+    return (
+      <div className="col-span-2 flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {t("Loading the Terms of Use…")}
+      </div>
+    );
+  }
+
+  if (!terms) {
+    return (
+      <div className="col-span-2 space-y-1 text-sm">
+        <p className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {t("We couldn't load the Terms of Use. Check your connection and try again.")}
+        </p>
+        <Button type="button" variant="link" className="h-auto px-0" onClick={() => refetch()}>
+          {t("Try again")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <FormField
+      name="acceptTerms"
+      control={control}
+      render={({ field }) => (
+        <FormItem className="col-span-2">
+          {superseded && (
+            <p className="text-sm text-amber-700">
+              {t("Our Terms of Use were updated since you accepted them. Please read and accept the new version.")}
+            </p>
+          )}
+          <FormControl>
+            <RadioGroup
+              value={field.value ?? ""}
+              onValueChange={(value) => {
+                setValue("termsVersion", terms.id);
+                field.onChange(value);
+              }}
+              className="space-y-3"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="yes" id="acceptTerms-yes" />
+                <Label htmlFor="acceptTerms-yes" className="text-sm">
+                  {t("Accept Terms of Use")}
+                </Label>
+              </div>
+            </RadioGroup>
+          </FormControl>
+          <div className="mt-2">
+            <TermsDialog
+              terms={terms}
+              trigger={
+                <Button variant="link" type="button" className="px-0 h-auto text-xs">
+                  {t("View {title}", { title: terms.title })} ({t("version {version}", { version: terms.version })})
+                </Button>
+              }
+            />
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
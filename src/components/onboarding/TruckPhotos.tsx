@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useRef } from "react";
+import { useFormContext, type FieldError } from "react-hook-form";
+import { Camera, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { FormField, FormItem } from "@/components/ui/form";
+import { DraftFileNotice } from "@/components/onboarding/DraftFileNotice";
+import { useI18n } from "@/hooks/use-i18n";
+import { isAttached } from "@/lib/onboarding/corrections";
+import { missingDraftFiles, type DraftFiles } from "@/lib/onboarding/draft";
+import { prepareFiles, reportRejected, sniffFileKind } from "@/lib/onboarding/files";
+import { captureTime } from "@/lib/onboarding/photos";
+import { TRUCK_PHOTOS, type FormValues } from "@shared/onboarding/schema";
+
+type Shot = (typeof TRUCK_PHOTOS)[number];
+
+// A new photo is previewed from memory. One kept from a previous version
+// isn't: stored documents can only be opened by reviewers.
+function Thumbnail({ file, alt }: { file: unknown; alt: string }) {
+  const src = useMemo(
+    () => (file instanceof File ? URL.createObjectURL(file) : null),
+    [file]
+  );
+  useEffect(
+    () => () => {
+      if (src) URL.revokeObjectURL(src);
+    },
+    [src]
+  );
+  if (!src) return null;
+  return <img src={src} alt={alt} className="aspect-[4/3] w-full rounded-md object-cover" />;
+}
+
+function PhotoSlot({
+  shot,
+  truckIndex,
+  draftFiles,
+}: {
+  shot: Shot;
+  truckIndex: number;
+  draftFiles: DraftFiles;
+}) {
+  const { t, locale } = useI18n();
+  const { control } = useFormContext<FormValues>();
+  const input = useRef<HTMLInputElement>(null);
+  const name = `trucks.${truckIndex}.photos.${shot.key}` as const;
+
+  return (
+    <FormField
+      name={name}
+      control={control}
+      render={({ field, fieldState }) => {
+        const photo = field.value;
+        const taken = isAttached(photo?.file);
+        // A photo restored from a draft keeps its time but not its file, so
+        // the error is reported on .file
+        const error = fieldState.error as (FieldError & { file?: FieldError }) | undefined;
+        const message = error?.message ?? error?.file?.message;
+
+        const take = async (file: File | undefined) => {
+          if (!file) return;
+          if ((await sniffFileKind(file)) === "pdf") {
+            toast.error(`${file.name}: ${t("Take or choose a photo")}`);
+            return;
+          }
+          // Read before prepareFiles compresses the photo and drops its EXIF
+          const time = await captureTime(file);
+          const { accepted, rejected } = await prepareFiles([file]);
+          reportRejected(rejected, t);
+          if (accepted[0]) field.onChange({ file: accepted[0], ...time });
+        };
+
+        return (
+          <FormItem className="space-y-2 rounded-md border p-3">
+            <div>
+              <div className="text-sm font-medium">{t(shot.label)}</div>
+              <p className="text-xs text-muted-foreground">{t(shot.hint)}</p>
+            </div>
+            {taken ? (
+              <>
+                <Thumbnail file={photo.file} alt={t(shot.label)} />
+                <div className="text-xs text-muted-foreground">
+                  {t(
+                    photo.source === "exif"
+                      ? "Taken {time}"
+                      : "Added {time} (time from this device)",
+                    {
+                      time: new Date(photo.takenAt).toLocaleString(locale, {
+                        dateStyle: "medium",
+                        timeStyle: "short",
+                      }),
+                    }
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="flex aspect-[4/3] items-center justify-center rounded-md bg-muted text-muted-foreground">
+                <Camera className="h-8 w-8" />
+              </div>
+            )}
+            <DraftFileNotice
+              files={missingDraftFiles(
+                draftFiles[`${name}.file`],
+                photo?.file
+              )}
+            />
+            <Button
+              type="button"
+              variant={taken ? "ghost" : "secondary"}
+              size="sm"
+              className="w-full"
+              onClick={() => input.current?.click()}
+            >
+              {taken ? (
+                <RotateCcw className="h-4 w-4 mr-2" />
+              ) : (
+                <Camera className="h-4 w-4 mr-2" />
+              )}
+              {taken ? t("Retake") : t("Take photo")}
+            </Button>
+            {/* capture opens the rear camera on phones; desktops get a file picker */}
+            <input
+              ref={input}
+              type="file"
+              accept="image/jpeg,image/png"
+              capture="environment"
+              className="hidden"
+              onChange={async (e) => {
+                await take(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            {message && (
+              <p className="text-sm font-medium text-destructive">{message}</p>
+            )}
+          </FormItem>
+        );
+      }}
+    />
+  );
+}
+
+/** The set of photos each truck needs, one slot per required angle. */
+export function TruckPhotos({
+  truckIndex,
+  draftFiles,
+}: {
+  truckIndex: number;
+  draftFiles: DraftFiles;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-sm font-medium">{t("Truck Photos")}</div>
+        <p className="text-xs text-muted-foreground">
+          {t("Take each photo in good light, standing back far enough to fit the whole view.")}
+        </p>
+      </div>
+      <div className="grid gap-3 grid-cols-2 sm:grid-cols-3">
+        {TRUCK_PHOTOS.map((shot) => (
+          <PhotoSlot
+            key={`${truckIndex}-${shot.key}`}
+            shot={shot}
+            truckIndex={truckIndex}
+            draftFiles={draftFiles}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
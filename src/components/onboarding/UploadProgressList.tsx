@@ -0,0 +1,63 @@
+import { AlertCircle, CheckCircle, FileText, Loader2, RotateCw } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { useI18n } from "@/hooks/use-i18n";
+import type { UploadProgress } from "@/lib/onboarding/uploads";
+
+export function UploadProgressList({
+  uploads,
+}: {
+  uploads: Record<string, UploadProgress>;
+}) {
+  const { t, formatNumber } = useI18n();
+  const entries = Object.entries(uploads);
+  if (entries.length === 0) return null;
+
+  const done = entries.filter(([, u]) => u.status === "done").length;
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/20 p-4">
+      <div className="flex items-center justify-between text-sm font-medium">
+        <span>{t("Uploading documents")}</span>
+        <span className="text-muted-foreground">
+          {t("{done} of {total}", { done, total: entries.length })}
+        </span>
+      </div>
+      <ul className="space-y-3 max-h-60 overflow-y-auto">
+        {entries.map(([path, u]) => {
+          const pct = u.total > 0 ? Math.round((u.loaded / u.total) * 100) : 0;
+          return (
+            <li key={path} className="space-y-1">
+              <div className="flex items-center gap-2 text-sm">
+                {u.status === "done" ? (
+                  <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-600" />
+                ) : u.status === "error" ? (
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />
+                ) : u.status === "retrying" ? (
+                  <RotateCw className="h-4 w-4 flex-shrink-0 animate-spin text-amber-600" />
+                ) : u.status === "uploading" ? (
+                  <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-primary" />
+                ) : (
+                  <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                )}
+                <span className="truncate flex-1">{u.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {u.status === "error"
+                    ? t("Failed")
+                    : u.status === "retrying"
+                    ? t("Retrying…")
+                    : u.status === "queued"
+                    ? t("Waiting")
+                    : formatNumber(pct / 100, { style: "percent" })}
+                </span>
+              </div>
+              <Progress value={pct} className="h-2" />
+              {u.error && (
+                <div className="text-xs text-destructive">{u.error}</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { FileField } from "@/components/onboarding/FileField";
+import { useI18n } from "@/hooks/use-i18n";
+import type { DraftFiles } from "@/lib/onboarding/draft";
+import type {
+  CustomFieldKey,
+  FieldDefinition,
+} from "@/lib/onboarding/wizard";
+
+export type CustomFieldRenderers = Partial<Record<CustomFieldKey, () => ReactNode>>;
+
+const invalidClass = "border-destructive focus-visible:ring-destructive";
+
+/** Renders one field of a wizard step from its definition. */
+export function WizardField({
+  field: def,
+  custom,
+  draftFiles,
+}: {
+  field: FieldDefinition;
+  custom: CustomFieldRenderers;
+  draftFiles: DraftFiles;
+}) {
+  const { t } = useI18n();
+  const span = def.fullWidth ? "sm:col-span-2" : undefined;
+  const label = def.label && t(def.label);
+
+  switch (def.kind) {
+    case "custom":
+      return <>{custom[def.component]?.()}</>;
+
+    case "file":
+      return (
+        <FileField
+          name={def.name}
+          label={label}
+          accept={def.accept}
+          draftFiles={draftFiles[def.name]}
+        />
+      );
+
+    case "select":
+      return (
+        <FormField
+          name={def.name}
+          render={({ field }) => (
+            <FormItem className={span}>
+              <FormLabel>{label}</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t(def.placeholder ?? "Select")} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {def.options.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>
+                      {t(o.label)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      );
+
+    case "radio":
+      return (
+        <FormField
+          name={def.name}
+          render={({ field }) => (
+            <FormItem className={def.fullWidth ? "col-span-2" : undefined}>
+              <FormLabel>{label}</FormLabel>
+              <FormControl>
+                <RadioGroup
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  className="flex gap-6 mt-2"
+                >
+                  {def.options.map((o) => (
+                    <div key={o.value} className="flex items-center space-x-2">
+                      <RadioGroupItem value={o.value} id={`${def.name}-${o.value}`} />
+                      <Label htmlFor={`${def.name}-${o.value}`}>{t(o.label)}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      );
+
+    case "consent":
+      return (
+        <FormField
+          name={def.name}
+          render={({ field }) => (
+            <FormItem className="col-span-2">
+              <FormControl>
+                <RadioGroup
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  className="space-y-3"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="yes" id={`${def.name}-yes`} />
+                    <Label htmlFor={`${def.name}-yes`} className="text-sm">
+                      {label}
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </FormControl>
+              {def.details && (
+                <div className="mt-2">
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="link"
+                        type="button"
+                        className="px-0 h-auto text-xs"
+                      >
+                        {t("View {title}", { title: t(def.details.title) })}
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>{t(def.details.title)}</DialogTitle>
+                      </DialogHeader>
+                      <div className="space-y-3 text-sm text-muted-foreground">
+                        {def.details.paragraphs.map((p) => (
+                          <p key={p}>{t(p)}</p>
+                        ))}
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                </div>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      );
+
+    default:
+      return (
+        <FormField
+          name={def.name}
+          render={({ field, fieldState }) => (
+            <FormItem className={span}>
+              <FormLabel>{label}</FormLabel>
+              <FormControl>
+                <Input
+                  type={def.kind}
+                  placeholder={def.placeholder}
+                  autoComplete={def.autoComplete}
+                  inputMode={def.inputMode}
+                  className={fieldState.invalid ? invalidClass : undefined}
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      );
+  }
+}
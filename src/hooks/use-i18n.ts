@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { Language, Params } from "@/lib/i18n";
+
+export type I18nContextValue = {
+  language: Language;
+  locale: string;
+  setLanguage: (language: Language) => void;
+  t: (text: string, params?: Params) => string;
+  formatDate: (date: Date | string, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+};
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used within an I18nProvider");
+  return context;
+}
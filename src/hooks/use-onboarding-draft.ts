@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import { z } from "zod";
+import { defaultValues, type FormValues } from "@shared/onboarding/schema";
+import {
+  clearLocalDraft,
+  deleteServerDraft,
+  loadLocalDraft,
+  loadServerDraft,
+  saveLocalDraft,
+  saveServerDraft,
+  signedInEmail,
+  splitDraftFiles,
+  type DraftFiles,
+  type OnboardingDraft,
+} from "@/lib/onboarding/draft";
+
+const LOCAL_SAVE_DELAY = 400;
+const SERVER_SAVE_DELAY = 3000;
+
+const isEmail = (value: unknown): value is string =>
+  z.string().email().safeParse(value).success;
+
+type Options = {
+  step: number;
+  currentTruckIndex: number;
+  onRestore: (draft: OnboardingDraft) => void;
+  // Off while correcting a submitted application, which isn't a draft
+  enabled?: boolean;
+};
+
+export function useOnboardingDraft(
+  methods: UseFormReturn<FormValues>,
+  { step, currentTruckIndex, onRestore, enabled = true }: Options
+) {
+  // Draft found on load, waiting for the applicant to resume or discard it.
+  const [pendingDraft, setPendingDraft] = useState<OnboardingDraft | null>(
+    null
+  );
+  // Files attached in the restored draft that still need re-attaching.
+  const [draftFiles, setDraftFiles] = useState<DraftFiles>({});
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  // The address the server copy is saved under, and whether a draft another
+  // browser started holds it, in which case this one isn't saved there
+  const [serverDraft, setServerDraft] = useState<{
+    email: string;
+    savedElsewhere: boolean;
+  } | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const position = useRef({ step, currentTruckIndex });
+  position.current = { step, currentTruckIndex };
+  const draftFilesRef = useRef(draftFiles);
+  draftFilesRef.current = draftFiles;
+  const localTimer = useRef<ReturnType<typeof setTimeout>>();
+  const serverTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!enabled) {
+        setReady(true);
+        return;
+      }
+      const local = await loadLocalDraft();
+      if (cancelled) return;
+      if (local) {
+        setPendingDraft(local);
+        setReady(true);
+      }
+
+      // The server copy wins if another tab or device saved more recently.
+      // With nothing on this device, a signed-in applicant (say, one who
+      // followed the emailed link) gets the draft saved under their address.
+      const email = local ? local.values.email : await signedInEmail();
+      if (isEmail(email)) {
+        try {
+          const remote = await loadServerDraft(email);
+          if (!cancelled && remote && (!local || remote.savedAt > local.savedAt)) {
+            setPendingDraft(remote);
+          }
+        } catch (err) {
+          console.warn("Could not load server draft", err);
+        }
+      }
+      if (!cancelled) setReady(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const save = useCallback(() => {
+    const current = methods.getValues();
+    const { values, files } = splitDraftFiles(current);
+    const draft: OnboardingDraft = {
+      values,
+      files: { ...draftFilesRef.current, ...files },
+      ...position.current,
+      savedAt: new Date().toISOString(),
+    };
+
+    clearTimeout(localTimer.current);
+    localTimer.current = setTimeout(async () => {
+      // IndexedDB can hold the files themselves
+      await saveLocalDraft({ ...draft, values: current });
+      setLastSavedAt(draft.savedAt);
+    }, LOCAL_SAVE_DELAY);
+
+    if (isEmail(values.email)) {
+      const email = values.email;
+      clearTimeout(serverTimer.current);
+      serverTimer.current = setTimeout(() => {
+        saveServerDraft(email, draft)
+          .then((saved) => setServerDraft({ email, savedElsewhere: !saved }))
+          .catch((err) => console.warn("Could not save server draft", err));
+      }, SERVER_SAVE_DELAY);
+    }
+  }, [methods]);
+
+  // Autosave only once the resume prompt has been answered, so an untouched
+  // form never overwrites a saved draft.
+  const autosave = enabled && ready && !pendingDraft;
+
+  useEffect(() => {
+    if (!autosave) return;
+    const subscription = methods.watch(() => save());
+    return () => subscription.unsubscribe();
+  }, [autosave, methods, save]);
+
+  const hasMoved = useRef(false);
+  useEffect(() => {
+    if (!autosave) return;
+    if (!hasMoved.current) {
+      hasMoved.current = true;
+      return;
+    }
+    save();
+  }, [autosave, step, currentTruckIndex, save]);
+
+  useEffect(
+    () => () => {
+      clearTimeout(localTimer.current);
+      clearTimeout(serverTimer.current);
+    },
+    []
+  );
+
+  const resume = useCallback(() => {
+    if (!pendingDraft) return;
+    methods.reset({ ...defaultValues, ...pendingDraft.values });
+    setDraftFiles(pendingDraft.files || {});
+    onRestore(pendingDraft);
+    setPendingDraft(null);
+  }, [methods, onRestore, pendingDraft]);
+
+  const clear = useCallback(async (email?: string) => {
+    clearTimeout(localTimer.current);
+    clearTimeout(serverTimer.current);
+    await clearLocalDraft();
+    setDraftFiles({});
+    setLastSavedAt(null);
+    setServerDraft(null);
+    if (isEmail(email)) {
+      await deleteServerDraft(email).catch((err) =>
+        console.warn("Could not delete server draft", err)
+      );
+    }
+  }, []);
+
+  const discard = useCallback(() => {
+    const email = pendingDraft?.values.email;
+    setPendingDraft(null);
+    clear(email);
+  }, [clear, pendingDraft]);
+
+  return {
+    pendingDraft,
+    draftFiles,
+    lastSavedAt,
+    serverDraft,
+    resume,
+    discard,
+    clear,
+  };
+}
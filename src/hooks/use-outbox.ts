@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  isConnectionError,
+  sendApplication,
+  type PendingSubmission,
+} from "@/lib/onboarding/submit";
+import {
+  loadOutbox,
+  removeFromOutbox,
+  saveToOutbox,
+} from "@/lib/onboarding/outbox";
+
+type Options = {
+  onSent: (submission: PendingSubmission) => void;
+  // The server turned the submission down, so it left the outbox
+  onRejected: (submission: PendingSubmission, err: unknown) => void;
+};
+
+/**
+ * Queued submissions, sent one after another whenever the page opens or the
+ * device comes back online.
+ */
+export function useOutbox({ onSent, onRejected }: Options) {
+  const [queued, setQueued] = useState<PendingSubmission[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [sending, setSending] = useState(false);
+  const busy = useRef(false);
+  const callbacks = useRef({ onSent, onRejected });
+  callbacks.current = { onSent, onRejected };
+
+  const flush = useCallback(async () => {
+    if (busy.current || !navigator.onLine) return;
+    busy.current = true;
+    setSending(true);
+    try {
+      for (const submission of await loadOutbox()) {
+        try {
+          await sendApplication(submission);
+          await removeFromOutbox(submission);
+          callbacks.current.onSent(submission);
+        } catch (err) {
+          if (isConnectionError(err)) {
+            // Keep the uploads that made it before the connection dropped
+            await saveToOutbox(submission);
+            break;
+          }
+          await removeFromOutbox(submission);
+          callbacks.current.onRejected(submission, err);
+        }
+      }
+    } finally {
+      busy.current = false;
+      setSending(false);
+      setQueued(await loadOutbox());
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOutbox().then((items) => {
+      setQueued(items);
+      if (items.length > 0) flush();
+    });
+    const goOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [flush]);
+
+  const queue = useCallback(async (submission: PendingSubmission) => {
+    await saveToOutbox({ ...submission, queuedAt: new Date().toISOString() });
+    setQueued(await loadOutbox());
+  }, []);
+
+  return { queued, online, sending, queue, flush };
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { signedDocumentUrl } from "@/lib/onboarding/uploads";
+
+/**
+ * A link to a stored document, signed on demand and re-signed well before
+ * it expires. Undefined while signing, or when signing isn't allowed.
+ */
+export function useSignedUrl(path: string | null | undefined) {
+  const { data } = useQuery({
+    queryKey: ["signed-url", path],
+    queryFn: () => signedDocumentUrl(path as string),
+    enabled: !!path,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+  return data;
+}
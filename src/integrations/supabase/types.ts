@@ -14,39 +14,847 @@ export type Database = {
   }
   public: {
     Tables: {
+      application_banking: {
+        Row: {
+          account_number_last4: string | null
+          application_id: string
+          details: string
+          updated_at: string
+        }
+        Insert: {
+          account_number_last4?: string | null
+          application_id: string
+          details: string
+          updated_at?: string
+        }
+        Update: {
+          account_number_last4?: string | null
+          application_id?: string
+          details?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_banking_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: true
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_cross_border_countries: {
+        Row: {
+          application_id: string
+          country_code: string
+        }
+        Insert: {
+          application_id: string
+          country_code: string
+        }
+        Update: {
+          application_id?: string
+          country_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_cross_border_countries_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_documents: {
+        Row: {
+          application_id: string
+          capture_source: string | null
+          captured_at: string | null
+          content_type: string | null
+          created_at: string
+          driver_index: number | null
+          file_name: string
+          id: string
+          kind: string
+          photo_shot: string | null
+          size_bytes: number
+          storage_path: string
+          superseded_at: string | null
+          truck_index: number | null
+        }
+        Insert: {
+          application_id: string
+          capture_source?: string | null
+          captured_at?: string | null
+          content_type?: string | null
+          created_at?: string
+          driver_index?: number | null
+          file_name: string
+          id?: string
+          kind: string
+          photo_shot?: string | null
+          size_bytes: number
+          storage_path: string
+          superseded_at?: string | null
+          truck_index?: number | null
+        }
+        Update: {
+          application_id?: string
+          capture_source?: string | null
+          captured_at?: string | null
+          content_type?: string | null
+          created_at?: string
+          driver_index?: number | null
+          file_name?: string
+          id?: string
+          kind?: string
+          photo_shot?: string | null
+          size_bytes?: number
+          storage_path?: string
+          superseded_at?: string | null
+          truck_index?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_documents_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_drivers: {
+        Row: {
+          application_id: string
+          created_at: string
+          driver_key: string
+          full_name: string
+          id: string
+          id_document_path: string | null
+          id_number: string
+          licence_code: string
+          licence_document_path: string | null
+          prdp_expires_on: string
+          prdp_number: string
+          truck_indexes: number[]
+          updated_at: string
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          driver_key: string
+          full_name: string
+          id?: string
+          id_document_path?: string | null
+          id_number: string
+          licence_code: string
+          licence_document_path?: string | null
+          prdp_expires_on: string
+          prdp_number: string
+          truck_indexes?: number[]
+          updated_at?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          driver_key?: string
+          full_name?: string
+          id?: string
+          id_document_path?: string | null
+          id_number?: string
+          licence_code?: string
+          licence_document_path?: string | null
+          prdp_expires_on?: string
+          prdp_number?: string
+          truck_indexes?: number[]
+          updated_at?: string
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_drivers_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_erasures: {
+        Row: {
+          application_id: string
+          document_count: number
+          erased_at: string
+          erased_by: string | null
+          id: string
+          reference: string
+          request_id: string | null
+          status_at_erasure: Database["public"]["Enums"]["app_status"]
+          submitted_at: string
+        }
+        Insert: {
+          application_id: string
+          document_count?: number
+          erased_at?: string
+          erased_by?: string | null
+          id?: string
+          reference: string
+          request_id?: string | null
+          status_at_erasure: Database["public"]["Enums"]["app_status"]
+          submitted_at: string
+        }
+        Update: {
+          application_id?: string
+          document_count?: number
+          erased_at?: string
+          erased_by?: string | null
+          id?: string
+          reference?: string
+          request_id?: string | null
+          status_at_erasure?: Database["public"]["Enums"]["app_status"]
+          submitted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_erasures_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "data_subject_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_events: {
+        Row: {
+          actor_id: string | null
+          application_id: string
+          created_at: string
+          id: string
+          previous_status: Database["public"]["Enums"]["app_status"] | null
+          status: Database["public"]["Enums"]["app_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          application_id: string
+          created_at?: string
+          id?: string
+          previous_status?: Database["public"]["Enums"]["app_status"] | null
+          status: Database["public"]["Enums"]["app_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          application_id?: string
+          created_at?: string
+          id?: string
+          previous_status?: Database["public"]["Enums"]["app_status"] | null
+          status?: Database["public"]["Enums"]["app_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_events_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_lanes: {
+        Row: {
+          application_id: string
+          created_at: string
+          destination: string
+          id: string
+          origin: string
+          position: number
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          destination: string
+          id?: string
+          origin: string
+          position: number
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          destination?: string
+          id?: string
+          origin?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_lanes_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_requests: {
+        Row: {
+          application_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          items: string[]
+          message: string
+          notified_at: string | null
+          resolved_at: string | null
+          token: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          items?: string[]
+          message: string
+          notified_at?: string | null
+          resolved_at?: string | null
+          token?: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          items?: string[]
+          message?: string
+          notified_at?: string | null
+          resolved_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_requests_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_service_areas: {
+        Row: {
+          application_id: string
+          city: string | null
+          created_at: string
+          id: string
+          province: string
+        }
+        Insert: {
+          application_id: string
+          city?: string | null
+          created_at?: string
+          id?: string
+          province: string
+        }
+        Update: {
+          application_id?: string
+          city?: string | null
+          created_at?: string
+          id?: string
+          province?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_service_areas_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_versions: {
+        Row: {
+          application_id: string
+          id: string
+          payload: Json
+          replaced_at: string
+          submitted_at: string
+          version: number
+        }
+        Insert: {
+          application_id: string
+          id?: string
+          payload: Json
+          replaced_at?: string
+          submitted_at: string
+          version: number
+        }
+        Update: {
+          application_id?: string
+          id?: string
+          payload?: Json
+          replaced_at?: string
+          submitted_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_versions_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      banking_access_log: {
+        Row: {
+          accessed_at: string
+          accessed_by: string | null
+          accessed_by_email: string | null
+          application_id: string
+          id: string
+          reason: string
+        }
+        Insert: {
+          accessed_at?: string
+          accessed_by?: string | null
+          accessed_by_email?: string | null
+          application_id: string
+          id?: string
+          reason: string
+        }
+        Update: {
+          accessed_at?: string
+          accessed_by?: string | null
+          accessed_by_email?: string | null
+          application_id?: string
+          id?: string
+          reason?: string
+        }
+        Relationships: []
+      }
+      consent_records: {
+        Row: {
+          application_id: string
+          granted: boolean
+          id: string
+          language: string | null
+          recorded_at: string
+          scope: string
+          source: string
+          terms_version_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          application_id: string
+          granted?: boolean
+          id?: string
+          language?: string | null
+          recorded_at?: string
+          scope: string
+          source: string
+          terms_version_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          application_id?: string
+          granted?: boolean
+          id?: string
+          language?: string | null
+          recorded_at?: string
+          scope?: string
+          source?: string
+          terms_version_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consent_records_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consent_records_terms_version_id_fkey"
+            columns: ["terms_version_id"]
+            isOneToOne: false
+            referencedRelation: "terms_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_subject_requests: {
+        Row: {
+          application_id: string
+          created_at: string
+          details: string | null
+          due_at: string
+          id: string
+          kind: string
+          reference: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          details?: string | null
+          due_at?: string
+          id?: string
+          kind: string
+          reference: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          details?: string | null
+          due_at?: string
+          id?: string
+          kind?: string
+          reference?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      document_expiries: {
+        Row: {
+          application_id: string
+          created_at: string
+          document_path: string | null
+          document_type: Database["public"]["Enums"]["truck_document_type"]
+          expires_on: string
+          id: string
+          registration_number: string | null
+          truck_index: number
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          document_path?: string | null
+          document_type: Database["public"]["Enums"]["truck_document_type"]
+          expires_on: string
+          id?: string
+          registration_number?: string | null
+          truck_index: number
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          document_path?: string | null
+          document_type?: Database["public"]["Enums"]["truck_document_type"]
+          expires_on?: string
+          id?: string
+          registration_number?: string | null
+          truck_index?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_expiries_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "onboarding_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      eligibility_attempts: {
+        Row: {
+          created_at: string
+          failed_rule_ids: string[]
+          id: string
+          results: Json
+          source: string
+          step: string | null
+        }
+        Insert: {
+          created_at?: string
+          failed_rule_ids?: string[]
+          id?: string
+          results: Json
+          source: string
+          step?: string | null
+        }
+        Update: {
+          created_at?: string
+          failed_rule_ids?: string[]
+          id?: string
+          results?: Json
+          source?: string
+          step?: string | null
+        }
+        Relationships: []
+      }
+      eligibility_rules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          kind: string
+          message: string
+          params: Json
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          kind: string
+          message: string
+          params?: Json
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          kind?: string
+          message?: string
+          params?: Json
+          position?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       onboarding_applications: {
         Row: {
+          address_city: string | null
+          address_postal_code: string | null
+          address_province: string | null
+          address_street: string | null
+          address_suburb: string | null
           applicant_name: string | null
+          citizenship: string | null
+          date_of_birth: string | null
+          eligibility_results: Json
           email: string | null
+          gender: string | null
           id: string
+          id_type: string | null
           payload: Json
           phone: string | null
+          phone_verified_at: string | null
+          preferred_language: string
+          province_mismatch: boolean
           status: Database["public"]["Enums"]["app_status"]
           submitted_at: string
           updated_at: string
           user_id: string | null
+          version: number
         }
         Insert: {
+          address_city?: string | null
+          address_postal_code?: string | null
+          address_province?: string | null
+          address_street?: string | null
+          address_suburb?: string | null
           applicant_name?: string | null
+          citizenship?: string | null
+          date_of_birth?: string | null
+          eligibility_results?: Json
           email?: string | null
+          gender?: string | null
           id?: string
+          id_type?: string | null
           payload?: Json
           phone?: string | null
+          phone_verified_at?: string | null
+          preferred_language?: string
+          province_mismatch?: boolean
           status?: Database["public"]["Enums"]["app_status"]
           submitted_at?: string
           updated_at?: string
           user_id?: string | null
+          version?: number
         }
         Update: {
+          address_city?: string | null
+          address_postal_code?: string | null
+          address_province?: string | null
+          address_street?: string | null
+          address_suburb?: string | null
           applicant_name?: string | null
+          citizenship?: string | null
+          date_of_birth?: string | null
+          eligibility_results?: Json
           email?: string | null
+          gender?: string | null
           id?: string
+          id_type?: string | null
           payload?: Json
           phone?: string | null
+          phone_verified_at?: string | null
+          preferred_language?: string
+          province_mismatch?: boolean
           status?: Database["public"]["Enums"]["app_status"]
           submitted_at?: string
           updated_at?: string
           user_id?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      onboarding_drafts: {
+        Row: {
+          created_at: string
+          current_truck_index: number
+          email: string
+          files: Json
+          form_values: Json
+          resume_token: string
+          step: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          current_truck_index?: number
+          email: string
+          files?: Json
+          form_values?: Json
+          resume_token: string
+          step?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          current_truck_index?: number
+          email?: string
+          files?: Json
+          form_values?: Json
+          resume_token?: string
+          step?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      onboarding_events: {
+        Row: {
+          created_at: string
+          detail: string | null
+          field: string | null
+          id: string
+          kind: string
+          session_id: string
+          step: string | null
+        }
+        Insert: {
+          created_at?: string
+          detail?: string | null
+          field?: string | null
+          id?: string
+          kind: string
+          session_id: string
+          step?: string | null
+        }
+        Update: {
+          created_at?: string
+          detail?: string | null
+          field?: string | null
+          id?: string
+          kind?: string
+          session_id?: string
+          step?: string | null
+        }
+        Relationships: []
+      }
+      phone_verification_requests: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          ip: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          ip: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          ip?: string
+        }
+        Relationships: []
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          expires_at: string
+          id: string
+          phone: string
+          verified_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          phone: string
+          verified_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          phone?: string
+          verified_at?: string | null
+        }
+        Relationships: []
+      }
+      terms_versions: {
+        Row: {
+          body: string
+          change_summary: string | null
+          id: string
+          published_at: string
+          published_by: string | null
+          title: string
+          version: number
+        }
+        Insert: {
+          body: string
+          change_summary?: string | null
+          id?: string
+          published_at?: string
+          published_by?: string | null
+          title: string
+          version: number
+        }
+        Update: {
+          body?: string
+          change_summary?: string | null
+          id?: string
+          published_at?: string
+          published_by?: string | null
+          title?: string
+          version?: number
         }
         Relationships: []
       }
@@ -73,6 +881,63 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_terms: {
+        Args: {
+          _application_id: string
+          _language: string
+          _terms_version_id: string
+          _user_agent: string
+        }
+        Returns: undefined
+      }
+      allow_phone_verification_request: {
+        Args: { _action: string; _ip: string; _per_hour: number }
+        Returns: boolean
+      }
+      banking_key: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      can_reveal_banking: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      claim_onboarding_applications: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      decrypt_application_banking: {
+        Args: { _application_id: string }
+        Returns: Json
+      }
+      delete_onboarding_draft: {
+        Args: { _email: string; _resume_token: string }
+        Returns: undefined
+      }
+      erase_application: {
+        Args: { _request_id: string }
+        Returns: undefined
+      }
+      get_info_request: {
+        Args: { _token: string }
+        Returns: {
+          application_id: string
+          items: string[]
+          message: string
+          payload: Json
+          request_id: string
+        }[]
+      }
+      get_onboarding_draft: {
+        Args: { _email: string; _resume_token: string }
+        Returns: {
+          current_truck_index: number
+          files: Json
+          form_values: Json
+          step: number
+          updated_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -80,10 +945,114 @@ export type Database = {
         }
         Returns: boolean
       }
+      info_request_banking: {
+        Args: { _token: string }
+        Returns: Json
+      }
+      lodge_data_request: {
+        Args: { _application_id: string; _details: string; _kind: string }
+        Returns: string
+      }
+      onboarding_funnel: {
+        Args: { _since: string }
+        Returns: {
+          day: string
+          detail: string
+          events: number
+          field: string
+          kind: string
+          sessions: number
+          step: string
+        }[]
+      }
+      publish_terms_version: {
+        Args: { _body: string; _change_summary: string; _title: string }
+        Returns: number
+      }
+      record_onboarding_event: {
+        Args: {
+          _detail: string
+          _field: string
+          _kind: string
+          _session_id: string
+          _step: string
+        }
+        Returns: undefined
+      }
+      request_application_info: {
+        Args: { _application_id: string; _items: string[]; _message: string }
+        Returns: string
+      }
+      resolve_data_request: {
+        Args: { _request_id: string; _resolution: string; _status: string }
+        Returns: undefined
+      }
+      resubmit_onboarding_application: {
+        Args: { _application: Json; _documents: Json; _request_id: string }
+        Returns: string
+      }
+      reveal_application_banking: {
+        Args: { _application_id: string; _reason: string }
+        Returns: Json
+      }
+      save_onboarding_draft: {
+        Args: {
+          _current_truck_index: number
+          _email: string
+          _files: Json
+          _form_values: Json
+          _resume_token: string
+          _step: number
+        }
+        Returns: boolean
+      }
+      set_driver_verified: {
+        Args: { _driver_id: string; _verified: boolean }
+        Returns: undefined
+      }
+      store_application_banking: {
+        Args: { _application_id: string; _banking: Json }
+        Returns: undefined
+      }
+      submit_onboarding_application: {
+        Args: { _application: Json; _documents: Json }
+        Returns: string
+      }
+      take_phone_verification_attempt: {
+        Args: { _max_attempts: number; _phone: string }
+        Returns: {
+          code_hash: string
+          id: string
+        }[]
+      }
+      terms_reacceptance_due: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          accepted_at: string
+          accepted_version: number
+          applicant_name: string
+          application_id: string
+          email: string
+          status: Database["public"]["Enums"]["app_status"]
+        }[]
+      }
+      verified_email: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "admin" | "moderator" | "user"
-      app_status: "pending" | "in_review" | "approved" | "rejected"
+      app_role: "admin" | "moderator" | "user" | "banking_viewer"
+      app_status:
+        | "pending"
+        | "in_review"
+        | "needs_info"
+        | "approved"
+        | "rejected"
+      truck_document_type:
+        | "licence_disc"
+        | "roadworthy_certificate"
+        | "insurance_document"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -211,8 +1180,19 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "moderator", "user"],
-      app_status: ["pending", "in_review", "approved", "rejected"],
+      app_role: ["admin", "moderator", "user", "banking_viewer"],
+      app_status: [
+        "pending",
+        "in_review",
+        "needs_info",
+        "approved",
+        "rejected",
+      ],
+      truck_document_type: [
+        "licence_disc",
+        "roadworthy_certificate",
+        "insurance_document",
+      ],
     },
   },
 } as const
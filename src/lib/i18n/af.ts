@@ -0,0 +1,521 @@
+import type { Messages } from "./index";
+
+const af: Messages = {
+  // Wizard chrome
+  Language: "Taal",
+  "Hauler Onboarding": "Vervoerder-aansluiting",
+  "Quick setup to get you started": "Vinnige opstelling om jou aan die gang te kry",
+  "Draft saved {time}": "Konsep gestoor {time}",
+  "Step {current} of {total}": "Stap {current} van {total}",
+  Back: "Terug",
+  Continue: "Gaan voort",
+  "Submitting...": "Dien in...",
+  "Submit Application": "Dien aansoek in",
+  "Application Submitted!": "Aansoek ingedien!",
+  "We'll review your application and get back to you soon.":
+    "Ons sal jou aansoek hersien en jou binnekort terugkontak.",
+  "Thank you for joining our network": "Dankie dat jy by ons netwerk aansluit",
+  "Application submitted successfully": "Aansoek suksesvol ingedien",
+  Select: "Kies",
+  Clear: "Maak skoon",
+  "View {title}": "Bekyk {title}",
+
+  // Steps
+  Eligibility: "Geskiktheid",
+  "Eligibility Check": "Geskiktheidstoets",
+  "Basic Info": "Basiese inligting",
+  Vehicle: "Voertuig",
+  "Vehicle Info": "Voertuiginligting",
+  Banking: "Bankwese",
+  "Banking Info": "Bankbesonderhede",
+  Terms: "Bepalings",
+  "Terms & Consent": "Bepalings en toestemming",
+
+  // Eligibility
+  "Own a vehicle?": "Besit jy 'n voertuig?",
+  "Have roadworthy & insurance?": "Het jy padwaardigheid en versekering?",
+  Yes: "Ja",
+  No: "Nee",
+  "Application Requirements Not Met": "Nie aan aansoekvereistes voldoen nie",
+  "Unfortunately, you don't meet the current requirements for our hauler network.":
+    "Ongelukkig voldoen jy nie aan die huidige vereistes vir ons vervoerdernetwerk nie.",
+  "Reject: Driver only not allowed": "Afgekeur: Slegs bestuurders word nie toegelaat nie",
+  "Reject: Missing roadworthy or insurance": "Afgekeur: Padwaardigheid of versekering ontbreek",
+  "Please review the requirements and try again when you meet all criteria.":
+    "Hersien asseblief die vereistes en probeer weer wanneer jy aan alle kriteria voldoen.",
+  Understood: "Verstaan",
+
+  // Basic info
+  Name: "Naam",
+  "Identity Document": "Identiteitsdokument",
+  "South African ID": "Suid-Afrikaanse ID",
+  Passport: "Paspoort",
+  "ID Number": "ID-nommer",
+  "Passport Number": "Paspoortnommer",
+  "Passport Country": "Paspoortland",
+  "Born {date}": "Gebore {date}",
+  Female: "Vroulik",
+  Male: "Manlik",
+  "SA citizen": "SA-burger",
+  "Permanent resident": "Permanente inwoner",
+  Refugee: "Vlugteling",
+  Type: "Tipe",
+  Individual: "Individu",
+  Business: "Besigheid",
+  "Business Name": "Besigheidsnaam",
+  "CIPC Number": "CIPC-nommer",
+  Mobile: "Selfoon",
+  Email: "E-pos",
+  "Street Address": "Straatadres",
+  Suburb: "Voorstad",
+  "City or Town": "Stad of dorp",
+  "Postal Code": "Poskode",
+  "Suburbs with this code:": "Voorstede met hierdie kode:",
+  "This postal code is in {province}.": "Hierdie poskode is in {province}.",
+  "Change to {province}": "Verander na {province}",
+  Province: "Provinsie",
+
+  // Vehicle
+  "Number of Trucks": "Aantal vragmotors",
+  truck: "vragmotor",
+  trucks: "vragmotors",
+  "Truck Details": "Vragmotorbesonderhede",
+  "{done} of {total} completed": "{done} van {total} voltooi",
+  "{done} of {total}": "{done} van {total}",
+  "Truck {number}": "Vragmotor {number}",
+  "Remove Truck {number}": "Verwyder vragmotor {number}",
+  "Remove Truck": "Verwyder vragmotor",
+  Previous: "Vorige",
+  Prev: "Vorige",
+  Next: "Volgende",
+  "Vehicle Type": "Voertuigtipe",
+  "Select vehicle type": "Kies voertuigtipe",
+  Flatbed: "Platbak",
+  "Box Truck": "Bokswa",
+  Tipper: "Wipbak",
+  Refrigerated: "Verkoel",
+  Tanker: "Tenkwa",
+  Other: "Ander",
+  "Load Capacity": "Laaivermoë",
+  tons: "ton",
+  "Registration Number": "Registrasienommer",
+  "Compliance Documents": "Nakomingsdokumente",
+  "Licence Disc": "Lisensieskyf",
+  "Roadworthy Certificate": "Padwaardigheidsertifikaat",
+  "Insurance Document": "Versekeringsdokument",
+  "Expiry date": "Vervaldatum",
+  "Choose file": "Kies lêer",
+  "No file chosen": "Geen lêer gekies nie",
+  "This truck is complete and ready!": "Hierdie vragmotor is volledig en gereed!",
+  "Please complete all required fields for this truck":
+    "Voltooi asseblief al die verpligte velde vir hierdie vragmotor",
+  "Overall Progress": "Algehele vordering",
+  "🎉 All trucks completed! You're ready to continue.":
+    "🎉 Alle vragmotors voltooi! Jy kan voortgaan.",
+  "Additional Documents": "Bykomende dokumente",
+  "Additional Vehicle Documents": "Bykomende voertuigdokumente",
+  "Click to upload": "Klik om op te laai",
+  "or drag and drop": "of sleep en los",
+  "PDF, JPG, PNG up to {size} each, {total} in total. Photos are resized automatically.":
+    "PDF, JPG, PNG tot {size} elk, {total} altesaam. Foto's word outomaties verklein.",
+  "Uploaded Documents ({count})": "Opgelaaide dokumente ({count})",
+  "{size} of {total}": "{size} van {total}",
+  "Optional: anything else that supports your application (permits, operator cards, photos, etc.)":
+    "Opsioneel: enigiets anders wat jou aansoek ondersteun (permitte, operateurskaarte, foto's, ens.)",
+
+  // Banking
+  Bank: "Bank",
+  "Select your bank": "Kies jou bank",
+  "Other bank": "Ander bank",
+  "Account Holder": "Rekeninghouer",
+  "Account Number": "Rekeningnommer",
+  "Account Type": "Rekeningtipe",
+  Cheque: "Tjek",
+  Savings: "Spaar",
+  "Branch Code": "Takkode",
+  "Universal branch code for {bank}": "Universele takkode vir {bank}",
+  "Bank Statement": "Bankstaat",
+
+  // Terms
+  "Accept Terms of Use": "Aanvaar gebruiksbepalings",
+  "Consent to data storage": "Stem in tot databerging",
+  "Consent to be contacted": "Stem in om gekontak te word",
+
+  // Drafts and uploads
+  "Resume where you left off?": "Gaan voort waar jy opgehou het?",
+  "We saved your application {when}.": "Ons het jou aansoek {when} gestoor.",
+  "You were on the {step} step.": "Jy was by die {step}-stap.",
+  "1 file you attached is only kept on the device you started on, so we'll ask you to re-attach it.":
+    "1 lêer wat jy aangeheg het, word net op die toestel gehou waarop jy begin het, so ons sal jou vra om dit weer aan te heg.",
+  "{count} files you attached are only kept on the device you started on, so we'll ask you to re-attach them.":
+    "{count} lêers wat jy aangeheg het, word net op die toestel gehou waarop jy begin het, so ons sal jou vra om dit weer aan te heg.",
+  "Start over": "Begin van voor af",
+  Resume: "Gaan voort",
+  "Re-attach from your saved draft:": "Heg weer aan uit jou gestoorde konsep:",
+  "Uploading documents": "Laai dokumente op",
+  Failed: "Misluk",
+  "Retrying…": "Probeer weer…",
+  Waiting: "Wag",
+  "Upload failed: {name}": "Oplaai het misluk: {name}",
+  "{count} uploads failed: {names}": "{count} oplaaie het misluk: {names}",
+  "{message}. Check your connection and submit again – finished uploads won't be repeated.":
+    "{message}. Kontroleer jou verbinding en dien weer in – voltooide oplaaie word nie herhaal nie.",
+  "Submission failed. Please try again.": "Indiening het misluk. Probeer asseblief weer.",
+  "Some answers are invalid": "Sommige antwoorde is ongeldig",
+  "This application has already been submitted": "Hierdie aansoek is reeds ingedien",
+  "Documents were not received: {files}": "Dokumente is nie ontvang nie: {files}",
+
+  // File checks
+  "Only PDF, JPG and PNG files are accepted": "Slegs PDF-, JPG- en PNG-lêers word aanvaar",
+  "File is really a {actual}, not a {expected}": "Lêer is eintlik 'n {actual}, nie 'n {expected} nie",
+  "File isn't a valid {expected}": "Lêer is nie 'n geldige {expected} nie",
+  "Larger than {size}": "Groter as {size}",
+  "JPEG image": "JPEG-beeld",
+  "PNG image": "PNG-beeld",
+  "Already attached": "Reeds aangeheg",
+  "Would exceed the {size} total limit": "Sal die totale limiet van {size} oorskry",
+
+  // Validation
+  "Please select if you own a vehicle": "Kies asseblief of jy 'n voertuig besit",
+  "Please confirm you have required documents": "Bevestig asseblief dat jy die vereiste dokumente het",
+  "Enter full name": "Voer volle naam in",
+  "Select an identity document": "Kies 'n identiteitsdokument",
+  "Enter ID or passport number": "Voer ID- of paspoortnommer in",
+  "Select the country that issued your passport": "Kies die land wat jou paspoort uitgereik het",
+  "Enter a valid passport number (6–12 letters or digits)":
+    "Voer 'n geldige paspoortnommer in (6–12 letters of syfers)",
+  "SA ID number must be 13 digits": "SA ID-nommer moet 13 syfers wees",
+  "ID number contains an invalid birth date": "ID-nommer bevat 'n ongeldige geboortedatum",
+  "ID number birth date is in the future": "ID-nommer se geboortedatum is in die toekoms",
+  "ID number has an invalid citizenship digit": "ID-nommer het 'n ongeldige burgerskapsyfer",
+  "ID number failed the checksum – check for typos": "ID-nommer het die kontrolesom gedruip – kyk vir tikfoute",
+  "Select an entity type": "Kies 'n entiteitstipe",
+  "Enter business name": "Voer besigheidsnaam in",
+  "Enter CIPC registration number": "Voer CIPC-registrasienommer in",
+  "Enter a valid South African number": "Voer 'n geldige Suid-Afrikaanse nommer in",
+  "Enter a valid email": "Voer 'n geldige e-posadres in",
+  "Enter the street address": "Voer die straatadres in",
+  "Enter the suburb": "Voer die voorstad in",
+  "Enter the city or town": "Voer die stad of dorp in",
+  "Enter a 4-digit postal code": "Voer 'n poskode van 4 syfers in",
+  "Select a province or region": "Kies 'n provinsie of streek",
+  "Must be at least 1": "Moet minstens 1 wees",
+  "Select a vehicle type": "Kies 'n voertuigtipe",
+  "Min 1T": "Min. 1 t",
+  "Max 15T": "Maks. 15 t",
+  "Enter registration number": "Voer registrasienommer in",
+  "Upload the licence disc": "Laai die lisensieskyf op",
+  "Upload the roadworthy certificate": "Laai die padwaardigheidsertifikaat op",
+  "Upload the insurance document": "Laai die versekeringsdokument op",
+  "Enter the licence disc expiry date": "Voer die lisensieskyf se vervaldatum in",
+  "Enter the roadworthy certificate expiry date": "Voer die padwaardigheidsertifikaat se vervaldatum in",
+  "Enter the insurance policy expiry date": "Voer die versekeringspolis se vervaldatum in",
+  "This document has expired": "Hierdie dokument het verval",
+  "At least one truck is required": "Minstens een vragmotor word vereis",
+  "Enter account holder name": "Voer rekeninghouer se naam in",
+  "Select account type": "Kies rekeningtipe",
+  "Digits only": "Slegs syfers",
+  "8–13 digits": "8–13 syfers",
+  "{bank} account numbers are {lengths} digits": "{bank}-rekeningnommers is {lengths} syfers",
+  "{bank} account numbers start with {prefixes}": "{bank}-rekeningnommers begin met {prefixes}",
+  "Not a valid {bank} account number – check for typos":
+    "Nie 'n geldige {bank}-rekeningnommer nie – kyk vir tikfoute",
+  "{bank} uses universal branch code {code}": "{bank} gebruik universele takkode {code}",
+  "6 digits": "6 syfers",
+  "You must accept the Terms of Use": "Jy moet die gebruiksbepalings aanvaar",
+  "You must consent to data storage": "Jy moet tot databerging instem",
+  "You must consent to be contacted": "Jy moet instem om gekontak te word",
+  "Invalid document": "Ongeldige dokument",
+  "Document was not uploaded for this application": "Dokument is nie vir hierdie aansoek opgelaai nie",
+
+  // Status portal
+  "Application status": "Aansoekstatus",
+  "Sign in with the email address you applied with to follow your application.":
+    "Meld aan met die e-posadres waarmee jy aansoek gedoen het om jou aansoek te volg.",
+  "Signed in as {email}": "Aangemeld as {email}",
+  "Sign out": "Meld af",
+  "Start a new application": "Begin 'n nuwe aansoek",
+  "Email me a code": "E-pos vir my 'n kode",
+  "Please wait...": "Wag asseblief...",
+  "We've emailed a code to {email}": "Ons het 'n kode na {email} ge-e-pos",
+  "We couldn't send a code. Please try again.": "Ons kon nie 'n kode stuur nie. Probeer asseblief weer.",
+  "That code is incorrect or has expired": "Daardie kode is verkeerd of het verval",
+  "Enter the {length}-digit code we sent to {email}.": "Voer die {length}-syfer-kode in wat ons na {email} gestuur het.",
+  Verify: "Verifieer",
+  "Send a new code": "Stuur 'n nuwe kode",
+  "Use a different email": "Gebruik 'n ander e-posadres",
+  "Application {reference}": "Aansoek {reference}",
+  "Submitted {date}": "Ingedien {date}",
+  "Our reviewers need more from you": "Ons beoordelaars het meer van jou nodig",
+  Timeline: "Tydlyn",
+  Received: "Ontvang",
+  "In review": "Word beoordeel",
+  Approved: "Goedgekeur",
+  "Not approved": "Nie goedgekeur nie",
+  "Loading…": "Laai tans…",
+  "We couldn't load your applications": "Ons kon nie jou aansoeke laai nie",
+  "Try again": "Probeer weer",
+  "We couldn't find any applications for this email address.":
+    "Ons kon geen aansoeke vir hierdie e-posadres vind nie.",
+  "Track your application": "Volg jou aansoek",
+
+  // Corrections
+  "Needs more information": "Meer inligting nodig",
+  "Update your application": "Werk jou aansoek by",
+  "Our reviewers asked you to update:": "Ons beoordelaars het gevra dat jy die volgende bywerk:",
+  "Identity details": "Identiteitsbesonderhede",
+  "Contact and business details": "Kontak- en besigheidsbesonderhede",
+  "Trucks and their compliance documents": "Vragmotors en hul nakomingsdokumente",
+  "Additional vehicle documents": "Bykomende voertuigdokumente",
+  "Banking details": "Bankbesonderhede",
+  "Bank statement": "Bankstaat",
+  "This link has expired or your changes were already sent.":
+    "Hierdie skakel het verval of jou veranderinge is reeds gestuur.",
+  "This request has already been answered": "Hierdie versoek is reeds beantwoord",
+  "Your changes were sent": "Jou veranderinge is gestuur",
+  "Changes Sent!": "Veranderinge Gestuur!",
+  "We'll review your updated application and get back to you soon.":
+    "Ons sal jou bygewerkte aansoek beoordeel en gou by jou terugkom.",
+
+  // Eligibility
+  "This application doesn't meet our eligibility requirements":
+    "Hierdie aansoek voldoen nie aan ons geskiktheidsvereistes nie",
+
+  // Drivers
+  Drivers: "Bestuurders",
+  "Driver {number}": "Bestuurder {number}",
+  "Add the drivers you employ so we can vet them too. If you drive your trucks yourself, you can skip this step.":
+    "Voeg die bestuurders by wat jy in diens het sodat ons hulle ook kan keur. As jy self jou vragmotors bestuur, kan jy hierdie stap oorslaan.",
+  "Remove driver": "Verwyder bestuurder",
+  "Full name": "Volle naam",
+  "ID or passport number": "ID- of paspoortnommer",
+  "Licence code": "Lisensiekode",
+  "Select a licence code": "Kies 'n lisensiekode",
+  "Code B – light motor vehicle": "Kode B – ligte motorvoertuig",
+  "Code EB – light motor vehicle with trailer": "Kode EB – ligte motorvoertuig met sleepwa",
+  "Code C1 – goods vehicle up to 16 000 kg": "Kode C1 – goederevoertuig tot 16 000 kg",
+  "Code EC1 – C1 vehicle with trailer": "Kode EC1 – C1-voertuig met sleepwa",
+  "Code C – goods vehicle over 16 000 kg": "Kode C – goederevoertuig bo 16 000 kg",
+  "Code EC – articulated vehicle": "Kode EC – gelede voertuig",
+  "PrDP number": "PrDP-nommer",
+  "PrDP expiry date": "PrDP-vervaldatum",
+  "Driving Licence": "Bestuurslisensie",
+  "ID Document": "ID-dokument",
+  "Add a driver": "Voeg 'n bestuurder by",
+  "Who drives each truck?": "Wie bestuur elke vragmotor?",
+  "I drive it myself": "Ek bestuur dit self",
+  "Enter the driver's full name": "Voer die bestuurder se volle naam in",
+  "Enter the driver's ID or passport number": "Voer die bestuurder se ID- of paspoortnommer in",
+  "Enter the PrDP number": "Voer die PrDP-nommer in",
+  "Enter the PrDP expiry date": "Voer die PrDP-vervaldatum in",
+  "Upload the driving licence": "Laai die bestuurslisensie op",
+  "Upload the driver's ID document": "Laai die bestuurder se ID-dokument op",
+  "Choose a driver from your roster": "Kies 'n bestuurder van jou lys",
+  "Drivers and who drives each truck": "Bestuurders en wie elke vragmotor bestuur",
+
+  // Mobile verification
+  "Verify your mobile number": "Bevestig jou selfoonnommer",
+  "We've sent a code to {mobile}": "Ons het 'n kode na {mobile} gestuur",
+  "Resend in {seconds}s": "Stuur weer oor {seconds}s",
+  "Number verified": "Nommer bevestig",
+  "Enter the {length}-digit code we sent to {mobile}.":
+    "Voer die {length}-syferkode in wat ons na {mobile} gestuur het.",
+  "Please wait {seconds} seconds before asking for another code":
+    "Wag asseblief {seconds} sekondes voordat jy vir nog 'n kode vra",
+  "Too many codes were sent to this number. Try again later.":
+    "Te veel kodes is na hierdie nommer gestuur. Probeer later weer.",
+  "That code has expired. Ask for a new one.":
+    "Daardie kode het verval. Vra vir 'n nuwe een.",
+  "Too many attempts from your network. Try again later.":
+    "Te veel pogings van jou netwerk af. Probeer later weer.",
+
+
+  // Coverage
+  Coverage: "Dekking",
+  "Where You Operate": "Waar jy werk",
+  "Provinces you service": "Provinsies wat jy bedien",
+  "Towns you service (optional)": "Dorpe wat jy bedien (opsioneel)",
+  "Leave these clear if you'll take loads anywhere in the provinces above.":
+    "Los hierdie oop as jy vragte enige plek in die provinsies hierbo sal neem.",
+  "Preferred lanes (optional)": "Voorkeurroetes (opsioneel)",
+  "Routes you'd like regular loads on, e.g. Johannesburg to Durban.":
+    "Roetes waarop jy gereeld vragte wil hê, bv. Johannesburg na Durban.",
+  From: "Van",
+  To: "Na",
+  "Remove lane": "Verwyder roete",
+  "Add a lane": "Voeg 'n roete by",
+  "Do you drive loads across borders?": "Vervoer jy vragte oor grense?",
+  "Countries you drive to": "Lande waarheen jy ry",
+  "Select at least one province you service": "Kies ten minste een provinsie wat jy bedien",
+  "Select the province this town is in": "Kies die provinsie waarin hierdie dorp is",
+  "Enter where loads are collected": "Voer in waar vragte opgelaai word",
+  "Enter where loads are delivered": "Voer in waar vragte afgelewer word",
+  "List up to {count} lanes": "Lys tot {count} roetes",
+  "Tell us whether you drive across borders": "Sê vir ons of jy oor grense ry",
+  "Select the countries you drive to": "Kies die lande waarheen jy ry",
+  "Where you operate": "Waar jy werk",
+
+
+  // Fleet import
+  "Import trucks from a spreadsheet": "Voer vragmotors vanaf 'n sigblad in",
+  "Import your fleet": "Voer jou vloot in",
+  "Fill in one row per truck in the template, save it as CSV or Excel (.xlsx) and choose it below. You'll still attach each truck's documents afterwards.":
+    "Vul een ry per vragmotor in die sjabloon in, stoor dit as CSV of Excel (.xlsx) en kies dit hieronder. Jy heg steeds elke vragmotor se dokumente daarna aan.",
+  "Vehicle types: {types}": "Voertuigtipes: {types}",
+  "Download the template": "Laai die sjabloon af",
+  "Choose a file": "Kies 'n lêer",
+  "Choose another file": "Kies 'n ander lêer",
+  "{count} trucks are ready to import from {file}": "{count} vragmotors is gereed om vanaf {file} ingevoer te word",
+  "That would make {count} trucks; the most we accept is {max}.":
+    "Dit sou {count} vragmotors maak; ons aanvaar hoogstens {max}.",
+  "Fix these rows in your spreadsheet and choose it again.":
+    "Maak hierdie rye in jou sigblad reg en kies dit weer.",
+  Row: "Ry",
+  Column: "Kolom",
+  Problem: "Probleem",
+  "Import {count} trucks": "Voer {count} vragmotors in",
+  "Imported {count} trucks": "{count} vragmotors ingevoer",
+  "We couldn't read that file": "Ons kon nie daardie lêer lees nie",
+  "This file isn't a valid .xlsx workbook": "Hierdie lêer is nie 'n geldige .xlsx-werkboek nie",
+  "This workbook is compressed in a way we can't read": "Hierdie werkboek is saamgepers op 'n manier wat ons nie kan lees nie",
+  "This workbook has no worksheet we can read": "Hierdie werkboek het geen werkblad wat ons kan lees nie",
+  "Choose a .csv or .xlsx file": "Kies 'n .csv- of .xlsx-lêer",
+  "The spreadsheet is empty": "Die sigblad is leeg",
+  "This column is missing from the template": "Hierdie kolom ontbreek in die sjabloon",
+  "Use one of the vehicle types in the list": "Gebruik een van die voertuigtipes in die lys",
+  "Enter the capacity in tons": "Voer die kapasiteit in ton in",
+  "Enter a valid year": "Voer 'n geldige jaar in",
+  "Also on row {row}": "Ook op ry {row}",
+  "Add a row for each truck below the headings": "Voeg 'n ry vir elke vragmotor onder die opskrifte by",
+  "Enter the 17-character VIN": "Voer die VIN van 17 karakters in",
+  "No more than {max} trucks": "Nie meer as {max} vragmotors nie",
+  "Vehicle type": "Voertuigtipe",
+  "Capacity (tons)": "Kapasiteit (ton)",
+  Registration: "Registrasie",
+  VIN: "VIN",
+  Year: "Jaar",
+  "VIN (optional)": "VIN (opsioneel)",
+  "Year (optional)": "Jaar (opsioneel)",
+
+
+  // Truck photos
+  "Truck Photos": "Foto's van die vragmotor",
+  "Take each photo in good light, standing back far enough to fit the whole view.":
+    "Neem elke foto in goeie lig, en staan ver genoeg terug sodat alles in die prent pas.",
+  Front: "Voorkant",
+  "Left side": "Linkerkant",
+  "Right side": "Regterkant",
+  Rear: "Agterkant",
+  "Load bed": "Laaibak",
+  Odometer: "Afstandmeter",
+  "Straight on, with the number plate readable": "Reguit van voor, met die nommerplaat leesbaar",
+  "The full length of the truck": "Die hele lengte van die vragmotor",
+  "Including the rear number plate": "Met die agterste nommerplaat",
+  "The deck or body, empty if you can": "Die dek of bak, leeg indien moontlik",
+  "The dashboard, with the reading in focus": "Die paneelbord, met die lesing skerp in fokus",
+  "Take photo": "Neem foto",
+  Retake: "Neem weer",
+  "Taken {time}": "Geneem {time}",
+  "Added {time} (time from this device)": "Bygevoeg {time} (tyd van hierdie toestel)",
+  "Take or choose a photo": "Neem of kies 'n foto",
+  "Take a photo of the front": "Neem 'n foto van die voorkant",
+  "Take a photo of the left side": "Neem 'n foto van die linkerkant",
+  "Take a photo of the right side": "Neem 'n foto van die regterkant",
+  "Take a photo of the rear": "Neem 'n foto van die agterkant",
+  "Take a photo of the load bed": "Neem 'n foto van die laaibak",
+  "Take a photo of the odometer": "Neem 'n foto van die afstandmeter",
+  "Take the photos of this truck": "Neem die foto's van hierdie vragmotor",
+
+
+  // Review
+  Review: "Hersien",
+  "Review Your Application": "Hersien jou aansoek",
+  "Check your answers before you submit. Registrations and account numbers are easy to mistype.":
+    "Gaan jou antwoorde na voordat jy indien. Registrasie- en rekeningnommers word maklik verkeerd getik.",
+  Edit: "Wysig",
+  "Back to review": "Terug na hersiening",
+  "Not attached": "Nie aangeheg nie",
+  "Show {label}": "Wys {label}",
+  "Hide {label}": "Versteek {label}",
+  Driver: "Drywer",
+  Photo: "Foto",
+  "No drivers added": "Geen drywers bygevoeg nie",
+  "Towns you service": "Dorpe wat jy bedien",
+  "Anywhere in these provinces": "Enige plek in hierdie provinsies",
+  "Preferred lanes": "Voorkeurroetes",
+  Accepted: "Aanvaar",
+  "Some answers need attention before you submit": "Sommige antwoorde moet reggestel word voordat jy indien",
+
+  // Offline
+  "You're offline. We'll send your application when you're back online.":
+    "Jy is aflyn. Ons sal jou aansoek stuur sodra jy weer aanlyn is.",
+  "Waiting to send": "Wag om te stuur",
+  "Sending your application now…": "Jou aansoek word nou gestuur…",
+  "We couldn't reach our server. We'll keep trying, or you can try again now.":
+    "Ons kon nie ons bediener bereik nie. Ons sal aanhou probeer, of jy kan nou weer probeer.",
+  "Your application is saved on this device and will be sent automatically when you're back online. You can close this page; it will be sent next time you open it.":
+    "Jou aansoek is op hierdie toestel gestoor en sal outomaties gestuur word wanneer jy weer aanlyn is. Jy kan hierdie bladsy toemaak; dit sal gestuur word wanneer jy dit weer oopmaak.",
+  "{name}, queued {time}": "{name}, in die tou geplaas {time}",
+  "Send now": "Stuur nou",
+  "You're offline. Keep going – your answers and files are saved on this device, and your application will be sent once you're back online.":
+    "Jy is aflyn. Gaan voort – jou antwoorde en lêers word op hierdie toestel gestoor, en jou aansoek sal gestuur word sodra jy weer aanlyn is.",
+
+  // Analytics
+  "Help us improve this form? We'd like to count, anonymously, which steps applicants finish and where they get stuck. We never record your answers.":
+    "Help ons om hierdie vorm te verbeter? Ons wil anoniem tel watter stappe aansoekers voltooi en waar hulle vassteek. Ons teken nooit jou antwoorde aan nie.",
+  "No thanks": "Nee dankie",
+  Allow: "Laat toe",
+
+  // Terms versions
+  "Version {version}, published {date}": "Weergawe {version}, gepubliseer {date}",
+  "version {version}": "weergawe {version}",
+  "Loading the Terms of Use…": "Die gebruiksbepalings word gelaai…",
+  "We couldn't load the Terms of Use. Check your connection and try again.":
+    "Ons kon nie die gebruiksbepalings laai nie. Gaan jou verbinding na en probeer weer.",
+  "Our Terms of Use were updated since you accepted them. Please read and accept the new version.":
+    "Ons gebruiksbepalings is bygewerk sedert jy dit aanvaar het. Lees en aanvaar asseblief die nuwe weergawe.",
+  "Our Terms of Use were updated. Read and accept the new version.":
+    "Ons gebruiksbepalings is bygewerk. Lees en aanvaar die nuwe weergawe.",
+  "Our Terms of Use have changed": "Ons gebruiksbepalings het verander",
+  "Read the new terms": "Lees die nuwe bepalings",
+  "I accept": "Ek aanvaar",
+  "We couldn't record your acceptance. Please try again.":
+    "Ons kon nie jou aanvaarding aanteken nie. Probeer asseblief weer.",
+  "Thank you – you've accepted the new Terms of Use": "Dankie – jy het die nuwe gebruiksbepalings aanvaar",
+
+  // Data requests
+  "Your personal information": "Jou persoonlike inligting",
+  "Under POPIA you may ask what we hold about you, have it corrected or have it deleted.":
+    "Ingevolge POPIA kan jy vra watter inligting ons oor jou hou, dit laat regstel of dit laat uitvee.",
+  "A copy of my data": "'n Afskrif van my data",
+  "We'll send you everything we hold about you, including your documents.":
+    "Ons stuur vir jou alles wat ons oor jou hou, ook jou dokumente.",
+  "Correct my data": "Stel my data reg",
+  "Tell us what is wrong and what it should be.": "Sê vir ons wat verkeerd is en wat dit moet wees.",
+  "Delete my data": "Vee my data uit",
+  "We'll erase your application and documents. You won't be able to work with us on this application afterwards.":
+    "Ons vee jou aansoek en dokumente uit. Jy sal daarna nie op hierdie aansoek met ons kan werk nie.",
+  "What should we correct?": "Wat moet ons regstel?",
+  "Anything we should know? (optional)": "Enigiets wat ons moet weet? (opsioneel)",
+  "Cancel": "Kanselleer",
+  "Send request": "Stuur versoek",
+  "You already have an open request of this kind": "Jy het reeds 'n oop versoek van hierdie soort",
+  "We couldn't send your request. Please try again.": "Ons kon nie jou versoek stuur nie. Probeer asseblief weer.",
+  "Request received. We'll respond within 30 days.": "Versoek ontvang. Ons antwoord binne 30 dae.",
+  "Open": "Oop",
+  "Completed": "Afgehandel",
+  "Declined": "Van die hand gewys",
+  "Sent {date} · we'll respond by {due}": "Gestuur {date} · ons antwoord teen {due}",
+  "Sent {date} · closed {closed}": "Gestuur {date} · gesluit {closed}",
+  "Ask about your data": "Vra oor jou data",
+
+  // Draft resume links
+  "We've emailed a link to {email}": "Ons het 'n skakel na {email} gestuur",
+  "We couldn't send the link. Please try again.": "Ons kon nie die skakel stuur nie. Probeer asseblief weer.",
+  "A draft for this email was saved on another device.": "'n Konsep vir hierdie e-posadres is op 'n ander toestel gestoor.",
+  "Link sent": "Skakel gestuur",
+  "Email me a link to continue it": "E-pos vir my 'n skakel om voort te gaan",
+  "Continue on another device": "Gaan voort op 'n ander toestel",
+};
+
+export default af;
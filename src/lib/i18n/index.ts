@@ -0,0 +1,116 @@
+// Translations for the applicant-facing screens. Catalogues are keyed by the
+// English text itself, so strings that already exist in shared code (zod
+// messages in formSchema, bank and file checks, server responses) translate
+// without threading keys through them. "{name}" placeholders are filled from
+// params, or matched back out of English text that arrives pre-formatted.
+
+import type { FieldErrors, FieldValues } from "react-hook-form";
+import { LANGUAGE_CODES } from "@shared/onboarding/schema";
+import af from "./af";
+import st from "./st";
+import zu from "./zu";
+
+export type Language = (typeof LANGUAGE_CODES)[number];
+
+export type Messages = Record<string, string>;
+
+export type Params = Record<string, string | number>;
+
+export const LANGUAGES: { code: Language; name: string; locale: string }[] = [
+  { code: "en", name: "English", locale: "en-ZA" },
+  { code: "af", name: "Afrikaans", locale: "af-ZA" },
+  { code: "zu", name: "isiZulu", locale: "zu-ZA" },
+  { code: "st", name: "Sesotho", locale: "st-ZA" },
+];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const CATALOGUES: Record<Language, Messages> = { en: {}, af, zu, st };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGE_CODES.includes(value as Language);
+
+export const localeFor = (language: Language) =>
+  LANGUAGES.find((l) => l.code === language)?.locale ?? "en-ZA";
+
+const interpolate = (text: string, params?: Params) =>
+  params
+    ? text.replace(/\{(\w+)\}/g, (match, key) =>
+        key in params ? String(params[key]) : match
+      )
+    : text;
+
+type Template = { pattern: RegExp; names: string[]; translation: string };
+
+const templates = new Map<Language, Template[]>();
+
+// Placeholder keys compiled to patterns that recover their values from
+// already formatted English, e.g. "Capitec account numbers are 10 digits"
+function templatesFor(language: Language): Template[] {
+  let list = templates.get(language);
+  if (!list) {
+    list = Object.entries(CATALOGUES[language])
+      .filter(([key]) => key.includes("{"))
+      .map(([key, translation]) => {
+        const names: string[] = [];
+        const source = key
+          .split(/(\{\w+\})/)
+          .map((part) => {
+            const name = part.match(/^\{(\w+)\}$/)?.[1];
+            if (name) {
+              names.push(name);
+              return "(.+?)";
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+          })
+          .join("");
+        return { pattern: new RegExp(`^${source}$`), names, translation };
+      });
+    templates.set(language, list);
+  }
+  return list;
+}
+
+/** Translates English text, falling back to it when there's no entry. */
+export function translate(
+  language: Language,
+  text: string,
+  params?: Params
+): string {
+  const catalogue = CATALOGUES[language];
+  if (catalogue[text]) return interpolate(catalogue[text], params);
+  if (!params) {
+    for (const { pattern, names, translation } of templatesFor(language)) {
+      const match = text.match(pattern);
+      if (match) {
+        return interpolate(
+          translation,
+          Object.fromEntries(
+            names.map((name, i) => [name, translate(language, match[i + 1])])
+          )
+        );
+      }
+    }
+  }
+  return interpolate(text, params);
+}
+
+/** Copies react-hook-form errors with every message translated. */
+export function translateErrors<T extends FieldValues>(
+  errors: FieldErrors<T>,
+  t: (text: string) => string
+): FieldErrors<T> {
+  const walk = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(walk);
+    if (!node || typeof node !== "object") return node;
+    const copy: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      // ref holds the DOM element the error belongs to
+      if (key === "ref") copy[key] = value;
+      else if (key === "message" && typeof value === "string") copy[key] = t(value);
+      else copy[key] = walk(value);
+    }
+    return copy;
+  };
+  return walk(errors) as FieldErrors<T>;
+}
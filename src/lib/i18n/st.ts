@@ -0,0 +1,521 @@
+import type { Messages } from "./index";
+
+const st: Messages = {
+  // Wizard chrome
+  Language: "Puo",
+  "Hauler Onboarding": "Ngodiso ya Bajari ba Thepa",
+  "Quick setup to get you started": "Tlhophiso e potlakileng ho o qadisa",
+  "Draft saved {time}": "Moralo o bolokilwe ka {time}",
+  "Step {current} of {total}": "Mohato wa {current} ho ya {total}",
+  Back: "Morao",
+  Continue: "Tswela pele",
+  "Submitting...": "E a romelwa...",
+  "Submit Application": "Romela Kopo",
+  "Application Submitted!": "Kopo e Rometswe!",
+  "We'll review your application and get back to you soon.":
+    "Re tla hlahloba kopo ya hao mme re o arabe haufinyane.",
+  "Thank you for joining our network": "Re a leboha ha o kena marangrang a rona",
+  "Application submitted successfully": "Kopo e rometswe ka katleho",
+  Select: "Kgetha",
+  Clear: "Hlakola",
+  "View {title}": "Sheba {title}",
+
+  // Steps
+  Eligibility: "Ho tshwaneleha",
+  "Eligibility Check": "Tlhahlobo ya ho Tshwaneleha",
+  "Basic Info": "Dintlha tsa Motheo",
+  Vehicle: "Koloi",
+  "Vehicle Info": "Dintlha tsa Koloi",
+  Banking: "Banka",
+  "Banking Info": "Dintlha tsa Banka",
+  Terms: "Dipehelo",
+  "Terms & Consent": "Dipehelo le Tumello",
+
+  // Eligibility
+  "Own a vehicle?": "Na o na le koloi?",
+  "Have roadworthy & insurance?": "Na o na le setifikeiti sa ho tsamaya tseleng le inshorense?",
+  Yes: "E",
+  No: "Tjhe",
+  "Application Requirements Not Met": "Ditlhoko tsa Kopo ha di a Fihlellwa",
+  "Unfortunately, you don't meet the current requirements for our hauler network.":
+    "Ka bomadimabe, ha o fihlelle ditlhoko tsa hajwale tsa marangrang a rona a bajari.",
+  "Reject: Driver only not allowed": "E hanilwe: Bakganni feela ha ba dumellwe",
+  "Reject: Missing roadworthy or insurance": "E hanilwe: Setifikeiti sa ho tsamaya tseleng kapa inshorense ha di yo",
+  "Please review the requirements and try again when you meet all criteria.":
+    "Ka kopo hlahloba ditlhoko mme o leke hape ha o se o di fihlella kaofela.",
+  Understood: "Ke utlwisisa",
+
+  // Basic info
+  Name: "Lebitso",
+  "Identity Document": "Tokomane ya Boitsebiso",
+  "South African ID": "Boitsebiso ba Afrika Borwa",
+  Passport: "Phasepoto",
+  "ID Number": "Nomoro ya Boitsebiso",
+  "Passport Number": "Nomoro ya Phasepoto",
+  "Passport Country": "Naha ya Phasepoto",
+  "Born {date}": "O hlahile ka {date}",
+  Female: "Motho wa setsehadi",
+  Male: "Motho wa monna",
+  "SA citizen": "Moahi wa Afrika Borwa",
+  "Permanent resident": "Modudi wa ka ho sa feleng",
+  Refugee: "Mophaphathehi",
+  Type: "Mofuta",
+  Individual: "Motho ka mong",
+  Business: "Kgwebo",
+  "Business Name": "Lebitso la Kgwebo",
+  "CIPC Number": "Nomoro ya CIPC",
+  Mobile: "Selefouno",
+  Email: "Imeile",
+  "Street Address": "Aterese ya seterata",
+  Suburb: "Sebaka",
+  "City or Town": "Toropo",
+  "Postal Code": "Khoutu ya poso",
+  "Suburbs with this code:": "Dibaka tse nang le khoutu ena:",
+  "This postal code is in {province}.": "Khoutu ena ya poso e ho {province}.",
+  "Change to {province}": "Fetolela ho {province}",
+  Province: "Profensi",
+
+  // Vehicle
+  "Number of Trucks": "Palo ya Dilori",
+  truck: "lori",
+  trucks: "dilori",
+  "Truck Details": "Dintlha tsa Lori",
+  "{done} of {total} completed": "{done} ho tse {total} di phethilwe",
+  "{done} of {total}": "{done} ho tse {total}",
+  "Truck {number}": "Lori {number}",
+  "Remove Truck {number}": "Tlosa Lori {number}",
+  "Remove Truck": "Tlosa Lori",
+  Previous: "E fetileng",
+  Prev: "Morao",
+  Next: "E latelang",
+  "Vehicle Type": "Mofuta wa Koloi",
+  "Select vehicle type": "Kgetha mofuta wa koloi",
+  Flatbed: "Lori e bataletseng",
+  "Box Truck": "Lori ya lebokose",
+  Tipper: "Lori e tshollang",
+  Refrigerated: "E nang le sehatsetsi",
+  Tanker: "Tanka",
+  Other: "E nngwe",
+  "Load Capacity": "Bokgoni ba ho Jara",
+  tons: "dithane",
+  "Registration Number": "Nomoro ya Ngodiso",
+  "Compliance Documents": "Ditokomane tsa Boikamahanyo",
+  "Licence Disc": "Disiki ya Laesense",
+  "Roadworthy Certificate": "Setifikeiti sa ho Tsamaya Tseleng",
+  "Insurance Document": "Tokomane ya Inshorense",
+  "Expiry date": "Letsatsi la ho fela",
+  "Choose file": "Kgetha faele",
+  "No file chosen": "Ha ho faele e kgethilweng",
+  "This truck is complete and ready!": "Lori ena e phethehile ebile e lokile!",
+  "Please complete all required fields for this truck":
+    "Ka kopo tlatsa dibaka tsohle tse hlokehang tsa lori ena",
+  "Overall Progress": "Tswelopele ka Kakaretso",
+  "🎉 All trucks completed! You're ready to continue.":
+    "🎉 Dilori tsohle di phethilwe! O se o lokela ho tswela pele.",
+  "Additional Documents": "Ditokomane tse Ding",
+  "Additional Vehicle Documents": "Ditokomane tse Ding tsa Koloi",
+  "Click to upload": "Tobetsa ho kenya",
+  "or drag and drop": "kapa o hule o lahlele",
+  "PDF, JPG, PNG up to {size} each, {total} in total. Photos are resized automatically.":
+    "PDF, JPG, PNG ho fihla ho {size} e nngwe le e nngwe, {total} kaofela. Ditshwantsho di fokotswa ka boiketsetso.",
+  "Uploaded Documents ({count})": "Ditokomane tse Kentsweng ({count})",
+  "{size} of {total}": "{size} ho {total}",
+  "Optional: anything else that supports your application (permits, operator cards, photos, etc.)":
+    "Ho ikgethela: eng kapa eng e nngwe e tshehetsang kopo ya hao (ditumello, dikarete tsa mosebeletsi, ditshwantsho, jj.)",
+
+  // Banking
+  Bank: "Banka",
+  "Select your bank": "Kgetha banka ya hao",
+  "Other bank": "Banka e nngwe",
+  "Account Holder": "Monga Akhaonte",
+  "Account Number": "Nomoro ya Akhaonte",
+  "Account Type": "Mofuta wa Akhaonte",
+  Cheque: "Tjheke",
+  Savings: "Polokelo",
+  "Branch Code": "Khoutu ya Lekala",
+  "Universal branch code for {bank}": "Khoutu ya lekala e akaretsang ya {bank}",
+  "Bank Statement": "Setatemente sa Banka",
+
+  // Terms
+  "Accept Terms of Use": "Amohela Dipehelo tsa Tshebediso",
+  "Consent to data storage": "Ke dumela hore dintlha di bolokwe",
+  "Consent to be contacted": "Ke dumela ho ikopanngwa le nna",
+
+  // Drafts and uploads
+  "Resume where you left off?": "Tswela pele moo o emisitseng teng?",
+  "We saved your application {when}.": "Re bolokile kopo ya hao {when}.",
+  "You were on the {step} step.": "O ne o le mohatong wa {step}.",
+  "1 file you attached is only kept on the device you started on, so we'll ask you to re-attach it.":
+    "Faele e le nngwe eo o e hoketseng e bolokwa feela sesebedisweng seo o qadileng ka sona, ka hona re tla o kopa ho e hokela hape.",
+  "{count} files you attached are only kept on the device you started on, so we'll ask you to re-attach them.":
+    "Difaele tse {count} tseo o di hoketseng di bolokwa feela sesebedisweng seo o qadileng ka sona, ka hona re tla o kopa ho di hokela hape.",
+  "Start over": "Qala bocha",
+  Resume: "Tswela pele",
+  "Re-attach from your saved draft:": "Hokela hape ho tswa moralong o bolokilweng:",
+  "Uploading documents": "E kenya ditokomane",
+  Failed: "E hlolehile",
+  "Retrying…": "E leka hape…",
+  Waiting: "E emetse",
+  "Upload failed: {name}": "Ho kenya ho hlolehile: {name}",
+  "{count} uploads failed: {names}": "Ho kenya ha {count} ho hlolehile: {names}",
+  "{message}. Check your connection and submit again – finished uploads won't be repeated.":
+    "{message}. Hlahloba kgokahano ya hao mme o romele hape – tse seng di kentswe di ke ke tsa phetwa.",
+  "Submission failed. Please try again.": "Ho romela ho hlolehile. Ka kopo leka hape.",
+  "Some answers are invalid": "Dikarabo tse ding ha di a nepahala",
+  "This application has already been submitted": "Kopo ena e se e rometswe",
+  "Documents were not received: {files}": "Ditokomane ha di a fihla: {files}",
+
+  // File checks
+  "Only PDF, JPG and PNG files are accepted": "Ho amohelwa difaele tsa PDF, JPG le PNG feela",
+  "File is really a {actual}, not a {expected}": "Faele ha e le hantle ke {actual}, ha se {expected}",
+  "File isn't a valid {expected}": "Faele hase {expected} e nepahetseng",
+  "Larger than {size}": "E kgolo ho feta {size}",
+  "JPEG image": "setshwantsho sa JPEG",
+  "PNG image": "setshwantsho sa PNG",
+  "Already attached": "E se e hoketswe",
+  "Would exceed the {size} total limit": "E ka feta moedi wa kakaretso wa {size}",
+
+  // Validation
+  "Please select if you own a vehicle": "Ka kopo kgetha hore na o na le koloi",
+  "Please confirm you have required documents": "Ka kopo netefatsa hore o na le ditokomane tse hlokehang",
+  "Enter full name": "Kenya lebitso ka botlalo",
+  "Select an identity document": "Kgetha tokomane ya boitsebiso",
+  "Enter ID or passport number": "Kenya nomoro ya boitsebiso kapa ya phasepoto",
+  "Select the country that issued your passport": "Kgetha naha e fanneng ka phasepoto ya hao",
+  "Enter a valid passport number (6–12 letters or digits)":
+    "Kenya nomoro e nepahetseng ya phasepoto (ditlhaku kapa dinomoro tse 6–12)",
+  "SA ID number must be 13 digits": "Nomoro ya boitsebiso ya Afrika Borwa e tlameha ho ba le dinomoro tse 13",
+  "ID number contains an invalid birth date": "Nomoro ya boitsebiso e na le letsatsi la tswalo le fosahetseng",
+  "ID number birth date is in the future": "Letsatsi la tswalo nomorong ya boitsebiso le nakong e tlang",
+  "ID number has an invalid citizenship digit": "Nomoro ya boitsebiso e na le nomoro ya boahi e fosahetseng",
+  "ID number failed the checksum – check for typos": "Nomoro ya boitsebiso e hlolehile tlhahlobong – sheba diphoso tsa ho ngola",
+  "Select an entity type": "Kgetha mofuta wa mokgatlo",
+  "Enter business name": "Kenya lebitso la kgwebo",
+  "Enter CIPC registration number": "Kenya nomoro ya ngodiso ya CIPC",
+  "Enter a valid South African number": "Kenya nomoro e nepahetseng ya Afrika Borwa",
+  "Enter a valid email": "Kenya imeile e nepahetseng",
+  "Enter the street address": "Kenya aterese ya seterata",
+  "Enter the suburb": "Kenya sebaka",
+  "Enter the city or town": "Kenya toropo",
+  "Enter a 4-digit postal code": "Kenya khoutu ya poso ya dinomoro tse 4",
+  "Select a province or region": "Kgetha profensi kapa sebaka",
+  "Must be at least 1": "E tlameha ho ba bonyane 1",
+  "Select a vehicle type": "Kgetha mofuta wa koloi",
+  "Min 1T": "Bonyane 1T",
+  "Max 15T": "Bongata 15T",
+  "Enter registration number": "Kenya nomoro ya ngodiso",
+  "Upload the licence disc": "Kenya disiki ya laesense",
+  "Upload the roadworthy certificate": "Kenya setifikeiti sa ho tsamaya tseleng",
+  "Upload the insurance document": "Kenya tokomane ya inshorense",
+  "Enter the licence disc expiry date": "Kenya letsatsi la ho fela la disiki ya laesense",
+  "Enter the roadworthy certificate expiry date": "Kenya letsatsi la ho fela la setifikeiti sa ho tsamaya tseleng",
+  "Enter the insurance policy expiry date": "Kenya letsatsi la ho fela la inshorense",
+  "This document has expired": "Tokomane ena e fetilwe ke nako",
+  "At least one truck is required": "Ho hlokeha bonyane lori e le nngwe",
+  "Enter account holder name": "Kenya lebitso la monga akhaonte",
+  "Select account type": "Kgetha mofuta wa akhaonte",
+  "Digits only": "Dinomoro feela",
+  "8–13 digits": "Dinomoro tse 8–13",
+  "{bank} account numbers are {lengths} digits": "Dinomoro tsa diakhaonte tsa {bank} di na le dinomoro tse {lengths}",
+  "{bank} account numbers start with {prefixes}": "Dinomoro tsa diakhaonte tsa {bank} di qala ka {prefixes}",
+  "Not a valid {bank} account number – check for typos":
+    "Hase nomoro e nepahetseng ya akhaonte ya {bank} – sheba diphoso tsa ho ngola",
+  "{bank} uses universal branch code {code}": "{bank} e sebedisa khoutu ya lekala e akaretsang {code}",
+  "6 digits": "Dinomoro tse 6",
+  "You must accept the Terms of Use": "O tlameha ho amohela Dipehelo tsa Tshebediso",
+  "You must consent to data storage": "O tlameha ho dumela hore dintlha di bolokwe",
+  "You must consent to be contacted": "O tlameha ho dumela ho ikopanngwa le wena",
+  "Invalid document": "Tokomane e sa nepahalang",
+  "Document was not uploaded for this application": "Tokomane ha e a kengwa bakeng sa kopo ena",
+
+  // Status portal
+  "Application status": "Boemo ba kopo",
+  "Sign in with the email address you applied with to follow your application.":
+    "Kena ka aterese ya imeile eo o kentseng kopo ka yona ho latela kopo ya hao.",
+  "Signed in as {email}": "O kene jwalo ka {email}",
+  "Sign out": "Tswa",
+  "Start a new application": "Qala kopo e ntjha",
+  "Email me a code": "Nthomelle khoutu ka imeile",
+  "Please wait...": "Ka kopo ema...",
+  "We've emailed a code to {email}": "Re rometse khoutu ho {email}",
+  "We couldn't send a code. Please try again.": "Re hlotswe ke ho romela khoutu. Ka kopo leka hape.",
+  "That code is incorrect or has expired": "Khoutu eo e fosahetse kapa e fetilwe ke nako",
+  "Enter the {length}-digit code we sent to {email}.": "Kenya khoutu ya dinomoro tse {length} eo re e rometseng ho {email}.",
+  Verify: "Netefatsa",
+  "Send a new code": "Romela khoutu e ntjha",
+  "Use a different email": "Sebedisa imeile e nngwe",
+  "Application {reference}": "Kopo {reference}",
+  "Submitted {date}": "E rometswe ka {date}",
+  "Our reviewers need more from you": "Bahlahlobi ba rona ba hloka ho eketsehileng ho wena",
+  Timeline: "Nako ya diketsahalo",
+  Received: "E amohetswe",
+  "In review": "E a hlahlojwa",
+  Approved: "E dumeletswe",
+  "Not approved": "Ha e a dumellwa",
+  "Loading…": "E a jarolla…",
+  "We couldn't load your applications": "Re hlotswe ke ho jarolla dikopo tsa hao",
+  "Try again": "Leka hape",
+  "We couldn't find any applications for this email address.":
+    "Ha re a fumana dikopo bakeng sa aterese ena ya imeile.",
+  "Track your application": "Latela kopo ya hao",
+
+  // Corrections
+  "Needs more information": "Ho hlokeha dintlha tse eketsehileng",
+  "Update your application": "Ntlafatsa kopo ya hao",
+  "Our reviewers asked you to update:": "Bahlahlobi ba rona ba kopile hore o ntlafatse:",
+  "Identity details": "Dintlha tsa boitsebiso",
+  "Contact and business details": "Dintlha tsa kgokahano le tsa kgwebo",
+  "Trucks and their compliance documents": "Dilori le ditokomane tsa tsona tsa boikamahanyo",
+  "Additional vehicle documents": "Ditokomane tse ding tsa koloi",
+  "Banking details": "Dintlha tsa banka",
+  "Bank statement": "Setatemente sa banka",
+  "This link has expired or your changes were already sent.":
+    "Kgokahanyo ena e fetilwe ke nako kapa diphetoho tsa hao di se di rometswe.",
+  "This request has already been answered": "Kopo ena e se e arabilwe",
+  "Your changes were sent": "Diphetoho tsa hao di rometswe",
+  "Changes Sent!": "Diphetoho di Rometswe!",
+  "We'll review your updated application and get back to you soon.":
+    "Re tla hlahloba kopo ya hao e ntlafaditsweng mme re o arabe haufinyane.",
+
+  // Eligibility
+  "This application doesn't meet our eligibility requirements":
+    "Kopo ena ha e fihlele ditlhoko tsa rona tsa ho tshwaneleha",
+
+  // Drivers
+  Drivers: "Bakganni",
+  "Driver {number}": "Mokganni {number}",
+  "Add the drivers you employ so we can vet them too. If you drive your trucks yourself, you can skip this step.":
+    "Kenya bakganni bao o ba hirileng hore re ba hlahlobe le bona. Haeba o kganna diteraka tsa hao ka bowena, o ka tlola mohato ona.",
+  "Remove driver": "Tlosa mokganni",
+  "Full name": "Lebitso ka botlalo",
+  "ID or passport number": "Nomoro ya ID kapa ya phasepoto",
+  "Licence code": "Khoutu ya laesense",
+  "Select a licence code": "Kgetha khoutu ya laesense",
+  "Code B – light motor vehicle": "Khoutu B – koloi e bobebe",
+  "Code EB – light motor vehicle with trailer": "Khoutu EB – koloi e bobebe e nang le trailara",
+  "Code C1 – goods vehicle up to 16 000 kg": "Khoutu C1 – koloi ya thepa ho fihla ho 16 000 kg",
+  "Code EC1 – C1 vehicle with trailer": "Khoutu EC1 – koloi ya C1 e nang le trailara",
+  "Code C – goods vehicle over 16 000 kg": "Khoutu C – koloi ya thepa e fetang 16 000 kg",
+  "Code EC – articulated vehicle": "Khoutu EC – koloi e manonyeletso",
+  "PrDP number": "Nomoro ya PrDP",
+  "PrDP expiry date": "Letsatsi la ho fela ha PrDP",
+  "Driving Licence": "Laesense ya ho kganna",
+  "ID Document": "Tokomane ya ID",
+  "Add a driver": "Kenya mokganni",
+  "Who drives each truck?": "Ke mang ya kgannang teraka ka nngwe?",
+  "I drive it myself": "Ke e kganna ka bonna",
+  "Enter the driver's full name": "Kenya lebitso la mokganni ka botlalo",
+  "Enter the driver's ID or passport number": "Kenya nomoro ya ID kapa ya phasepoto ya mokganni",
+  "Enter the PrDP number": "Kenya nomoro ya PrDP",
+  "Enter the PrDP expiry date": "Kenya letsatsi la ho fela ha PrDP",
+  "Upload the driving licence": "Kenya laesense ya ho kganna",
+  "Upload the driver's ID document": "Kenya tokomane ya ID ya mokganni",
+  "Choose a driver from your roster": "Kgetha mokganni lenaneng la hao",
+  "Drivers and who drives each truck": "Bakganni le hore na ke mang ya kgannang teraka ka nngwe",
+
+  // Mobile verification
+  "Verify your mobile number": "Netefatsa nomoro ya hao ya mohala",
+  "We've sent a code to {mobile}": "Re romeletse khoutu ho {mobile}",
+  "Resend in {seconds}s": "Romela hape ka mora {seconds}s",
+  "Number verified": "Nomoro e netefaditswe",
+  "Enter the {length}-digit code we sent to {mobile}.":
+    "Kenya khoutu ya dinomoro tse {length} eo re e rometseng ho {mobile}.",
+  "Please wait {seconds} seconds before asking for another code":
+    "Ka kopo ema metsotswana e {seconds} pele o kopa khoutu e nngwe",
+  "Too many codes were sent to this number. Try again later.":
+    "Ho rometswe dikhoutu tse ngata haholo nomorong ena. Leka hape hamorao.",
+  "That code has expired. Ask for a new one.":
+    "Khoutu eo e felletswe ke nako. Kopa e ntjha.",
+  "Too many attempts from your network. Try again later.":
+    "Ho bile le boiteko bo bongata haholo ho tswa marangrang a hao. Leka hape hamorao.",
+
+
+  // Coverage
+  Coverage: "Dibaka",
+  "Where You Operate": "Moo o Sebetsang Teng",
+  "Provinces you service": "Diprofense tseo o di sebeletsang",
+  "Towns you service (optional)": "Ditoropo tseo o di sebeletsang (ho ikhethela)",
+  "Leave these clear if you'll take loads anywhere in the provinces above.":
+    "O se ke wa kgetha letho haeba o tla nka meroalo kae kapa kae diprofenseng tse ka hodimo.",
+  "Preferred lanes (optional)": "Ditsela tseo o di ratang (ho ikhethela)",
+  "Routes you'd like regular loads on, e.g. Johannesburg to Durban.":
+    "Ditsela tseo o ka ratang ho fumana meroalo ho tsona kamehla, mohl. Johannesburg ho ya Durban.",
+  From: "Ho tloha",
+  To: "Ho ya",
+  "Remove lane": "Tlosa tsela",
+  "Add a lane": "Eketsa tsela",
+  "Do you drive loads across borders?": "Na o tsamaisa meroalo ho tshela meedi?",
+  "Countries you drive to": "Dinaha tseo o kgannelang ho tsona",
+  "Select at least one province you service": "Kgetha bonyane profense e le nngwe eo o e sebeletsang",
+  "Select the province this town is in": "Kgetha profense eo toropo ena e leng ho yona",
+  "Enter where loads are collected": "Kenya moo meroalo e lataelwang teng",
+  "Enter where loads are delivered": "Kenya moo meroalo e isoang teng",
+  "List up to {count} lanes": "Kenya ditsela tse ka bang {count}",
+  "Tell us whether you drive across borders": "Re bolelle hore na o tshela meedi",
+  "Select the countries you drive to": "Kgetha dinaha tseo o kgannelang ho tsona",
+  "Where you operate": "Moo o sebetsang teng",
+
+
+  // Fleet import
+  "Import trucks from a spreadsheet": "Kenya dilori ho tswa sepredisheteng",
+  "Import your fleet": "Kenya dikoloi tsa hao",
+  "Fill in one row per truck in the template, save it as CSV or Excel (.xlsx) and choose it below. You'll still attach each truck's documents afterwards.":
+    "Tlatsa mola o le mong bakeng sa lori ka nngwe thempleiting, o e boloke e le CSV kapa Excel (.xlsx) ebe o e kgetha ka tlase. O ntse o tla hokela ditokomane tsa lori ka nngwe kamora moo.",
+  "Vehicle types: {types}": "Mefuta ya dikoloi: {types}",
+  "Download the template": "Jarolla thempleite",
+  "Choose a file": "Kgetha faele",
+  "Choose another file": "Kgetha faele e nngwe",
+  "{count} trucks are ready to import from {file}": "Dilori tse {count} di lokile ho kenngwa ho tswa ho {file}",
+  "That would make {count} trucks; the most we accept is {max}.":
+    "Seo se ka etsa dilori tse {count}; re amohela tse sa feteng {max}.",
+  "Fix these rows in your spreadsheet and choose it again.":
+    "Lokisa mela ena sepredisheteng sa hao ebe o e kgetha hape.",
+  Row: "Mola",
+  Column: "Kholomo",
+  Problem: "Bothata",
+  "Import {count} trucks": "Kenya dilori tse {count}",
+  "Imported {count} trucks": "Ho kentswe dilori tse {count}",
+  "We couldn't read that file": "Ha re a kgona ho bala faele eo",
+  "This file isn't a valid .xlsx workbook": "Faele ena hase buka ya mosebetsi ya .xlsx e nepahetseng",
+  "This workbook is compressed in a way we can't read": "Buka ena ya mosebetsi e hatelletswe ka tsela eo re sa kgoneng ho e bala",
+  "This workbook has no worksheet we can read": "Buka ena ya mosebetsi ha e na leqephe leo re ka le balang",
+  "Choose a .csv or .xlsx file": "Kgetha faele ya .csv kapa .xlsx",
+  "The spreadsheet is empty": "Sepredishete ha se na letho",
+  "This column is missing from the template": "Kholomo ena ha e yo thempleiting",
+  "Use one of the vehicle types in the list": "Sebedisa o mong wa mefuta ya dikoloi e lenaneng",
+  "Enter the capacity in tons": "Kenya bokgoni ka ditone",
+  "Enter a valid year": "Kenya selemo se nepahetseng",
+  "Also on row {row}": "Hape e moleng wa {row}",
+  "Add a row for each truck below the headings": "Eketsa mola bakeng sa lori ka nngwe ka tlase ha dihlooho",
+  "Enter the 17-character VIN": "Kenya VIN ya ditlhaku tse 17",
+  "No more than {max} trucks": "Dilori tse sa feteng {max}",
+  "Vehicle type": "Mofuta wa koloi",
+  "Capacity (tons)": "Bokgoni (ditone)",
+  Registration: "Ngodiso",
+  VIN: "VIN",
+  Year: "Selemo",
+  "VIN (optional)": "VIN (ho ikhethela)",
+  "Year (optional)": "Selemo (ho ikhethela)",
+
+
+  // Truck photos
+  "Truck Photos": "Ditshwantsho tsa teraka",
+  "Take each photo in good light, standing back far enough to fit the whole view.":
+    "Nka setshwantsho ka seng moo ho leng lesedi le letle, o eme hole ho lekana hore tsohle di kene.",
+  Front: "Ka pele",
+  "Left side": "Lehlakore le letshehadi",
+  "Right side": "Lehlakore le letona",
+  Rear: "Ka morao",
+  "Load bed": "Sebaka sa thepa",
+  Odometer: "Odometer",
+  "Straight on, with the number plate readable": "Ka kotloloho ka pele, nomoro ya poleiti e bonahala",
+  "The full length of the truck": "Bolelele bohle ba teraka",
+  "Including the rear number plate": "Ho kenyeletswa le poleiti ya nomoro ya ka morao",
+  "The deck or body, empty if you can": "Sebaka sa thepa, se se na letho ha ho kgoneha",
+  "The dashboard, with the reading in focus": "Dashboard, dinomoro di bonahala hantle",
+  "Take photo": "Nka setshwantsho",
+  Retake: "Nka hape",
+  "Taken {time}": "Se nkuwe ka {time}",
+  "Added {time} (time from this device)": "Se kentswe ka {time} (nako ya sesebediswa sena)",
+  "Take or choose a photo": "Nka kapa o kgethe setshwantsho",
+  "Take a photo of the front": "Nka setshwantsho sa ka pele",
+  "Take a photo of the left side": "Nka setshwantsho sa lehlakore le letshehadi",
+  "Take a photo of the right side": "Nka setshwantsho sa lehlakore le letona",
+  "Take a photo of the rear": "Nka setshwantsho sa ka morao",
+  "Take a photo of the load bed": "Nka setshwantsho sa sebaka sa thepa",
+  "Take a photo of the odometer": "Nka setshwantsho sa odometer",
+  "Take the photos of this truck": "Nka ditshwantsho tsa teraka ena",
+
+
+  // Review
+  Review: "Hlahloba",
+  "Review Your Application": "Hlahloba kopo ya hao",
+  "Check your answers before you submit. Registrations and account numbers are easy to mistype.":
+    "Hlahloba dikarabo tsa hao pele o romela. Dinomoro tsa ngoliso le tsa akhaonto di bonolo ho ngolwa hampe.",
+  Edit: "Fetola",
+  "Back to review": "Kgutlela tlhahlobong",
+  "Not attached": "Ha e a hokelwa",
+  "Show {label}": "Bontsha {label}",
+  "Hide {label}": "Pata {label}",
+  Driver: "Mokganni",
+  Photo: "Setshwantsho",
+  "No drivers added": "Ha ho bakganni ba kentsweng",
+  "Towns you service": "Ditoropo tseo o di sebeletsang",
+  "Anywhere in these provinces": "Kae kapa kae diprovinseng tsena",
+  "Preferred lanes": "Ditsela tseo o di ratang",
+  Accepted: "E amohetswe",
+  "Some answers need attention before you submit": "Dikarabo tse ding di hloka ho lokiswa pele o romela",
+
+  // Offline
+  "You're offline. We'll send your application when you're back online.":
+    "Ha o a hokahana le inthanete. Re tla romela kopo ya hao ha o se o hokahane hape.",
+  "Waiting to send": "E emetse ho romelwa",
+  "Sending your application now…": "Re romela kopo ya hao jwale…",
+  "We couldn't reach our server. We'll keep trying, or you can try again now.":
+    "Ha re a kgona ho fihlella seva ya rona. Re tla tswela pele re leka, kapa o ka leka hape jwale.",
+  "Your application is saved on this device and will be sent automatically when you're back online. You can close this page; it will be sent next time you open it.":
+    "Kopo ya hao e bolokilwe sesebedisweng sena mme e tla romelwa ka boiketsetso ha o se o hokahane hape. O ka kwala leqephe lena; e tla romelwa ha o le bula hape.",
+  "{name}, queued {time}": "{name}, e kentswe moleng {time}",
+  "Send now": "Romela jwale",
+  "You're offline. Keep going – your answers and files are saved on this device, and your application will be sent once you're back online.":
+    "Ha o a hokahana le inthanete. Tswela pele – dikarabo tsa hao le difaele di bolokwa sesebedisweng sena, mme kopo ya hao e tla romelwa hang ha o se o hokahane hape.",
+
+  // Analytics
+  "Help us improve this form? We'd like to count, anonymously, which steps applicants finish and where they get stuck. We never record your answers.":
+    "Re thuse ho ntlafatsa foromo ena? Re ka rata ho bala, ntle le ho tseba hore na o mang, hore na bakopi ba qeta mehato efe le hore na ba tshwarehela kae. Ha ho mohla re ngolang dikarabo tsa hao.",
+  "No thanks": "Tjhe, ke a leboha",
+  Allow: "Dumella",
+
+  // Terms versions
+  "Version {version}, published {date}": "Mofuta wa {version}, o phatlaladitsweng ka {date}",
+  "version {version}": "mofuta wa {version}",
+  "Loading the Terms of Use…": "Re kenya Dipehelo tsa Tshebediso…",
+  "We couldn't load the Terms of Use. Check your connection and try again.":
+    "Ha re a kgona ho kenya Dipehelo tsa Tshebediso. Hlahloba kgokahano ya hao mme o leke hape.",
+  "Our Terms of Use were updated since you accepted them. Please read and accept the new version.":
+    "Dipehelo tsa rona tsa Tshebediso di ntlafaditswe haesale o di amohela. Ka kopo bala mme o amohele mofuta o motjha.",
+  "Our Terms of Use were updated. Read and accept the new version.":
+    "Dipehelo tsa rona tsa Tshebediso di ntlafaditswe. Bala mme o amohele mofuta o motjha.",
+  "Our Terms of Use have changed": "Dipehelo tsa rona tsa Tshebediso di fetohile",
+  "Read the new terms": "Bala dipehelo tse ntjha",
+  "I accept": "Ke a amohela",
+  "We couldn't record your acceptance. Please try again.":
+    "Ha re a kgona ho ngola kamohelo ya hao. Ka kopo leka hape.",
+  "Thank you – you've accepted the new Terms of Use": "Re a leboha – o amohetse Dipehelo tse ntjha tsa Tshebediso",
+
+  // Data requests
+  "Your personal information": "Tlhahisoleseding ya hao ya botho",
+  "Under POPIA you may ask what we hold about you, have it corrected or have it deleted.":
+    "Ho ya ka POPIA o ka botsa hore na re tshwere tlhahisoleseding efe ka wena, wa e lokisetswa kapa wa e hlakolelwa.",
+  "A copy of my data": "Kopi ya data ya ka",
+  "We'll send you everything we hold about you, including your documents.":
+    "Re tla o romela tsohle tseo re di tshwereng ka wena, ho kenyeletswa ditokomane tsa hao.",
+  "Correct my data": "Lokisa data ya ka",
+  "Tell us what is wrong and what it should be.": "Re bolelle hore na ke eng e fosahetseng le hore e lokela ho ba eng.",
+  "Delete my data": "Hlakola data ya ka",
+  "We'll erase your application and documents. You won't be able to work with us on this application afterwards.":
+    "Re tla hlakola kopo ya hao le ditokomane. Ka mora moo o ke ke wa hlola o sebetsa le rona ka kopo ena.",
+  "What should we correct?": "Re lokela ho lokisa eng?",
+  "Anything we should know? (optional)": "Na ho na le seo re lokelang ho se tseba? (ha o rata)",
+  "Cancel": "Hlakola",
+  "Send request": "Romela kopo",
+  "You already have an open request of this kind": "O se o ntse o na le kopo e bulehileng ya mofuta ona",
+  "We couldn't send your request. Please try again.": "Ha re a kgona ho romela kopo ya hao. Ka kopo leka hape.",
+  "Request received. We'll respond within 30 days.": "Kopo e amohetswe. Re tla araba nakong ya matsatsi a 30.",
+  "Open": "E bulehile",
+  "Completed": "E phethilwe",
+  "Declined": "E hannwe",
+  "Sent {date} · we'll respond by {due}": "E rometswe {date} · re tla araba ka {due}",
+  "Sent {date} · closed {closed}": "E rometswe {date} · e kwetswe {closed}",
+  "Ask about your data": "Botsa ka data ya hao",
+
+  // Draft resume links
+  "We've emailed a link to {email}": "Re romeletse {email} lehokelo",
+  "We couldn't send the link. Please try again.": "Ha re a kgona ho romela lehokelo. Ka kopo leka hape.",
+  "A draft for this email was saved on another device.": "Moralo wa imeile ena o bolokilwe sesebedisweng se seng.",
+  "Link sent": "Lehokelo le rometswe",
+  "Email me a link to continue it": "Nthomelle lehokelo ka imeile hore ke tswelepele",
+  "Continue on another device": "Tswela pele sesebedisweng se seng",
+};
+
+export default st;
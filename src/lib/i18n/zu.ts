@@ -0,0 +1,521 @@
+import type { Messages } from "./index";
+
+const zu: Messages = {
+  // Wizard chrome
+  Language: "Ulimi",
+  "Hauler Onboarding": "Ukubhalisa Kwabathwali Bempahla",
+  "Quick setup to get you started": "Ukusetha okusheshayo ukuze uqale",
+  "Draft saved {time}": "Okusalungiswa kulondolozwe ngo-{time}",
+  "Step {current} of {total}": "Isinyathelo {current} kwezingu-{total}",
+  Back: "Emuva",
+  Continue: "Qhubeka",
+  "Submitting...": "Iyathunyelwa...",
+  "Submit Application": "Thumela Isicelo",
+  "Application Submitted!": "Isicelo Sithunyelwe!",
+  "We'll review your application and get back to you soon.":
+    "Sizobuyekeza isicelo sakho futhi sikuphendule maduze.",
+  "Thank you for joining our network": "Siyabonga ngokujoyina inethiwekhi yethu",
+  "Application submitted successfully": "Isicelo sithunyelwe ngempumelelo",
+  Select: "Khetha",
+  Clear: "Sula",
+  "View {title}": "Buka {title}",
+
+  // Steps
+  Eligibility: "Ukufaneleka",
+  "Eligibility Check": "Ukuhlola Ukufaneleka",
+  "Basic Info": "Imininingwane Eyisisekelo",
+  Vehicle: "Imoto",
+  "Vehicle Info": "Imininingwane Yemoto",
+  Banking: "Ibhange",
+  "Banking Info": "Imininingwane Yebhange",
+  Terms: "Imigomo",
+  "Terms & Consent": "Imigomo Nemvume",
+
+  // Eligibility
+  "Own a vehicle?": "Unayo imoto?",
+  "Have roadworthy & insurance?": "Unesitifiketi sokufaneleka emgwaqweni nomshwalense?",
+  Yes: "Yebo",
+  No: "Cha",
+  "Application Requirements Not Met": "Izidingo Zesicelo Azifinyelelwanga",
+  "Unfortunately, you don't meet the current requirements for our hauler network.":
+    "Ngeshwa, awuzifinyeleli izidingo zamanje zenethiwekhi yethu yabathwali.",
+  "Reject: Driver only not allowed": "Kunqatshiwe: Abashayeli kuphela abavunyelwe",
+  "Reject: Missing roadworthy or insurance": "Kunqatshiwe: Asikho isitifiketi sokufaneleka emgwaqweni noma umshwalense",
+  "Please review the requirements and try again when you meet all criteria.":
+    "Sicela ubuyekeze izidingo bese uzama futhi uma usuzifinyelela zonke.",
+  Understood: "Ngiyaqonda",
+
+  // Basic info
+  Name: "Igama",
+  "Identity Document": "Umqulu Kamazisi",
+  "South African ID": "Umazisi waseNingizimu Afrika",
+  Passport: "Iphasiphothi",
+  "ID Number": "Inombolo Kamazisi",
+  "Passport Number": "Inombolo Yephasiphothi",
+  "Passport Country": "Izwe Lephasiphothi",
+  "Born {date}": "Uzalwe ngo-{date}",
+  Female: "Owesifazane",
+  Male: "Owesilisa",
+  "SA citizen": "Isakhamuzi saseNingizimu Afrika",
+  "Permanent resident": "Ohlala unomphela",
+  Refugee: "Umbaleki",
+  Type: "Uhlobo",
+  Individual: "Umuntu ngamunye",
+  Business: "Ibhizinisi",
+  "Business Name": "Igama Lebhizinisi",
+  "CIPC Number": "Inombolo ye-CIPC",
+  Mobile: "Iselula",
+  Email: "I-imeyili",
+  "Street Address": "Ikheli lomgwaqo",
+  Suburb: "Indawo",
+  "City or Town": "Idolobha",
+  "Postal Code": "Ikhodi yeposi",
+  "Suburbs with this code:": "Izindawo ezinale khodi:",
+  "This postal code is in {province}.": "Le khodi yeposi ise-{province}.",
+  "Change to {province}": "Shintshela ku-{province}",
+  Province: "Isifundazwe",
+
+  // Vehicle
+  "Number of Trucks": "Inani Lamaloli",
+  truck: "iloli",
+  trucks: "amaloli",
+  "Truck Details": "Imininingwane Yeloli",
+  "{done} of {total} completed": "{done} kwangu-{total} kuqediwe",
+  "{done} of {total}": "{done} kwangu-{total}",
+  "Truck {number}": "Iloli {number}",
+  "Remove Truck {number}": "Susa Iloli {number}",
+  "Remove Truck": "Susa Iloli",
+  Previous: "Edlule",
+  Prev: "Edlule",
+  Next: "Okulandelayo",
+  "Vehicle Type": "Uhlobo Lwemoto",
+  "Select vehicle type": "Khetha uhlobo lwemoto",
+  Flatbed: "Iloli eliyisicaba",
+  "Box Truck": "Iloli elinebhokisi",
+  Tipper: "Iloli elithululayo",
+  Refrigerated: "Elinesiqandisi",
+  Tanker: "Ithangi",
+  Other: "Okunye",
+  "Load Capacity": "Umthamo Wokuthwala",
+  tons: "amathani",
+  "Registration Number": "Inombolo Yokubhalisa",
+  "Compliance Documents": "Imiqulu Yokuthobela",
+  "Licence Disc": "Idiski Yelayisensi",
+  "Roadworthy Certificate": "Isitifiketi Sokufaneleka Emgwaqweni",
+  "Insurance Document": "Umqulu Womshwalense",
+  "Expiry date": "Usuku lokuphelelwa yisikhathi",
+  "Choose file": "Khetha ifayela",
+  "No file chosen": "Alikho ifayela elikhethiwe",
+  "This truck is complete and ready!": "Leli loli liphelele futhi selilungile!",
+  "Please complete all required fields for this truck":
+    "Sicela ugcwalise zonke izikhala ezidingekayo zaleli loli",
+  "Overall Progress": "Inqubekela Phambili Iyonke",
+  "🎉 All trucks completed! You're ready to continue.":
+    "🎉 Onke amaloli aqediwe! Usulungele ukuqhubeka.",
+  "Additional Documents": "Eminye Imiqulu",
+  "Additional Vehicle Documents": "Eminye Imiqulu Yemoto",
+  "Click to upload": "Chofoza ukuze ulayishe",
+  "or drag and drop": "noma uhudule ubeke",
+  "PDF, JPG, PNG up to {size} each, {total} in total. Photos are resized automatically.":
+    "PDF, JPG, PNG kufika ku-{size} ngalinye, {total} sekukonke. Izithombe zincishiswa ngokuzenzakalelayo.",
+  "Uploaded Documents ({count})": "Imiqulu Elayishiwe ({count})",
+  "{size} of {total}": "{size} kwangu-{total}",
+  "Optional: anything else that supports your application (permits, operator cards, photos, etc.)":
+    "Akuphoqelekile: noma yini enye esekela isicelo sakho (izimvume, amakhadi omqhubi, izithombe, njll.)",
+
+  // Banking
+  Bank: "Ibhange",
+  "Select your bank": "Khetha ibhange lakho",
+  "Other bank": "Elinye ibhange",
+  "Account Holder": "Umnikazi Wekhawunti",
+  "Account Number": "Inombolo Yekhawunti",
+  "Account Type": "Uhlobo Lwekhawunti",
+  Cheque: "Isheke",
+  Savings: "Okulondoloziwe",
+  "Branch Code": "Ikhodi Yegatsha",
+  "Universal branch code for {bank}": "Ikhodi yegatsha evamile ye-{bank}",
+  "Bank Statement": "Isitatimende Sebhange",
+
+  // Terms
+  "Accept Terms of Use": "Yamukela Imigomo Yokusebenzisa",
+  "Consent to data storage": "Ngiyavuma ukugcinwa kwemininingwane",
+  "Consent to be contacted": "Ngiyavuma ukuthintwa",
+
+  // Drafts and uploads
+  "Resume where you left off?": "Uqhubeke lapho ugcine khona?",
+  "We saved your application {when}.": "Silondoloze isicelo sakho {when}.",
+  "You were on the {step} step.": "Ubusesinyathelweni se-{step}.",
+  "1 file you attached is only kept on the device you started on, so we'll ask you to re-attach it.":
+    "Ifayela elilodwa olinamathiselile ligcinwa kuphela kudivayisi oqale ngayo, ngakho sizokucela ukuthi uphinde ulinamathisele.",
+  "{count} files you attached are only kept on the device you started on, so we'll ask you to re-attach them.":
+    "Amafayela angu-{count} owanamathiselile agcinwa kuphela kudivayisi oqale ngayo, ngakho sizokucela ukuthi uphinde uwanamathisele.",
+  "Start over": "Qala phansi",
+  Resume: "Qhubeka",
+  "Re-attach from your saved draft:": "Phinda unamathisele kokusalungiswa okulondoloziwe:",
+  "Uploading documents": "Ilayisha imiqulu",
+  Failed: "Kwehlulekile",
+  "Retrying…": "Iyaphinda izama…",
+  Waiting: "Ilindile",
+  "Upload failed: {name}": "Ukulayisha kwehlulekile: {name}",
+  "{count} uploads failed: {names}": "Ukulayisha okungu-{count} kwehlulekile: {names}",
+  "{message}. Check your connection and submit again – finished uploads won't be repeated.":
+    "{message}. Hlola uxhumano lwakho bese uthumela futhi – okulayishiwe ngeke kuphindwe.",
+  "Submission failed. Please try again.": "Ukuthumela kwehlulekile. Sicela uzame futhi.",
+  "Some answers are invalid": "Ezinye izimpendulo azilungile",
+  "This application has already been submitted": "Lesi sicelo sesivele sithunyelwe",
+  "Documents were not received: {files}": "Imiqulu ayitholakalanga: {files}",
+
+  // File checks
+  "Only PDF, JPG and PNG files are accepted": "Kwamukelwa amafayela e-PDF, JPG ne-PNG kuphela",
+  "File is really a {actual}, not a {expected}": "Ifayela empeleni lingu-{actual}, hhayi u-{expected}",
+  "File isn't a valid {expected}": "Ifayela aliyona i-{expected} evumelekile",
+  "Larger than {size}": "Likhulu kuno-{size}",
+  "JPEG image": "Isithombe se-JPEG",
+  "PNG image": "Isithombe se-PNG",
+  "Already attached": "Selinamathiselwe",
+  "Would exceed the {size} total limit": "Lingeqa umkhawulo ophelele ka-{size}",
+
+  // Validation
+  "Please select if you own a vehicle": "Sicela ukhethe ukuthi unayo yini imoto",
+  "Please confirm you have required documents": "Sicela uqinisekise ukuthi unemiqulu edingekayo",
+  "Enter full name": "Faka igama eliphelele",
+  "Select an identity document": "Khetha umqulu kamazisi",
+  "Enter ID or passport number": "Faka inombolo kamazisi noma yephasiphothi",
+  "Select the country that issued your passport": "Khetha izwe elikhiphe iphasiphothi yakho",
+  "Enter a valid passport number (6–12 letters or digits)":
+    "Faka inombolo yephasiphothi evumelekile (izinhlamvu noma izinombolo ezingu-6–12)",
+  "SA ID number must be 13 digits": "Inombolo kamazisi yaseNingizimu Afrika kufanele ibe nezinombolo ezingu-13",
+  "ID number contains an invalid birth date": "Inombolo kamazisi inosuku lokuzalwa olungalungile",
+  "ID number birth date is in the future": "Usuku lokuzalwa enombolweni kamazisi lusesikhathini esizayo",
+  "ID number has an invalid citizenship digit": "Inombolo kamazisi inenombolo yobuzwe engalungile",
+  "ID number failed the checksum – check for typos": "Inombolo kamazisi ihlulekile ekuhlolweni – hlola amaphutha okubhala",
+  "Select an entity type": "Khetha uhlobo lwebhizinisi",
+  "Enter business name": "Faka igama lebhizinisi",
+  "Enter CIPC registration number": "Faka inombolo yokubhalisa ye-CIPC",
+  "Enter a valid South African number": "Faka inombolo evumelekile yaseNingizimu Afrika",
+  "Enter a valid email": "Faka i-imeyili evumelekile",
+  "Enter the street address": "Faka ikheli lomgwaqo",
+  "Enter the suburb": "Faka indawo",
+  "Enter the city or town": "Faka idolobha",
+  "Enter a 4-digit postal code": "Faka ikhodi yeposi enezinombolo ezi-4",
+  "Select a province or region": "Khetha isifundazwe noma isifunda",
+  "Must be at least 1": "Kufanele kube okungenani ku-1",
+  "Select a vehicle type": "Khetha uhlobo lwemoto",
+  "Min 1T": "Okungenani 1T",
+  "Max 15T": "Okungaphezulu 15T",
+  "Enter registration number": "Faka inombolo yokubhalisa",
+  "Upload the licence disc": "Layisha idiski yelayisensi",
+  "Upload the roadworthy certificate": "Layisha isitifiketi sokufaneleka emgwaqweni",
+  "Upload the insurance document": "Layisha umqulu womshwalense",
+  "Enter the licence disc expiry date": "Faka usuku lokuphelelwa kwedisiki yelayisensi",
+  "Enter the roadworthy certificate expiry date": "Faka usuku lokuphelelwa kwesitifiketi sokufaneleka emgwaqweni",
+  "Enter the insurance policy expiry date": "Faka usuku lokuphelelwa komshwalense",
+  "This document has expired": "Lo mqulu usuphelelwe yisikhathi",
+  "At least one truck is required": "Kudingeka okungenani iloli elilodwa",
+  "Enter account holder name": "Faka igama lomnikazi wekhawunti",
+  "Select account type": "Khetha uhlobo lwekhawunti",
+  "Digits only": "Izinombolo kuphela",
+  "8–13 digits": "Izinombolo ezingu-8–13",
+  "{bank} account numbers are {lengths} digits": "Izinombolo zamakhawunti e-{bank} zinezinombolo ezingu-{lengths}",
+  "{bank} account numbers start with {prefixes}": "Izinombolo zamakhawunti e-{bank} ziqala ngo-{prefixes}",
+  "Not a valid {bank} account number – check for typos":
+    "Akuyona inombolo yekhawunti ye-{bank} evumelekile – hlola amaphutha okubhala",
+  "{bank} uses universal branch code {code}": "I-{bank} isebenzisa ikhodi yegatsha evamile {code}",
+  "6 digits": "Izinombolo ezingu-6",
+  "You must accept the Terms of Use": "Kufanele wamukele Imigomo Yokusebenzisa",
+  "You must consent to data storage": "Kufanele uvume ukugcinwa kwemininingwane",
+  "You must consent to be contacted": "Kufanele uvume ukuthintwa",
+  "Invalid document": "Idokhumenti elingavumelekile",
+  "Document was not uploaded for this application": "Idokhumenti alizange lilayishwe kulesi sicelo",
+
+  // Status portal
+  "Application status": "Isimo sesicelo",
+  "Sign in with the email address you applied with to follow your application.":
+    "Ngena nge-imeyili oyisebenzise ekufakeni isicelo ukuze ulandelele isicelo sakho.",
+  "Signed in as {email}": "Ungene njengo-{email}",
+  "Sign out": "Phuma",
+  "Start a new application": "Qala isicelo esisha",
+  "Email me a code": "Ngithumelele ikhodi nge-imeyili",
+  "Please wait...": "Sicela ulinde...",
+  "We've emailed a code to {email}": "Sithumele ikhodi ku-{email}",
+  "We couldn't send a code. Please try again.": "Asikwazanga ukuthumela ikhodi. Sicela uzame futhi.",
+  "That code is incorrect or has expired": "Leyo khodi ayilungile noma isiphelelwe yisikhathi",
+  "Enter the {length}-digit code we sent to {email}.": "Faka ikhodi enezinombolo ezingu-{length} esiyithumele ku-{email}.",
+  Verify: "Qinisekisa",
+  "Send a new code": "Thumela ikhodi entsha",
+  "Use a different email": "Sebenzisa enye i-imeyili",
+  "Application {reference}": "Isicelo {reference}",
+  "Submitted {date}": "Sithunyelwe ngo-{date}",
+  "Our reviewers need more from you": "Ababuyekezi bethu badinga okwengeziwe kuwe",
+  Timeline: "Umugqa wesikhathi",
+  Received: "Sitholakele",
+  "In review": "Siyabuyekezwa",
+  Approved: "Samukelwe",
+  "Not approved": "Asamukelwanga",
+  "Loading…": "Iyalayisha…",
+  "We couldn't load your applications": "Asikwazanga ukulayisha izicelo zakho",
+  "Try again": "Zama futhi",
+  "We couldn't find any applications for this email address.":
+    "Asitholanga zicelo zale imeyili.",
+  "Track your application": "Landelela isicelo sakho",
+
+  // Corrections
+  "Needs more information": "Kudingeka imininingwane eyengeziwe",
+  "Update your application": "Buyekeza isicelo sakho",
+  "Our reviewers asked you to update:": "Ababuyekezi bethu bacele ukuthi ubuyekeze:",
+  "Identity details": "Imininingwane kamazisi",
+  "Contact and business details": "Imininingwane yokuxhumana neyebhizinisi",
+  "Trucks and their compliance documents": "Amaloli nemiqulu yawo yokuthobela",
+  "Additional vehicle documents": "Eminye imiqulu yemoto",
+  "Banking details": "Imininingwane yebhange",
+  "Bank statement": "Isitatimende sebhange",
+  "This link has expired or your changes were already sent.":
+    "Lesi sixhumanisi siphelelwe yisikhathi noma izinguquko zakho sezivele zithunyelwe.",
+  "This request has already been answered": "Lesi sicelo sesivele siphendulwe",
+  "Your changes were sent": "Izinguquko zakho zithunyelwe",
+  "Changes Sent!": "Izinguquko Zithunyelwe!",
+  "We'll review your updated application and get back to you soon.":
+    "Sizobuyekeza isicelo sakho esibuyekeziwe futhi sikuphendule maduze.",
+
+  // Eligibility
+  "This application doesn't meet our eligibility requirements":
+    "Lesi sicelo asihlangabezani nezidingo zethu zokufaneleka",
+
+  // Drivers
+  Drivers: "Abashayeli",
+  "Driver {number}": "Umshayeli {number}",
+  "Add the drivers you employ so we can vet them too. If you drive your trucks yourself, you can skip this step.":
+    "Engeza abashayeli obaqashile ukuze nabo sibahlole. Uma ushayela amaloli akho ngokwakho, ungayeqa le sinyathelo.",
+  "Remove driver": "Susa umshayeli",
+  "Full name": "Igama eliphelele",
+  "ID or passport number": "Inombolo kamazisi noma yephasipoti",
+  "Licence code": "Ikhodi yelayisensi",
+  "Select a licence code": "Khetha ikhodi yelayisensi",
+  "Code B – light motor vehicle": "Ikhodi B – imoto elula",
+  "Code EB – light motor vehicle with trailer": "Ikhodi EB – imoto elula enenqola yokudonswa",
+  "Code C1 – goods vehicle up to 16 000 kg": "Ikhodi C1 – imoto yempahla efika ku-16 000 kg",
+  "Code EC1 – C1 vehicle with trailer": "Ikhodi EC1 – imoto ye-C1 enenqola yokudonswa",
+  "Code C – goods vehicle over 16 000 kg": "Ikhodi C – imoto yempahla engaphezu kuka-16 000 kg",
+  "Code EC – articulated vehicle": "Ikhodi EC – imoto enamalunga",
+  "PrDP number": "Inombolo ye-PrDP",
+  "PrDP expiry date": "Usuku lokuphelelwa yisikhathi kwe-PrDP",
+  "Driving Licence": "Ilayisensi yokushayela",
+  "ID Document": "Umazisi",
+  "Add a driver": "Engeza umshayeli",
+  "Who drives each truck?": "Ubani oshayela iloli ngalinye?",
+  "I drive it myself": "Ngiyazishayelela",
+  "Enter the driver's full name": "Faka igama eliphelele lomshayeli",
+  "Enter the driver's ID or passport number": "Faka inombolo kamazisi noma yephasipoti yomshayeli",
+  "Enter the PrDP number": "Faka inombolo ye-PrDP",
+  "Enter the PrDP expiry date": "Faka usuku lokuphelelwa yisikhathi kwe-PrDP",
+  "Upload the driving licence": "Layisha ilayisensi yokushayela",
+  "Upload the driver's ID document": "Layisha umazisi womshayeli",
+  "Choose a driver from your roster": "Khetha umshayeli ohlwini lwakho",
+  "Drivers and who drives each truck": "Abashayeli nokuthi ubani oshayela iloli ngalinye",
+
+  // Mobile verification
+  "Verify your mobile number": "Qinisekisa inombolo yakho yeselula",
+  "We've sent a code to {mobile}": "Sithumele ikhodi ku-{mobile}",
+  "Resend in {seconds}s": "Thumela futhi emva kuka-{seconds}s",
+  "Number verified": "Inombolo iqinisekisiwe",
+  "Enter the {length}-digit code we sent to {mobile}.":
+    "Faka ikhodi yezinombolo ezingu-{length} esiyithumele ku-{mobile}.",
+  "Please wait {seconds} seconds before asking for another code":
+    "Sicela ulinde imizuzwana engu-{seconds} ngaphambi kokucela enye ikhodi",
+  "Too many codes were sent to this number. Try again later.":
+    "Kuthunyelwe amakhodi amaningi kakhulu kule nombolo. Zama futhi emuva kwesikhathi.",
+  "That code has expired. Ask for a new one.":
+    "Leyo khodi iphelelwe yisikhathi. Cela entsha.",
+  "Too many attempts from your network. Try again later.":
+    "Kunemizamo eminingi kakhulu evela kunethiwekhi yakho. Zama futhi emuva kwesikhathi.",
+
+
+  // Coverage
+  Coverage: "Izindawo",
+  "Where You Operate": "Lapho Usebenza Khona",
+  "Provinces you service": "Izifundazwe ozisebenzelayo",
+  "Towns you service (optional)": "Amadolobha owasebenzelayo (akuphoqelekile)",
+  "Leave these clear if you'll take loads anywhere in the provinces above.":
+    "Ungakhethi lutho uma uzothwala imithwalo noma kuphi ezifundazweni ezingenhla.",
+  "Preferred lanes (optional)": "Imizila oyithandayo (akuphoqelekile)",
+  "Routes you'd like regular loads on, e.g. Johannesburg to Durban.":
+    "Imizila ongathanda ukuthola kuyo imithwalo njalo, isb. eGoli kuya eThekwini.",
+  From: "Kusuka",
+  To: "Kuya",
+  "Remove lane": "Susa umzila",
+  "Add a lane": "Engeza umzila",
+  "Do you drive loads across borders?": "Ingabe uthwala imithwalo weqa imingcele?",
+  "Countries you drive to": "Amazwe oshayela kuwo",
+  "Select at least one province you service": "Khetha okungenani isifundazwe esisodwa osisebenzelayo",
+  "Select the province this town is in": "Khetha isifundazwe leli dolobha elikuso",
+  "Enter where loads are collected": "Faka lapho imithwalo ilandwa khona",
+  "Enter where loads are delivered": "Faka lapho imithwalo ilethwa khona",
+  "List up to {count} lanes": "Faka imizila engafika ku-{count}",
+  "Tell us whether you drive across borders": "Sitshele ukuthi uyayeqa yini imingcele",
+  "Select the countries you drive to": "Khetha amazwe oshayela kuwo",
+  "Where you operate": "Lapho usebenza khona",
+
+
+  // Fleet import
+  "Import trucks from a spreadsheet": "Ngenisa amaloli kusuka kuspredishithi",
+  "Import your fleet": "Ngenisa amaloli akho",
+  "Fill in one row per truck in the template, save it as CSV or Excel (.xlsx) and choose it below. You'll still attach each truck's documents afterwards.":
+    "Gcwalisa umugqa owodwa weloli ngalinye kuthempulethi, uyigcine njenge-CSV noma i-Excel (.xlsx) bese uyikhetha ngezansi. Kusazodingeka unamathisele amadokhumenti eloli ngalinye ngemuva kwalokho.",
+  "Vehicle types: {types}": "Izinhlobo zezimoto: {types}",
+  "Download the template": "Landa ithempulethi",
+  "Choose a file": "Khetha ifayela",
+  "Choose another file": "Khetha elinye ifayela",
+  "{count} trucks are ready to import from {file}": "Amaloli angu-{count} asekulungele ukungeniswa kusuka ku-{file}",
+  "That would make {count} trucks; the most we accept is {max}.":
+    "Lokho kungenza amaloli angu-{count}; esiwamukelayo angafika ku-{max}.",
+  "Fix these rows in your spreadsheet and choose it again.":
+    "Lungisa le migqa kuspredishithi yakho bese uyikhetha futhi.",
+  Row: "Umugqa",
+  Column: "Ikholamu",
+  Problem: "Inkinga",
+  "Import {count} trucks": "Ngenisa amaloli angu-{count}",
+  "Imported {count} trucks": "Kungeniswe amaloli angu-{count}",
+  "We couldn't read that file": "Asikwazanga ukufunda lelo fayela",
+  "This file isn't a valid .xlsx workbook": "Leli fayela akuyona incwadi yokusebenza ye-.xlsx evumelekile",
+  "This workbook is compressed in a way we can't read": "Le ncwadi yokusebenza icindezelwe ngendlela esingakwazi ukuyifunda",
+  "This workbook has no worksheet we can read": "Le ncwadi yokusebenza ayinalo ishidi esingalifunda",
+  "Choose a .csv or .xlsx file": "Khetha ifayela le-.csv noma le-.xlsx",
+  "The spreadsheet is empty": "Ispredishithi asinalutho",
+  "This column is missing from the template": "Le kholamu ayikho kuthempulethi",
+  "Use one of the vehicle types in the list": "Sebenzisa olunye lwezinhlobo zezimoto ohlwini",
+  "Enter the capacity in tons": "Faka umthamo ngamathani",
+  "Enter a valid year": "Faka unyaka ovumelekile",
+  "Also on row {row}": "Likhona nasemgqeni {row}",
+  "Add a row for each truck below the headings": "Engeza umugqa weloli ngalinye ngaphansi kwezihloko",
+  "Enter the 17-character VIN": "Faka i-VIN enezinhlamvu ezingu-17",
+  "No more than {max} trucks": "Amaloli angeqi ku-{max}",
+  "Vehicle type": "Uhlobo lwemoto",
+  "Capacity (tons)": "Umthamo (amathani)",
+  Registration: "Ukubhaliswa",
+  VIN: "I-VIN",
+  Year: "Unyaka",
+  "VIN (optional)": "I-VIN (akuphoqelekile)",
+  "Year (optional)": "Unyaka (akuphoqelekile)",
+
+
+  // Truck photos
+  "Truck Photos": "Izithombe zeloli",
+  "Take each photo in good light, standing back far enough to fit the whole view.":
+    "Thatha isithombe ngasinye lapho kukhanya kahle, ume kude ngokwanele ukuze konke kungene.",
+  Front: "Ngaphambili",
+  "Left side": "Uhlangothi lwesobunxele",
+  "Right side": "Uhlangothi lwesokudla",
+  Rear: "Ngemuva",
+  "Load bed": "Indawo yempahla",
+  Odometer: "I-odometer",
+  "Straight on, with the number plate readable": "Ngqo ngaphambili, inombolo yepuleti ifundeka",
+  "The full length of the truck": "Ubude bonke beloli",
+  "Including the rear number plate": "Kuhlanganise nepuleti lenombolo langemuva",
+  "The deck or body, empty if you can": "Indawo yempahla, ingenalutho uma kungenzeka",
+  "The dashboard, with the reading in focus": "Ideshibhodi, izinombolo zibonakala kahle",
+  "Take photo": "Thatha isithombe",
+  Retake: "Phinda uthathe",
+  "Taken {time}": "Kuthathwe ngo-{time}",
+  "Added {time} (time from this device)": "Kungezwe ngo-{time} (isikhathi saleli divayisi)",
+  "Take or choose a photo": "Thatha noma ukhethe isithombe",
+  "Take a photo of the front": "Thatha isithombe sangaphambili",
+  "Take a photo of the left side": "Thatha isithombe sohlangothi lwesobunxele",
+  "Take a photo of the right side": "Thatha isithombe sohlangothi lwesokudla",
+  "Take a photo of the rear": "Thatha isithombe sangemuva",
+  "Take a photo of the load bed": "Thatha isithombe sendawo yempahla",
+  "Take a photo of the odometer": "Thatha isithombe se-odometer",
+  "Take the photos of this truck": "Thatha izithombe zale loli",
+
+
+  // Review
+  Review: "Buyekeza",
+  "Review Your Application": "Buyekeza isicelo sakho",
+  "Check your answers before you submit. Registrations and account numbers are easy to mistype.":
+    "Hlola izimpendulo zakho ngaphambi kokuthumela. Izinombolo zokubhalisa nezama-akhawunti kulula ukuzibhala kabi.",
+  Edit: "Hlela",
+  "Back to review": "Buyela ekubuyekezeni",
+  "Not attached": "Akunamathiselwe",
+  "Show {label}": "Bonisa {label}",
+  "Hide {label}": "Fihla {label}",
+  Driver: "Umshayeli",
+  Photo: "Isithombe",
+  "No drivers added": "Abekho abashayeli abengeziwe",
+  "Towns you service": "Amadolobha owasebenzelayo",
+  "Anywhere in these provinces": "Noma kuphi kulezi zifundazwe",
+  "Preferred lanes": "Imizila oyithandayo",
+  Accepted: "Kwamukelwe",
+  "Some answers need attention before you submit": "Ezinye izimpendulo zidinga ukulungiswa ngaphambi kokuthumela",
+
+  // Offline
+  "You're offline. We'll send your application when you're back online.":
+    "Awuxhunyiwe ku-inthanethi. Sizothumela isicelo sakho uma usuxhunyiwe futhi.",
+  "Waiting to send": "Kulindwe ukuthumela",
+  "Sending your application now…": "Sithumela isicelo sakho manje…",
+  "We couldn't reach our server. We'll keep trying, or you can try again now.":
+    "Asikwazanga ukufinyelela iseva yethu. Sizoqhubeka sizama, noma ungazama futhi manje.",
+  "Your application is saved on this device and will be sent automatically when you're back online. You can close this page; it will be sent next time you open it.":
+    "Isicelo sakho sigcinwe kule divayisi futhi sizothunyelwa ngokuzenzakalelayo uma usuxhunyiwe futhi. Ungalivala leli khasi; sizothunyelwa uma ulivula ngokulandelayo.",
+  "{name}, queued {time}": "{name}, kufakwe emugqeni {time}",
+  "Send now": "Thumela manje",
+  "You're offline. Keep going – your answers and files are saved on this device, and your application will be sent once you're back online.":
+    "Awuxhunyiwe ku-inthanethi. Qhubeka – izimpendulo zakho namafayela agcinwa kule divayisi, futhi isicelo sakho sizothunyelwa uma usuxhunyiwe futhi.",
+
+  // Analytics
+  "Help us improve this form? We'd like to count, anonymously, which steps applicants finish and where they get stuck. We never record your answers.":
+    "Sisize sithuthukise leli fomu? Singathanda ukubala, ngaphandle kokwazi ukuthi ungubani, ukuthi yiziphi izinyathelo abafakizicelo abaziqedayo nokuthi babambeka kuphi. Asilokothi siqophe izimpendulo zakho.",
+  "No thanks": "Cha ngiyabonga",
+  Allow: "Vumela",
+
+  // Terms versions
+  "Version {version}, published {date}": "Inguqulo {version}, ishicilelwe ngo-{date}",
+  "version {version}": "inguqulo {version}",
+  "Loading the Terms of Use…": "Silayisha Imigomo Yokusebenzisa…",
+  "We couldn't load the Terms of Use. Check your connection and try again.":
+    "Asikwazanga ukulayisha Imigomo Yokusebenzisa. Hlola uxhumano lwakho bese uzama futhi.",
+  "Our Terms of Use were updated since you accepted them. Please read and accept the new version.":
+    "Imigomo yethu Yokusebenzisa ibuyekeziwe selokhu wayamukela. Sicela ufunde futhi wamukele inguqulo entsha.",
+  "Our Terms of Use were updated. Read and accept the new version.":
+    "Imigomo yethu Yokusebenzisa ibuyekeziwe. Funda futhi wamukele inguqulo entsha.",
+  "Our Terms of Use have changed": "Imigomo yethu Yokusebenzisa ishintshile",
+  "Read the new terms": "Funda imigomo emisha",
+  "I accept": "Ngiyavuma",
+  "We couldn't record your acceptance. Please try again.":
+    "Asikwazanga ukuqopha ukwamukela kwakho. Sicela uzame futhi.",
+  "Thank you – you've accepted the new Terms of Use": "Siyabonga – wamukele Imigomo Yokusebenzisa emisha",
+
+  // Data requests
+  "Your personal information": "Imininingwane yakho yomuntu siqu",
+  "Under POPIA you may ask what we hold about you, have it corrected or have it deleted.":
+    "Ngaphansi kwe-POPIA ungabuza ukuthi iyiphi imininingwane esinayo ngawe, uyilungiswe noma uyisuswe.",
+  "A copy of my data": "Ikhophi yemininingwane yami",
+  "We'll send you everything we hold about you, including your documents.":
+    "Sizokuthumelela konke esinakho ngawe, kuhlanganise namadokhumenti akho.",
+  "Correct my data": "Lungisa imininingwane yami",
+  "Tell us what is wrong and what it should be.": "Sitshele ukuthi yini engalungile nokuthi kufanele kube yini.",
+  "Delete my data": "Susa imininingwane yami",
+  "We'll erase your application and documents. You won't be able to work with us on this application afterwards.":
+    "Sizosusa isicelo sakho namadokhumenti. Ngemuva kwalokho ngeke usakwazi ukusebenza nathi kulesi sicelo.",
+  "What should we correct?": "Yini okufanele siyilungise?",
+  "Anything we should know? (optional)": "Kukhona okufanele sikwazi? (uma uthanda)",
+  "Cancel": "Khansela",
+  "Send request": "Thumela isicelo",
+  "You already have an open request of this kind": "Usunaso kakade isicelo esivuliwe salolu hlobo",
+  "We couldn't send your request. Please try again.": "Asikwazanga ukuthumela isicelo sakho. Sicela uzame futhi.",
+  "Request received. We'll respond within 30 days.": "Isicelo samukelwe. Sizophendula zingakapheli izinsuku ezingama-30.",
+  "Open": "Kuvuliwe",
+  "Completed": "Kuqediwe",
+  "Declined": "Kwenqatshiwe",
+  "Sent {date} · we'll respond by {due}": "Kuthunyelwe {date} · sizophendula ngo-{due}",
+  "Sent {date} · closed {closed}": "Kuthunyelwe {date} · kuvalwe {closed}",
+  "Ask about your data": "Buza ngemininingwane yakho",
+
+  // Draft resume links
+  "We've emailed a link to {email}": "Sithumele isixhumanisi ku-{email}",
+  "We couldn't send the link. Please try again.": "Asikwazanga ukuthumela isixhumanisi. Sicela uzame futhi.",
+  "A draft for this email was saved on another device.": "Okusalungiswa kwale imeyili kugcinwe kwenye idivayisi.",
+  "Link sent": "Isixhumanisi sithunyelwe",
+  "Email me a link to continue it": "Ngithumelele isixhumanisi ngemeyili ukuze ngiqhubeke",
+  "Continue on another device": "Qhubeka kwenye idivayisi",
+};
+
+export default zu;
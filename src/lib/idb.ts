@@ -0,0 +1,55 @@
+// A minimal promise wrapper over IndexedDB for what the onboarding page keeps
+// on the device. Unlike localStorage it can hold File objects, so drafts and
+// queued submissions keep their attachments across reloads.
+
+const DB_NAME = "lope-onboarding";
+const DB_VERSION = 1;
+
+export type StoreName = "drafts" | "outbox";
+
+let connection: Promise<IDBDatabase> | null = null;
+
+function open(): Promise<IDBDatabase> {
+  connection ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of ["drafts", "outbox"] satisfies StoreName[]) {
+        if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      connection = null;
+      reject(request.error);
+    };
+  });
+  return connection;
+}
+
+async function run<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await open();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export const idbGet = <T>(store: StoreName, key: string) =>
+  run<T | undefined>(store, "readonly", (s) => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName) =>
+  run<T[]>(store, "readonly", (s) => s.getAll());
+
+export const idbPut = (store: StoreName, key: string, value: unknown) =>
+  run(store, "readwrite", (s) => s.put(value, key)).then(() => undefined);
+
+export const idbDelete = (store: StoreName, key: string) =>
+  run(store, "readwrite", (s) => s.delete(key)).then(() => undefined);
@@ -0,0 +1,99 @@
+// Anonymous funnel events from the wizard, so we can see where applicants give
+// up. Nothing is sent until the applicant agrees; events from before they
+// decide wait in memory and are dropped if they say no. Events carry step keys
+// and field names only, never answers.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { FieldErrors } from "react-hook-form";
+
+const CONSENT_STORAGE_KEY = "lope-analytics-consent";
+const SESSION_STORAGE_KEY = "lope-analytics-session";
+const MAX_HELD_EVENTS = 100;
+
+export type FunnelEventKind =
+  | "step_entered"
+  | "step_completed"
+  | "validation_failed"
+  | "eligibility_rejected"
+  | "submission_failed"
+  | "submitted";
+
+export type FunnelEvent = {
+  kind: FunnelEventKind;
+  step?: string;
+  field?: string;
+  detail?: string;
+};
+
+export type AnalyticsConsent = "granted" | "denied";
+
+let held: FunnelEvent[] = [];
+
+// Browsers set these when the user has asked not to be tracked anywhere
+const optedOutInBrowser = () =>
+  (navigator as Navigator & { globalPrivacyControl?: boolean })
+    .globalPrivacyControl === true || navigator.doNotTrack === "1";
+
+/** The applicant's answer, or null while we still need to ask. */
+export function analyticsConsent(): AnalyticsConsent | null {
+  if (optedOutInBrowser()) return "denied";
+  const stored = localStorage.getItem(CONSENT_STORAGE_KEY);
+  return stored === "granted" || stored === "denied" ? stored : null;
+}
+
+export function setAnalyticsConsent(consent: AnalyticsConsent) {
+  localStorage.setItem(CONSENT_STORAGE_KEY, consent);
+  const waiting = held;
+  held = [];
+  if (consent === "granted") waiting.forEach(send);
+}
+
+// A random id for this visit only, so events can be counted per applicant
+// without knowing who they are
+function sessionId() {
+  let id = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_STORAGE_KEY, id);
+  }
+  return id;
+}
+
+// Reporting only, so a failure never gets in the applicant's way
+function send(event: FunnelEvent) {
+  supabase
+    .rpc("record_onboarding_event", {
+      _session_id: sessionId(),
+      _kind: event.kind,
+      _step: event.step ?? null,
+      _field: event.field ?? null,
+      _detail: event.detail ?? null,
+    })
+    .then(({ error }) => {
+      if (error) console.warn("Could not record onboarding event", error);
+    });
+}
+
+export function trackFunnel(event: FunnelEvent) {
+  const consent = analyticsConsent();
+  if (consent === "granted") send(event);
+  else if (consent === null && held.length < MAX_HELD_EVENTS) held.push(event);
+}
+
+/**
+ * Paths of the fields with errors, with list positions folded together so
+ * `trucks.2.vin` and `trucks.0.vin` both count as `trucks.vin`.
+ */
+export function failedFields(errors: FieldErrors, prefix = ""): string[] {
+  const fields = new Set<string>();
+  Object.entries(errors).forEach(([key, error]) => {
+    if (!error || key === "ref" || key === "root") return;
+    const path = /^\d+$/.test(key) ? prefix : prefix ? `${prefix}.${key}` : key;
+    if (typeof error.message === "string" || typeof error.type === "string") {
+      fields.add(path);
+    } else if (typeof error === "object") {
+      failedFields(error as FieldErrors, path).forEach((f) => fields.add(f));
+    }
+  });
+  return [...fields];
+}
@@ -0,0 +1,58 @@
+// Banking details are encrypted in the database and kept out of the
+// application payload. Reviewers see them masked; those with the
+// banking_viewer role can reveal them, and every reveal is logged.
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { StoredFile } from "@shared/onboarding/schema";
+
+export type BankingDetails = {
+  accountNumber?: string;
+  branchCode?: string;
+  // Signed for a minute by the reveal; reviewers can't open it otherwise
+  proofOfBank?: StoredFile & { url?: string };
+};
+
+export class BankingRevealError extends Error {
+  // The database's error code, e.g. P0002 when nothing is on record
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = "BankingRevealError";
+  }
+}
+
+export type BankingAccess = {
+  id: string;
+  accessed_by_email: string | null;
+  reason: string;
+  accessed_at: string;
+};
+
+/** Whether the signed-in reviewer may reveal banking details. */
+export async function canRevealBanking(): Promise<boolean> {
+  const { data, error } = await supabase.rpc("can_reveal_banking");
+  if (error) throw error;
+  return !!data;
+}
+
+/** The decrypted details of one application; the reason goes in the access log. */
+export async function revealBanking(applicationId: string, reason: string): Promise<BankingDetails> {
+  const { data, error } = await supabase.functions.invoke<BankingDetails>(
+    "reveal-banking",
+    { body: { applicationId, reason } }
+  );
+  if (!error) return data ?? {};
+
+  if (error instanceof FunctionsHttpError) {
+    const payload = await error.context.json().catch(() => null);
+    throw new BankingRevealError(
+      payload?.error || "Could not reveal the banking details",
+      payload?.code
+    );
+  }
+  throw new BankingRevealError("Could not reveal the banking details");
+}
+
+/** "•••• 1234", or dots alone when nothing may be shown. */
+export const maskedAccountNumber = (last4: string | null | undefined) =>
+  last4 ? `•••• ${last4}` : "••••";
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import type { FieldErrors } from "react-hook-form";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { correctionItemsFor } from "@shared/onboarding/corrections";
+import {
+  buildFormSchema,
+  defaultValues,
+  fileRefSchema,
+  type FormValues,
+  type StoredFile,
+} from "@shared/onboarding/schema";
+
+// A reviewer's request for corrections, as opened from the applicant's link
+export type InfoRequest = {
+  token: string;
+  requestId: string;
+  applicationId: string;
+  items: string[];
+  message: string;
+  values: FormValues;
+};
+
+/**
+ * Sends an application back for corrections. The request-information function
+ * texts the applicant the link; `notified` is false when it couldn't.
+ */
+export async function requestInformation(
+  applicationId: string,
+  items: string[],
+  message: string
+): Promise<{ token: string; notified: boolean }> {
+  const { data, error } = await supabase.functions.invoke<{ token: string; notified: boolean }>(
+    "request-information",
+    { body: { applicationId, items, message } }
+  );
+  if (!error && data) return data;
+
+  if (error instanceof FunctionsHttpError) {
+    const payload = await error.context.json().catch(() => null);
+    throw new Error(payload?.error || "Could not send the request");
+  }
+  throw new Error("Could not send the request");
+}
+
+export const isStoredFile = (value: unknown): value is StoredFile =>
+  fileRefSchema.safeParse(value).success;
+
+/** A document field holding either a new file or one already on record. */
+export const isAttached = (value: unknown) =>
+  value instanceof File || isStoredFile(value);
+
+// Documents carried over from the previous version satisfy required fields
+export const correctionSchema = buildFormSchema({
+  required: (message: string) => z.any().refine(isAttached, message),
+  optional: z.any(),
+});
+
+/**
+ * The errors an applicant making corrections can act on. Answers they
+ * weren't asked to change are kept by the server, including the banking
+ * details, which aren't sent back and so are blank in the form.
+ */
+export function editableErrors(
+  errors: FieldErrors<FormValues>,
+  editable: Set<keyof FormValues>
+): FieldErrors<FormValues> {
+  return Object.fromEntries(
+    Object.entries(errors).filter(([field]) =>
+      editable.has(field as keyof FormValues)
+    )
+  );
+}
+
+export async function loadInfoRequest(token: string): Promise<InfoRequest | null> {
+  const { data, error } = await supabase.rpc("get_info_request", {
+    _token: token,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+  // identity is derived by the server again on resubmission
+  const values = { ...(row.payload as Record<string, unknown>) };
+  delete values.identity;
+  const items = correctionItemsFor(values, row.items);
+  return {
+    token,
+    requestId: row.request_id,
+    applicationId: row.application_id,
+    items,
+    message: row.message,
+    values: { ...defaultValues, ...values } as FormValues,
+  };
+}
@@ -0,0 +1,185 @@
+// Requests from applicants to see, correct or erase their personal
+// information (POPIA sections 23–25), and what reviewers need to answer them:
+// an export of everything held on an application, and its erasure.
+
+import { supabase } from "@/integrations/supabase/client";
+import { canRevealBanking, revealBanking } from "@/lib/onboarding/banking";
+import { DOCUMENTS_BUCKET } from "@/lib/onboarding/uploads";
+import { createZip, type ZipEntry } from "@/lib/zip";
+
+export type DataRequestKind = "access" | "correction" | "deletion";
+export type DataRequestStatus = "open" | "completed" | "declined";
+
+export const DATA_REQUEST_KINDS: {
+  kind: DataRequestKind;
+  label: string;
+  description: string;
+}[] = [
+  {
+    kind: "access",
+    label: "A copy of my data",
+    description: "We'll send you everything we hold about you, including your documents.",
+  },
+  {
+    kind: "correction",
+    label: "Correct my data",
+    description: "Tell us what is wrong and what it should be.",
+  },
+  {
+    kind: "deletion",
+    label: "Delete my data",
+    description:
+      "We'll erase your application and documents. You won't be able to work with us on this application afterwards.",
+  },
+];
+
+export type DataRequest = {
+  id: string;
+  application_id: string;
+  reference: string;
+  kind: DataRequestKind;
+  details: string | null;
+  status: DataRequestStatus;
+  due_at: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolution: string | null;
+};
+
+export const DATA_REQUEST_COLUMNS =
+  "id,application_id,reference,kind,details,status,due_at,created_at,resolved_at,resolution";
+
+// Related rows included in an export, each written to records/<table>.json
+const RELATED_TABLES = [
+  "application_documents",
+  "application_events",
+  "application_requests",
+  "application_versions",
+  "application_drivers",
+  "application_service_areas",
+  "application_lanes",
+  "application_cross_border_countries",
+  "document_expiries",
+  "consent_records",
+] as const;
+
+/** Every storage object below `applications/{id}/`, subfolders included. */
+export async function listApplicationObjects(applicationId: string): Promise<string[]> {
+  const walk = async (folder: string): Promise<string[]> => {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .list(folder, { limit: 1000 });
+    if (error) throw error;
+    const paths: string[] = [];
+    for (const item of data ?? []) {
+      const path = `${folder}/${item.name}`;
+      // Folders come back without an id
+      if (item.id) paths.push(path);
+      else paths.push(...(await walk(path)));
+    }
+    return paths;
+  };
+  return walk(`applications/${applicationId}`);
+}
+
+const isBankStatement = (path: string) => path.includes("/bank-proof/");
+
+const asJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+/**
+ * A ZIP of the application row, every related record and every document
+ * stored for it, for answering an access request. Banking details and the
+ * bank statement are only included for a reviewer allowed to reveal them,
+ * and the reveal is logged with the given reason.
+ */
+export async function exportApplication(applicationId: string, reason: string): Promise<Blob> {
+  const { data: application, error } = await supabase
+    .from("onboarding_applications")
+    .select("*")
+    .eq("id", applicationId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!application) throw new Error("This application no longer exists");
+
+  const entries: ZipEntry[] = [{ name: "application.json", data: asJson(application) }];
+
+  for (const table of RELATED_TABLES) {
+    const { data: rows, error: rowsError } = await supabase
+      .from(table)
+      .select("*")
+      .eq("application_id", applicationId);
+    if (rowsError) throw rowsError;
+    entries.push({ name: `records/${table}.json`, data: asJson(rows ?? []) });
+  }
+
+  const prefix = `applications/${applicationId}/`;
+  if (await canRevealBanking()) {
+    const banking = await revealBanking(applicationId, reason).catch((err) => {
+      // None on record
+      if (err?.code === "P0002") return null;
+      throw err;
+    });
+    if (banking) {
+      const { url, ...statement } = banking.proofOfBank ?? {};
+      entries.push({
+        name: "records/banking.json",
+        data: asJson({ ...banking, proofOfBank: banking.proofOfBank ? statement : undefined }),
+      });
+      // Only reachable through the link the logged reveal signed
+      if (url) {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error("The bank statement could not be downloaded");
+        entries.push({
+          name: `documents/${statement.path.slice(prefix.length)}`,
+          data: new Uint8Array(await response.arrayBuffer()),
+        });
+      }
+    }
+  } else {
+    entries.push({
+      name: "records/banking.json",
+      data: asJson({ withheld: "Exported by a reviewer who may not reveal banking details" }),
+    });
+  }
+
+  const { data: requests, error: requestsError } = await supabase
+    .from("data_subject_requests")
+    .select(DATA_REQUEST_COLUMNS)
+    .eq("application_id", applicationId);
+  if (requestsError) throw requestsError;
+  entries.push({ name: "records/data_subject_requests.json", data: asJson(requests ?? []) });
+
+  // Bank statements were added above, if the reveal allowed it
+  const documents = (await listApplicationObjects(applicationId)).filter(
+    (path) => !isBankStatement(path)
+  );
+  for (const path of documents) {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .download(path);
+    if (downloadError) throw downloadError;
+    entries.push({
+      name: `documents/${path.slice(prefix.length)}`,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+  }
+
+  return createZip(entries);
+}
+
+/**
+ * Answers a deletion request: removes every stored document, then erases the
+ * application, leaving an anonymised stub. Documents go first so a failure
+ * part-way can simply be retried.
+ */
+export async function eraseApplication(request: Pick<DataRequest, "id" | "application_id">) {
+  const paths = await listApplicationObjects(request.application_id);
+  for (let i = 0; i < paths.length; i += 100) {
+    const { error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .remove(paths.slice(i, i + 100));
+    if (error) throw error;
+  }
+  const { error } = await supabase.rpc("erase_application", { _request_id: request.id });
+  if (error) throw error;
+}
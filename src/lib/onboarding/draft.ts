@@ -0,0 +1,230 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { idbDelete, idbGet, idbPut } from "@/lib/idb";
+import type { FormValues } from "@shared/onboarding/schema";
+
+// Drafts were kept in localStorage before they moved to IndexedDB
+const LEGACY_DRAFT_STORAGE_KEY = "lope-onboarding-draft";
+const DRAFT_KEY = "current";
+const RESUME_TOKEN_STORAGE_KEY = "lope-onboarding-resume-token";
+// The server removes drafts this long after they were last saved
+const DRAFT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Files can't be serialised into the server copy of a draft, so it keeps a
+// manifest of what was attached at each field path and asks the applicant to
+// re-attach them on resume. The copy on this device keeps the files.
+export type DraftFileRef = {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+};
+
+export type DraftFiles = Record<string, DraftFileRef[]>;
+
+// Banking details are never kept in a draft, on this device or the server;
+// the applicant enters them again after resuming
+const BANKING_FIELDS = ["accountNumber", "branchCode"] as const;
+
+function withoutBanking(values: Partial<FormValues>): Partial<FormValues> {
+  const copy = { ...values };
+  BANKING_FIELDS.forEach((field) => delete copy[field]);
+  return copy;
+}
+
+export type OnboardingDraft = {
+  // Attached files are only left in on this device's copy
+  values: Partial<FormValues>;
+  files: DraftFiles;
+  step: number;
+  currentTruckIndex: number;
+  savedAt: string;
+};
+
+const toFileRef = (file: File): DraftFileRef => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: file.lastModified,
+});
+
+const isFileList = (value: unknown): value is File[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((v) => v instanceof File);
+
+/**
+ * Splits form values into a JSON-safe copy and a manifest of attached files.
+ * Single files become `undefined` and file arrays become `[]` in the copy.
+ */
+export function splitDraftFiles(values: FormValues): {
+  values: Partial<FormValues>;
+  files: DraftFiles;
+} {
+  const files: DraftFiles = {};
+
+  const walk = (value: unknown, path: string): unknown => {
+    if (value instanceof File) {
+      files[path] = [toFileRef(value)];
+      return undefined;
+    }
+    if (isFileList(value)) {
+      files[path] = value.map(toFileRef);
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value.map((v, i) => walk(v, path ? `${path}.${i}` : String(i)));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [
+          k,
+          walk(v, path ? `${path}.${k}` : k),
+        ])
+      );
+    }
+    return value;
+  };
+
+  return { values: walk(values, "") as Partial<FormValues>, files };
+}
+
+/** Returns the draft file refs at `path` that are not currently attached. */
+export function missingDraftFiles(
+  refs: DraftFileRef[] | undefined,
+  current: unknown
+): DraftFileRef[] {
+  if (!refs?.length) return [];
+  const attached = (
+    Array.isArray(current) ? current : current ? [current] : []
+  ).filter((f): f is File => f instanceof File);
+  return refs.filter(
+    (ref) => !attached.some((f) => f.name === ref.name && f.size === ref.size)
+  );
+}
+
+const valueAt = (values: unknown, path: string) =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (v, key) => (v && typeof v === "object" ? (v as Record<string, unknown>)[key] : undefined),
+      values
+    );
+
+/** How many of the draft's files didn't come back with it and need re-attaching. */
+export function filesToReattach(draft: OnboardingDraft): number {
+  return Object.entries(draft.files || {}).reduce(
+    (n, [path, refs]) => n + missingDraftFiles(refs, valueAt(draft.values, path)).length,
+    0
+  );
+}
+
+export function getResumeToken(): string {
+  let token = localStorage.getItem(RESUME_TOKEN_STORAGE_KEY);
+  if (!token) {
+    token = crypto.randomUUID();
+    localStorage.setItem(RESUME_TOKEN_STORAGE_KEY, token);
+  }
+  return token;
+}
+
+export async function loadLocalDraft(): Promise<OnboardingDraft | null> {
+  try {
+    const stored =
+      (await idbGet<OnboardingDraft>("drafts", DRAFT_KEY)) ??
+      (JSON.parse(localStorage.getItem(LEGACY_DRAFT_STORAGE_KEY) ?? "null") as OnboardingDraft | null);
+    if (!stored) return null;
+    if (Date.now() - new Date(stored.savedAt).getTime() > DRAFT_TTL_MS) {
+      await clearLocalDraft();
+      return null;
+    }
+    // Drafts saved before banking details were left out
+    return { ...stored, values: withoutBanking(stored.values) };
+  } catch {
+    return null;
+  }
+}
+
+/** Keeps the draft on this device, attached files included. */
+export async function saveLocalDraft(draft: OnboardingDraft) {
+  try {
+    await idbPut("drafts", DRAFT_KEY, { ...draft, values: withoutBanking(draft.values) });
+    localStorage.removeItem(LEGACY_DRAFT_STORAGE_KEY);
+  } catch (err) {
+    // Quota errors shouldn't interrupt the applicant; the server copy remains.
+    console.warn("Could not save onboarding draft locally", err);
+  }
+}
+
+export async function clearLocalDraft() {
+  localStorage.removeItem(LEGACY_DRAFT_STORAGE_KEY);
+  await idbDelete("drafts", DRAFT_KEY).catch((err) =>
+    console.warn("Could not clear onboarding draft", err)
+  );
+}
+
+/**
+ * Saves the server copy. Resolves false when the address already has a
+ * draft that another browser started and this one may not overwrite.
+ */
+export async function saveServerDraft(email: string, draft: OnboardingDraft): Promise<boolean> {
+  const { data, error } = await supabase.rpc("save_onboarding_draft", {
+    _email: email,
+    _resume_token: getResumeToken(),
+    _form_values: withoutBanking(draft.values) as Json,
+    _files: draft.files as Json,
+    _step: draft.step,
+    _current_truck_index: draft.currentTruckIndex,
+  });
+  if (error) throw error;
+  return !!data;
+}
+
+/** The email the applicant is signed in with, if any. */
+export async function signedInEmail(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.email ?? null;
+}
+
+/**
+ * Emails a sign-in link that opens the wizard. Signed in with that address,
+ * the applicant gets the draft saved under it on whichever device they use.
+ */
+export async function sendResumeLink(email: string) {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: true, emailRedirectTo: `${window.location.origin}/` },
+  });
+  if (error) throw error;
+}
+
+/**
+ * The server copy of the draft for an address: the one this browser saved,
+ * or any when signed in with that address.
+ */
+export async function loadServerDraft(
+  email: string
+): Promise<OnboardingDraft | null> {
+  const { data, error } = await supabase.rpc("get_onboarding_draft", {
+    _email: email,
+    _resume_token: getResumeToken(),
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+  return {
+    values: row.form_values as Partial<FormValues>,
+    files: row.files as DraftFiles,
+    step: row.step,
+    currentTruckIndex: row.current_truck_index,
+    savedAt: row.updated_at,
+  };
+}
+
+export async function deleteServerDraft(email: string) {
+  const { error } = await supabase.rpc("delete_onboarding_draft", {
+    _email: email,
+    _resume_token: getResumeToken(),
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  eligibilityRuleSchema,
+  type EligibilityRule,
+  type RuleResult,
+} from "@shared/onboarding/eligibility";
+
+/** Enabled rules in the order admins arranged them. */
+export async function fetchEligibilityRules(): Promise<EligibilityRule[]> {
+  const { data, error } = await supabase
+    .from("eligibility_rules")
+    .select("id,kind,params,message")
+    .eq("enabled", true)
+    .order("position");
+  if (error) throw error;
+  return (data || []).flatMap((row) => {
+    const parsed = eligibilityRuleSchema.safeParse(row);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// Reporting only, so a failure never gets in the applicant's way. The
+// function fills in each rule's details itself.
+export function recordIneligibleAttempt(step: string, results: RuleResult[]) {
+  supabase.functions
+    .invoke("record-eligibility-attempt", {
+      body: { step, results: results.map(({ ruleId, passed }) => ({ ruleId, passed })) },
+    })
+    .then(({ error }) => {
+      if (error) console.warn("Could not record eligibility attempt", error);
+    });
+}
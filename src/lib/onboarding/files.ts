@@ -0,0 +1,179 @@
+// Client-side checks and shrinking for documents before they're attached.
+
+import { toast } from "sonner";
+
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const MAX_TOTAL_SIZE = 40 * 1024 * 1024;
+
+// Photos larger than this (or wider/taller than MAX_IMAGE_DIMENSION) are
+// downscaled and re-encoded as JPEG before upload.
+const COMPRESS_ABOVE = 1024 * 1024;
+const MAX_IMAGE_DIMENSION = 2000;
+const JPEG_QUALITY = 0.8;
+
+type Kind = "pdf" | "jpeg" | "png";
+
+const EXTENSIONS: Record<string, Kind> = {
+  pdf: "pdf",
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  png: "png",
+};
+
+const KIND_LABELS: Record<Kind, string> = {
+  pdf: "PDF",
+  jpeg: "JPEG image",
+  png: "PNG image",
+};
+
+export type RejectedFile = { name: string; reason: string };
+
+export const formatFileSize = (bytes: number, locale?: string) => {
+  const format = (value: number, digits: number) =>
+    value.toLocaleString(locale, {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    });
+  return bytes >= 1024 * 1024
+    ? `${format(bytes / (1024 * 1024), 1)} MB`
+    : `${format(Math.round(bytes / 1024), 0)} KB`;
+};
+
+/** Identifies a file from its leading bytes rather than its name. */
+export async function sniffFileKind(file: File): Promise<Kind | null> {
+  const bytes = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  const starts = (...sig: number[]) => sig.every((b, i) => bytes[i] === b);
+  if (starts(0x25, 0x50, 0x44, 0x46, 0x2d)) return "pdf"; // %PDF-
+  if (starts(0xff, 0xd8, 0xff)) return "jpeg";
+  if (starts(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return "png";
+  return null;
+}
+
+async function compressImage(file: File): Promise<File> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height)
+  );
+  if (scale === 1 && file.size <= COMPRESS_ABOVE) {
+    bitmap.close();
+    return file;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return file;
+  // JPEG has no alpha; paint white so transparent PNGs don't turn black
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY)
+  );
+  if (!blob || blob.size >= file.size) return file;
+
+  const name = file.name.replace(/\.(png|jpe?g)$/i, "") + ".jpg";
+  return new File([blob], name, {
+    type: "image/jpeg",
+    lastModified: file.lastModified,
+  });
+}
+
+const hashes = new WeakMap<File, Promise<string>>();
+
+function contentHash(file: File): Promise<string> {
+  let hash = hashes.get(file);
+  if (!hash) {
+    hash = file
+      .arrayBuffer()
+      .then((buf) => crypto.subtle.digest("SHA-256", buf))
+      .then((digest) =>
+        Array.from(new Uint8Array(digest), (b) =>
+          b.toString(16).padStart(2, "0")
+        ).join("")
+      );
+    hashes.set(file, hash);
+  }
+  return hash;
+}
+
+/**
+ * Verifies, shrinks and de-duplicates files picked by the applicant.
+ * `existing` are the files already attached to the same field; the total
+ * size limit applies across both.
+ */
+export async function prepareFiles(
+  incoming: File[],
+  existing: File[] = []
+): Promise<{ accepted: File[]; rejected: RejectedFile[] }> {
+  const accepted: File[] = [];
+  const rejected: RejectedFile[] = [];
+  const seen = new Set(await Promise.all(existing.map(contentHash)));
+  let total = existing.reduce((sum, f) => sum + f.size, 0);
+
+  for (const original of incoming) {
+    const ext = original.name.split(".").pop()?.toLowerCase() ?? "";
+    const expected = EXTENSIONS[ext];
+    if (!expected) {
+      rejected.push({ name: original.name, reason: "Only PDF, JPG and PNG files are accepted" });
+      continue;
+    }
+    const actual = await sniffFileKind(original);
+    if (actual !== expected) {
+      rejected.push({
+        name: original.name,
+        reason: actual
+          ? `File is really a ${KIND_LABELS[actual]}, not a ${KIND_LABELS[expected]}`
+          : `File isn't a valid ${KIND_LABELS[expected]}`,
+      });
+      continue;
+    }
+
+    let file = original;
+    if (actual !== "pdf") {
+      try {
+        file = await compressImage(original);
+      } catch {
+        // Undecodable in this browser – upload the original as-is
+      }
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      rejected.push({
+        name: original.name,
+        reason: `Larger than ${formatFileSize(MAX_FILE_SIZE)}`,
+      });
+      continue;
+    }
+    const hash = await contentHash(file);
+    if (seen.has(hash)) {
+      rejected.push({ name: original.name, reason: "Already attached" });
+      continue;
+    }
+    if (total + file.size > MAX_TOTAL_SIZE) {
+      rejected.push({
+        name: original.name,
+        reason: `Would exceed the ${formatFileSize(MAX_TOTAL_SIZE)} total limit`,
+      });
+      continue;
+    }
+
+    seen.add(hash);
+    total += file.size;
+    accepted.push(file);
+  }
+
+  return { accepted, rejected };
+}
+
+// Shows why dropped/picked files were turned away
+export function reportRejected(
+  rejected: RejectedFile[],
+  t: (text: string) => string = (text) => text
+) {
+  rejected.forEach((r) => toast.error(`${r.name}: ${t(r.reason)}`));
+}
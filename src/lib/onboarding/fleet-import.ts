@@ -0,0 +1,207 @@
+// Loading a fleet into trucks[] from a spreadsheet, for operators with too
+// many vehicles to enter one at a time. Rows are checked against the same
+// truckDetailsSchema the wizard and the submit function use.
+
+import { toCsv, type SheetRows } from "@/lib/spreadsheet";
+import { isAttached } from "@/lib/onboarding/corrections";
+import {
+  emptyTruck,
+  TRUCK_DOCUMENTS,
+  TRUCK_PHOTOS,
+  truckDetailsSchema,
+  VEHICLE_TYPES,
+  type TruckDetails,
+  type TruckValues,
+} from "@shared/onboarding/schema";
+
+// Template columns, with other headings people commonly use for them
+export const FLEET_COLUMNS = [
+  {
+    key: "vehicleType",
+    header: "Vehicle type",
+    required: true,
+    aliases: ["type", "vehicle", "body type"],
+  },
+  {
+    key: "loadCapacity",
+    header: "Capacity (tons)",
+    required: true,
+    aliases: ["capacity", "load capacity", "tons", "tonnage", "payload"],
+  },
+  {
+    key: "registrationNumber",
+    header: "Registration",
+    required: true,
+    aliases: ["registration number", "reg", "reg number", "reg no", "number plate"],
+  },
+  {
+    key: "vin",
+    header: "VIN",
+    required: false,
+    aliases: ["vin number", "chassis number"],
+  },
+  {
+    key: "year",
+    header: "Year",
+    required: false,
+    aliases: ["model year", "year of manufacture"],
+  },
+] as const satisfies readonly {
+  key: keyof TruckDetails;
+  header: string;
+  required: boolean;
+  aliases: readonly string[];
+}[];
+
+type FleetColumn = (typeof FLEET_COLUMNS)[number];
+
+// `row` is the spreadsheet row number, counting the heading row as 1
+export type FleetRowError = {
+  row: number;
+  column: string | null;
+  message: string;
+};
+
+export type FleetImport = { trucks: TruckDetails[]; errors: FleetRowError[] };
+
+export const fleetTemplateCsv = () => toCsv([FLEET_COLUMNS.map((c) => c.header)]);
+
+const normalise = (heading: string) =>
+  heading.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const matches = (column: FleetColumn, heading: string) =>
+  heading === normalise(column.header) ||
+  (column.aliases as readonly string[]).includes(heading);
+
+const toNumber = (cell: string) =>
+  cell.trim() === "" ? NaN : Number(cell.trim().replace(",", "."));
+
+/** Checks every row of the sheet and returns the trucks, or what's wrong. */
+export function parseFleet(rows: SheetRows): FleetImport {
+  const isBlank = (row: string[]) => row.every((cell) => !cell?.trim());
+  const headerIndex = rows.findIndex((row) => !isBlank(row));
+  if (headerIndex < 0) {
+    return {
+      trucks: [],
+      errors: [{ row: 1, column: null, message: "The spreadsheet is empty" }],
+    };
+  }
+
+  const headings = rows[headerIndex].map((h) => normalise(h ?? ""));
+  const positions = FLEET_COLUMNS.map((column) =>
+    headings.findIndex((h) => matches(column, h))
+  );
+  const missing = FLEET_COLUMNS.filter((c, i) => c.required && positions[i] < 0);
+  if (missing.length > 0) {
+    return {
+      trucks: [],
+      errors: missing.map((c) => ({
+        row: headerIndex + 1,
+        column: c.header,
+        message: "This column is missing from the template",
+      })),
+    };
+  }
+
+  const trucks: TruckDetails[] = [];
+  const errors: FleetRowError[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach((cells, index) => {
+    if (index <= headerIndex || isBlank(cells)) return;
+    const row = index + 1;
+    const cell = (key: FleetColumn["key"]) => {
+      const at = positions[FLEET_COLUMNS.findIndex((c) => c.key === key)];
+      return at < 0 ? "" : (cells[at] ?? "").trim();
+    };
+    const rowErrors: FleetRowError[] = [];
+    const fail = (key: FleetColumn["key"], message: string) =>
+      rowErrors.push({
+        row,
+        column: FLEET_COLUMNS.find((c) => c.key === key).header,
+        message,
+      });
+
+    const typeCell = cell("vehicleType");
+    const vehicleType = VEHICLE_TYPES.find(
+      (t) => t.toLowerCase() === typeCell.toLowerCase()
+    );
+    if (typeCell && !vehicleType) {
+      fail("vehicleType", "Use one of the vehicle types in the list");
+    }
+    const loadCapacity = toNumber(cell("loadCapacity"));
+    if (Number.isNaN(loadCapacity)) {
+      fail("loadCapacity", "Enter the capacity in tons");
+    }
+    const yearCell = cell("year");
+    const year = yearCell ? toNumber(yearCell) : undefined;
+    if (Number.isNaN(year)) fail("year", "Enter a valid year");
+
+    const registrationNumber = cell("registrationNumber")
+      .toUpperCase()
+      .replace(/\s+/g, " ");
+    const firstSeen = seen.get(registrationNumber);
+    if (registrationNumber && firstSeen) {
+      fail("registrationNumber", `Also on row ${firstSeen}`);
+    } else if (registrationNumber) {
+      seen.set(registrationNumber, row);
+    }
+
+    const parsed = truckDetailsSchema.safeParse({
+      vehicleType: vehicleType ?? typeCell,
+      loadCapacity,
+      registrationNumber,
+      vin: cell("vin"),
+      year,
+    });
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const key = issue.path[0] as FleetColumn["key"];
+        // Already reported more helpfully above
+        if (rowErrors.some((e) => e.column === FLEET_COLUMNS.find((c) => c.key === key)?.header)) {
+          continue;
+        }
+        fail(key, issue.message);
+      }
+    }
+
+    if (rowErrors.length > 0) errors.push(...rowErrors);
+    else if (parsed.success) trucks.push(parsed.data);
+  });
+
+  if (trucks.length === 0 && errors.length === 0) {
+    errors.push({
+      row: headerIndex + 2,
+      column: null,
+      message: "Add a row for each truck below the headings",
+    });
+  }
+  return { trucks, errors };
+}
+
+const hasAnswers = (truck: TruckValues) =>
+  !!truck.vehicleType ||
+  !!truck.registrationNumber ||
+  TRUCK_DOCUMENTS.some((doc) => isAttached(truck[doc.key])) ||
+  TRUCK_PHOTOS.some((shot) => isAttached(truck.photos?.[shot.key]?.file));
+
+/**
+ * Imported trucks laid over the ones already entered: a registration that is
+ * already there has its details updated and keeps its documents, others are
+ * added, and untouched blank trucks make way.
+ */
+export function mergeFleet(
+  current: TruckValues[],
+  imported: TruckDetails[]
+): TruckValues[] {
+  const trucks = current.filter(hasAnswers);
+  for (const details of imported) {
+    const existing = trucks.findIndex(
+      (t) =>
+        t.registrationNumber.trim().toUpperCase() === details.registrationNumber
+    );
+    if (existing >= 0) trucks[existing] = { ...trucks[existing], ...details };
+    else trucks.push({ ...emptyTruck(), ...details });
+  }
+  return trucks;
+}
@@ -0,0 +1,22 @@
+// Submissions made without a connection wait here, files and all, until the
+// device is back online. They survive reloads, so an applicant can close the
+// page at the depot and have the application go out when they next open it.
+
+import { idbDelete, idbGetAll, idbPut } from "@/lib/idb";
+import type { PendingSubmission } from "@/lib/onboarding/submit";
+
+export async function loadOutbox(): Promise<PendingSubmission[]> {
+  try {
+    const items = await idbGetAll<PendingSubmission>("outbox");
+    return items.sort((a, b) => (a.queuedAt ?? "").localeCompare(b.queuedAt ?? ""));
+  } catch (err) {
+    console.warn("Could not read queued submissions", err);
+    return [];
+  }
+}
+
+export const saveToOutbox = (submission: PendingSubmission) =>
+  idbPut("outbox", submission.key, submission);
+
+export const removeFromOutbox = (submission: PendingSubmission) =>
+  idbDelete("outbox", submission.key);
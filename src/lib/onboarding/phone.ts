@@ -0,0 +1,59 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  normalisePhone,
+  PHONE_REGEX,
+  type FormValues,
+} from "@shared/onboarding/schema";
+
+export class PhoneVerificationError extends Error {
+  // Seconds until another code may be requested, when rate limited
+  constructor(message: string, public retryAfter?: number) {
+    super(message);
+    this.name = "PhoneVerificationError";
+  }
+}
+
+async function callPhoneVerification<T>(body: Record<string, string>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>(
+    "phone-verification",
+    { body }
+  );
+  if (!error) return data;
+
+  if (error instanceof FunctionsHttpError) {
+    const payload = await error.context.json().catch(() => null);
+    throw new PhoneVerificationError(
+      payload?.error || "We couldn't send a code. Please try again.",
+      payload?.retryAfter
+    );
+  }
+  throw new PhoneVerificationError("We couldn't send a code. Please try again.");
+}
+
+/** Texts a one-time PIN; resolves with the seconds before another may be sent. */
+export async function sendPhoneCode(mobile: string): Promise<number> {
+  const { retryAfter } = await callPhoneVerification<{ retryAfter: number }>({
+    action: "send",
+    mobile,
+  });
+  return retryAfter;
+}
+
+/** Checks the PIN and resolves with the token submit-application expects. */
+export async function verifyPhoneCode(mobile: string, code: string): Promise<string> {
+  const { token } = await callPhoneVerification<{ token: string }>({
+    action: "verify",
+    mobile,
+    code,
+  });
+  return token;
+}
+
+/** Whether the number currently entered is the one that was verified. */
+export const isMobileVerified = (
+  values: Pick<FormValues, "mobile" | "mobileVerification">
+) =>
+  !!values.mobileVerification &&
+  PHONE_REGEX.test(values.mobile ?? "") &&
+  normalisePhone(values.mobileVerification.mobile) === normalisePhone(values.mobile);
@@ -0,0 +1,116 @@
+// When a truck photo was taken. Camera JPEGs record it in their EXIF data,
+// which compressImage drops, so it's read from the original file first.
+
+import type { PHOTO_TIME_SOURCES } from "@shared/onboarding/schema";
+
+export type CaptureTime = {
+  takenAt: string;
+  source: (typeof PHOTO_TIME_SOURCES)[number];
+};
+
+// EXIF sits near the start of the file; no need to read the whole photo
+const EXIF_SEARCH_BYTES = 128 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+type Tags = Map<number, { type: number; count: number; at: number }>;
+
+/** The TIFF block inside the JPEG's APP1 "Exif" segment, if there is one. */
+function findTiff(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let at = 2;
+  while (at + 4 <= view.byteLength && view.getUint8(at) === 0xff) {
+    const marker = view.getUint8(at + 1);
+    // Start of scan: the image data follows, no more metadata
+    if (marker === 0xda) return null;
+    const length = view.getUint16(at + 2);
+    if (
+      marker === 0xe1 &&
+      at + 10 <= view.byteLength &&
+      view.getUint32(at + 4) === 0x45786966 // "Exif"
+    ) {
+      return at + 10;
+    }
+    at += 2 + length;
+  }
+  return null;
+}
+
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Tags {
+  const tags: Tags = new Map();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return tags;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    // Values of up to four bytes are stored in the entry itself
+    const at = type === 2 && length > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8;
+    tags.set(view.getUint16(entry, little), { type, count: length, at });
+  }
+  return tags;
+}
+
+function readText(view: DataView, tags: Tags, tag: number): string | null {
+  const entry = tags.get(tag);
+  if (!entry || entry.type !== 2 || entry.at + entry.count > view.byteLength) {
+    return null;
+  }
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + entry.at, entry.count);
+  return new TextDecoder().decode(bytes).replace(/\0+$/, "").trim();
+}
+
+// "2026:10:18 14:05:09" plus an optional "+02:00"; without an offset the
+// time is taken to be local to the applicant's device
+function toIso(dateTime: string, offset: string | null): string | null {
+  const m = dateTime.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s] = m;
+  const date =
+    offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`)
+      : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return Number.isNaN(date.getTime()) || date.getFullYear() < 1990
+    ? null
+    : date.toISOString();
+}
+
+/** The EXIF capture time of a JPEG, as an ISO timestamp. */
+export async function readExifDateTime(file: File): Promise<string | null> {
+  const view = new DataView(await file.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+  const tiff = findTiff(view);
+  if (tiff === null || tiff + 8 > view.byteLength) return null;
+  const order = view.getUint16(tiff);
+  if (order !== 0x4949 && order !== 0x4d4d) return null; // "II" or "MM"
+  const little = order === 0x4949;
+
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exif = readIfd(view, tiff, view.getUint32(exifPointer.at, little), little);
+    const original = readText(view, exif, TAG_DATE_TIME_ORIGINAL);
+    const taken = original && toIso(original, readText(view, exif, TAG_OFFSET_TIME_ORIGINAL));
+    if (taken) return taken;
+  }
+  const modified = readText(view, ifd0, TAG_DATE_TIME);
+  return modified ? toIso(modified, null) : null;
+}
+
+/**
+ * When the photo was taken: from its EXIF data where the camera recorded it,
+ * otherwise the device clock at the moment it was attached.
+ */
+export async function captureTime(file: File): Promise<CaptureTime> {
+  try {
+    const takenAt = await readExifDateTime(file);
+    if (takenAt) return { takenAt, source: "exif" };
+  } catch {
+    // Unreadable metadata – fall back to the clock
+  }
+  return { takenAt: new Date().toISOString(), source: "device" };
+}
@@ -0,0 +1,198 @@
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { isStoredFile, type InfoRequest } from "@/lib/onboarding/corrections";
+import {
+  sanitizeFileName,
+  uploadAll,
+  type FileRef,
+  type UploadProgress,
+  type UploadTask,
+} from "@/lib/onboarding/uploads";
+import {
+  DRIVER_DOCUMENTS,
+  TRUCK_DOCUMENTS,
+  TRUCK_PHOTOS,
+  type FormValues,
+} from "@shared/onboarding/schema";
+
+export type SubmissionIssue = { path: string; message: string };
+
+export class SubmissionError extends Error {
+  constructor(message: string, public issues: SubmissionIssue[] = []) {
+    super(message);
+    this.name = "SubmissionError";
+  }
+}
+
+/** The submission never got a reply from the server. */
+export class ConnectionError extends Error {
+  constructor(message = "We couldn't reach the server") {
+    super(message);
+    this.name = "ConnectionError";
+  }
+}
+
+/** Whether a failed send is worth retrying once the device is back online. */
+export const isConnectionError = (err: unknown) =>
+  !navigator.onLine || err instanceof ConnectionError;
+
+/**
+ * Hands an application whose documents are already uploaded to the
+ * submit-application function. On failure the server has removed those
+ * uploads, so a retry must upload everything again under a new id.
+ * With a requestToken the values are corrections to an existing application.
+ */
+export async function submitApplication(
+  applicationId: string,
+  values: Record<string, unknown>,
+  requestToken?: string
+): Promise<string> {
+  const { data, error } = await supabase.functions.invoke<{ id: string }>(
+    "submit-application",
+    { body: { applicationId, values, requestToken } }
+  );
+  if (!error) return data.id;
+
+  if (error instanceof FunctionsFetchError) throw new ConnectionError();
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw new SubmissionError(
+      body?.error || "Submission failed. Please try again.",
+      body?.issues ?? []
+    );
+  }
+  throw new SubmissionError(error.message || "Submission failed. Please try again.");
+}
+
+/**
+ * An application on its way to the server. Uploads that finished are kept on
+ * it, so a retry – or the outbox after a reload – carries on from there.
+ */
+export type PendingSubmission = {
+  // Stable across attempts, unlike applicationId
+  key: string;
+  applicationId: string;
+  values: FormValues;
+  // Set when the values are corrections asked for by a reviewer
+  request?: Pick<InfoRequest, "token" | "requestId" | "applicationId">;
+  uploaded: Map<string, FileRef>;
+  queuedAt?: string;
+};
+
+const newId = () =>
+  crypto?.randomUUID?.() ??
+  `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export function startSubmission(
+  values: FormValues,
+  request?: PendingSubmission["request"]
+): PendingSubmission {
+  return {
+    key: newId(),
+    applicationId: request?.applicationId ?? newId(),
+    values,
+    request,
+    uploaded: new Map(),
+  };
+}
+
+/**
+ * Uploads the attached files and submits the application. When the server
+ * turns it down it has removed those uploads, so the submission starts over
+ * under a new id.
+ */
+export async function sendApplication(
+  submission: PendingSubmission,
+  onProgress?: (path: string, progress: UploadProgress) => void
+): Promise<string> {
+  const { values: data, applicationId, request } = submission;
+  // Corrections upload beside, never over, the documents already on record
+  const folder = request
+    ? `applications/${applicationId}/resubmissions/${request.requestId}`
+    : `applications/${applicationId}`;
+  const tasks: UploadTask[] = [];
+  const upload = (file: unknown, path: (name: string) => string) => {
+    if (!(file instanceof File)) return null;
+    const task = { path: `${folder}/${path(sanitizeFileName(file.name))}`, file };
+    tasks.push(task);
+    return task.path;
+  };
+
+  const vehicleDocs = (
+    Array.isArray(data.vehicleDocuments) ? data.vehicleDocuments : []
+  ).filter((file) => file instanceof File || isStoredFile(file));
+  const vehiclePaths = vehicleDocs.map((file, i) =>
+    upload(file, (name) => `vehicle-docs/${i}-${name}`)
+  );
+  const truckPaths = data.trucks.map((truck, i) =>
+    TRUCK_DOCUMENTS.map((doc) =>
+      upload(truck[doc.key], (name) => `trucks/${i}/${doc.key}-${name}`)
+    )
+  );
+  const photoPaths = data.trucks.map((truck, i) =>
+    TRUCK_PHOTOS.map((shot) =>
+      upload(truck.photos[shot.key].file, (name) => `trucks/${i}/photos/${shot.key}-${name}`)
+    )
+  );
+  const driverPaths = data.drivers.map((driver, i) =>
+    DRIVER_DOCUMENTS.map((doc) =>
+      upload(driver[doc.key], (name) => `drivers/${i}/${doc.key}-${name}`)
+    )
+  );
+  const proofOfBankPath = upload(data.proofOfBank, (name) => `bank-proof/${name}`);
+
+  const uploaded = await uploadAll(tasks, {
+    completed: submission.uploaded,
+    onProgress,
+  });
+
+  // Documents kept from a previous version are already refs
+  const ref = (path: string | null, kept: unknown) =>
+    path ? uploaded.get(path) : kept;
+  const trucks = data.trucks.map((truck, i) => ({
+    ...truck,
+    ...Object.fromEntries(
+      TRUCK_DOCUMENTS.map((doc, j) => [doc.key, ref(truckPaths[i][j], truck[doc.key])])
+    ),
+    photos: Object.fromEntries(
+      TRUCK_PHOTOS.map((shot, j) => {
+        const photo = truck.photos[shot.key];
+        return [shot.key, { ...photo, file: ref(photoPaths[i][j], photo.file) }];
+      })
+    ),
+  }));
+  const drivers = data.drivers.map((driver, i) => ({
+    ...driver,
+    ...Object.fromEntries(
+      DRIVER_DOCUMENTS.map((doc, j) => [doc.key, ref(driverPaths[i][j], driver[doc.key])])
+    ),
+  }));
+  // Left out, not null, when there is no statement: the field is optional
+  const proofOfBank = proofOfBankPath
+    ? uploaded.get(proofOfBankPath)
+    : isStoredFile(data.proofOfBank)
+      ? data.proofOfBank
+      : undefined;
+
+  // Replace file fields with uploaded refs; the server derives identity
+  try {
+    return await submitApplication(
+      applicationId,
+      {
+        ...data,
+        trucks,
+        drivers,
+        vehicleDocuments: vehicleDocs.map((file, i) => ref(vehiclePaths[i], file)),
+        proofOfBank,
+      },
+      request?.token
+    );
+  } catch (err) {
+    // Without a reply the uploads may well still be there
+    if (!(err instanceof ConnectionError)) {
+      submission.applicationId = request?.applicationId ?? newId();
+      submission.uploaded.clear();
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type TermsVersion = {
+  id: string;
+  version: number;
+  title: string;
+  body: string;
+  change_summary: string | null;
+  published_at: string;
+};
+
+/** The Terms of Use applicants accept today, i.e. the latest published version. */
+export async function fetchCurrentTerms(): Promise<TermsVersion | null> {
+  const { data, error } = await supabase
+    .from("terms_versions")
+    .select("id,version,title,body,change_summary,published_at")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+// Paragraphs are separated by blank lines
+export const termsParagraphs = (body: string) =>
+  body
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
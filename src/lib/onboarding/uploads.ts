@@ -0,0 +1,216 @@
+import * as tus from "tus-js-client";
+import {
+  supabase,
+  SUPABASE_PUBLISHABLE_KEY,
+  SUPABASE_URL,
+} from "@/integrations/supabase/client";
+
+export const DOCUMENTS_BUCKET = "onboarding-documents";
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_CONCURRENT_UPLOADS = 3;
+// Backoff between attempts; tus gives up once these run out
+const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+// How long a link to a stored document stays valid
+const SIGNED_URL_SECONDS = 10 * 60;
+
+// No URL is kept; documents are opened through signedDocumentUrl
+export type FileRef = {
+  name: string;
+  path: string;
+  size: number;
+  type: string;
+};
+
+export type UploadTask = { path: string; file: File };
+
+export type UploadStatus =
+  | "queued"
+  | "uploading"
+  | "retrying"
+  | "done"
+  | "error";
+
+export type UploadProgress = {
+  name: string;
+  loaded: number;
+  total: number;
+  status: UploadStatus;
+  error?: string;
+};
+
+export class UploadError extends Error {
+  constructor(public failed: { path: string; name: string; error: string }[]) {
+    super(
+      failed.length === 1
+        ? `Upload failed: ${failed[0].name}`
+        : `${failed.length} uploads failed: ${failed.map((f) => f.name).join(", ")}`
+    );
+    this.name = "UploadError";
+  }
+}
+
+export const sanitizeFileName = (name: string) =>
+  name.replace(/[^a-zA-Z0-9._-]/g, "_");
+
+const toFileRef = (path: string, file: File): FileRef => ({
+  name: file.name,
+  path,
+  size: file.size,
+  type: file.type,
+});
+
+/** A short-lived link to a stored document. */
+export async function signedDocumentUrl(
+  path: string,
+  expiresIn = SIGNED_URL_SECONDS
+): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(path, expiresIn);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+// Applicants can't overwrite or read back what they uploaded, so a file
+// that is already stored is reported as a conflict. It was put there by an
+// earlier attempt whose success wasn't recorded; the server checks every
+// document is really there.
+const isAlreadyStored = (err: unknown) =>
+  err instanceof tus.DetailedError &&
+  err.originalResponse?.getStatus() === 409 &&
+  /already exists/i.test(err.originalResponse.getBody() ?? "");
+
+// Client errors other than conflicts/locks/throttling won't succeed on retry
+const isRetryable = (err: tus.DetailedError) => {
+  if (isAlreadyStored(err)) return false;
+  const status = err.originalResponse?.getStatus() ?? 0;
+  return (
+    status === 0 ||
+    status >= 500 ||
+    status === 409 ||
+    status === 423 ||
+    status === 429
+  );
+};
+
+function uploadResumable(
+  task: UploadTask,
+  accessToken: string,
+  onProgress: (progress: Partial<UploadProgress>) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const upload = new tus.Upload(task.file, {
+      endpoint: `${SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: RETRY_DELAYS,
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+        apikey: SUPABASE_PUBLISHABLE_KEY,
+        "x-upsert": "false",
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        bucketName: DOCUMENTS_BUCKET,
+        objectName: task.path,
+        contentType: task.file.type || "application/octet-stream",
+        cacheControl: "3600",
+      },
+      chunkSize: CHUNK_SIZE,
+      onShouldRetry: (err) => {
+        const retry = isRetryable(err);
+        if (retry) onProgress({ status: "retrying" });
+        return retry;
+      },
+      onProgress: (loaded, total) =>
+        onProgress({ loaded, total, status: "uploading" }),
+      onError: reject,
+      onSuccess: () => resolve(),
+    });
+
+    // Pick up where a previous attempt (or a previous page load) stopped
+    upload
+      .findPreviousUploads()
+      .then((previous) => {
+        if (previous.length > 0) upload.resumeFromPreviousUpload(previous[0]);
+        upload.start();
+      })
+      .catch(reject);
+  });
+}
+
+/**
+ * Uploads files with bounded parallelism, retrying with backoff and resuming
+ * large files chunk by chunk. Tasks already in `completed` (same path and
+ * size) are skipped, so a failed submission can be retried without
+ * re-uploading what already made it.
+ * Rejects with an UploadError once every task has settled if any failed.
+ */
+export async function uploadAll(
+  tasks: UploadTask[],
+  {
+    completed = new Map<string, FileRef>(),
+    onProgress,
+  }: {
+    completed?: Map<string, FileRef>;
+    onProgress?: (path: string, progress: UploadProgress) => void;
+  } = {}
+): Promise<Map<string, FileRef>> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken =
+    sessionData.session?.access_token ?? SUPABASE_PUBLISHABLE_KEY;
+
+  const progress = new Map<string, UploadProgress>();
+  const report = (task: UploadTask, update: Partial<UploadProgress>) => {
+    const next = {
+      ...(progress.get(task.path) ?? {
+        name: task.file.name,
+        loaded: 0,
+        total: task.file.size,
+        status: "queued" as const,
+      }),
+      ...update,
+    };
+    progress.set(task.path, next);
+    onProgress?.(task.path, next);
+  };
+
+  const isDone = (task: UploadTask) =>
+    completed.get(task.path)?.size === task.file.size;
+
+  tasks.forEach((task) =>
+    isDone(task)
+      ? report(task, { loaded: task.file.size, status: "done" })
+      : report(task, { status: "queued" })
+  );
+
+  const queue = tasks.filter((task) => !isDone(task));
+  const failed: UploadError["failed"] = [];
+
+  const worker = async () => {
+    for (let task = queue.shift(); task; task = queue.shift()) {
+      try {
+        report(task, { status: "uploading" });
+        await uploadResumable(task, accessToken, (update) =>
+          report(task, update)
+        ).catch((err) => {
+          if (!isAlreadyStored(err)) throw err;
+        });
+        completed.set(task.path, toFileRef(task.path, task.file));
+        report(task, { loaded: task.file.size, status: "done" });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        failed.push({ path: task.path, name: task.file.name, error: message });
+        report(task, { status: "error", error: message });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, queue.length) }, worker)
+  );
+
+  if (failed.length > 0) throw new UploadError(failed);
+  return completed;
+}
@@ -0,0 +1,257 @@
+// Declarative definition of the onboarding wizard. The stepper, the fields
+// checked before moving to the next step and the field layout are all
+// generated from WIZARD_STEPS. Field rules stay in formSchema, which the
+// submit-application function shares, so a new field needs a rule there and
+// an entry here – no layout code.
+
+import type { FieldPath } from "react-hook-form";
+import { PASSPORT_COUNTRIES } from "@shared/onboarding/countries";
+import type { FormValues } from "@shared/onboarding/schema";
+
+export type FieldName = FieldPath<FormValues>;
+
+export type FieldOption = { value: string; label: string };
+
+/** Fields rendered by a bespoke component supplied by the wizard page. */
+export type CustomFieldKey =
+  | "idNumber"
+  | "mobile"
+  | "postalCode"
+  | "province"
+  | "truckCount"
+  | "trucks"
+  | "vehicleDocuments"
+  | "drivers"
+  | "serviceProvinces"
+  | "serviceCities"
+  | "lanes"
+  | "crossBorderCountries"
+  | "bankName"
+  | "branchCode"
+  | "terms";
+
+type FieldBase = {
+  name: FieldName;
+  label?: string;
+  // Spans both columns of the step grid
+  fullWidth?: boolean;
+  // Hidden fields are neither rendered nor checked before moving on
+  visibleWhen?: (values: FormValues) => boolean;
+};
+
+export type FieldDefinition = FieldBase &
+  (
+    | {
+        kind: "text" | "email" | "tel" | "date";
+        placeholder?: string;
+        autoComplete?: string;
+        inputMode?: "text" | "numeric" | "tel" | "email";
+      }
+    | { kind: "select"; options: FieldOption[]; placeholder?: string }
+    | { kind: "radio"; options: FieldOption[] }
+    // A single "yes" the applicant must tick, optionally with a details dialog
+    | { kind: "consent"; details?: { title: string; paragraphs: string[] } }
+    | { kind: "file"; accept: string }
+    | { kind: "custom"; component: CustomFieldKey }
+  );
+
+export type StepDefinition = {
+  key: string;
+  // Short title for the stepper
+  title: string;
+  // Heading shown above the step's fields
+  heading: string;
+  // "grid" lays fields out in two columns, "stack" one under the other
+  layout?: "grid" | "stack";
+  visibleWhen?: (values: FormValues) => boolean;
+  fields: FieldDefinition[];
+};
+
+const YES_NO: FieldOption[] = [
+  { value: "yes", label: "Yes" },
+  { value: "no", label: "No" },
+];
+
+const DOCUMENT_ACCEPT = ".pdf,.jpg,.jpeg,.png";
+
+export const WIZARD_STEPS: StepDefinition[] = [
+  {
+    key: "eligibility",
+    title: "Eligibility",
+    heading: "Eligibility Check",
+    fields: [
+      { name: "ownsVehicle", label: "Own a vehicle?", kind: "radio", options: YES_NO, fullWidth: true },
+      {
+        name: "hasRequiredDocs",
+        label: "Have roadworthy & insurance?",
+        kind: "radio",
+        options: YES_NO,
+        fullWidth: true,
+      },
+    ],
+  },
+  {
+    key: "basic",
+    title: "Basic Info",
+    heading: "Basic Info",
+    fields: [
+      { name: "fullName", label: "Name", kind: "text", autoComplete: "name" },
+      {
+        name: "identityType",
+        label: "Identity Document",
+        kind: "select",
+        options: [
+          { value: "sa_id", label: "South African ID" },
+          { value: "passport", label: "Passport" },
+        ],
+      },
+      { name: "idNumber", kind: "custom", component: "idNumber" },
+      {
+        name: "passportCountry",
+        label: "Passport Country",
+        kind: "select",
+        options: PASSPORT_COUNTRIES.map((c) => ({ value: c.code, label: c.name })),
+        visibleWhen: (v) => v.identityType === "passport",
+      },
+      {
+        name: "entityType",
+        label: "Type",
+        kind: "select",
+        options: [
+          { value: "individual", label: "Individual" },
+          { value: "business", label: "Business" },
+        ],
+      },
+      {
+        name: "businessName",
+        label: "Business Name",
+        kind: "text",
+        visibleWhen: (v) => v.entityType === "business",
+      },
+      {
+        name: "cipcNumber",
+        label: "CIPC Number",
+        kind: "text",
+        visibleWhen: (v) => v.entityType === "business",
+      },
+      { name: "mobile", kind: "custom", component: "mobile" },
+      { name: "email", label: "Email", kind: "email", autoComplete: "email" },
+      {
+        name: "streetAddress",
+        label: "Street Address",
+        kind: "text",
+        autoComplete: "address-line1",
+        fullWidth: true,
+      },
+      // Fills in the suburb, city and province for codes it knows
+      { name: "postalCode", kind: "custom", component: "postalCode" },
+      { name: "suburb", label: "Suburb", kind: "text", autoComplete: "address-level3" },
+      { name: "city", label: "City or Town", kind: "text", autoComplete: "address-level2" },
+      { name: "province", kind: "custom", component: "province" },
+    ],
+  },
+  {
+    key: "vehicle",
+    title: "Vehicle",
+    heading: "Vehicle Info",
+    layout: "stack",
+    fields: [
+      { name: "numberOfTrucks", kind: "custom", component: "truckCount" },
+      { name: "trucks", kind: "custom", component: "trucks" },
+      { name: "vehicleDocuments", kind: "custom", component: "vehicleDocuments" },
+    ],
+  },
+  {
+    key: "drivers",
+    title: "Drivers",
+    heading: "Drivers",
+    layout: "stack",
+    fields: [{ name: "drivers", kind: "custom", component: "drivers" }],
+  },
+  {
+    key: "coverage",
+    title: "Coverage",
+    heading: "Where You Operate",
+    layout: "stack",
+    fields: [
+      { name: "serviceProvinces", kind: "custom", component: "serviceProvinces" },
+      // Offers the towns in the provinces picked above
+      { name: "serviceCities", kind: "custom", component: "serviceCities" },
+      { name: "lanes", kind: "custom", component: "lanes" },
+      {
+        name: "crossBorder",
+        label: "Do you drive loads across borders?",
+        kind: "radio",
+        options: YES_NO,
+      },
+      {
+        name: "crossBorderCountries",
+        kind: "custom",
+        component: "crossBorderCountries",
+        visibleWhen: (v) => v.crossBorder === "yes",
+      },
+    ],
+  },
+  {
+    key: "banking",
+    title: "Banking",
+    heading: "Banking Info",
+    fields: [
+      { name: "bankName", kind: "custom", component: "bankName" },
+      { name: "accountHolder", label: "Account Holder", kind: "text", autoComplete: "name" },
+      {
+        name: "accountNumber",
+        label: "Account Number",
+        kind: "text",
+        inputMode: "numeric",
+        autoComplete: "off",
+      },
+      {
+        name: "accountType",
+        label: "Account Type",
+        kind: "select",
+        options: [
+          { value: "cheque", label: "Cheque" },
+          { value: "savings", label: "Savings" },
+          { value: "business", label: "Business" },
+        ],
+      },
+      { name: "branchCode", kind: "custom", component: "branchCode" },
+      { name: "proofOfBank", label: "Bank Statement", kind: "file", accept: DOCUMENT_ACCEPT },
+    ],
+  },
+  {
+    key: "terms",
+    title: "Terms",
+    heading: "Terms & Consent",
+    fields: [
+      // The current version of the terms is loaded from the database
+      { name: "acceptTerms", kind: "custom", component: "terms" },
+      { name: "consentStore", label: "Consent to data storage", kind: "consent" },
+      { name: "consentContact", label: "Consent to be contacted", kind: "consent" },
+    ],
+  },
+  // A read-only summary of every answer, rendered by the wizard page
+  {
+    key: "review",
+    title: "Review",
+    heading: "Review Your Application",
+    layout: "stack",
+    fields: [],
+  },
+];
+
+const isVisible = (
+  item: { visibleWhen?: (values: FormValues) => boolean },
+  values: FormValues
+) => !item.visibleWhen || item.visibleWhen(values);
+
+export const visibleSteps = (values: FormValues) =>
+  WIZARD_STEPS.filter((s) => isVisible(s, values));
+
+export const visibleFields = (step: StepDefinition, values: FormValues) =>
+  step.fields.filter((f) => isVisible(f, values));
+
+/** Fields to validate before leaving a step. */
+export const stepFieldNames = (step: StepDefinition, values: FormValues) =>
+  visibleFields(step, values).map((f) => f.name);
@@ -0,0 +1,22 @@
+/**
+ * Registers the service worker that lets the onboarding page open offline.
+ * Left out in development, where a cached shell would hide code changes.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", async () => {
+    try {
+      await navigator.serviceWorker.register("/sw.js");
+      const { active } = await navigator.serviceWorker.ready;
+      // This first visit loaded the scripts and styles before the worker
+      // existed; hand it their URLs so the next visit works offline too
+      const urls = performance
+        .getEntriesByType("resource")
+        .map((entry) => entry.name)
+        .filter((url) => url.startsWith(`${location.origin}/assets/`));
+      active?.postMessage({ type: "cache-urls", urls });
+    } catch (err) {
+      console.warn("Could not register the service worker", err);
+    }
+  });
+}
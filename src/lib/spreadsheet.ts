@@ -0,0 +1,209 @@
+// Reads the rows of a CSV file or the first worksheet of an .xlsx workbook,
+// as text cells. XLSX files are zip archives of XML; they're unpacked with
+// the browser's DecompressionStream rather than a spreadsheet library.
+
+export type SheetRows = string[][];
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+/** Splits CSV text into rows, honouring quoted cells with commas and newlines. */
+export function parseCsv(text: string): SheetRows {
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  // Excel saves CSV with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+  // Excel uses semicolons where the comma is the decimal separator
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const csvCell = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Formats rows as CSV text. */
+export const toCsv = (rows: SheetRows) =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+
+const u16 = (view: DataView, at: number) => view.getUint16(at, true);
+const u32 = (view: DataView, at: number) => view.getUint32(at, true);
+
+/** Extracts the named entries from a zip archive. */
+async function unzip(
+  buffer: ArrayBuffer,
+  wanted: (name: string) => boolean
+): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  // The end of central directory record sits at the end, before any comment
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && u32(view, end) !== 0x06054b50) end--;
+  if (end < 0) throw new SpreadsheetError("This file isn't a valid .xlsx workbook");
+
+  const entries = new Map<string, string>();
+  let at = u32(view, end + 16);
+  for (let n = u16(view, end + 10); n > 0; n--) {
+    if (u32(view, at) !== 0x02014b50) break;
+    const method = u16(view, at + 10);
+    const compressedSize = u32(view, at + 20);
+    const nameLength = u16(view, at + 28);
+    const next = at + 46 + nameLength + u16(view, at + 30) + u16(view, at + 32);
+    const name = new TextDecoder().decode(
+      new Uint8Array(buffer, at + 46, nameLength)
+    );
+    if (wanted(name)) {
+      const local = u32(view, at + 42);
+      const start = local + 30 + u16(view, local + 26) + u16(view, local + 28);
+      const data = new Uint8Array(buffer, start, compressedSize);
+      let bytes: ArrayBuffer;
+      if (method === 0) {
+        bytes = data.slice().buffer;
+      } else if (method === 8) {
+        const stream = new Blob([data])
+          .stream()
+          .pipeThrough(new DecompressionStream("deflate-raw"));
+        bytes = await new Response(stream).arrayBuffer();
+      } else {
+        throw new SpreadsheetError("This workbook is compressed in a way we can't read");
+      }
+      entries.set(name, new TextDecoder().decode(bytes));
+    }
+    at = next;
+  }
+  return entries;
+}
+
+// "BC12" -> 54 (zero-based column of the cell reference)
+const columnIndex = (ref: string) =>
+  [...ref.replace(/\d+$/, "")].reduce(
+    (index, letter) => index * 26 + letter.charCodeAt(0) - 64,
+    0
+  ) - 1;
+
+const texts = (el: Element) =>
+  Array.from(el.getElementsByTagName("t"), (t) => t.textContent ?? "").join("");
+
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Where the first worksheet is stored. Its part name depends on the program
+ * that saved the workbook and on sheets having been moved or deleted, so
+ * it's looked up from the workbook's sheet list and relationships.
+ */
+function firstSheetPart(parser: DOMParser, parts: Map<string, string>): string | null {
+  const workbookXml = parts.get("xl/workbook.xml");
+  const relsXml = parts.get("xl/_rels/workbook.xml.rels");
+  if (!workbookXml || !relsXml) return null;
+
+  const sheet = parser
+    .parseFromString(workbookXml, "application/xml")
+    .getElementsByTagName("sheet")[0];
+  const id = sheet?.getAttributeNS(RELATIONSHIPS_NS, "id") || sheet?.getAttribute("r:id");
+  if (!id) return null;
+
+  const target = Array.from(
+    parser
+      .parseFromString(relsXml, "application/xml")
+      .getElementsByTagName("Relationship")
+  )
+    .find((rel) => rel.getAttribute("Id") === id)
+    ?.getAttribute("Target");
+  if (!target) return null;
+  // Targets are relative to xl/, or absolute within the archive
+  return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<SheetRows> {
+  const parser = new DOMParser();
+  const parts = await unzip(
+    buffer,
+    (name) =>
+      name === "xl/workbook.xml" ||
+      name === "xl/_rels/workbook.xml.rels" ||
+      name === "xl/sharedStrings.xml"
+  );
+  const sheetPart = firstSheetPart(parser, parts);
+  const sheetXml = sheetPart
+    ? (await unzip(buffer, (name) => name === sheetPart)).get(sheetPart)
+    : undefined;
+  if (!sheetXml) throw new SpreadsheetError("This workbook has no worksheet we can read");
+
+  const shared = parts.has("xl/sharedStrings.xml")
+    ? Array.from(
+        parser
+          .parseFromString(parts.get("xl/sharedStrings.xml"), "application/xml")
+          .getElementsByTagName("si"),
+        texts
+      )
+    : [];
+
+  const sheet = parser.parseFromString(sheetXml, "application/xml");
+  // Empty rows are left out of the XML; keep numbering as the sheet shows it
+  const rows: SheetRows = [];
+  Array.from(sheet.getElementsByTagName("row")).forEach((rowEl) => {
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName("c")).forEach((c, i) => {
+      const ref = c.getAttribute("r");
+      const type = c.getAttribute("t");
+      const value = c.getElementsByTagName("v")[0]?.textContent ?? "";
+      row[ref ? columnIndex(ref) : i] =
+        type === "s"
+          ? shared[Number(value)] ?? ""
+          : type === "inlineStr"
+            ? texts(c)
+            : value;
+    });
+    const number = Number(rowEl.getAttribute("r")) || rows.length + 1;
+    rows[number - 1] = Array.from(row, (cell) => cell ?? "");
+  });
+  return Array.from(rows, (row) => row ?? []);
+}
+
+/** The rows of a .csv or .xlsx file. */
+export async function readSpreadsheet(file: File): Promise<SheetRows> {
+  const extension = file.name.split(".").pop()?.toLowerCase();
+  if (extension === "csv") return parseCsv(await file.text());
+  if (extension === "xlsx") return parseXlsx(await file.arrayBuffer());
+  throw new SpreadsheetError("Choose a .csv or .xlsx file");
+}
@@ -0,0 +1,312 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { eachDayOfInterval, format, parseISO, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ArrowLeft, BarChart3, RefreshCcw } from "lucide-react";
+import { WIZARD_STEPS } from "@/lib/onboarding/wizard";
+import type { FunnelEventKind } from "@/lib/onboarding/analytics";
+
+type FunnelRow = {
+  day: string;
+  kind: FunnelEventKind;
+  step: string | null;
+  field: string | null;
+  detail: string | null;
+  sessions: number;
+  events: number;
+};
+
+const RANGES = [7, 30, 90];
+
+const STEP_TITLES: Record<string, string> = Object.fromEntries(WIZARD_STEPS.map((s) => [s.key, s.title]));
+
+const SUBMISSION_FAILURES: Record<string, string> = {
+  upload: "Upload didn't finish",
+  rejected: "Answers rejected by the server",
+  error: "Other error",
+};
+
+// One colour per step, spread around the wheel
+const stepColor = (index: number) => `hsl(${Math.round((index * 360) / WIZARD_STEPS.length)} 65% 45%)`;
+
+const funnelConfig = {
+  entered: { label: "Reached", color: "hsl(var(--muted-foreground))" },
+  completed: { label: "Completed", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const conversionConfig: ChartConfig = Object.fromEntries(
+  WIZARD_STEPS.map((s, i) => [s.key, { label: s.title, color: stepColor(i) }])
+);
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+const fetchFunnel = async (days: number) => {
+  const { data, error } = await supabase.rpc("onboarding_funnel", {
+    _since: subDays(new Date(), days).toISOString(),
+  });
+  if (error) throw error;
+  return (data || []) as FunnelRow[];
+};
+
+// Daily sessions per step; the Review step is completed by submitting
+const completedKind = (step: string): FunnelEventKind => (step === "review" ? "submitted" : "step_completed");
+
+function sum(rows: FunnelRow[], match: (r: FunnelRow) => boolean, by: "sessions" | "events" = "sessions") {
+  return rows.reduce((n, r) => (match(r) ? n + Number(r[by]) : n), 0);
+}
+
+function Stat({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <div className="rounded-lg border bg-card p-4">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-heading font-semibold">{value}</div>
+      {hint && <div className="text-xs text-muted-foreground">{hint}</div>}
+    </div>
+  );
+}
+
+export default function AdminAnalytics() {
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    document.title = "Admin • Onboarding Analytics";
+  }, []);
+
+  const { data: rows = [], isLoading, refetch, isFetching } = useQuery({
+    queryKey: ["onboarding_funnel", { days }],
+    queryFn: () => fetchFunnel(days),
+  });
+
+  const funnel = useMemo(
+    () =>
+      WIZARD_STEPS.map((s) => {
+        const entered = sum(rows, (r) => r.kind === "step_entered" && r.step === s.key);
+        const completed = sum(rows, (r) => r.kind === completedKind(s.key) && r.step === s.key);
+        return { step: s.title, entered, completed, conversion: percent(completed, entered) };
+      }),
+    [rows]
+  );
+
+  const conversionByDay = useMemo(() => {
+    const today = new Date();
+    return eachDayOfInterval({ start: subDays(today, days - 1), end: today }).map((date) => {
+      const day = format(date, "yyyy-MM-dd");
+      const point: Record<string, string | number | null> = { day };
+      WIZARD_STEPS.forEach((s) => {
+        const onDay = rows.filter((r) => r.day === day && r.step === s.key);
+        point[s.key] = percent(
+          sum(onDay, (r) => r.kind === completedKind(s.key)),
+          sum(onDay, (r) => r.kind === "step_entered")
+        );
+      });
+      return point;
+    });
+  }, [rows, days]);
+
+  const fieldFailures = useMemo(() => {
+    const byField: Record<string, { step: string; field: string; sessions: number; events: number }> = {};
+    rows
+      .filter((r) => r.kind === "validation_failed" && r.field)
+      .forEach((r) => {
+        const key = `${r.step}/${r.field}`;
+        byField[key] ??= { step: r.step ?? "", field: r.field ?? "", sessions: 0, events: 0 };
+        byField[key].sessions += Number(r.sessions);
+        byField[key].events += Number(r.events);
+      });
+    return Object.values(byField)
+      .sort((a, b) => b.events - a.events)
+      .slice(0, 15);
+  }, [rows]);
+
+  const started = funnel[0]?.entered ?? 0;
+  const submitted = sum(rows, (r) => r.kind === "submitted");
+  const turnedAway = sum(rows, (r) => r.kind === "eligibility_rejected");
+  const submissionFailures = Object.keys(SUBMISSION_FAILURES).map((detail) => ({
+    detail,
+    events: sum(rows, (r) => r.kind === "submission_failed" && r.detail === detail, "events"),
+  }));
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <header className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="gap-2">
+            <Link to="/admin">
+              <ArrowLeft className="h-4 w-4" /> Applications
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-heading">Onboarding Analytics</h1>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger className="w-40" aria-label="Period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((d) => (
+                <SelectItem key={d} value={String(d)}>
+                  Last {d} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => refetch()} aria-label="Refresh" className="gap-2">
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </Button>
+        </div>
+      </header>
+
+      <p className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+        <BarChart3 className="h-4 w-4" />
+        Counts come only from applicants who allowed anonymous analytics, and visits are counted once per day.
+      </p>
+
+      {isLoading ? (
+        <div className="py-16 text-center text-muted-foreground">Loading...</div>
+      ) : (
+        <div className="space-y-6">
+          <section className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Stat label="Started" value={started} hint="Reached the first step" />
+            <Stat label="Submitted" value={submitted} />
+            <Stat label="Conversion" value={`${percent(submitted, started) ?? 0}%`} hint="Submitted ÷ started" />
+            <Stat label="Turned away" value={turnedAway} hint="Failed an eligibility rule" />
+          </section>
+
+          <section className="rounded-lg border bg-card p-4">
+            <h2 className="mb-4 font-heading font-medium">Drop-off by step</h2>
+            <ChartContainer config={funnelConfig} className="aspect-auto h-72 w-full">
+              <BarChart data={funnel}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="step" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="entered" fill="var(--color-entered)" radius={4} />
+                <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+            <Table className="mt-4">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead className="text-right">Reached</TableHead>
+                  <TableHead className="text-right">Completed</TableHead>
+                  <TableHead className="text-right">Conversion</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {funnel.map((f) => (
+                  <TableRow key={f.step}>
+                    <TableCell className="font-medium">{f.step}</TableCell>
+                    <TableCell className="text-right">{f.entered}</TableCell>
+                    <TableCell className="text-right">{f.completed}</TableCell>
+                    <TableCell className="text-right">{f.conversion === null ? "—" : `${f.conversion}%`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+
+          <section className="rounded-lg border bg-card p-4">
+            <h2 className="mb-4 font-heading font-medium">Step conversion over time</h2>
+            <ChartContainer config={conversionConfig} className="aspect-auto h-80 w-full">
+              <LineChart data={conversionByDay}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="day"
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                  tickFormatter={(day: string) => format(parseISO(day), "d MMM")}
+                />
+                <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => format(parseISO(String(payload?.[0]?.payload?.day)), "d MMM yyyy")}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {WIZARD_STEPS.map((s) => (
+                  <Line
+                    key={s.key}
+                    dataKey={s.key}
+                    type="monotone"
+                    stroke={`var(--color-${s.key})`}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </section>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            <section className="rounded-lg border bg-card lg:col-span-2">
+              <h2 className="p-4 pb-0 font-heading font-medium">Fields that fail validation most</h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Step</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead className="text-right">Visits</TableHead>
+                    <TableHead className="text-right">Failures</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fieldFailures.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                        No validation failures in this period
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    fieldFailures.map((f) => (
+                      <TableRow key={`${f.step}/${f.field}`}>
+                        <TableCell>{STEP_TITLES[f.step] ?? f.step}</TableCell>
+                        <TableCell className="font-mono text-xs">{f.field}</TableCell>
+                        <TableCell className="text-right">{f.sessions}</TableCell>
+                        <TableCell className="text-right">{f.events}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </section>
+
+            <section className="rounded-lg border bg-card">
+              <h2 className="p-4 pb-0 font-heading font-medium">Submission errors</h2>
+              <Table>
+                <TableBody>
+                  {submissionFailures.map((f) => (
+                    <TableRow key={f.detail}>
+                      <TableCell>{SUBMISSION_FAILURES[f.detail]}</TableCell>
+                      <TableCell className="text-right">{f.events}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </section>
+          </div>
+        </div>
+      )}
+
+      {isFetching && !isLoading && <div className="mt-2 text-xs text-muted-foreground">Updating…</div>}
+    </main>
+  );
+}
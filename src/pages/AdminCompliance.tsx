@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CalendarClock, RefreshCcw } from "lucide-react";
+
+type DocumentType = Database["public"]["Enums"]["truck_document_type"];
+
+type ExpiringDocument = {
+  id: string;
+  application_id: string;
+  truck_index: number;
+  registration_number: string | null;
+  document_type: DocumentType;
+  expires_on: string;
+  onboarding_applications: {
+    applicant_name: string | null;
+    email: string | null;
+    phone: string | null;
+  };
+};
+
+const documentLabels: Record<DocumentType, string> = {
+  licence_disc: "Licence disc",
+  roadworthy_certificate: "Roadworthy certificate",
+  insurance_document: "Insurance",
+};
+
+const windows = [30, 60, 90] as const;
+
+// Includes documents that have already expired, so lapsed haulers stay visible
+const fetchExpiringDocuments = async (days: number) => {
+  const until = format(addDays(new Date(), days), "yyyy-MM-dd");
+  const { data, error } = await supabase
+    .from("document_expiries")
+    .select(
+      "id,application_id,truck_index,registration_number,document_type,expires_on,onboarding_applications!inner(applicant_name,email,phone,status)"
+    )
+    .eq("onboarding_applications.status", "approved")
+    .lte("expires_on", until)
+    .order("expires_on", { ascending: true });
+  if (error) throw error;
+  return (data || []) as unknown as ExpiringDocument[];
+};
+
+const expiryBadge = (expiresOn: string) => {
+  const days = differenceInCalendarDays(parseISO(expiresOn), new Date());
+  if (days < 0) return <Badge className="bg-destructive text-destructive-foreground">Expired {-days}d ago</Badge>;
+  if (days <= 30) return <Badge className="bg-primary text-primary-foreground">{days}d left</Badge>;
+  return <Badge className="bg-muted text-foreground">{days}d left</Badge>;
+};
+
+export default function AdminCompliance() {
+  const [days, setDays] = useState<number>(30);
+
+  useEffect(() => {
+    document.title = "Admin • Document Expiry";
+  }, []);
+
+  const { data, isLoading, refetch, isFetching } = useQuery({
+    queryKey: ["document_expiries", { days }],
+    queryFn: () => fetchExpiringDocuments(days),
+  });
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <header className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="gap-2">
+            <Link to="/admin">
+              <ArrowLeft className="h-4 w-4" /> Applications
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-heading">Document Expiry</h1>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger className="w-44" aria-label="Expiry window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {windows.map((w) => (
+                <SelectItem key={w} value={String(w)}>
+                  Next {w} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => refetch()} aria-label="Refresh" className="gap-2">
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </Button>
+        </div>
+      </header>
+
+      <p className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+        <CalendarClock className="h-4 w-4" />
+        Approved haulers with compliance documents expiring in the next {days} days, or already expired.
+      </p>
+
+      <section className="rounded-lg border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Hauler</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Truck</TableHead>
+              <TableHead>Document</TableHead>
+              <TableHead>Expires</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : (data || []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No documents expiring in this window
+                </TableCell>
+              </TableRow>
+            ) : (
+              (data || []).map((d) => (
+                <TableRow key={d.id} className="hover:bg-muted/50">
+                  <TableCell className="font-medium">{d.onboarding_applications.applicant_name || "—"}</TableCell>
+                  <TableCell>
+                    <div>{d.onboarding_applications.email || "—"}</div>
+                    <div className="text-xs text-muted-foreground">{d.onboarding_applications.phone || ""}</div>
+                  </TableCell>
+                  <TableCell>{d.registration_number || `Truck ${d.truck_index + 1}`}</TableCell>
+                  <TableCell>{documentLabels[d.document_type]}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {parseISO(d.expires_on).toLocaleDateString()}
+                      {expiryBadge(d.expires_on)}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+
+      {isFetching && (
+        <div className="mt-2 text-xs text-muted-foreground">Updating…</div>
+      )}
+    </main>
+  );
+}
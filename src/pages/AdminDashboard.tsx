@@ -1,4 +1,5 @@
 import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -6,13 +7,32 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { Download, Filter, RefreshCcw, Search, CheckCircle2, XCircle, MoreHorizontal, Eye } from "lucide-react";
+import { Download, Filter, RefreshCcw, Search, CheckCircle2, XCircle, MoreHorizontal, Eye, FileText, Truck, CalendarClock, MessageSquare, Link2, History, ListChecks, UserRound, BadgeCheck, AlertTriangle, MapPin, Route, Globe, Camera, BarChart3, ShieldCheck, Inbox, Landmark, EyeOff } from "lucide-react";
+import { DRIVER_DOCUMENTS, PROVINCES, TRUCK_DOCUMENTS, TRUCK_PHOTOS, type TruckPhotoKey } from "@shared/onboarding/schema";
+import { CORRECTION_ITEMS } from "@shared/onboarding/corrections";
+import { CROSS_BORDER_COUNTRIES } from "@shared/onboarding/countries";
+import { provinceForPostalCode } from "@shared/onboarding/postal-codes";
+import { RULE_KINDS, type RuleResult } from "@shared/onboarding/eligibility";
+import { CONSENT_SCOPES, type ConsentScope } from "@shared/onboarding/consent";
+import { LANGUAGES, type Language } from "@/lib/i18n";
+import {
+  canRevealBanking,
+  maskedAccountNumber,
+  revealBanking,
+  type BankingAccess,
+  type BankingDetails as RevealedBanking,
+} from "@/lib/onboarding/banking";
+import { requestInformation } from "@/lib/onboarding/corrections";
+import { useSignedUrl } from "@/hooks/use-signed-url";
 
 // Types matching the DB
-export type ApplicationStatus = "pending" | "in_review" | "approved" | "rejected";
+export type Citizenship = "citizen" | "permanent_resident" | "refugee" | "foreign_national";
+
+export type ApplicationStatus = "pending" | "in_review" | "needs_info" | "approved" | "rejected";
 
 export type Application = {
   id: string;
@@ -20,8 +40,21 @@ export type Application = {
   applicant_name: string | null;
   email: string | null;
   phone: string | null;
+  phone_verified_at: string | null;
+  id_type: "sa_id" | "passport" | null;
+  date_of_birth: string | null;
+  gender: "female" | "male" | null;
+  citizenship: Citizenship | null;
+  preferred_language: Language;
+  address_street: string | null;
+  address_suburb: string | null;
+  address_city: string | null;
+  address_postal_code: string | null;
+  address_province: string | null;
+  province_mismatch: boolean;
   status: ApplicationStatus;
   payload: Record<string, any>;
+  eligibility_results: RuleResult[] | null;
   submitted_at: string;
   updated_at: string;
 };
@@ -29,26 +62,752 @@ export type Application = {
 const statusColors: Record<ApplicationStatus, string> = {
   pending: "bg-muted text-foreground",
   in_review: "bg-secondary text-secondary-foreground",
+  needs_info: "bg-accent text-accent-foreground",
   approved: "bg-primary text-primary-foreground",
   rejected: "bg-destructive text-destructive-foreground",
 };
 
-const statusOptions: ApplicationStatus[] = ["pending", "in_review", "approved", "rejected"];
+const statusOptions: ApplicationStatus[] = ["pending", "in_review", "needs_info", "approved", "rejected"];
+
+const citizenshipLabels: Record<Citizenship, string> = {
+  citizen: "SA citizen",
+  permanent_resident: "Permanent resident",
+  refugee: "Refugee",
+  foreign_national: "Foreign national",
+};
+
+type IdentityFilter = {
+  citizenship: Citizenship | "all";
+  gender: "female" | "male" | "all";
+  province: string;
+};
+
+type CoverageFilter = {
+  province: string;
+  country: string;
+};
+
+// Applications covering the province and crossing into the country asked for
+const fetchCoverageMatches = async (coverage: CoverageFilter) => {
+  let ids: string[] | null = null;
+  if (coverage.province !== "all") {
+    const { data, error } = await supabase
+      .from("application_service_areas")
+      .select("application_id")
+      .eq("province", coverage.province);
+    if (error) throw error;
+    ids = data.map((r) => r.application_id);
+  }
+  if (coverage.country !== "all") {
+    const { data, error } = await supabase
+      .from("application_cross_border_countries")
+      .select("application_id")
+      .eq("country_code", coverage.country);
+    if (error) throw error;
+    const crossing = new Set(data.map((r) => r.application_id));
+    ids = (ids ?? [...crossing]).filter((id) => crossing.has(id));
+  }
+  return ids === null ? null : [...new Set(ids)];
+};
+
+type FileRef = { name: string; path: string; size: number; type: string };
+
+// Opened through a link signed from the stored path; plain text until it's ready
+function DocumentLink({ path, children }: { path: string; children: React.ReactNode }) {
+  const url = useSignedUrl(path);
+  if (!url) return <span className="truncate">{children}</span>;
+  return (
+    <a href={url} target="_blank" rel="noreferrer" className="truncate text-primary underline-offset-4 hover:underline">
+      {children}
+    </a>
+  );
+}
+
+function StoredPhoto({ path, alt }: { path: string; alt: string }) {
+  const url = useSignedUrl(path);
+  if (!url) return <div className="aspect-[4/3] w-full animate-pulse rounded-md border bg-muted" />;
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt={alt} loading="lazy" className="aspect-[4/3] w-full rounded-md border object-cover" />
+    </a>
+  );
+}
+
+type PhotoPayload = { file?: FileRef | null; takenAt?: string; source?: "exif" | "device" };
+
+type TruckPayload = {
+  vehicleType?: string;
+  loadCapacity?: number;
+  registrationNumber?: string;
+  vin?: string;
+  year?: number;
+  driverId?: string;
+  photos?: Partial<Record<TruckPhotoKey, PhotoPayload>>;
+} & Partial<Record<(typeof TRUCK_DOCUMENTS)[number]["key"], FileRef | null>> &
+  Partial<Record<(typeof TRUCK_DOCUMENTS)[number]["expiryKey"], string>>;
+
+const formatTakenAt = (photo: PhotoPayload) =>
+  photo.takenAt
+    ? `${new Date(photo.takenAt).toLocaleString()}${photo.source === "device" ? " (device clock)" : ""}`
+    : "Time unknown";
+
+// The required shots in order, each labelled with its angle and capture time
+function TruckPhotoGallery({ photos }: { photos: Partial<Record<TruckPhotoKey, PhotoPayload>> }) {
+  return (
+    <div className="mt-3">
+      <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+        <Camera className="h-4 w-4 text-muted-foreground" />
+        Photos
+      </div>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+        {TRUCK_PHOTOS.map((shot) => {
+          const photo = photos[shot.key];
+          return (
+            <figure key={shot.key} className="min-w-0">
+              {photo?.file?.path ? (
+                <StoredPhoto path={photo.file.path} alt={shot.label} />
+              ) : (
+                <div className="flex aspect-[4/3] items-center justify-center rounded-md border border-dashed text-xs text-destructive">
+                  Missing
+                </div>
+              )}
+              <figcaption className="mt-1 text-xs">
+                <div className="font-medium">{shot.label}</div>
+                {photo?.file?.path && (
+                  <div className="truncate text-muted-foreground">{formatTakenAt(photo)}</div>
+                )}
+              </figcaption>
+            </figure>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function TruckDocuments({ trucks }: { trucks: TruckPayload[] }) {
+  if (!trucks.length) return null;
+  return (
+    <div className="mt-4">
+      <div className="mb-2 font-medium">Trucks</div>
+      <div className="grid gap-3">
+        {trucks.map((t, i) => (
+          <div key={i} className="rounded-md border p-3">
+            <div className="flex items-center gap-2 font-medium">
+              <Truck className="h-4 w-4 text-primary" />
+              {t.registrationNumber || `Truck ${i + 1}`}
+              <span className="text-sm font-normal text-muted-foreground">
+                {t.vehicleType || "—"} · {t.loadCapacity ?? "—"}T
+                {t.year ? ` · ${t.year}` : ""}
+                {t.vin ? ` · VIN ${t.vin}` : ""}
+              </span>
+            </div>
+            <ul className="mt-2 grid gap-1 text-sm sm:grid-cols-3">
+              {TRUCK_DOCUMENTS.map((doc) => {
+                const ref = t[doc.key];
+                return (
+                  <li key={doc.key} className="flex items-center gap-2 min-w-0">
+                    <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    {ref?.path ? (
+                      <DocumentLink path={ref.path}>{doc.label}</DocumentLink>
+                    ) : (
+                      <span className="truncate text-destructive">{doc.label} missing</span>
+                    )}
+                    {t[doc.expiryKey] && (
+                      <span className="flex-shrink-0 text-xs text-muted-foreground">
+                        exp. {t[doc.expiryKey]}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+            {t.photos && <TruckPhotoGallery photos={t.photos} />}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type CoveragePayload = {
+  serviceProvinces?: string[];
+  serviceCities?: { city: string; province: string }[];
+  lanes?: { origin: string; destination: string }[];
+  crossBorder?: "yes" | "no";
+  crossBorderCountries?: string[];
+};
+
+const countryName = (code: string) =>
+  CROSS_BORDER_COUNTRIES.find((c) => c.code === code)?.name ?? code;
+
+function Coverage({ coverage }: { coverage: CoveragePayload }) {
+  if (!coverage.serviceProvinces?.length) return null;
+  const towns = (province: string) =>
+    (coverage.serviceCities ?? []).filter((c) => c.province === province).map((c) => c.city);
+  return (
+    <div className="mt-4">
+      <div className="mb-2 font-medium">Coverage</div>
+      <div className="grid gap-2 rounded-md border p-3 text-sm">
+        <div className="flex items-start gap-2">
+          <MapPin className="mt-0.5 h-4 w-4 flex-shrink-0 text-primary" />
+          <ul className="grid gap-1">
+            {coverage.serviceProvinces.map((p) => (
+              <li key={p}>
+                <span className="font-medium">{p}</span>
+                <span className="text-muted-foreground">
+                  {towns(p).length ? ` – ${towns(p).join(", ")}` : " – anywhere"}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        {coverage.lanes?.length > 0 && (
+          <div className="flex items-start gap-2">
+            <Route className="mt-0.5 h-4 w-4 flex-shrink-0 text-primary" />
+            <ul className="grid gap-1">
+              {coverage.lanes.map((l, i) => (
+                <li key={i}>
+                  {l.origin} → {l.destination}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex items-start gap-2">
+          <Globe className="mt-0.5 h-4 w-4 flex-shrink-0 text-primary" />
+          {coverage.crossBorder === "yes"
+            ? `Cross-border: ${(coverage.crossBorderCountries ?? []).map(countryName).join(", ")}`
+            : "South Africa only"}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type DriverPayload = {
+  id: string;
+  fullName?: string;
+  idNumber?: string;
+  licenceCode?: string;
+  prdpNumber?: string;
+  prdpExpiry?: string;
+} & Partial<Record<(typeof DRIVER_DOCUMENTS)[number]["key"], FileRef | null>>;
+
+type DriverRecord = { id: string; driver_key: string; verified_at: string | null };
+
+// Drivers employed by the applicant. Verification is kept per driver and is
+// cleared again if the applicant changes that driver's details.
+function DriverRoster({
+  applicationId,
+  drivers,
+  trucks,
+}: {
+  applicationId: string;
+  drivers: DriverPayload[];
+  trucks: TruckPayload[];
+}) {
+  const [saving, setSaving] = useState<string | null>(null);
+  const { data: records, refetch } = useQuery({
+    queryKey: ["application-drivers", applicationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("application_drivers")
+        .select("id,driver_key,verified_at")
+        .eq("application_id", applicationId);
+      if (error) throw error;
+      return (data || []) as DriverRecord[];
+    },
+    enabled: drivers.length > 0,
+  });
+
+  if (!drivers.length) return null;
+
+  const setVerified = async (record: DriverRecord, verified: boolean) => {
+    setSaving(record.id);
+    const { error } = await supabase.rpc("set_driver_verified", { _driver_id: record.id, _verified: verified });
+    setSaving(null);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(verified ? "Driver verified" : "Verification cleared");
+    refetch();
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="mb-2 font-medium">Drivers</div>
+      <div className="grid gap-3">
+        {drivers.map((d) => {
+          const record = records?.find((r) => r.driver_key === d.id);
+          const assigned = trucks
+            .map((t, i) => (t.driverId === d.id ? t.registrationNumber || `Truck ${i + 1}` : null))
+            .filter(Boolean);
+          return (
+            <div key={d.id} className="rounded-md border p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-medium">
+                  <UserRound className="h-4 w-4 text-primary" />
+                  {d.fullName || "—"}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    {d.idNumber || "—"} · Code {d.licenceCode || "—"}
+                  </span>
+                </div>
+                {record?.verified_at ? (
+                  <div className="flex items-center gap-2">
+                    <Badge className="bg-primary text-primary-foreground gap-1">
+                      <BadgeCheck className="h-3 w-3" /> Verified {new Date(record.verified_at).toLocaleDateString()}
+                    </Badge>
+                    <Button variant="ghost" size="sm" disabled={saving === record.id} onClick={() => setVerified(record, false)}>
+                      Undo
+                    </Button>
+                  </div>
+                ) : (
+                  <Button variant="outline" size="sm" disabled={!record || saving === record.id} onClick={() => setVerified(record, true)}>
+                    Mark verified
+                  </Button>
+                )}
+              </div>
+              <div className="mt-1 text-sm text-muted-foreground">
+                PrDP {d.prdpNumber || "—"}
+                {d.prdpExpiry && <> · exp. {d.prdpExpiry}</>} · Drives {assigned.length ? assigned.join(", ") : "no trucks"}
+              </div>
+              <ul className="mt-2 grid gap-1 text-sm sm:grid-cols-3">
+                {DRIVER_DOCUMENTS.map((doc) => {
+                  const ref = d[doc.key];
+                  return (
+                    <li key={doc.key} className="flex items-center gap-2 min-w-0">
+                      <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      {ref?.path ? (
+                        <DocumentLink path={ref.path}>{doc.label}</DocumentLink>
+                      ) : (
+                        <span className="truncate text-destructive">{doc.label} missing</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+type ReviewerRequest = {
+  id: string;
+  message: string;
+  items: string[];
+  token: string;
+  created_at: string;
+  resolved_at: string | null;
+  notified_at: string | null;
+};
+
+const resubmitLink = (token: string) => `${window.location.origin}/resubmit/${token}`;
+
+// Requests shown to the applicant on their status page until resolved. Ticking
+// items to correct also sends the application back as needs_info.
+function ReviewerRequests({ applicationId }: { applicationId: string }) {
+  const [message, setMessage] = useState("");
+  const [items, setItems] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { data: requests, refetch } = useQuery({
+    queryKey: ["application-requests", applicationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("application_requests")
+        .select("id,message,items,token,created_at,resolved_at,notified_at")
+        .eq("application_id", applicationId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as ReviewerRequest[];
+    },
+  });
+
+  const addRequest = async () => {
+    setSaving(true);
+    if (items.length) {
+      try {
+        const { notified } = await requestInformation(applicationId, items, message.trim());
+        if (notified) toast.success("Sent back to the applicant, who was texted the link");
+        else toast.warning("Sent back to the applicant, but the link couldn't be texted. Copy it and send it yourself.");
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      } finally {
+        setSaving(false);
+      }
+    } else {
+      const { error } = await supabase
+        .from("application_requests")
+        .insert({ application_id: applicationId, message: message.trim() });
+      setSaving(false);
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+    }
+    setMessage("");
+    setItems([]);
+    refetch();
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(resubmitLink(token));
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const resolve = async (id: string) => {
+    const { error } = await supabase
+      .from("application_requests")
+      .update({ resolved_at: new Date().toISOString() })
+      .eq("id", id);
+    if (error) toast.error(error.message);
+    else refetch();
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="mb-2 font-medium">Requests to applicant</div>
+      {requests?.length ? (
+        <ul className="mb-3 grid gap-2 text-sm">
+          {requests.map((r) => (
+            <li key={r.id} className="flex items-start justify-between gap-3 rounded-md border p-2">
+              <div className="min-w-0">
+                <div className={r.resolved_at ? "text-muted-foreground line-through" : undefined}>{r.message}</div>
+                {r.items.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {r.items.map((key) => (
+                      <Badge key={key} variant="outline">
+                        {CORRECTION_ITEMS.find((item) => item.key === key)?.label ?? key}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  {new Date(r.created_at).toLocaleString()}
+                  {r.notified_at && <> · Texted {new Date(r.notified_at).toLocaleString()}</>}
+                </div>
+              </div>
+              {!r.resolved_at && (
+                <div className="flex flex-shrink-0 gap-2">
+                  {r.items.length > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => copyLink(r.token)} title={resubmitLink(r.token)}>
+                      <Link2 className="mr-1 h-4 w-4" /> Copy link
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => resolve(r.id)}>
+                    <CheckCircle2 className="mr-1 h-4 w-4" /> Resolved
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div className="mb-2 grid gap-2 sm:grid-cols-2">
+        {CORRECTION_ITEMS.map((item) => (
+          <label key={item.key} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={items.includes(item.key)}
+              onCheckedChange={(checked) =>
+                setItems((prev) => (checked ? [...prev, item.key] : prev.filter((k) => k !== item.key)))
+              }
+            />
+            {item.label}
+          </label>
+        ))}
+      </div>
+      <Textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="What does the applicant still need to provide?"
+        aria-label="Request to applicant"
+      />
+      <Button className="mt-2" size="sm" onClick={addRequest} disabled={saving || !message.trim()}>
+        <MessageSquare className="mr-1 h-4 w-4" /> {items.length ? "Request corrections" : "Send request"}
+      </Button>
+    </div>
+  );
+}
+
+type ApplicationVersion = { id: string; version: number; payload: unknown; submitted_at: string; replaced_at: string };
+
+// Earlier submissions, kept whenever the applicant sends corrections
+function PreviousVersions({ applicationId }: { applicationId: string }) {
+  const { data: versions } = useQuery({
+    queryKey: ["application-versions", applicationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("application_versions")
+        .select("id,version,payload,submitted_at,replaced_at")
+        .eq("application_id", applicationId)
+        .order("version", { ascending: false });
+      if (error) throw error;
+      return (data || []) as ApplicationVersion[];
+    },
+  });
+  if (!versions?.length) return null;
+  return (
+    <div className="mt-4">
+      <div className="mb-2 flex items-center gap-2 font-medium">
+        <History className="h-4 w-4 text-primary" /> Previous versions
+      </div>
+      <div className="grid gap-2">
+        {versions.map((v) => (
+          <details key={v.id} className="rounded-md border p-2 text-sm">
+            <summary className="cursor-pointer">
+              Version {v.version} · submitted {new Date(v.submitted_at).toLocaleString()} · replaced{" "}
+              {new Date(v.replaced_at).toLocaleString()}
+            </summary>
+            <pre className="mt-2 max-h-60 overflow-auto rounded-md bg-muted p-3 text-xs">
+{JSON.stringify(v.payload, null, 2)}
+            </pre>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+type ConsentRecord = {
+  id: string;
+  scope: ConsentScope;
+  granted: boolean;
+  source: string;
+  user_agent: string | null;
+  recorded_at: string;
+  terms_versions: { version: number } | null;
+};
+
+const consentLabels = Object.fromEntries(CONSENT_SCOPES.map((c) => [c.scope, c.label])) as Record<ConsentScope, string>;
+
+// The consent ledger for the application, newest first
+function ConsentHistory({ applicationId }: { applicationId: string }) {
+  const { data: records } = useQuery({
+    queryKey: ["consent-records", applicationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("consent_records")
+        .select("id,scope,granted,source,user_agent,recorded_at,terms_versions(version)")
+        .eq("application_id", applicationId)
+        .order("recorded_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as ConsentRecord[];
+    },
+  });
+  if (!records?.length) return null;
+  return (
+    <div className="mt-4">
+      <div className="mb-2 flex items-center gap-2 font-medium">
+        <ShieldCheck className="h-4 w-4 text-primary" /> Consents
+      </div>
+      <ul className="grid gap-1 text-sm">
+        {records.map((r) => (
+          <li key={r.id}>
+            <span className="font-medium">{consentLabels[r.scope] ?? r.scope}</span>{" "}
+            {r.granted ? "given" : "withheld"} · terms v{r.terms_versions?.version ?? "?"} ·{" "}
+            {new Date(r.recorded_at).toLocaleString()} · {r.source.replace("_", " ")}
+            {r.user_agent && <div className="truncate text-xs text-muted-foreground">{r.user_agent}</div>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type BankingPayload = { bankName?: string; accountHolder?: string; accountType?: string };
+
+// Revealed details are hidden again after this long
+const REVEAL_MS = 60 * 1000;
+
+// Masked banking details, revealed on request to reviewers with the
+// banking_viewer role, with the log of earlier reveals
+function BankingDetails({ applicationId, banking }: { applicationId: string; banking: BankingPayload }) {
+  const [reason, setReason] = useState("");
+  const [asking, setAsking] = useState(false);
+  const [revealing, setRevealing] = useState(false);
+  const [revealed, setRevealed] = useState<RevealedBanking | null>(null);
+  const { data: stored } = useQuery({
+    queryKey: ["application-banking", applicationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("application_banking")
+        .select("account_number_last4,updated_at")
+        .eq("application_id", applicationId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+  const { data: allowed } = useQuery({
+    queryKey: ["can-reveal-banking"],
+    queryFn: canRevealBanking,
+    staleTime: 5 * 60 * 1000,
+  });
+  const { data: accesses, refetch: refetchAccesses } = useQuery({
+    queryKey: ["banking-access-log", applicationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("banking_access_log")
+        .select("id,accessed_by_email,reason,accessed_at")
+        .eq("application_id", applicationId)
+        .order("accessed_at", { ascending: false });
+      if (error) throw error;
+      return (data || []) as BankingAccess[];
+    },
+  });
+
+  useEffect(() => {
+    if (!revealed) return;
+    const timer = setTimeout(() => setRevealed(null), REVEAL_MS);
+    return () => clearTimeout(timer);
+  }, [revealed]);
+
+  if (!stored && !banking.bankName) return null;
+
+  const reveal = async () => {
+    setRevealing(true);
+    try {
+      setRevealed(await revealBanking(applicationId, reason.trim()));
+      setReason("");
+      setAsking(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not reveal the banking details");
+    } finally {
+      setRevealing(false);
+      refetchAccesses();
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          <Landmark className="h-4 w-4 text-primary" /> Banking
+        </div>
+        {stored && allowed && !revealed && !asking && (
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setAsking(true)}>
+            <Eye className="h-4 w-4" /> Reveal
+          </Button>
+        )}
+        {revealed && (
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setRevealed(null)}>
+            <EyeOff className="h-4 w-4" /> Hide
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <div>
+          <div className="text-muted-foreground">Bank</div>
+          <div className="font-medium">{banking.bankName || "—"}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Account holder</div>
+          <div className="font-medium">
+            {banking.accountHolder || "—"}
+            {banking.accountType && <span className="font-normal capitalize text-muted-foreground"> · {banking.accountType}</span>}
+          </div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Account number</div>
+          <div className="font-mono">{revealed ? revealed.accountNumber || "—" : maskedAccountNumber(stored?.account_number_last4)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Branch code</div>
+          <div className="font-mono">{revealed ? revealed.branchCode || "—" : "••••••"}</div>
+        </div>
+        <div className="col-span-2">
+          <div className="text-muted-foreground">Bank statement</div>
+          {revealed ? (
+            revealed.proofOfBank?.url ? (
+              <a href={revealed.proofOfBank.url} target="_blank" rel="noreferrer" className="text-primary underline-offset-4 hover:underline">
+                {revealed.proofOfBank.name}
+              </a>
+            ) : (
+              <div>None attached</div>
+            )
+          ) : (
+            <div className="text-muted-foreground">Hidden</div>
+          )}
+        </div>
+      </div>
+      {stored && allowed === false && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Only reviewers with the banking_viewer role can reveal these details.
+        </p>
+      )}
+      {asking && (
+        <div className="mt-3 flex gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why do you need to see them? This is logged."
+            aria-label="Reason for revealing banking details"
+          />
+          <Button size="sm" onClick={reveal} disabled={revealing || !reason.trim()}>
+            Reveal
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setAsking(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+      {accesses?.length ? (
+        <details className="mt-3 text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Revealed {accesses.length} time{accesses.length === 1 ? "" : "s"}</summary>
+          <ul className="mt-2 grid gap-1">
+            {accesses.map((a) => (
+              <li key={a.id}>
+                {new Date(a.accessed_at).toLocaleString()} · {a.accessed_by_email ?? "Unknown reviewer"} · {a.reason}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+    </div>
+  );
+}
 
 type Sort = { field: "submitted_at" | "applicant_name" | "email"; dir: "asc" | "desc" };
 
 const fetchApplications = async (
   search: string,
   status: ApplicationStatus | "all",
+  identity: IdentityFilter,
+  coverage: CoverageFilter,
   sort: Sort
 ) => {
+  const covering = await fetchCoverageMatches(coverage);
+  if (covering?.length === 0) return [];
+
+
   let query = supabase
     .from("onboarding_applications")
-    .select("id,user_id,applicant_name,email,phone,status,payload,submitted_at,updated_at");
+    .select("id,user_id,applicant_name,email,phone,phone_verified_at,id_type,date_of_birth,gender,citizenship,preferred_language,address_street,address_suburb,address_city,address_postal_code,address_province,province_mismatch,status,payload,eligibility_results,submitted_at,updated_at");
 
   if (status !== "all") {
     query = query.eq("status", status);
   }
+  if (identity.citizenship !== "all") {
+    query = query.eq("citizenship", identity.citizenship);
+  }
+  if (identity.gender !== "all") {
+    query = query.eq("gender", identity.gender);
+  }
+  if (identity.province !== "all") {
+    query = query.eq("address_province", identity.province);
+  }
+  if (covering) {
+    query = query.in("id", covering);
+  }
   if (search) {
     // Search by name or email
     query = query.or(
@@ -67,6 +826,8 @@ const fetchApplications = async (
 export default function AdminDashboard() {
   const [search, setSearch] = useState("");
   const [status, setStatus] = useState<ApplicationStatus | "all">("all");
+  const [identity, setIdentity] = useState<IdentityFilter>({ citizenship: "all", gender: "all", province: "all" });
+  const [coverage, setCoverage] = useState<CoverageFilter>({ province: "all", country: "all" });
   const [sort, setSort] = useState<Sort>({ field: "submitted_at", dir: "desc" });
   const [selected, setSelected] = useState<Record<string, boolean>>({});
 
@@ -77,8 +838,8 @@ export default function AdminDashboard() {
   }, []);
 
   const { data, isLoading, refetch, isFetching } = useQuery({
-    queryKey: ["applications", { search, status, sort }],
-    queryFn: () => fetchApplications(search, status, sort),
+    queryKey: ["applications", { search, status, identity, coverage, sort }],
+    queryFn: () => fetchApplications(search, status, identity, coverage, sort),
   });
 
   // Realtime updates: invalidate list on inserts/updates/deletes
@@ -133,10 +894,22 @@ export default function AdminDashboard() {
       applicant_name: a.applicant_name ?? "",
       email: a.email ?? "",
       phone: a.phone ?? "",
+      phone_verified_at: a.phone_verified_at ?? "",
+      id_type: a.id_type ?? "",
+      date_of_birth: a.date_of_birth ?? "",
+      gender: a.gender ?? "",
+      citizenship: a.citizenship ?? "",
+      preferred_language: a.preferred_language,
+      address_street: a.address_street ?? "",
+      address_suburb: a.address_suburb ?? "",
+      address_city: a.address_city ?? "",
+      address_postal_code: a.address_postal_code ?? "",
+      address_province: a.address_province ?? "",
+      province_mismatch: a.province_mismatch,
       status: a.status,
       submitted_at: a.submitted_at,
     }));
-    const header = Object.keys(rows[0] || { id: "", applicant_name: "", email: "", phone: "", status: "", submitted_at: "" });
+    const header = Object.keys(rows[0] || { id: "", applicant_name: "", email: "", phone: "", phone_verified_at: "", id_type: "", date_of_birth: "", gender: "", citizenship: "", preferred_language: "", address_street: "", address_suburb: "", address_city: "", address_postal_code: "", address_province: "", province_mismatch: "", status: "", submitted_at: "" });
     const csv = [
       header.join(","),
       ...rows.map((r) => header.map((h) => `${String((r as any)[h]).replace(/"/g, '""')}`).join(",")),
@@ -160,6 +933,31 @@ export default function AdminDashboard() {
       <header className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-heading">Onboarding Applications</h1>
         <div className="flex gap-2">
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/admin/compliance">
+              <CalendarClock className="h-4 w-4" /> Document Expiry
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/admin/eligibility">
+              <ListChecks className="h-4 w-4" /> Eligibility Rules
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/admin/analytics">
+              <BarChart3 className="h-4 w-4" /> Analytics
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/admin/terms">
+              <FileText className="h-4 w-4" /> Terms
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/admin/data-requests">
+              <Inbox className="h-4 w-4" /> Data Requests
+            </Link>
+          </Button>
           <Button variant="outline" onClick={() => refetch()} aria-label="Refresh" className="gap-2">
             <RefreshCcw className="h-4 w-4" /> Refresh
           </Button>
@@ -180,7 +978,7 @@ export default function AdminDashboard() {
             aria-label="Search applications"
           />
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           <Filter className="h-4 w-4 text-muted-foreground" />
           <Select value={status} onValueChange={(v) => setStatus(v as any)}>
             <SelectTrigger aria-label="Filter by status">
@@ -195,6 +993,68 @@ export default function AdminDashboard() {
               ))}
             </SelectContent>
           </Select>
+          <Select value={identity.citizenship} onValueChange={(v) => setIdentity((f) => ({ ...f, citizenship: v as IdentityFilter["citizenship"] }))}>
+            <SelectTrigger aria-label="Filter by citizenship">
+              <SelectValue placeholder="Citizenship" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All citizenship</SelectItem>
+              {(Object.keys(citizenshipLabels) as Citizenship[]).map((c) => (
+                <SelectItem key={c} value={c}>
+                  {citizenshipLabels[c]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={identity.gender} onValueChange={(v) => setIdentity((f) => ({ ...f, gender: v as IdentityFilter["gender"] }))}>
+            <SelectTrigger aria-label="Filter by gender">
+              <SelectValue placeholder="Gender" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All genders</SelectItem>
+              <SelectItem value="female">Female</SelectItem>
+              <SelectItem value="male">Male</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={identity.province} onValueChange={(v) => setIdentity((f) => ({ ...f, province: v }))}>
+            <SelectTrigger aria-label="Filter by province">
+              <SelectValue placeholder="Province" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All provinces</SelectItem>
+              {PROVINCES.map((p) => (
+                <SelectItem key={p} value={p}>
+                  {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={coverage.province} onValueChange={(v) => setCoverage((f) => ({ ...f, province: v }))}>
+            <SelectTrigger aria-label="Filter by provinces serviced">
+              <SelectValue placeholder="Services" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Services anywhere</SelectItem>
+              {PROVINCES.map((p) => (
+                <SelectItem key={p} value={p}>
+                  Services {p}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={coverage.country} onValueChange={(v) => setCoverage((f) => ({ ...f, country: v }))}>
+            <SelectTrigger aria-label="Filter by cross-border country">
+              <SelectValue placeholder="Cross-border" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any or no border crossing</SelectItem>
+              {CROSS_BORDER_COUNTRIES.map((c) => (
+                <SelectItem key={c.code} value={c.code}>
+                  Drives to {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
         <div className="flex items-center justify-start md:justify-end gap-2">
           <Button variant="outline" size="sm" disabled={selectedIds.length === 0} onClick={() => bulkUpdateStatus("approved")} className="gap-2">
@@ -277,6 +1137,38 @@ export default function AdminDashboard() {
                             <div>
                               <div className="text-sm text-muted-foreground">Phone</div>
                               <div className="font-medium">{a.phone || "—"}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {a.phone_verified_at
+                                  ? `Verified by SMS ${new Date(a.phone_verified_at).toLocaleString()}`
+                                  : "Not verified"}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-muted-foreground">
+                                {a.id_type === "passport" ? "Passport" : "SA ID"}
+                              </div>
+                              <div className="font-medium">{a.payload?.idNumber || "—"}</div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-muted-foreground">Date of birth</div>
+                              <div className="font-medium">{a.date_of_birth || "—"}</div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-muted-foreground">Gender</div>
+                              <div className="font-medium capitalize">{a.gender || "—"}</div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-muted-foreground">Citizenship</div>
+                              <div className="font-medium">
+                                {a.citizenship ? citizenshipLabels[a.citizenship] : "—"}
+                                {a.payload?.identity?.passportCountry ? ` (${a.payload.identity.passportCountry})` : ""}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-sm text-muted-foreground">Language</div>
+                              <div className="font-medium">
+                                {LANGUAGES.find((l) => l.code === a.preferred_language)?.name ?? a.preferred_language}
+                              </div>
                             </div>
                             <div>
                               <div className="text-sm text-muted-foreground">Status</div>
@@ -285,10 +1177,56 @@ export default function AdminDashboard() {
                               </div>
                             </div>
                           </div>
+                          <div>
+                            <div className="mb-1 text-sm text-muted-foreground">Address</div>
+                            {a.address_postal_code ? (
+                              <div className="font-medium">
+                                <div>{a.address_street}</div>
+                                <div>{a.address_suburb}, {a.address_city}</div>
+                                <div>{a.address_postal_code} {a.address_province}</div>
+                              </div>
+                            ) : (
+                              <div className="font-medium">{a.payload?.address || "—"}</div>
+                            )}
+                            {a.province_mismatch && (
+                              <div className="mt-1 flex items-center gap-1 text-xs text-destructive">
+                                <AlertTriangle className="h-3 w-3" />
+                                Postal code {a.address_postal_code} is in {provinceForPostalCode(a.address_postal_code)}, not {a.address_province}
+                              </div>
+                            )}
+                          </div>
                           <div>
                             <div className="mb-1 text-sm text-muted-foreground">Submitted</div>
                             <div className="font-medium">{new Date(a.submitted_at).toLocaleString()}</div>
                           </div>
+                          {a.eligibility_results?.length > 0 && (
+                            <div>
+                              <div className="mb-1 text-sm text-muted-foreground">Eligibility checks</div>
+                              <ul className="space-y-1 text-sm">
+                                {a.eligibility_results.map((r) => (
+                                  <li key={r.ruleId} className="flex items-center gap-2">
+                                    {r.passed ? (
+                                      <CheckCircle2 className="h-4 w-4 text-primary" />
+                                    ) : (
+                                      <XCircle className="h-4 w-4 text-destructive" />
+                                    )}
+                                    {RULE_KINDS[r.kind]?.label ?? r.kind}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          <Coverage coverage={a.payload ?? {}} />
+                          <TruckDocuments trucks={Array.isArray(a.payload?.trucks) ? a.payload.trucks : []} />
+                          <DriverRoster
+                            applicationId={a.id}
+                            drivers={Array.isArray(a.payload?.drivers) ? a.payload.drivers : []}
+                            trucks={Array.isArray(a.payload?.trucks) ? a.payload.trucks : []}
+                          />
+                          <BankingDetails applicationId={a.id} banking={a.payload ?? {}} />
+                          <ReviewerRequests applicationId={a.id} />
+                          <PreviousVersions applicationId={a.id} />
+                          <ConsentHistory applicationId={a.id} />
                           <div className="mt-4">
                             <div className="mb-2 font-medium">Form Data</div>
                             <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
@@ -296,7 +1234,8 @@ export default function AdminDashboard() {
                             </pre>
                           </div>
                           <div className="mt-2 flex flex-wrap gap-2">
-                            {statusOptions.map((s) => (
+                            {/* needs_info is set by sending a request above */}
+                            {statusOptions.filter((s) => s !== "needs_info").map((s) => (
                               <Button key={s} variant="outline" size="sm" onClick={() => bulkUpdateStatus(s)} className="capitalize">
                                 Set {s.replace("_", " ")}
                               </Button>
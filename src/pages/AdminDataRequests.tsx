@@ -0,0 +1,416 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, Download, RefreshCcw, Trash2, XCircle } from "lucide-react";
+import {
+  DATA_REQUEST_COLUMNS,
+  DATA_REQUEST_KINDS,
+  eraseApplication,
+  exportApplication,
+  type DataRequest,
+  type DataRequestKind,
+} from "@/lib/onboarding/data-requests";
+
+type Erasure = Database["public"]["Tables"]["application_erasures"]["Row"];
+
+type Applicant = { id: string; applicant_name: string | null; email: string | null };
+
+type Resolving = { request: DataRequest; status: "completed" | "declined" };
+
+const kindLabels = Object.fromEntries(DATA_REQUEST_KINDS.map((k) => [k.kind, k.label])) as Record<
+  DataRequestKind,
+  string
+>;
+
+const statusColors: Record<DataRequest["status"], string> = {
+  open: "bg-secondary text-secondary-foreground",
+  completed: "bg-primary text-primary-foreground",
+  declined: "bg-muted text-foreground",
+};
+
+const fetchRequests = async (onlyOpen: boolean) => {
+  let query = supabase.from("data_subject_requests").select(DATA_REQUEST_COLUMNS);
+  if (onlyOpen) query = query.eq("status", "open");
+  const { data, error } = await query.order("due_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as DataRequest[];
+};
+
+const fetchApplicants = async (ids: string[]) => {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from("onboarding_applications")
+    .select("id,applicant_name,email")
+    .in("id", ids);
+  if (error) throw error;
+  return (data || []) as Applicant[];
+};
+
+const fetchErasures = async () => {
+  const { data, error } = await supabase
+    .from("application_erasures")
+    .select("*")
+    .order("erased_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as Erasure[];
+};
+
+function DueBadge({ request }: { request: DataRequest }) {
+  if (request.status !== "open") return <span className="text-muted-foreground">—</span>;
+  const days = differenceInCalendarDays(parseISO(request.due_at), new Date());
+  if (days < 0) return <Badge className="bg-destructive text-destructive-foreground">Overdue {-days}d</Badge>;
+  return (
+    <Badge variant="outline" className={days <= 5 ? "border-destructive text-destructive" : undefined}>
+      {days === 0 ? "Due today" : `${days}d left`}
+    </Badge>
+  );
+}
+
+function ResolveDialog({
+  resolving,
+  onClose,
+  onResolved,
+}: {
+  resolving: Resolving | null;
+  onClose: () => void;
+  onResolved: () => void;
+}) {
+  const [resolution, setResolution] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => setResolution(""), [resolving]);
+
+  if (!resolving) return null;
+  const declining = resolving.status === "declined";
+
+  const resolve = async () => {
+    setSaving(true);
+    const { error } = await supabase.rpc("resolve_data_request", {
+      _request_id: resolving.request.id,
+      _status: resolving.status,
+      _resolution: resolution,
+    });
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(declining ? "Request declined" : "Request completed");
+    onResolved();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {declining ? "Decline" : "Complete"} request {resolving.request.reference}
+          </DialogTitle>
+          <DialogDescription>
+            The applicant sees this note on their status page. Say what was done, or why the request was declined.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2">
+          <Label htmlFor="data-request-resolution">Note to the applicant</Label>
+          <Textarea
+            id="data-request-resolution"
+            rows={4}
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={declining ? "destructive" : "default"}
+            onClick={resolve}
+            disabled={saving || (declining && !resolution.trim())}
+          >
+            {declining ? "Decline" : "Complete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminDataRequests() {
+  const [onlyOpen, setOnlyOpen] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<Resolving | null>(null);
+
+  useEffect(() => {
+    document.title = "Admin • Data Requests";
+  }, []);
+
+  const { data: requests, isLoading, refetch, isFetching } = useQuery({
+    queryKey: ["data_subject_requests", onlyOpen],
+    queryFn: () => fetchRequests(onlyOpen),
+  });
+
+  const applicationIds = [...new Set((requests || []).map((r) => r.application_id))].sort();
+  const { data: applicants } = useQuery({
+    queryKey: ["data_subject_requests", "applicants", applicationIds],
+    queryFn: () => fetchApplicants(applicationIds),
+    enabled: applicationIds.length > 0,
+  });
+  const applicantById = new Map((applicants || []).map((a) => [a.id, a]));
+
+  const { data: erasures, isLoading: erasuresLoading, refetch: refetchErasures } = useQuery({
+    queryKey: ["application_erasures"],
+    queryFn: fetchErasures,
+  });
+
+  const refresh = () => {
+    refetch();
+    refetchErasures();
+  };
+
+  const download = async (request: DataRequest) => {
+    setBusy(request.id);
+    try {
+      const zip = await exportApplication(request.application_id, `Data request ${request.reference}`);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `application-${request.reference}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not export the application");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const erase = async (request: DataRequest) => {
+    if (
+      !window.confirm(
+        `Erase application ${request.reference}? Its record, documents and history are deleted for good; only an anonymised stub is kept.`
+      )
+    )
+      return;
+    setBusy(request.id);
+    try {
+      await eraseApplication(request);
+      toast.success(`Application ${request.reference} erased`);
+      refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Could not erase the application");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <header className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="gap-2">
+            <Link to="/admin">
+              <ArrowLeft className="h-4 w-4" /> Applications
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-heading">Data Requests</h1>
+        </div>
+        <div className="flex gap-2">
+          <Select value={onlyOpen ? "open" : "all"} onValueChange={(v) => setOnlyOpen(v === "open")}>
+            <SelectTrigger className="w-36" aria-label="Show">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="all">All requests</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={refresh} aria-label="Refresh" className="gap-2">
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </Button>
+        </div>
+      </header>
+
+      <p className="mb-4 text-sm text-muted-foreground">
+        POPIA requires a response within a reasonable time; we aim for 30 days from when the request was lodged.
+      </p>
+
+      <div className="space-y-6">
+        <section className="rounded-lg border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Request</TableHead>
+                <TableHead>Applicant</TableHead>
+                <TableHead>Lodged</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : (requests || []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    {onlyOpen ? "No open requests" : "No requests yet"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                (requests || []).map((r) => {
+                  const applicant = applicantById.get(r.application_id);
+                  const erased = !applicant && !!applicants;
+                  return (
+                    <TableRow key={r.id} className="hover:bg-muted/50 align-top">
+                      <TableCell className="font-medium">{r.reference}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <div>{kindLabels[r.kind]}</div>
+                        {r.details && <div className="text-xs text-muted-foreground whitespace-pre-wrap">{r.details}</div>}
+                        {r.resolution && <div className="text-xs text-muted-foreground">Note: {r.resolution}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {applicant ? (
+                          <>
+                            <div>{applicant.applicant_name || "—"}</div>
+                            <div className="text-xs text-muted-foreground">{applicant.email || "—"}</div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">{erased ? "Erased" : "—"}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(parseISO(r.created_at), "d MMM yyyy")}</TableCell>
+                      <TableCell>
+                        <DueBadge request={r} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={`${statusColors[r.status]} capitalize`}>{r.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {applicant && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => download(r)}
+                              disabled={busy === r.id}
+                              aria-label={`Export application ${r.reference}`}
+                              title="Export everything held (ZIP)"
+                            >
+                              <Download className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {r.status === "open" && (
+                            <>
+                              {r.kind === "deletion" && applicant && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => erase(r)}
+                                  disabled={busy === r.id}
+                                  aria-label={`Erase application ${r.reference}`}
+                                  title="Erase application and documents"
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setResolving({ request: r, status: "completed" })}
+                                aria-label={`Complete request ${r.reference}`}
+                                title="Complete"
+                              >
+                                <CheckCircle2 className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setResolving({ request: r, status: "declined" })}
+                                aria-label={`Decline request ${r.reference}`}
+                                title="Decline"
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </section>
+
+        <section className="rounded-lg border bg-card">
+          <h2 className="p-4 pb-0 font-heading font-medium">Erased applications</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status when erased</TableHead>
+                <TableHead>Documents</TableHead>
+                <TableHead>Erased</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {erasuresLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : (erasures || []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No applications have been erased
+                  </TableCell>
+                </TableRow>
+              ) : (
+                (erasures || []).map((e) => (
+                  <TableRow key={e.id} className="hover:bg-muted/50">
+                    <TableCell className="font-medium">{e.reference}</TableCell>
+                    <TableCell>{format(parseISO(e.submitted_at), "d MMM yyyy")}</TableCell>
+                    <TableCell className="capitalize">{e.status_at_erasure.replace("_", " ")}</TableCell>
+                    <TableCell>{e.document_count}</TableCell>
+                    <TableCell>{format(parseISO(e.erased_at), "d MMM yyyy HH:mm")}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </section>
+      </div>
+
+      {isFetching && <div className="mt-2 text-xs text-muted-foreground">Updating…</div>}
+
+      <ResolveDialog
+        resolving={resolving}
+        onClose={() => setResolving(null)}
+        onResolved={() => {
+          setResolving(null);
+          refetch();
+        }}
+      />
+    </main>
+  );
+}
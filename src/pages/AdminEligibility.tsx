@@ -0,0 +1,375 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ArrowLeft, ListChecks, Pencil, Plus, RefreshCcw, Trash2 } from "lucide-react";
+import { PROVINCES, VEHICLE_TYPES } from "@shared/onboarding/schema";
+import { RULE_KINDS, ruleKinds, type RuleKind } from "@shared/onboarding/eligibility";
+
+type RuleParams = { provinces?: string[]; tons?: number; types?: string[]; trucks?: number };
+
+type RuleRow = {
+  id: string;
+  kind: RuleKind;
+  params: RuleParams;
+  message: string;
+  enabled: boolean;
+  position: number;
+};
+
+type Attempt = { source: "wizard" | "server"; failed_rule_ids: string[] };
+
+type Draft = Omit<RuleRow, "id" | "enabled"> & { id?: string };
+
+const reportDays = 30;
+
+const defaultParams: Record<RuleKind, RuleParams> = {
+  owns_vehicle: {},
+  has_required_docs: {},
+  province_in: { provinces: [] },
+  min_load_capacity: { tons: 1 },
+  vehicle_types_in: { types: [] },
+  business_for_fleet_over: { trucks: 5 },
+};
+
+const describeParams = (rule: Pick<RuleRow, "kind" | "params">) => {
+  const p = rule.params || {};
+  switch (rule.kind) {
+    case "province_in":
+      return (p.provinces || []).join(", ");
+    case "min_load_capacity":
+      return `At least ${p.tons}T per truck`;
+    case "vehicle_types_in":
+      return (p.types || []).join(", ");
+    case "business_for_fleet_over":
+      return `Fleets over ${p.trucks} trucks`;
+    default:
+      return "—";
+  }
+};
+
+const fetchRules = async () => {
+  const { data, error } = await supabase
+    .from("eligibility_rules")
+    .select("id,kind,params,message,enabled,position")
+    .order("position")
+    .order("created_at");
+  if (error) throw error;
+  return (data || []) as RuleRow[];
+};
+
+const fetchAttempts = async () => {
+  const { data, error } = await supabase
+    .from("eligibility_attempts")
+    .select("source,failed_rule_ids")
+    .gte("created_at", subDays(new Date(), reportDays).toISOString());
+  if (error) throw error;
+  return (data || []) as Attempt[];
+};
+
+function ToggleList({
+  options,
+  value,
+  onChange,
+}: {
+  options: string[];
+  value: string[];
+  onChange: (value: string[]) => void;
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {options.map((o) => (
+        <label key={o} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={value.includes(o)}
+            onCheckedChange={(checked) => onChange(checked ? [...value, o] : value.filter((v) => v !== o))}
+          />
+          {o}
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function RuleDialog({
+  draft,
+  onClose,
+  onSaved,
+}: {
+  draft: Draft | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [value, setValue] = useState<Draft | null>(draft);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => setValue(draft), [draft]);
+
+  if (!value) return null;
+  const params = value.params;
+  const setParams = (next: RuleParams) => setValue({ ...value, params: { ...params, ...next } });
+  const check = RULE_KINDS[value.kind].params.safeParse(params);
+
+  const save = async () => {
+    setSaving(true);
+    const row = { kind: value.kind, params: params as Json, message: value.message.trim(), position: value.position };
+    const { error } = value.id
+      ? await supabase.from("eligibility_rules").update(row).eq("id", value.id)
+      : await supabase.from("eligibility_rules").insert(row);
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success("Rule saved");
+    onSaved();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{value.id ? "Edit rule" : "New rule"}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label>Rule</Label>
+            <Select
+              value={value.kind}
+              onValueChange={(kind) => setValue({ ...value, kind: kind as RuleKind, params: defaultParams[kind as RuleKind] })}
+              disabled={!!value.id}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ruleKinds.map((k) => (
+                  <SelectItem key={k} value={k}>
+                    {RULE_KINDS[k].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {value.kind === "province_in" && (
+            <ToggleList options={PROVINCES} value={params.provinces || []} onChange={(provinces) => setParams({ provinces })} />
+          )}
+          {value.kind === "vehicle_types_in" && (
+            <ToggleList options={VEHICLE_TYPES} value={params.types || []} onChange={(types) => setParams({ types })} />
+          )}
+          {value.kind === "min_load_capacity" && (
+            <div className="grid gap-2">
+              <Label htmlFor="rule-tons">Minimum tons</Label>
+              <Input
+                id="rule-tons"
+                type="number"
+                min={0}
+                step={0.5}
+                value={params.tons ?? ""}
+                onChange={(e) => setParams({ tons: Number(e.target.value) })}
+              />
+            </div>
+          )}
+          {value.kind === "business_for_fleet_over" && (
+            <div className="grid gap-2">
+              <Label htmlFor="rule-trucks">Require a business for fleets over (trucks)</Label>
+              <Input
+                id="rule-trucks"
+                type="number"
+                min={0}
+                value={params.trucks ?? ""}
+                onChange={(e) => setParams({ trucks: Number(e.target.value) })}
+              />
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="rule-message">Message shown when the rule fails</Label>
+            <Input id="rule-message" value={value.message} onChange={(e) => setValue({ ...value, message: e.target.value })} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="rule-position">Order</Label>
+            <Input
+              id="rule-position"
+              type="number"
+              value={value.position}
+              onChange={(e) => setValue({ ...value, position: Number(e.target.value) })}
+            />
+          </div>
+          {!check.success && <p className="text-sm text-destructive">Complete the rule's settings before saving.</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving || !check.success || !value.message.trim()}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminEligibility() {
+  const [editing, setEditing] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    document.title = "Admin • Eligibility Rules";
+  }, []);
+
+  const { data: rules, isLoading, refetch, isFetching } = useQuery({
+    queryKey: ["eligibility_rules", "admin"],
+    queryFn: fetchRules,
+  });
+
+  const { data: attempts, refetch: refetchAttempts } = useQuery({
+    queryKey: ["eligibility_attempts", { days: reportDays }],
+    queryFn: fetchAttempts,
+  });
+
+  // Turned-away attempts per rule over the report window
+  const failures = useMemo(() => {
+    const counts: Record<string, number> = {};
+    (attempts || []).forEach((a) => a.failed_rule_ids.forEach((id) => (counts[id] = (counts[id] || 0) + 1)));
+    return counts;
+  }, [attempts]);
+
+  const toggle = async (rule: RuleRow, enabled: boolean) => {
+    const { error } = await supabase.from("eligibility_rules").update({ enabled }).eq("id", rule.id);
+    if (error) toast.error(error.message);
+    else refetch();
+  };
+
+  const remove = async (rule: RuleRow) => {
+    if (!window.confirm(`Delete the rule "${RULE_KINDS[rule.kind].label}"?`)) return;
+    const { error } = await supabase.from("eligibility_rules").delete().eq("id", rule.id);
+    if (error) toast.error(error.message);
+    else refetch();
+  };
+
+  const newRule = () =>
+    setEditing({
+      kind: "province_in",
+      params: defaultParams.province_in,
+      message: "",
+      position: (rules || []).reduce((max, r) => Math.max(max, r.position + 1), 0),
+    });
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <header className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="gap-2">
+            <Link to="/admin">
+              <ArrowLeft className="h-4 w-4" /> Applications
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-heading">Eligibility Rules</h1>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={newRule} className="gap-2">
+            <Plus className="h-4 w-4" /> Add rule
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              refetch();
+              refetchAttempts();
+            }}
+            aria-label="Refresh"
+            className="gap-2"
+          >
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </Button>
+        </div>
+      </header>
+
+      <p className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+        <ListChecks className="h-4 w-4" />
+        Enabled rules are checked in the wizard and again on submission. {attempts?.length ?? 0} applicants were turned
+        away in the last {reportDays} days.
+      </p>
+
+      <section className="rounded-lg border bg-card">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Enabled</TableHead>
+              <TableHead>Rule</TableHead>
+              <TableHead>Settings</TableHead>
+              <TableHead>Message</TableHead>
+              <TableHead className="text-right">Turned away ({reportDays}d)</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : (rules || []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  No rules – every applicant is eligible
+                </TableCell>
+              </TableRow>
+            ) : (
+              (rules || []).map((r) => (
+                <TableRow key={r.id} className="hover:bg-muted/50">
+                  <TableCell>
+                    <Switch checked={r.enabled} onCheckedChange={(v) => toggle(r, v)} aria-label="Enabled" />
+                  </TableCell>
+                  <TableCell className="font-medium">{RULE_KINDS[r.kind]?.label ?? r.kind}</TableCell>
+                  <TableCell className="max-w-xs truncate">{describeParams(r)}</TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground">{r.message}</TableCell>
+                  <TableCell className="text-right">{failures[r.id] || 0}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Edit rule"
+                        onClick={() => setEditing({ id: r.id, kind: r.kind, params: r.params || {}, message: r.message, position: r.position })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" aria-label="Delete rule" onClick={() => remove(r)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+
+      {isFetching && (
+        <div className="mt-2 text-xs text-muted-foreground">Updating…</div>
+      )}
+
+      <RuleDialog
+        draft={editing}
+        onClose={() => setEditing(null)}
+        onSaved={() => {
+          setEditing(null);
+          refetch();
+        }}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ArrowLeft, Copy, Eye, FileText, Plus, RefreshCcw } from "lucide-react";
+import { TermsDialog } from "@/components/onboarding/TermsDialog";
+import type { TermsVersion } from "@/lib/onboarding/terms";
+
+type ApplicationStatus = Database["public"]["Enums"]["app_status"];
+
+type DueRow = Database["public"]["Functions"]["terms_reacceptance_due"]["Returns"][number];
+
+type Draft = { title: string; body: string; changeSummary: string };
+
+const statusColors: Record<ApplicationStatus, string> = {
+  pending: "bg-muted text-foreground",
+  in_review: "bg-secondary text-secondary-foreground",
+  needs_info: "bg-accent text-accent-foreground",
+  approved: "bg-primary text-primary-foreground",
+  rejected: "bg-destructive text-destructive-foreground",
+};
+
+const fetchVersions = async () => {
+  const { data, error } = await supabase
+    .from("terms_versions")
+    .select("id,version,title,body,change_summary,published_at")
+    .order("version", { ascending: false });
+  if (error) throw error;
+  return (data || []) as TermsVersion[];
+};
+
+const fetchDue = async () => {
+  const { data, error } = await supabase.rpc("terms_reacceptance_due");
+  if (error) throw error;
+  return (data || []) as DueRow[];
+};
+
+function PublishDialog({
+  draft,
+  nextVersion,
+  onClose,
+  onPublished,
+}: {
+  draft: Draft | null;
+  nextVersion: number;
+  onClose: () => void;
+  onPublished: () => void;
+}) {
+  const [value, setValue] = useState<Draft | null>(draft);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => setValue(draft), [draft]);
+
+  if (!value) return null;
+  const ready = !!value.title.trim() && !!value.body.trim();
+
+  const publish = async () => {
+    if (!window.confirm(`Publish version ${nextVersion}? Every hauler will be asked to accept it, and it can't be edited afterwards.`)) return;
+    setSaving(true);
+    const { data: version, error } = await supabase.rpc("publish_terms_version", {
+      _title: value.title,
+      _body: value.body,
+      _change_summary: value.changeSummary,
+    });
+    setSaving(false);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success(`Version ${version} published`);
+    onPublished();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Publish version {nextVersion}</DialogTitle>
+          <DialogDescription>
+            New applicants accept this version from the moment it's published. Haulers who accepted an earlier version
+            are asked to accept it on their status page.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor="terms-title">Title</Label>
+            <Input id="terms-title" value={value.title} onChange={(e) => setValue({ ...value, title: e.target.value })} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="terms-body">Text</Label>
+            <Textarea
+              id="terms-body"
+              rows={12}
+              value={value.body}
+              onChange={(e) => setValue({ ...value, body: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">Separate paragraphs with a blank line.</p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="terms-summary">What changed</Label>
+            <Input
+              id="terms-summary"
+              value={value.changeSummary}
+              onChange={(e) => setValue({ ...value, changeSummary: e.target.value })}
+              placeholder="Shown to haulers asked to accept the new version"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={publish} disabled={saving || !ready}>
+            Publish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminTerms() {
+  const [publishing, setPublishing] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    document.title = "Admin • Terms of Use";
+  }, []);
+
+  const { data: versions, isLoading, refetch, isFetching } = useQuery({
+    queryKey: ["terms_versions", "admin"],
+    queryFn: fetchVersions,
+  });
+
+  const { data: due, isLoading: dueLoading, refetch: refetchDue } = useQuery({
+    queryKey: ["terms_reacceptance_due"],
+    queryFn: fetchDue,
+  });
+
+  const current = versions?.[0];
+
+  // Starts from the current text so small changes stay small
+  const newVersion = () =>
+    setPublishing({ title: current?.title ?? "Terms of Use", body: current?.body ?? "", changeSummary: "" });
+
+  const copyEmails = async () => {
+    const emails = [...new Set((due || []).map((d) => d.email).filter(Boolean))];
+    try {
+      await navigator.clipboard.writeText(emails.join(", "));
+      toast.success(`Copied ${emails.length} email addresses`);
+    } catch {
+      toast.error("Could not copy to the clipboard");
+    }
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-6">
+      <header className="mb-6 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="gap-2">
+            <Link to="/admin">
+              <ArrowLeft className="h-4 w-4" /> Applications
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-heading">Terms of Use</h1>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={newVersion} disabled={isLoading} className="gap-2">
+            <Plus className="h-4 w-4" /> Publish new version
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              refetch();
+              refetchDue();
+            }}
+            aria-label="Refresh"
+            className="gap-2"
+          >
+            <RefreshCcw className="h-4 w-4" /> Refresh
+          </Button>
+        </div>
+      </header>
+
+      <p className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+        <FileText className="h-4 w-4" />
+        {current
+          ? `Applicants accept version ${current.version}, published ${format(parseISO(current.published_at), "d MMM yyyy")}. Published versions can't be changed.`
+          : "No terms have been published yet."}
+      </p>
+
+      <div className="space-y-6">
+        <section className="rounded-lg border bg-card">
+          <h2 className="p-4 pb-0 font-heading font-medium">Versions</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>What changed</TableHead>
+                <TableHead>Published</TableHead>
+                <TableHead className="text-right">Text</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                (versions || []).map((v) => (
+                  <TableRow key={v.id} className="hover:bg-muted/50">
+                    <TableCell className="font-medium">
+                      {v.version}{" "}
+                      {v.id === current?.id && <Badge className="ml-1 bg-primary text-primary-foreground">Current</Badge>}
+                    </TableCell>
+                    <TableCell>{v.title}</TableCell>
+                    <TableCell className="max-w-xs truncate text-muted-foreground">{v.change_summary || "—"}</TableCell>
+                    <TableCell>{format(parseISO(v.published_at), "d MMM yyyy HH:mm")}</TableCell>
+                    <TableCell className="text-right">
+                      <TermsDialog
+                        terms={v}
+                        trigger={
+                          <Button variant="ghost" size="icon" aria-label={`View version ${v.version}`}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        }
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </section>
+
+        <section className="rounded-lg border bg-card">
+          <div className="flex items-center justify-between gap-2 p-4 pb-0">
+            <h2 className="font-heading font-medium">Need to accept the current version ({due?.length ?? 0})</h2>
+            <Button variant="outline" size="sm" onClick={copyEmails} disabled={!due?.length} className="gap-2">
+              <Copy className="h-4 w-4" /> Copy emails
+            </Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Hauler</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Accepted version</TableHead>
+                <TableHead>Accepted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dueLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : (due || []).length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    Every hauler has accepted the current version
+                  </TableCell>
+                </TableRow>
+              ) : (
+                (due || []).map((d) => (
+                  <TableRow key={d.application_id} className="hover:bg-muted/50">
+                    <TableCell className="font-medium">{d.applicant_name || "—"}</TableCell>
+                    <TableCell>{d.email || "—"}</TableCell>
+                    <TableCell>
+                      <Badge className={`${statusColors[d.status]} capitalize`}>{d.status.replace("_", " ")}</Badge>
+                    </TableCell>
+                    <TableCell>{d.accepted_version ?? "None recorded"}</TableCell>
+                    <TableCell>{d.accepted_at ? format(parseISO(d.accepted_at), "d MMM yyyy") : "—"}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </section>
+      </div>
+
+      {isFetching && <div className="mt-2 text-xs text-muted-foreground">Updating…</div>}
+
+      <PublishDialog
+        draft={publishing}
+        nextVersion={(current?.version ?? 0) + 1}
+        onClose={() => setPublishing(null)}
+        onPublished={() => {
+          setPublishing(null);
+          refetch();
+          refetchDue();
+        }}
+      />
+    </main>
+  );
+}
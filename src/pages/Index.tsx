@@ -1,6 +1,15 @@
-import { useEffect, useMemo, useState } from "react";
-import { useForm, FormProvider, SubmitHandler } from "react-hook-form";
-import { z } from "zod";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  useForm,
+  FormProvider,
+  SubmitHandler,
+  type FieldErrors,
+  type SubmitErrorHandler,
+  type Resolver,
+  type FieldPath,
+} from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
   Card,
@@ -11,7 +20,6 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import {
   Form,
   FormControl,
@@ -27,13 +35,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
   DialogDescription,
 } from "@/components/ui/dialog";
 import {
@@ -48,173 +54,137 @@ import {
   ChevronRight,
   FileText,
   Upload,
+  Loader2,
   X,
 } from "lucide-react";
 import confetti from "canvas-confetti";
 import Footer from "@/components/Footer";
-import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-
-// Provinces list for South Africa
-const PROVINCES = [
-  "Eastern Cape",
-  "Free State",
-  "Gauteng",
-  "KwaZulu-Natal",
-  "Limpopo",
-  "Mpumalanga",
-  "North West",
-  "Northern Cape",
-  "Western Cape",
-];
-
-const PHONE_REGEX = /^(?:\+27|0)[1-9][0-9]{8}$/;
-
-const formSchema = z
-  .object({
-    // Eligibility
-    ownsVehicle: z.enum(["yes", "no"], {
-      required_error: "Please select if you own a vehicle",
-    }),
-    hasRequiredDocs: z.enum(["yes", "no"], {
-      required_error: "Please confirm you have required documents",
-    }),
-
-    // Step 1: Basic Info
-    fullName: z.string().min(2, "Enter full name"),
-    idNumber: z.string().min(5, "Enter ID or Passport number"),
-    entityType: z.enum(["individual", "business"], {
-      required_error: "Select an entity type",
-    }),
-    businessName: z.string().optional(),
-    cipcNumber: z.string().optional(),
-    mobile: z.string().regex(PHONE_REGEX, "Enter a valid South African number"),
-    email: z.string().email("Enter a valid email"),
-    address: z.string().min(5, "Enter a physical address"),
-    province: z.string().min(2, "Select a province or region"),
-
-    // Step 2: Vehicle Info
-    numberOfTrucks: z.number().int().min(1, "Must be at least 1"),
-    trucks: z
-      .array(
-        z.object({
-          vehicleType: z.string().min(2, "Select a vehicle type"),
-          loadCapacity: z.number().min(1, "Min 1T").max(15, "Max 15T"),
-          registrationNumber: z.string().min(3, "Enter registration number"),
-        })
-      )
-      .min(1, "At least one truck is required"),
-    vehicleDocuments: z
-      .array(z.any())
-      .min(1, "Please upload at least one document"),
-
-    // Step 3: Banking
-    bankName: z.string().min(2, "Enter bank name"),
-    accountHolder: z.string().min(2, "Enter account holder name"),
-    accountNumber: z.string().regex(/^\d{8,13}$/, "8–13 digits"),
-    accountType: z.enum(["cheque", "savings", "business"], {
-      required_error: "Select account type",
-    }),
-    branchCode: z.string().regex(/^\d{6}$/, "6 digits"),
-    proofOfBank: z.any(),
-
-    // Step 4: Terms
-    acceptTerms: z.enum(["yes"], {
-      required_error: "You must accept the Terms of Use",
-    }),
-    consentStore: z.enum(["yes"], {
-      required_error: "You must consent to data storage",
-    }),
-    consentContact: z.enum(["yes"], {
-      required_error: "You must consent to be contacted",
-    }),
-  })
-  .refine(
-    (data) => {
-      if (data.entityType === "business") {
-        return !!data.businessName && data.businessName.length > 1;
-      }
-      return true;
-    },
-    {
-      message: "Enter business name",
-      path: ["businessName"],
-    }
-  )
-  .refine(
-    (data) => {
-      if (data.entityType === "business") {
-        return !!data.cipcNumber && data.cipcNumber.length > 1;
-      }
-      return true;
-    },
-    {
-      message: "Enter CIPC registration number",
-      path: ["cipcNumber"],
-    }
-  );
-type FormValues = z.infer<typeof formSchema>;
-
-const defaultValues: FormValues = {
-  // eligibility
-  ownsVehicle: undefined as any,
-  hasRequiredDocs: undefined as any,
-  // step 1
-  fullName: "",
-  idNumber: "",
-  entityType: "individual",
-  businessName: "",
-  cipcNumber: "",
-  mobile: "",
-  email: "",
-  address: "",
-  province: "",
-  // step 2
-  numberOfTrucks: 1,
-  trucks: [
-    {
-      vehicleType: "",
-      loadCapacity: 1,
-      registrationNumber: "",
-    },
-  ],
-  vehicleDocuments: [],
-  // step 3
-  bankName: "",
-  accountHolder: "",
-  accountNumber: "",
-  accountType: undefined as any,
-  branchCode: "",
-  proofOfBank: undefined,
-  // step 4
-  acceptTerms: undefined as any,
-  consentStore: undefined as any,
-  consentContact: undefined as any,
-};
-
-const steps = [
-  { key: "eligibility", title: "Eligibility" },
-  { key: "basic", title: "Basic Info" },
-  { key: "vehicle", title: "Vehicle" },
-  { key: "banking", title: "Banking" },
-  { key: "terms", title: "Terms" },
-];
+import {
+  formSchema,
+  defaultValues,
+  emptyTruck,
+  MAX_TRUCKS,
+  todayISO,
+  TRUCK_DOCUMENTS,
+  TRUCK_PHOTOS,
+  VEHICLE_TYPES,
+  type FormValues,
+  type TruckValues,
+} from "@shared/onboarding/schema";
+import { parseSaIdNumber, CITIZENSHIP_LABELS } from "@shared/onboarding/sa-id";
+import { BANKS, OTHER_BANK, findBank } from "@shared/onboarding/banks";
+import { UploadError, type UploadProgress } from "@/lib/onboarding/uploads";
+import {
+  isConnectionError,
+  sendApplication,
+  startSubmission,
+  SubmissionError,
+  type PendingSubmission,
+} from "@/lib/onboarding/submit";
+import { isMobileVerified } from "@/lib/onboarding/phone";
+import { fetchCurrentTerms } from "@/lib/onboarding/terms";
+import {
+  failedFields,
+  trackFunnel,
+  type FunnelEvent,
+} from "@/lib/onboarding/analytics";
+import {
+  correctionSchema,
+  editableErrors,
+  isAttached,
+  loadInfoRequest,
+} from "@/lib/onboarding/corrections";
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  evaluateEligibility,
+  failedRules,
+  type RuleResult,
+} from "@shared/onboarding/eligibility";
+import {
+  fetchEligibilityRules,
+  recordIneligibleAttempt,
+} from "@/lib/onboarding/eligibility";
+import {
+  CORRECTION_ITEMS,
+  editableFields,
+  editableSteps,
+} from "@shared/onboarding/corrections";
+import { UploadProgressList } from "@/components/onboarding/UploadProgressList";
+import {
+  formatFileSize,
+  MAX_FILE_SIZE,
+  MAX_TOTAL_SIZE,
+  prepareFiles,
+  reportRejected,
+} from "@/lib/onboarding/files";
+import {
+  missingDraftFiles,
+  type DraftFileRef,
+  type OnboardingDraft,
+} from "@/lib/onboarding/draft";
+import {
+  stepFieldNames,
+  visibleFields,
+  visibleSteps,
+  WIZARD_STEPS,
+  type StepDefinition,
+} from "@/lib/onboarding/wizard";
+import { useOnboardingDraft } from "@/hooks/use-onboarding-draft";
+import { useOutbox } from "@/hooks/use-outbox";
+import { useI18n } from "@/hooks/use-i18n";
+import { isLanguage, translateErrors } from "@/lib/i18n";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { ResumeDraftDialog } from "@/components/onboarding/ResumeDraftDialog";
+import { DraftFileNotice } from "@/components/onboarding/DraftFileNotice";
+import { DraftResumeLink } from "@/components/onboarding/DraftResumeLink";
+import { DriverRoster } from "@/components/onboarding/DriverRoster";
+import { MobileField } from "@/components/onboarding/MobileField";
+import { FleetImport } from "@/components/onboarding/FleetImport";
+import { TruckPhotos } from "@/components/onboarding/TruckPhotos";
+import { ApplicationReview } from "@/components/onboarding/ApplicationReview";
+import { AnalyticsConsent } from "@/components/onboarding/AnalyticsConsent";
+import { TermsField } from "@/components/onboarding/TermsField";
+import {
+  OfflineNotice,
+  WaitingToSend,
+} from "@/components/onboarding/OutboxStatus";
+import {
+  PostalCodeField,
+  ProvinceField,
+} from "@/components/onboarding/AddressFields";
+import {
+  CrossBorderCountriesField,
+  LanesField,
+  ServiceCitiesField,
+  ServiceProvincesField,
+} from "@/components/onboarding/CoverageFields";
+import {
+  WizardField,
+  type CustomFieldRenderers,
+} from "@/components/onboarding/WizardField";
 
 function Stepper({
+  steps,
   current,
   onStepClick,
 }: {
+  steps: StepDefinition[];
   current: number;
   onStepClick?: (i: number) => void;
 }) {
+  const { t } = useI18n();
   return (
     <div className="mb-8">
       {/* Mobile: Show current step info */}
       <div className="block sm:hidden mb-4 text-center">
         <div className="text-sm text-muted-foreground">
-          Step {current + 1} of {steps.length}
+          {t("Step {current} of {total}", {
+            current: current + 1,
+            total: steps.length,
+          })}
         </div>
-        <div className="text-base font-medium">{steps[current].title}</div>
+        <div className="text-base font-medium">{t(steps[current].title)}</div>
       </div>
 
       {/* Progress bar for mobile */}
@@ -255,7 +225,7 @@ function Stepper({
                 {done ? <Check className="h-4 w-4" /> : i + 1}
               </div>
               <div className="text-sm font-sans font-medium text-muted-foreground">
-                {s.title}
+                {t(s.title)}
               </div>
             </li>
           );
@@ -280,64 +250,20 @@ function Section({
   );
 }
 
-function FileField({
-  name,
-  label,
-  accept,
-}: {
-  name: keyof FormValues;
-  label: string;
-  accept?: string;
-}) {
-  return (
-    <FormField
-      name={name as any}
-      render={({ field, fieldState }) => (
-        <FormItem>
-          <FormLabel>{label}</FormLabel>
-          <FormControl>
-            <Input
-              type="file"
-              accept={accept}
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                field.onChange(file);
-              }}
-            />
-          </FormControl>
-          {field.value && (
-            <div className="mt-2 flex items-center justify-between rounded-md border px-3 py-2 text-sm">
-              <span className="truncate">
-                {field.value?.name} ({Math.round(field.value.size / 1024)} KB)
-              </span>
-              <Button
-                type="button"
-                variant="ghost"
-                size="sm"
-                onClick={() => field.onChange(undefined)}
-              >
-                Clear
-              </Button>
-            </div>
-          )}
-          {fieldState.error && <FormMessage />}
-        </FormItem>
-      )}
-    />
-  );
-}
-
 function TruckFileField({
   name,
   label,
   accept,
   truckIndex,
+  draftFiles,
 }: {
   name: string;
   label: string;
   accept?: string;
   truckIndex: number;
+  draftFiles?: DraftFileRef[];
 }) {
+  const { t, locale } = useI18n();
   return (
     <FormField
       name={`trucks.${truckIndex}.${name}` as any}
@@ -349,24 +275,29 @@ function TruckFileField({
               <Input
                 type="file"
                 accept={accept}
-                onChange={(e) => {
+                onChange={async (e) => {
                   const file = e.target.files?.[0];
-                  field.onChange(file);
+                  if (!file) return field.onChange(undefined);
+                  const { accepted, rejected } = await prepareFiles([file]);
+                  reportRejected(rejected, t);
+                  if (accepted[0]) field.onChange(accepted[0]);
+                  else e.target.value = "";
                 }}
                 className="file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-medium file:bg-primary file:text-primary-foreground hover:file:bg-primary/90"
               />
               {!field.value && (
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <span>Choose file</span>
-                  <span>No file chosen</span>
+                  <span>{t("Choose file")}</span>
+                  <span>{t("No file chosen")}</span>
                 </div>
               )}
             </div>
           </FormControl>
+          <DraftFileNotice files={missingDraftFiles(draftFiles, field.value)} />
           {field.value && (
             <div className="mt-2 flex items-center justify-between rounded-md border px-3 py-2 text-sm bg-muted/50">
               <span className="truncate">
-                {field.value?.name} ({Math.round(field.value.size / 1024)} KB)
+                {field.value?.name} ({formatFileSize(field.value.size, locale)})
               </span>
               <Button
                 type="button"
@@ -386,118 +317,328 @@ function TruckFileField({
   );
 }
 
-function MultiFileUpload() {
+function TruckExpiryField({
+  name,
+  label,
+  truckIndex,
+}: {
+  name: (typeof TRUCK_DOCUMENTS)[number]["expiryKey"];
+  label: string;
+  truckIndex: number;
+}) {
+  const path: FieldPath<FormValues> = `trucks.${truckIndex}.${name}`;
   return (
     <FormField
-      name="vehicleDocuments"
-      render={({ field, fieldState }) => (
+      name={path}
+      render={({ field }) => (
         <FormItem>
-          <FormLabel className="text-base font-sans font-medium">
-            Additional Vehicle Documents
-          </FormLabel>
+          <FormLabel className="text-xs text-muted-foreground">{label}</FormLabel>
           <FormControl>
-            <div className="space-y-4">
-              <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center hover:border-muted-foreground/50 transition-colors bg-muted/20">
-                <Input
-                  type="file"
-                  multiple
-                  accept=".pdf,.jpg,.jpeg,.png"
-                  onChange={(e) => {
-                    const files = Array.from(e.target.files || []);
-                    const currentFiles = field.value || [];
-                    field.onChange([...currentFiles, ...files]);
+            <Input
+              type="date"
+              min={todayISO()}
+              value={field.value ?? ""}
+              onChange={field.onChange}
+              onBlur={field.onBlur}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function MultiFileUpload({ draftFiles }: { draftFiles?: DraftFileRef[] }) {
+  const [dragging, setDragging] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const { t, locale } = useI18n();
+
+  return (
+    <FormField
+      name="vehicleDocuments"
+      render={({ field, fieldState }) => {
+        const current: File[] = field.value || [];
+        const addFiles = async (files: File[]) => {
+          if (files.length === 0) return;
+          setProcessing(true);
+          try {
+            const { accepted, rejected } = await prepareFiles(files, current);
+            reportRejected(rejected, t);
+            if (accepted.length > 0) field.onChange([...current, ...accepted]);
+          } finally {
+            setProcessing(false);
+          }
+        };
+        const totalSize = current.reduce((sum, f) => sum + f.size, 0);
+
+        return (
+          <FormItem>
+            <FormLabel className="text-base font-sans font-medium">
+              {t("Additional Vehicle Documents")}
+            </FormLabel>
+            <FormControl>
+              <div className="space-y-4">
+                <div
+                  onDragEnter={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
                   }}
-                  className="hidden"
-                  id="vehicle-documents"
-                />
-                <label
-                  htmlFor="vehicle-documents"
-                  className="cursor-pointer flex flex-col items-center gap-3"
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "copy";
+                  }}
+                  onDragLeave={(e) => {
+                    // Ignore leaving into a child element
+                    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+                      setDragging(false);
+                    }
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setDragging(false);
+                    addFiles(Array.from(e.dataTransfer.files));
+                  }}
+                  className={[
+                    "border-2 border-dashed rounded-lg p-6 text-center transition-colors",
+                    dragging
+                      ? "border-primary bg-primary/5"
+                      : "border-muted-foreground/25 hover:border-muted-foreground/50 bg-muted/20",
+                  ].join(" ")}
                 >
-                  <Upload className="h-8 w-8 text-muted-foreground" />
-                  <div className="text-sm">
-                    <span className="font-medium text-primary">
-                      Click to upload
-                    </span>
-                    <span className="text-muted-foreground">
-                      {" "}
-                      or drag and drop
-                    </span>
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    PDF, JPG, PNG files (multiple files allowed)
-                  </div>
-                </label>
-              </div>
+                  <Input
+                    type="file"
+                    multiple
+                    accept=".pdf,.jpg,.jpeg,.png"
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files || []);
+                      // Allow picking the same file again after removing it
+                      e.target.value = "";
+                      addFiles(files);
+                    }}
+                    className="hidden"
+                    id="vehicle-documents"
+                  />
+                  <label
+                    htmlFor="vehicle-documents"
+                    className="cursor-pointer flex flex-col items-center gap-3"
+                  >
+                    {processing ? (
+                      <Loader2 className="h-8 w-8 text-muted-foreground animate-spin" />
+                    ) : (
+                      <Upload className="h-8 w-8 text-muted-foreground" />
+                    )}
+                    <div className="text-sm">
+                      <span className="font-medium text-primary">
+                        {t("Click to upload")}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {" "}
+                        {t("or drag and drop")}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {t(
+                        "PDF, JPG, PNG up to {size} each, {total} in total. Photos are resized automatically.",
+                        {
+                          size: formatFileSize(MAX_FILE_SIZE, locale),
+                          total: formatFileSize(MAX_TOTAL_SIZE, locale),
+                        }
+                      )}
+                    </div>
+                  </label>
+                </div>
 
-              {/* Display uploaded files */}
-              {field.value && field.value.length > 0 && (
-                <div className="space-y-3">
-                  <div className="text-sm font-medium">
-                    Uploaded Documents ({field.value.length})
-                  </div>
-                  <div className="space-y-2 max-h-40 overflow-y-auto">
-                    {field.value.map((file: File, index: number) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border"
-                      >
-                        <div className="flex items-center gap-3 min-w-0">
-                          <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                          <div className="min-w-0">
-                            <div className="text-sm font-medium truncate">
-                              {file.name}
-                            </div>
-                            <div className="text-xs text-muted-foreground">
-                              {Math.round(file.size / 1024)} KB
+                <DraftFileNotice
+                  files={missingDraftFiles(draftFiles, field.value)}
+                />
+
+                {/* Display uploaded files */}
+                {current.length > 0 && (
+                  <div className="space-y-3">
+                    <div className="flex justify-between text-sm font-medium">
+                      <span>
+                        {t("Uploaded Documents ({count})", {
+                          count: current.length,
+                        })}
+                      </span>
+                      <span className="text-xs font-normal text-muted-foreground">
+                        {t("{size} of {total}", {
+                          size: formatFileSize(totalSize, locale),
+                          total: formatFileSize(MAX_TOTAL_SIZE, locale),
+                        })}
+                      </span>
+                    </div>
+                    <div className="space-y-2 max-h-40 overflow-y-auto">
+                      {current.map((file: File, index: number) => (
+                        <div
+                          key={index}
+                          className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border"
+                        >
+                          <div className="flex items-center gap-3 min-w-0">
+                            <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                            <div className="min-w-0">
+                              <div className="text-sm font-medium truncate">
+                                {file.name}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatFileSize(file.size, locale)}
+                              </div>
                             </div>
                           </div>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              const newFiles = [...current];
+                              newFiles.splice(index, 1);
+                              field.onChange(newFiles);
+                            }}
+                            className="text-muted-foreground hover:text-destructive flex-shrink-0"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
                         </div>
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => {
-                            const newFiles = [...field.value];
-                            newFiles.splice(index, 1);
-                            field.onChange(newFiles);
-                          }}
-                          className="text-muted-foreground hover:text-destructive flex-shrink-0"
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
+                )}
+              </div>
+            </FormControl>
+            <div className="text-xs text-muted-foreground">
+              {t(
+                "Optional: anything else that supports your application (permits, operator cards, photos, etc.)"
               )}
             </div>
-          </FormControl>
-          <div className="text-xs text-muted-foreground">
-            Upload any additional documents for your vehicles (roadworthy
-            certificates, insurance, photos, etc.)
-          </div>
-          {fieldState.error && <FormMessage />}
-        </FormItem>
-      )}
+            {fieldState.error && <FormMessage />}
+          </FormItem>
+        );
+      }}
     />
   );
 }
 
+const zodFormResolver = zodResolver(formSchema);
+const zodCorrectionResolver = zodResolver(correctionSchema);
+
 const Index = () => {
+  const { t, language, setLanguage, locale, formatDate, formatNumber } =
+    useI18n();
+  // Read through a ref so the resolver, fixed when the form is created,
+  // always reports errors in the current language
+  const tRef = useRef(t);
+  tRef.current = t;
+  // Opened from a reviewer's request for more information
+  const { token: requestToken } = useParams<{ token?: string }>();
+  const correctingRef = useRef(false);
+  correctingRef.current = !!requestToken;
+  // The fields a correction may change, once the request has loaded
+  const editableRef = useRef<Set<keyof FormValues> | null>(null);
+  const resolver = useCallback<Resolver<FormValues>>(async (...args) => {
+    const result = await (correctingRef.current
+      ? zodCorrectionResolver
+      : zodFormResolver)(...args);
+    const errors = editableRef.current
+      ? editableErrors(result.errors, editableRef.current)
+      : result.errors;
+    // Only answers the server keeps were invalid
+    if (
+      Object.keys(errors).length === 0 &&
+      Object.keys(result.errors).length > 0
+    ) {
+      return { values: args[0], errors: {} };
+    }
+    return {
+      ...result,
+      errors: translateErrors(errors, (m) => tRef.current(m)),
+    };
+  }, []);
+  const queryClient = useQueryClient();
   const [step, setStep] = useState(0);
+  // Set when the applicant left the Review step to change an answer
+  const [returnToReview, setReturnToReview] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [submitting, setSubmitting] = useState(false);
-  const [showEligibilityModal, setShowEligibilityModal] = useState(false);
+  // Rules that turned the applicant away, shown in the eligibility modal
+  const [ineligible, setIneligible] = useState<RuleResult[]>([]);
+  const lastRecordedRef = useRef<string>();
   const [currentTruckIndex, setCurrentTruckIndex] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<
+    Record<string, UploadProgress>
+  >({});
+  const pendingSubmissionRef = useRef<PendingSubmission>();
   const methods = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver,
     defaultValues,
     mode: "onChange",
   });
   const { control, handleSubmit, trigger, watch, setValue, getValues } =
     methods;
 
+  const restoreDraft = useCallback(
+    (draft: OnboardingDraft) => {
+      setStep(Math.min(Math.max(draft.step, 0), WIZARD_STEPS.length - 1));
+      setCurrentTruckIndex(draft.currentTruckIndex);
+      // Carry on in the language the draft was started in
+      if (isLanguage(draft.values.language)) setLanguage(draft.values.language);
+    },
+    [setLanguage]
+  );
+  const {
+    pendingDraft,
+    draftFiles,
+    lastSavedAt,
+    serverDraft,
+    resume: resumeDraft,
+    discard: discardDraft,
+    clear: clearDraft,
+  } = useOnboardingDraft(methods, {
+    step,
+    currentTruckIndex,
+    onRestore: restoreDraft,
+    enabled: !requestToken,
+  });
+
+  // Loaded up front so the terms can still be read if the connection drops
+  useEffect(() => {
+    queryClient.prefetchQuery({ queryKey: ["terms", "current"], queryFn: fetchCurrentTerms });
+  }, [queryClient]);
+
+  const infoRequestQuery = useQuery({
+    queryKey: ["info-request", requestToken],
+    queryFn: () => loadInfoRequest(requestToken),
+    enabled: !!requestToken,
+    staleTime: Infinity,
+  });
+  const infoRequest = infoRequestQuery.data;
+  const { reset } = methods;
+  useEffect(() => {
+    if (!infoRequest) return;
+    reset(infoRequest.values);
+    setStep(0);
+    setCurrentTruckIndex(0);
+    if (isLanguage(infoRequest.values.language)) {
+      setLanguage(infoRequest.values.language);
+    }
+  }, [infoRequest, reset, setLanguage]);
+  const editable = useMemo(
+    () => (infoRequest ? editableFields(infoRequest.items) : null),
+    [infoRequest]
+  );
+  editableRef.current = editable;
+
+  // Keep the stored language in step with the switcher and re-word any
+  // errors already on screen. The errors are read through a ref so that
+  // re-validating doesn't itself re-run the effect.
+  const errorsRef = useRef(methods.formState.errors);
+  errorsRef.current = methods.formState.errors;
+  useEffect(() => {
+    setValue("language", language);
+    const invalid = Object.keys(errorsRef.current) as (keyof FormValues)[];
+    if (invalid.length > 0) trigger(invalid);
+  }, [language, setValue, trigger]);
+
   useEffect(() => {
     document.title = "Hauler Onboarding – Premium Red Flow";
     const desc =
@@ -525,7 +666,7 @@ const Index = () => {
       "@type": "HowTo",
       name: "Hauler Onboarding Flow",
       description: desc,
-      step: steps.map((s, i) => ({
+      step: WIZARD_STEPS.map((s, i) => ({
         "@type": "HowToStep",
         position: i + 1,
         name: s.title,
@@ -544,14 +685,29 @@ const Index = () => {
   }, []);
 
   const entityType = watch("entityType");
-  const ownsVehicle = watch("ownsVehicle");
-  const hasDocs = watch("hasRequiredDocs");
+  const identityType = watch("identityType");
+  const selectedBank = findBank(watch("bankName"));
   const numberOfTrucks = watch("numberOfTrucks");
   const trucks = watch("trucks");
+  const values = watch();
+  const steps = infoRequest
+    ? visibleSteps(values).filter(
+        (s) => editableSteps(infoRequest.items).has(s.key) || s.key === "review"
+      )
+    : visibleSteps(values);
+  const currentStep = steps[Math.min(step, steps.length - 1)];
 
   // Helper function to check if a truck is complete
-  const isTruckComplete = (truck: any) => {
-    return truck && truck.vehicleType && truck.registrationNumber;
+  const isTruckComplete = (truck: TruckValues | undefined) => {
+    return (
+      !!truck &&
+      !!truck.vehicleType &&
+      !!truck.registrationNumber &&
+      TRUCK_DOCUMENTS.every(
+        (doc) => isAttached(truck[doc.key]) && !!truck[doc.expiryKey]
+      ) &&
+      TRUCK_PHOTOS.every((shot) => isAttached(truck.photos?.[shot.key]?.file))
+    );
   };
 
   // Calculate completion stats
@@ -567,11 +723,7 @@ const Index = () => {
       if (numberOfTrucks > currentTrucks.length) {
         // Add new trucks
         for (let i = currentTrucks.length; i < numberOfTrucks; i++) {
-          currentTrucks.push({
-            vehicleType: "",
-            loadCapacity: 1,
-            registrationNumber: "",
-          });
+          currentTrucks.push(emptyTruck());
         }
       } else if (numberOfTrucks < currentTrucks.length) {
         // Remove excess trucks
@@ -587,45 +739,35 @@ const Index = () => {
     }
   }, [numberOfTrucks, setValue, currentTruckIndex]);
 
-  const eligibilityStatus = useMemo(() => {
-    if (ownsVehicle !== "yes")
-      return { ok: false, reason: "Reject: Driver only not allowed" };
-    if (hasDocs !== "yes")
-      return {
-        ok: false,
-        reason: "Reject: Missing roadworthy or insurance",
-      };
-    return { ok: true } as const;
-  }, [ownsVehicle, hasDocs]);
+  // The original checks stand in until the configured rules have loaded
+  const { data: eligibilityRules = DEFAULT_ELIGIBILITY_RULES } = useQuery({
+    queryKey: ["eligibility-rules"],
+    queryFn: fetchEligibilityRules,
+    staleTime: 5 * 60 * 1000,
+  });
   const progressPct = Math.round((step / (steps.length - 1)) * 100);
-  const goNext = async () => {
-    const fieldsByStep: (keyof FormValues)[][] = [
-      ["ownsVehicle", "hasRequiredDocs"],
-      [
-        "fullName",
-        "idNumber",
-        "entityType",
-        "businessName",
-        "cipcNumber",
-        "mobile",
-        "email",
-        "address",
-        "province",
-      ],
-      ["numberOfTrucks", "trucks", "vehicleDocuments"],
-      [
-        "bankName",
-        "accountHolder",
-        "accountNumber",
-        "accountType",
-        "branchCode",
-        "proofOfBank",
-      ],
-      ["acceptTerms", "consentStore", "consentContact"],
-    ];
 
+  // Corrections aren't part of the sign-up funnel
+  const track = (event: FunnelEvent) => {
+    if (!requestToken) trackFunnel(event);
+  };
+
+  // Field names only, counted against the step that asks for them
+  const trackInvalid = (
+    errors: FieldErrors<FormValues>,
+    within: StepDefinition[] = steps
+  ) =>
+    failedFields(errors).forEach((field) => {
+      const root = field.split(".")[0];
+      const owner = within.find((s) =>
+        s.fields.some((f) => f.name.split(".")[0] === root)
+      );
+      if (owner) track({ kind: "validation_failed", step: owner.key, field });
+    });
+
+  const goNext = async () => {
     // Special validation for vehicle step to ensure all trucks are complete
-    if (step === 2) {
+    if (currentStep.key === "vehicle") {
       const currentTrucks = getValues("trucks");
       const numTrucks = getValues("numberOfTrucks");
 
@@ -636,8 +778,7 @@ const Index = () => {
       // Check if all trucks have required fields
       const incompleteTrucks = [];
       for (let i = 0; i < numTrucks; i++) {
-        const truck = currentTrucks[i];
-        if (!truck.vehicleType || !truck.registrationNumber) {
+        if (!isTruckComplete(currentTrucks[i])) {
           incompleteTrucks.push(i + 1);
         }
       }
@@ -649,33 +790,87 @@ const Index = () => {
         await trigger(`trucks.${firstIncomplete}` as any, {
           shouldFocus: true,
         });
-        return;
-      }
-
-      // Check if documents are uploaded
-      const documents = getValues("vehicleDocuments");
-      if (!documents || documents.length === 0) {
-        await trigger("vehicleDocuments" as any, { shouldFocus: true });
+        trackInvalid(methods.formState.errors, [currentStep]);
         return;
       }
     }
 
-    const valid = await trigger(fieldsByStep[step] as any, {
+    const valid = await trigger(stepFieldNames(currentStep, getValues()), {
       shouldFocus: true,
     });
-    if (!valid) return;
+    if (!valid) {
+      trackInvalid(methods.formState.errors, [currentStep]);
+      return;
+    }
+
+    // A corrected application keeps the verification of an unchanged number
+    const values = getValues();
+    if (
+      stepFieldNames(currentStep, values).includes("mobile") &&
+      values.mobile !== infoRequest?.values.mobile &&
+      !isMobileVerified(values)
+    ) {
+      methods.setError(
+        "mobile",
+        { message: t("Verify your mobile number") },
+        { shouldFocus: true }
+      );
+      track({
+        kind: "validation_failed",
+        step: currentStep.key,
+        field: "mobile",
+        detail: "unverified",
+      });
+      return;
+    }
 
-    // Show eligibility modal if user doesn't qualify on step 0
-    if (step === 0 && !eligibilityStatus.ok) {
-      setShowEligibilityModal(true);
+    // Each rule is checked once the step holding its answers is complete
+    const results = evaluateEligibility(
+      eligibilityRules,
+      values,
+      steps.slice(0, step + 1).map((s) => s.key)
+    );
+    const failed = failedRules(results);
+    if (failed.length > 0) {
+      setIneligible(failed);
+      const key = failed.map((r) => r.ruleId).join();
+      if (lastRecordedRef.current !== key) {
+        lastRecordedRef.current = key;
+        recordIneligibleAttempt(currentStep.key, results);
+        track({ kind: "eligibility_rejected", step: currentStep.key, detail: key });
+      }
       return;
     }
 
+    track({ kind: "step_completed", step: currentStep.key });
+
+    if (returnToReview) {
+      setReturnToReview(false);
+      setStep(steps.length - 1);
+      return;
+    }
     setStep((s) => Math.min(s + 1, steps.length - 1));
   };
 
   const goBack = () => setStep((s) => Math.max(0, s - 1));
 
+  const editStep = (key: string) => {
+    setReturnToReview(true);
+    setStep(steps.findIndex((s) => s.key === key));
+  };
+
+  // Answers can still fail the full check on Review, e.g. a document that
+  // expired since its step; take the applicant to the first such step
+  const onInvalid: SubmitErrorHandler<FormValues> = (errors) => {
+    trackInvalid(errors);
+    const index = steps.findIndex((s) =>
+      s.fields.some((f) => f.name.split(".")[0] in errors)
+    );
+    if (index < 0) return;
+    toast.error(t("Some answers need attention before you submit"));
+    editStep(steps[index].key);
+  };
+
   const triggerConfetti = () => {
     confetti({
       particleCount: 100,
@@ -684,72 +879,866 @@ const Index = () => {
     });
   };
 
-const onSubmit: SubmitHandler<FormValues> = async (data) => {
-  const sanitize = (name: string) => name.replace(/[^a-zA-Z0-9._-]/g, "_");
-  try {
-    setSubmitting(true);
-    const applicationId = (crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2)}`);
-    const { data: sessionData } = await supabase.auth.getSession();
-    const userId = sessionData.session?.user?.id ?? null;
-
-    const bucket = supabase.storage.from('onboarding-documents');
-
-    // Upload vehicle documents
-    const vehicleUploads: Array<{ name: string; path: string; url: string; size: number; type: string }> = [];
-    if (Array.isArray(data.vehicleDocuments)) {
-      for (let i = 0; i < data.vehicleDocuments.length; i++) {
-        const file = data.vehicleDocuments[i] as File;
-        if (!file) continue;
-        const path = `applications/${applicationId}/vehicle-docs/${i}-${sanitize(file.name)}`;
-        const { error: upErr } = await bucket.upload(path, file, { upsert: true });
-        if (upErr) throw new Error(`Upload failed: ${upErr.message}`);
-        const { data: pub } = bucket.getPublicUrl(path);
-        vehicleUploads.push({ name: file.name, path, url: pub.publicUrl, size: file.size, type: file.type });
+  const reportSubmissionError = (err: unknown) => {
+    track({
+      kind: "submission_failed",
+      step: "review",
+      detail:
+        err instanceof UploadError
+          ? "upload"
+          : err instanceof SubmissionError
+            ? "rejected"
+            : "error",
+    });
+    if (err instanceof UploadError) {
+      toast.error(
+        t(
+          "{message}. Check your connection and submit again – finished uploads won't be repeated.",
+          { message: t(err.message) }
+        )
+      );
+    } else if (err instanceof SubmissionError && err.issues.length > 0) {
+      err.issues.forEach((issue) =>
+        toast.error(`${issue.path}: ${t(issue.message)}`)
+      );
+      // New terms were published meanwhile; take the applicant to read them
+      if (err.issues.some((issue) => issue.path === "acceptTerms")) {
+        queryClient.invalidateQueries({ queryKey: ["terms"] });
+        editStep("terms");
       }
+    } else {
+      toast.error(
+        t((err instanceof Error && err.message) || "Submission failed. Please try again.")
+      );
     }
+  };
 
-    // Upload proof of bank
-    let proofOfBankRef: null | { name: string; path: string; url: string; size: number; type: string } = null;
-    if (data.proofOfBank instanceof File) {
-      const f = data.proofOfBank as File;
-      const path = `applications/${applicationId}/bank-proof/${sanitize(f.name)}`;
-      const { error: upErr } = await bucket.upload(path, f, { upsert: true });
-      if (upErr) throw new Error(`Upload failed: ${upErr.message}`);
-      const { data: pub } = bucket.getPublicUrl(path);
-      proofOfBankRef = { name: f.name, path, url: pub.publicUrl, size: f.size, type: f.type };
+  // The application reached the server, from this page or from the outbox
+  const finishSubmission = async (submission: PendingSubmission) => {
+    if (!submission.request) {
+      trackFunnel({ kind: "submitted", step: "review" });
+      await clearDraft(submission.values.email);
     }
-
-    // Build payload replacing file fields with uploaded refs
-    const payload = {
-      ...data,
-      vehicleDocuments: vehicleUploads,
-      proofOfBank: proofOfBankRef,
-    };
-
-    const { error: insertError } = await supabase.from('onboarding_applications').insert({
-      id: applicationId,
-      applicant_name: data.fullName,
-      email: data.email,
-      phone: data.mobile,
-      user_id: userId,
-      payload,
-      status: 'pending',
-    } as any);
-
-    if (insertError) throw new Error(insertError.message);
-
-    toast.success('Application submitted successfully');
+    setUploadProgress({});
+    toast.success(
+      t(submission.request ? "Your changes were sent" : "Application submitted successfully")
+    );
     setIsSuccess(true);
     triggerConfetti();
     setTimeout(triggerConfetti, 300);
-  } catch (err: any) {
+  };
+
+  const outbox = useOutbox({
+    onSent: finishSubmission,
+    onRejected: (submission, err) => {
+      // Bring the answers back so they can be put right and sent again
+      reset(submission.values);
+      setStep(steps.length - 1);
+      reportSubmissionError(err);
+    },
+  });
+
+  // Each time a step comes into view, while the wizard itself is showing
+  const showingWizard = !isSuccess && outbox.queued.length === 0 && !requestToken;
+  useEffect(() => {
+    if (showingWizard) trackFunnel({ kind: "step_entered", step: currentStep.key });
+  }, [currentStep.key, showingWizard]);
+
+  const queueSubmission = async (submission: PendingSubmission) => {
+    await outbox.queue(submission);
+    pendingSubmissionRef.current = undefined;
+    if (!submission.request) await clearDraft(submission.values.email);
+    setUploadProgress({});
+    toast.info(t("You're offline. We'll send your application when you're back online."));
+  };
+
+const onSubmit: SubmitHandler<FormValues> = async (data) => {
+  // Reused across attempts so retries resume into the same folder
+  const submission =
+    pendingSubmissionRef.current ??
+    startSubmission(
+      data,
+      infoRequest && {
+        token: infoRequest.token,
+        requestId: infoRequest.requestId,
+        applicationId: infoRequest.applicationId,
+      }
+    );
+  submission.values = { ...data, language };
+  pendingSubmissionRef.current = submission;
+  try {
+    setSubmitting(true);
+    if (!navigator.onLine) {
+      await queueSubmission(submission);
+      return;
+    }
+    setUploadProgress({});
+    await sendApplication(submission, (path, progress) =>
+      setUploadProgress((prev) => ({ ...prev, [path]: progress }))
+    );
+    pendingSubmissionRef.current = undefined;
+    await finishSubmission(submission);
+  } catch (err) {
     console.error(err);
-    toast.error(err.message || 'Submission failed. Please try again.');
+    if (isConnectionError(err)) await queueSubmission(submission);
+    else reportSubmissionError(err);
   } finally {
     setSubmitting(false);
   }
 };
 
+  // Fields too specialised for the generic renderer
+  const customFields: CustomFieldRenderers = {
+    idNumber: () => (
+      <FormField
+        name="idNumber"
+        control={control}
+        render={({ field }) => {
+          const saId =
+            identityType === "sa_id" &&
+            /^\d{13}$/.test(field.value || "")
+              ? parseSaIdNumber(field.value)
+              : null;
+          return (
+            <FormItem>
+              <FormLabel>
+                {identityType === "passport"
+                  ? t("Passport Number")
+                  : t("ID Number")}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  autoComplete="off"
+                  inputMode={
+                    identityType === "passport"
+                      ? "text"
+                      : "numeric"
+                  }
+                  maxLength={
+                    identityType === "passport" ? 12 : 13
+                  }
+                  {...field}
+                />
+              </FormControl>
+              {saId && !("error" in saId) && (
+                <div className="text-xs text-muted-foreground">
+                  {t("Born {date}", {
+                    date: formatDate(saId.dateOfBirth),
+                  })}{" "}
+                  · {t(saId.gender === "female" ? "Female" : "Male")} ·{" "}
+                  {t(CITIZENSHIP_LABELS[saId.citizenship])}
+                </div>
+              )}
+              <FormMessage />
+            </FormItem>
+          );
+        }}
+      />
+    ),
+    mobile: () => <MobileField />,
+    postalCode: () => <PostalCodeField />,
+    province: () => <ProvinceField />,
+    terms: () => <TermsField />,
+    serviceProvinces: () => <ServiceProvincesField />,
+    serviceCities: () => <ServiceCitiesField />,
+    lanes: () => <LanesField />,
+    crossBorderCountries: () => <CrossBorderCountriesField />,
+    truckCount: () => (
+      <div className="space-y-4">
+        <FormField
+          name="numberOfTrucks"
+          control={control}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-base font-medium">
+                {t("Number of Trucks")}
+              </FormLabel>
+              <div className="flex items-center justify-center gap-4 p-4 bg-muted/30 rounded-lg">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="lg"
+                  onClick={() =>
+                    field.onChange(
+                      Math.max(1, (field.value || 1) - 1)
+                    )
+                  }
+                  disabled={(field.value || 1) <= 1}
+                  className="h-12 w-12 rounded-full"
+                >
+                  <Minus className="h-5 w-5" />
+                </Button>
+                <div className="flex flex-col items-center gap-1">
+                  <span className="text-2xl font-bold min-w-[4ch] text-center">
+                    {formatNumber(field.value || 1)}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {(field.value || 1) === 1
+                      ? t("truck")
+                      : t("trucks")}
+                  </span>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="lg"
+                  onClick={() =>
+                    field.onChange(
+                      Math.min(MAX_TRUCKS, (field.value || 1) + 1)
+                    )
+                  }
+                  disabled={(field.value || 1) >= MAX_TRUCKS}
+                  className="h-12 w-12 rounded-full"
+                >
+                  <Plus className="h-5 w-5" />
+                </Button>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FleetImport onImported={() => setCurrentTruckIndex(0)} />
+      </div>
+    ),
+    trucks: () =>
+      numberOfTrucks > 0 &&
+      trucks && (
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-heading font-medium flex items-center gap-2">
+              <span className="bg-primary text-primary-foreground rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">
+                2
+              </span>
+              {t("Truck Details")}
+            </h3>
+            {numberOfTrucks > 1 && (
+              <div className="text-sm text-muted-foreground">
+                {t("{done} of {total} completed", {
+                  done: completedTrucks,
+                  total: numberOfTrucks,
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Truck Tabs for Multiple Trucks - Mobile Optimized */}
+          {numberOfTrucks > 1 && (
+            <div className="space-y-3">
+              {/* Mobile: Dropdown selector */}
+              <div className="block sm:hidden">
+                <Select
+                  value={currentTruckIndex.toString()}
+                  onValueChange={(value) =>
+                    setCurrentTruckIndex(parseInt(value))
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue>
+                      <div className="flex items-center gap-2">
+                        <Truck className="h-4 w-4" />
+                        <span>
+                          {t("Truck {number}", {
+                            number: currentTruckIndex + 1,
+                          })}
+                        </span>
+                        {isTruckComplete(
+                          trucks[currentTruckIndex]
+                        ) && (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        )}
+                      </div>
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(
+                      { length: numberOfTrucks },
+                      (_, i) => {
+                        const truck = trucks[i];
+                        const isComplete =
+                          isTruckComplete(truck);
+                        return (
+                          <SelectItem
+                            key={i}
+                            value={i.toString()}
+                          >
+                            <div className="flex items-center gap-2">
+                              <Truck className="h-4 w-4" />
+                              <span>
+                                {t("Truck {number}", { number: i + 1 })}
+                              </span>
+                              {isComplete && (
+                                <CheckCircle className="h-4 w-4 text-green-600" />
+                              )}
+                            </div>
+                          </SelectItem>
+                        );
+                      }
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Desktop: Horizontal tabs */}
+              <div className="hidden sm:flex gap-2 overflow-x-auto pb-2">
+                {Array.from(
+                  { length: numberOfTrucks },
+                  (_, i) => {
+                    const truck = trucks[i];
+                    const isComplete =
+                      isTruckComplete(truck);
+                    const isCurrent =
+                      i === currentTruckIndex;
+
+                    return (
+                      <div
+                        key={i}
+                        className={[
+                          "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all whitespace-nowrap border group",
+                          isCurrent
+                            ? "bg-primary text-primary-foreground border-primary shadow-sm"
+                            : isComplete
+                            ? "bg-green-50 text-green-700 border-green-200 hover:bg-green-100"
+                            : "bg-background text-muted-foreground border-border hover:bg-muted hover:text-foreground",
+                        ].join(" ")}
+                      >
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setCurrentTruckIndex(i)
+                          }
+                          className="flex items-center gap-2 flex-1"
+                        >
+                          <Truck className="h-4 w-4" />
+                          <span>
+                            {t("Truck {number}", { number: i + 1 })}
+                          </span>
+                          {isComplete && (
+                            <CheckCircle className="h-4 w-4" />
+                          )}
+                        </button>
+                        {numberOfTrucks > 1 && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              const currentTrucks = [
+                                ...trucks,
+                              ];
+                              currentTrucks.splice(i, 1);
+                              setValue(
+                                "trucks",
+                                currentTrucks
+                              );
+                              setValue(
+                                "numberOfTrucks",
+                                numberOfTrucks - 1
+                              );
+
+                              // Adjust current truck index if needed
+                              if (currentTruckIndex >= i) {
+                                setCurrentTruckIndex(
+                                  Math.max(
+                                    0,
+                                    currentTruckIndex - 1
+                                  )
+                                );
+                              }
+                            }}
+                            className={[
+                              "opacity-0 group-hover:opacity-100 transition-opacity p-1 rounded hover:bg-destructive/10",
+                              isCurrent
+                                ? "text-primary-foreground hover:bg-white/20"
+                                : "text-muted-foreground hover:text-destructive",
+                            ].join(" ")}
+                            title={t("Remove Truck {number}", {
+                              number: i + 1,
+                            })}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        )}
+                      </div>
+                    );
+                  }
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Current Truck Form */}
+          <div className="border rounded-lg p-4 sm:p-6 space-y-6 bg-background">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <h4 className="text-lg font-heading font-medium flex items-center gap-2">
+                <Truck className="h-5 w-5 text-primary" />
+                {t("Truck {number}", { number: currentTruckIndex + 1 })}
+              </h4>
+
+              {/* Mobile: Stack navigation buttons vertically */}
+              <div className="flex flex-col sm:flex-row gap-2">
+                {numberOfTrucks > 1 && (
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setCurrentTruckIndex(
+                          Math.max(0, currentTruckIndex - 1)
+                        )
+                      }
+                      disabled={currentTruckIndex === 0}
+                      className="flex-1 sm:flex-none"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                      <span className="hidden sm:inline">
+                        {t("Previous")}
+                      </span>
+                      <span className="sm:hidden">
+                        {t("Prev")}
+                      </span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setCurrentTruckIndex(
+                          Math.min(
+                            numberOfTrucks - 1,
+                            currentTruckIndex + 1
+                          )
+                        )
+                      }
+                      disabled={
+                        currentTruckIndex ===
+                        numberOfTrucks - 1
+                      }
+                      className="flex-1 sm:flex-none"
+                    >
+                      <span className="hidden sm:inline">
+                        {t("Next")}
+                      </span>
+                      <span className="sm:hidden">
+                        {t("Next")}
+                      </span>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+                {numberOfTrucks > 1 && (
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => {
+                      const currentTrucks = [...trucks];
+                      currentTrucks.splice(
+                        currentTruckIndex,
+                        1
+                      );
+                      setValue("trucks", currentTrucks);
+                      setValue(
+                        "numberOfTrucks",
+                        numberOfTrucks - 1
+                      );
+
+                      // Adjust current truck index if needed
+                      if (
+                        currentTruckIndex >=
+                        currentTrucks.length
+                      ) {
+                        setCurrentTruckIndex(
+                          Math.max(
+                            0,
+                            currentTrucks.length - 1
+                          )
+                        );
+                      }
+                    }}
+                    className="w-full sm:w-auto"
+                  >
+                    <X className="h-4 w-4" />
+                    {t("Remove Truck")}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {/* Basic Truck Info - Mobile Optimized */}
+            <div className="space-y-4">
+              <FormField
+                name={`trucks.${currentTruckIndex}.vehicleType`}
+                control={control}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("Vehicle Type")}</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={field.onChange}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="h-12">
+                          <SelectValue placeholder={t("Select vehicle type")} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VEHICLE_TYPES.map((type) => (
+                          <SelectItem
+                            key={type}
+                            value={type}
+                          >
+                            {t(type)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  name={`trucks.${currentTruckIndex}.loadCapacity`}
+                  control={control}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("Load Capacity")}</FormLabel>
+                      <div className="relative">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            max={15}
+                            step="0.1"
+                            placeholder="e.g. 3.5"
+                            value={field.value ?? ""}
+                            onChange={(e) =>
+                              field.onChange(
+                                Number(e.target.value)
+                              )
+                            }
+                            className="h-12 pr-16"
+                          />
+                        </FormControl>
+                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                          {t("tons")}
+                        </span>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  name={`trucks.${currentTruckIndex}.registrationNumber`}
+                  control={control}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t("Registration Number")}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g. ABC123GP"
+                          autoComplete="off"
+                          className="h-12"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  name={`trucks.${currentTruckIndex}.vin`}
+                  control={control}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("VIN (optional)")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          autoComplete="off"
+                          maxLength={17}
+                          className="h-12 uppercase"
+                          {...field}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  name={`trucks.${currentTruckIndex}.year`}
+                  control={control}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("Year (optional)")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          placeholder="e.g. 2019"
+                          className="h-12"
+                          value={field.value ?? ""}
+                          onChange={(e) =>
+                            field.onChange(
+                              e.target.value === ""
+                                ? undefined
+                                : Number(e.target.value)
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Document Upload Section */}
+            <div className="space-y-4">
+              <div className="text-sm font-medium">
+                {t("Compliance Documents")}
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                {TRUCK_DOCUMENTS.map((doc) => (
+                  <div
+                    key={`${currentTruckIndex}-${doc.key}`}
+                    className="space-y-2"
+                  >
+                    <TruckFileField
+                      name={doc.key}
+                      label={t(doc.label)}
+                      accept=".pdf,.jpg,.jpeg,.png"
+                      truckIndex={currentTruckIndex}
+                      draftFiles={
+                        draftFiles[
+                          `trucks.${currentTruckIndex}.${doc.key}`
+                        ]
+                      }
+                    />
+                    <TruckExpiryField
+                      name={doc.expiryKey}
+                      label={t("Expiry date")}
+                      truckIndex={currentTruckIndex}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <TruckPhotos
+              truckIndex={currentTruckIndex}
+              draftFiles={draftFiles}
+            />
+
+            {/* Completion Status */}
+            {(() => {
+              const currentTruck =
+                trucks[currentTruckIndex];
+              const isComplete =
+                isTruckComplete(currentTruck);
+
+              return (
+                <div
+                  className={[
+                    "flex items-center gap-2 p-3 rounded-lg text-sm border",
+                    isComplete
+                      ? "bg-green-50 text-green-700 border-green-200"
+                      : "bg-amber-50 text-amber-700 border-amber-200",
+                  ].join(" ")}
+                >
+                  {isComplete ? (
+                    <>
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      <span className="font-medium">
+                        {t("This truck is complete and ready!")}
+                      </span>
+                    </>
+                  ) : (
+                    <>
+                      <AlertCircle className="h-4 w-4 text-amber-600" />
+                      <span>
+                        {t(
+                          "Please complete all required fields for this truck"
+                        )}
+                      </span>
+                    </>
+                  )}
+                </div>
+              );
+            })()}
+          </div>
+
+          {/* Overall Progress for Multiple Trucks - Mobile Optimized */}
+          {numberOfTrucks > 1 && (
+            <div
+              className={[
+                "rounded-lg p-4 border",
+                completedTrucks === numberOfTrucks
+                  ? "bg-green-50 border-green-200"
+                  : "bg-muted/30 border-border",
+              ].join(" ")}
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+                <span className="text-sm font-medium flex items-center gap-2">
+                  {t("Overall Progress")}
+                  {completedTrucks === numberOfTrucks && (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  )}
+                </span>
+                <span
+                  className={[
+                    "text-sm",
+                    completedTrucks === numberOfTrucks
+                      ? "text-green-700 font-medium"
+                      : "text-muted-foreground",
+                  ].join(" ")}
+                >
+                  {t("{done} of {total} completed", {
+                    done: completedTrucks,
+                    total: numberOfTrucks,
+                  })}
+                </span>
+              </div>
+              <div className="w-full bg-muted rounded-full h-3">
+                <div
+                  className={[
+                    "h-3 rounded-full transition-all duration-300",
+                    completedTrucks === numberOfTrucks
+                      ? "bg-green-500"
+                      : "bg-primary",
+                  ].join(" ")}
+                  style={{
+                    width: `${completionPercentage}%`,
+                  }}
+                />
+              </div>
+              {completedTrucks === numberOfTrucks && (
+                <div className="mt-3 text-sm text-green-700 font-medium text-center sm:text-left">
+                  {t("🎉 All trucks completed! You're ready to continue.")}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ),
+    vehicleDocuments: () => (
+      <div className="space-y-4">
+        <h3 className="text-lg font-heading font-medium flex items-center gap-2">
+          <span className="bg-primary text-primary-foreground rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">
+            3
+          </span>
+          {t("Additional Documents")}
+        </h3>
+        <MultiFileUpload
+          draftFiles={draftFiles.vehicleDocuments}
+        />
+      </div>
+    ),
+    drivers: () => <DriverRoster draftFiles={draftFiles} />,
+    bankName: () => (
+      <FormField
+        name="bankName"
+        control={control}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{t("Bank")}</FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(value) => {
+                field.onChange(value);
+                const bank = findBank(value);
+                setValue(
+                  "branchCode",
+                  bank ? bank.universalBranchCode : "",
+                  { shouldValidate: !!bank }
+                );
+                if (getValues("accountNumber")) {
+                  trigger("accountNumber");
+                }
+              }}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("Select your bank")} />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {BANKS.map((b) => (
+                  <SelectItem key={b.name} value={b.name}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={OTHER_BANK}>
+                  {t("Other bank")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    ),
+    branchCode: () => (
+      <FormField
+        name="branchCode"
+        control={control}
+        render={({ field, fieldState }) => (
+          <FormItem>
+            <FormLabel>{t("Branch Code")}</FormLabel>
+            <FormControl>
+              <Input
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder="250655"
+                readOnly={!!selectedBank}
+                className={
+                  fieldState.invalid
+                    ? "border-destructive focus-visible:ring-destructive"
+                    : undefined
+                }
+                {...field}
+              />
+            </FormControl>
+            {selectedBank && (
+              <div className="text-xs text-muted-foreground">
+                {t("Universal branch code for {bank}", {
+                  bank: selectedBank.name,
+                })}
+              </div>
+            )}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    ),
+  };
+
+  const stepFields = visibleFields(currentStep, values).map((f) => {
+    const field = (
+      <WizardField
+        key={f.name}
+        field={f}
+        custom={customFields}
+        draftFiles={draftFiles}
+      />
+    );
+    // Answers the reviewer didn't ask about stay as submitted
+    return editable && !editable.has(f.name as keyof FormValues) ? (
+      <fieldset key={f.name} disabled className="contents">
+        {field}
+      </fieldset>
+    ) : (
+      field
+    );
+  });
+
   return (
     <main className="min-h-screen relative flex flex-col">
       {/* Signature ambient gradient */}
@@ -769,12 +1758,37 @@ const onSubmit: SubmitHandler<FormValues> = async (data) => {
               />
             </div>
             <CardHeader className="space-y-2">
-              <CardTitle className="text-2xl font-heading font-semibold">
-                Hauler Onboarding
-              </CardTitle>
-              <CardDescription>Quick setup to get you started</CardDescription>
-              {!isSuccess && (
-                <Stepper current={step} onStepClick={(i) => setStep(i)} />
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-2xl font-heading font-semibold">
+                  {t("Hauler Onboarding")}
+                </CardTitle>
+                <LanguageSwitcher className="w-36 h-9" />
+              </div>
+              <CardDescription>
+                {t("Quick setup to get you started")}
+                {lastSavedAt && !isSuccess && (
+                  <span className="block text-xs">
+                    {t("Draft saved {time}", {
+                      time: formatDate(new Date(lastSavedAt), {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      }),
+                    })}
+                  </span>
+                )}
+                {serverDraft && !isSuccess && (
+                  <DraftResumeLink
+                    email={serverDraft.email}
+                    savedElsewhere={serverDraft.savedElsewhere}
+                  />
+                )}
+              </CardDescription>
+              {!isSuccess && outbox.queued.length === 0 && (!requestToken || infoRequest) && (
+                <Stepper
+                  steps={steps}
+                  current={step}
+                  onStepClick={(i) => setStep(i)}
+                />
               )}
             </CardHeader>
             <CardContent>
@@ -785,1011 +1799,98 @@ const onSubmit: SubmitHandler<FormValues> = async (data) => {
                   </div>
                   <div className="space-y-2">
                     <h3 className="text-2xl font-heading font-semibold">
-                      Application Submitted!
+                      {t(infoRequest ? "Changes Sent!" : "Application Submitted!")}
                     </h3>
                     <p className="text-muted-foreground">
-                      We'll review your application and get back to you soon.
+                      {t(
+                        infoRequest
+                          ? "We'll review your updated application and get back to you soon."
+                          : "We'll review your application and get back to you soon."
+                      )}
                     </p>
                   </div>
                   <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
                     <Sparkles className="w-4 h-4" />
-                    <span>Thank you for joining our network</span>
+                    <span>{t("Thank you for joining our network")}</span>
                   </div>
+                  <Button variant="outline" asChild>
+                    <Link to="/status">{t("Track your application")}</Link>
+                  </Button>
+                </div>
+              ) : outbox.queued.length > 0 ? (
+                <WaitingToSend
+                  queued={outbox.queued}
+                  online={outbox.online}
+                  sending={outbox.sending}
+                  onSendNow={outbox.flush}
+                />
+              ) : requestToken && !infoRequest ? (
+                <div className="text-center py-12 space-y-4">
+                  {infoRequestQuery.isLoading ? (
+                    <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+                  ) : (
+                    <>
+                      <AlertCircle className="mx-auto h-8 w-8 text-destructive" />
+                      <p className="text-muted-foreground">
+                        {t("This link has expired or your changes were already sent.")}
+                      </p>
+                      <Button variant="outline" asChild>
+                        <Link to="/status">{t("Track your application")}</Link>
+                      </Button>
+                    </>
+                  )}
                 </div>
               ) : (
                 <FormProvider {...methods}>
                   <Form {...methods}>
                     <form
-                      onSubmit={handleSubmit(onSubmit)}
+                      onSubmit={handleSubmit(onSubmit, onInvalid)}
                       className="space-y-8"
                     >
-                      {step === 0 && (
-                        <Section title="Eligibility Check">
-                          <FormField
-                            name="ownsVehicle"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem className="col-span-2">
-                                <FormLabel>Own a vehicle?</FormLabel>
-                                <FormControl>
-                                  <RadioGroup
-                                    value={field.value}
-                                    onValueChange={field.onChange}
-                                    className="flex gap-6 mt-2"
-                                  >
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem
-                                        value="yes"
-                                        id="owns-yes"
-                                      />
-                                      <Label htmlFor="owns-yes">Yes</Label>
-                                    </div>
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem value="no" id="owns-no" />
-                                      <Label htmlFor="owns-no">No</Label>
-                                    </div>
-                                  </RadioGroup>
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="hasRequiredDocs"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem className="col-span-2">
-                                <FormLabel>
-                                  Have roadworthy & insurance?
-                                </FormLabel>
-                                <FormControl>
-                                  <RadioGroup
-                                    value={field.value}
-                                    onValueChange={field.onChange}
-                                    className="flex gap-6 mt-2"
-                                  >
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem
-                                        value="yes"
-                                        id="docs-yes"
-                                      />
-                                      <Label htmlFor="docs-yes">Yes</Label>
-                                    </div>
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem value="no" id="docs-no" />
-                                      <Label htmlFor="docs-no">No</Label>
-                                    </div>
-                                  </RadioGroup>
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </Section>
-                      )}
-
-                      {step === 1 && (
-                        <Section title="Basic Info">
-                          <FormField
-                            name="fullName"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Name</FormLabel>
-                                <FormControl>
-                                  <Input autoComplete="name" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="idNumber"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>ID/Passport</FormLabel>
-                                <FormControl>
-                                  <Input autoComplete="off" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="entityType"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Type</FormLabel>
-                                <Select
-                                  value={field.value}
-                                  onValueChange={field.onChange}
-                                >
-                                  <FormControl>
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Select" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="individual">
-                                      Individual
-                                    </SelectItem>
-                                    <SelectItem value="business">
-                                      Business
-                                    </SelectItem>
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          {entityType === "business" && (
-                            <>
-                              <FormField
-                                name="businessName"
-                                control={control}
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>Business Name</FormLabel>
-                                    <FormControl>
-                                      <Input {...field} />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                              <FormField
-                                name="cipcNumber"
-                                control={control}
-                                render={({ field }) => (
-                                  <FormItem>
-                                    <FormLabel>CIPC Number</FormLabel>
-                                    <FormControl>
-                                      <Input {...field} />
-                                    </FormControl>
-                                    <FormMessage />
-                                  </FormItem>
-                                )}
-                              />
-                            </>
+                      {!outbox.online && <OfflineNotice />}
+                      {!requestToken && <AnalyticsConsent />}
+                      {infoRequest && (
+                        <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 text-sm space-y-2">
+                          <p className="font-medium">
+                            {t("Our reviewers asked you to update:")}
+                          </p>
+                          <ul className="list-disc pl-5">
+                            {CORRECTION_ITEMS.filter((item) =>
+                              infoRequest.items.includes(item.key)
+                            ).map((item) => (
+                              <li key={item.key}>{t(item.label)}</li>
+                            ))}
+                          </ul>
+                          {infoRequest.message && (
+                            <p className="text-muted-foreground whitespace-pre-line">
+                              {infoRequest.message}
+                            </p>
                           )}
-                          <FormField
-                            name="mobile"
-                            control={control}
-                            render={({ field, fieldState }) => (
-                              <FormItem>
-                                <FormLabel>Mobile</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    placeholder="0821234567"
-                                    autoComplete="tel"
-                                    className={
-                                      fieldState.invalid
-                                        ? "border-destructive focus-visible:ring-destructive"
-                                        : undefined
-                                    }
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="email"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Email</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    type="email"
-                                    autoComplete="email"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="address"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem className="sm:col-span-2">
-                                <FormLabel>Address</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    autoComplete="street-address"
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="province"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Province</FormLabel>
-                                <Select
-                                  value={field.value}
-                                  onValueChange={field.onChange}
-                                >
-                                  <FormControl>
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Select" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    {PROVINCES.map((p) => (
-                                      <SelectItem key={p} value={p}>
-                                        {p}
-                                      </SelectItem>
-                                    ))}
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </Section>
+                        </div>
                       )}
-
-                      {step === 2 && (
+                      {currentStep.key === "review" ? (
                         <div className="space-y-8">
                           <h2 className="text-xl font-heading font-semibold">
-                            Vehicle Info
+                            {t(currentStep.heading)}
                           </h2>
-
-                          {/* Number of Trucks - Mobile Optimized */}
-                          <div className="space-y-4">
-                            <FormField
-                              name="numberOfTrucks"
-                              control={control}
-                              render={({ field }) => (
-                                <FormItem>
-                                  <FormLabel className="text-base font-medium">
-                                    Number of Trucks
-                                  </FormLabel>
-                                  <div className="flex items-center justify-center gap-4 p-4 bg-muted/30 rounded-lg">
-                                    <Button
-                                      type="button"
-                                      variant="outline"
-                                      size="lg"
-                                      onClick={() =>
-                                        field.onChange(
-                                          Math.max(1, (field.value || 1) - 1)
-                                        )
-                                      }
-                                      disabled={(field.value || 1) <= 1}
-                                      className="h-12 w-12 rounded-full"
-                                    >
-                                      <Minus className="h-5 w-5" />
-                                    </Button>
-                                    <div className="flex flex-col items-center gap-1">
-                                      <span className="text-2xl font-bold min-w-[4ch] text-center">
-                                        {field.value || 1}
-                                      </span>
-                                      <span className="text-xs text-muted-foreground">
-                                        {(field.value || 1) === 1
-                                          ? "truck"
-                                          : "trucks"}
-                                      </span>
-                                    </div>
-                                    <Button
-                                      type="button"
-                                      variant="outline"
-                                      size="lg"
-                                      onClick={() =>
-                                        field.onChange(
-                                          Math.min(10, (field.value || 1) + 1)
-                                        )
-                                      }
-                                      disabled={(field.value || 1) >= 10}
-                                      className="h-12 w-12 rounded-full"
-                                    >
-                                      <Plus className="h-5 w-5" />
-                                    </Button>
-                                  </div>
-                                  <div className="text-xs text-muted-foreground text-center">
-                                    Maximum 10 trucks allowed
-                                  </div>
-                                  <FormMessage />
-                                </FormItem>
-                              )}
-                            />
-                          </div>
-
-                          {/* Truck Details Section */}
-                          {numberOfTrucks > 0 && trucks && (
-                            <div className="space-y-6">
-                              <div className="flex items-center justify-between">
-                                <h3 className="text-lg font-heading font-medium flex items-center gap-2">
-                                  <span className="bg-primary text-primary-foreground rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">
-                                    2
-                                  </span>
-                                  Truck Details
-                                </h3>
-                                {numberOfTrucks > 1 && (
-                                  <div className="text-sm text-muted-foreground">
-                                    {completedTrucks} of {numberOfTrucks}{" "}
-                                    completed
-                                  </div>
-                                )}
-                              </div>
-
-                              {/* Truck Tabs for Multiple Trucks - Mobile Optimized */}
-                              {numberOfTrucks > 1 && (
-                                <div className="space-y-3">
-                                  {/* Mobile: Dropdown selector */}
-                                  <div className="block sm:hidden">
-                                    <Select
-                                      value={currentTruckIndex.toString()}
-                                      onValueChange={(value) =>
-                                        setCurrentTruckIndex(parseInt(value))
-                                      }
-                                    >
-                                      <SelectTrigger className="w-full">
-                                        <SelectValue>
-                                          <div className="flex items-center gap-2">
-                                            <Truck className="h-4 w-4" />
-                                            <span>
-                                              Truck {currentTruckIndex + 1}
-                                            </span>
-                                            {isTruckComplete(
-                                              trucks[currentTruckIndex]
-                                            ) && (
-                                              <CheckCircle className="h-4 w-4 text-green-600" />
-                                            )}
-                                          </div>
-                                        </SelectValue>
-                                      </SelectTrigger>
-                                      <SelectContent>
-                                        {Array.from(
-                                          { length: numberOfTrucks },
-                                          (_, i) => {
-                                            const truck = trucks[i];
-                                            const isComplete =
-                                              isTruckComplete(truck);
-                                            return (
-                                              <SelectItem
-                                                key={i}
-                                                value={i.toString()}
-                                              >
-                                                <div className="flex items-center gap-2">
-                                                  <Truck className="h-4 w-4" />
-                                                  <span>Truck {i + 1}</span>
-                                                  {isComplete && (
-                                                    <CheckCircle className="h-4 w-4 text-green-600" />
-                                                  )}
-                                                </div>
-                                              </SelectItem>
-                                            );
-                                          }
-                                        )}
-                                      </SelectContent>
-                                    </Select>
-                                  </div>
-
-                                  {/* Desktop: Horizontal tabs */}
-                                  <div className="hidden sm:flex gap-2 overflow-x-auto pb-2">
-                                    {Array.from(
-                                      { length: numberOfTrucks },
-                                      (_, i) => {
-                                        const truck = trucks[i];
-                                        const isComplete =
-                                          isTruckComplete(truck);
-                                        const isCurrent =
-                                          i === currentTruckIndex;
-
-                                        return (
-                                          <div
-                                            key={i}
-                                            className={[
-                                              "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all whitespace-nowrap border group",
-                                              isCurrent
-                                                ? "bg-primary text-primary-foreground border-primary shadow-sm"
-                                                : isComplete
-                                                ? "bg-green-50 text-green-700 border-green-200 hover:bg-green-100"
-                                                : "bg-background text-muted-foreground border-border hover:bg-muted hover:text-foreground",
-                                            ].join(" ")}
-                                          >
-                                            <button
-                                              type="button"
-                                              onClick={() =>
-                                                setCurrentTruckIndex(i)
-                                              }
-                                              className="flex items-center gap-2 flex-1"
-                                            >
-                                              <Truck className="h-4 w-4" />
-                                              <span>Truck {i + 1}</span>
-                                              {isComplete && (
-                                                <CheckCircle className="h-4 w-4" />
-                                              )}
-                                            </button>
-                                            {numberOfTrucks > 1 && (
-                                              <button
-                                                type="button"
-                                                onClick={(e) => {
-                                                  e.stopPropagation();
-                                                  const currentTrucks = [
-                                                    ...trucks,
-                                                  ];
-                                                  currentTrucks.splice(i, 1);
-                                                  setValue(
-                                                    "trucks",
-                                                    currentTrucks
-                                                  );
-                                                  setValue(
-                                                    "numberOfTrucks",
-                                                    numberOfTrucks - 1
-                                                  );
-
-                                                  // Adjust current truck index if needed
-                                                  if (currentTruckIndex >= i) {
-                                                    setCurrentTruckIndex(
-                                                      Math.max(
-                                                        0,
-                                                        currentTruckIndex - 1
-                                                      )
-                                                    );
-                                                  }
-                                                }}
-                                                className={[
-                                                  "opacity-0 group-hover:opacity-100 transition-opacity p-1 rounded hover:bg-destructive/10",
-                                                  isCurrent
-                                                    ? "text-primary-foreground hover:bg-white/20"
-                                                    : "text-muted-foreground hover:text-destructive",
-                                                ].join(" ")}
-                                                title={`Remove Truck ${i + 1}`}
-                                              >
-                                                <X className="h-3 w-3" />
-                                              </button>
-                                            )}
-                                          </div>
-                                        );
-                                      }
-                                    )}
-                                  </div>
-                                </div>
-                              )}
-
-                              {/* Current Truck Form */}
-                              <div className="border rounded-lg p-4 sm:p-6 space-y-6 bg-background">
-                                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-                                  <h4 className="text-lg font-heading font-medium flex items-center gap-2">
-                                    <Truck className="h-5 w-5 text-primary" />
-                                    Truck {currentTruckIndex + 1}
-                                  </h4>
-
-                                  {/* Mobile: Stack navigation buttons vertically */}
-                                  <div className="flex flex-col sm:flex-row gap-2">
-                                    {numberOfTrucks > 1 && (
-                                      <div className="flex gap-2">
-                                        <Button
-                                          type="button"
-                                          variant="outline"
-                                          size="sm"
-                                          onClick={() =>
-                                            setCurrentTruckIndex(
-                                              Math.max(0, currentTruckIndex - 1)
-                                            )
-                                          }
-                                          disabled={currentTruckIndex === 0}
-                                          className="flex-1 sm:flex-none"
-                                        >
-                                          <ChevronLeft className="h-4 w-4" />
-                                          <span className="hidden sm:inline">
-                                            Previous
-                                          </span>
-                                          <span className="sm:hidden">
-                                            Prev
-                                          </span>
-                                        </Button>
-                                        <Button
-                                          type="button"
-                                          variant="outline"
-                                          size="sm"
-                                          onClick={() =>
-                                            setCurrentTruckIndex(
-                                              Math.min(
-                                                numberOfTrucks - 1,
-                                                currentTruckIndex + 1
-                                              )
-                                            )
-                                          }
-                                          disabled={
-                                            currentTruckIndex ===
-                                            numberOfTrucks - 1
-                                          }
-                                          className="flex-1 sm:flex-none"
-                                        >
-                                          <span className="hidden sm:inline">
-                                            Next
-                                          </span>
-                                          <span className="sm:hidden">
-                                            Next
-                                          </span>
-                                          <ChevronRight className="h-4 w-4" />
-                                        </Button>
-                                      </div>
-                                    )}
-                                    {numberOfTrucks > 1 && (
-                                      <Button
-                                        type="button"
-                                        variant="destructive"
-                                        size="sm"
-                                        onClick={() => {
-                                          const currentTrucks = [...trucks];
-                                          currentTrucks.splice(
-                                            currentTruckIndex,
-                                            1
-                                          );
-                                          setValue("trucks", currentTrucks);
-                                          setValue(
-                                            "numberOfTrucks",
-                                            numberOfTrucks - 1
-                                          );
-
-                                          // Adjust current truck index if needed
-                                          if (
-                                            currentTruckIndex >=
-                                            currentTrucks.length
-                                          ) {
-                                            setCurrentTruckIndex(
-                                              Math.max(
-                                                0,
-                                                currentTrucks.length - 1
-                                              )
-                                            );
-                                          }
-                                        }}
-                                        className="w-full sm:w-auto"
-                                      >
-                                        <X className="h-4 w-4" />
-                                        Remove Truck
-                                      </Button>
-                                    )}
-                                  </div>
-                                </div>
-
-                                {/* Basic Truck Info - Mobile Optimized */}
-                                <div className="space-y-4">
-                                  <FormField
-                                    name={`trucks.${currentTruckIndex}.vehicleType`}
-                                    control={control}
-                                    render={({ field }) => (
-                                      <FormItem>
-                                        <FormLabel>Vehicle Type</FormLabel>
-                                        <Select
-                                          value={field.value}
-                                          onValueChange={field.onChange}
-                                        >
-                                          <FormControl>
-                                            <SelectTrigger className="h-12">
-                                              <SelectValue placeholder="Select vehicle type" />
-                                            </SelectTrigger>
-                                          </FormControl>
-                                          <SelectContent>
-                                            {[
-                                              "Flatbed",
-                                              "Box Truck",
-                                              "Tipper",
-                                              "Refrigerated",
-                                              "Tanker",
-                                              "Other",
-                                            ].map((type) => (
-                                              <SelectItem
-                                                key={type}
-                                                value={type}
-                                              >
-                                                {type}
-                                              </SelectItem>
-                                            ))}
-                                          </SelectContent>
-                                        </Select>
-                                        <FormMessage />
-                                      </FormItem>
-                                    )}
-                                  />
-
-                                  <div className="grid gap-4 sm:grid-cols-2">
-                                    <FormField
-                                      name={`trucks.${currentTruckIndex}.loadCapacity`}
-                                      control={control}
-                                      render={({ field }) => (
-                                        <FormItem>
-                                          <FormLabel>Load Capacity</FormLabel>
-                                          <div className="relative">
-                                            <FormControl>
-                                              <Input
-                                                type="number"
-                                                min={1}
-                                                max={15}
-                                                step="0.1"
-                                                placeholder="e.g. 3.5"
-                                                value={field.value ?? ""}
-                                                onChange={(e) =>
-                                                  field.onChange(
-                                                    Number(e.target.value)
-                                                  )
-                                                }
-                                                className="h-12 pr-16"
-                                              />
-                                            </FormControl>
-                                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
-                                              tons
-                                            </span>
-                                          </div>
-                                          <FormMessage />
-                                        </FormItem>
-                                      )}
-                                    />
-
-                                    <FormField
-                                      name={`trucks.${currentTruckIndex}.registrationNumber`}
-                                      control={control}
-                                      render={({ field }) => (
-                                        <FormItem>
-                                          <FormLabel>
-                                            Registration Number
-                                          </FormLabel>
-                                          <FormControl>
-                                            <Input
-                                              placeholder="e.g. ABC123GP"
-                                              autoComplete="off"
-                                              className="h-12"
-                                              {...field}
-                                            />
-                                          </FormControl>
-                                          <FormMessage />
-                                        </FormItem>
-                                      )}
-                                    />
-                                  </div>
-                                </div>
-
-                                {/* Document Upload Section */}
-
-                                {/* Completion Status */}
-                                {(() => {
-                                  const currentTruck =
-                                    trucks[currentTruckIndex];
-                                  const isComplete =
-                                    isTruckComplete(currentTruck);
-
-                                  return (
-                                    <div
-                                      className={[
-                                        "flex items-center gap-2 p-3 rounded-lg text-sm border",
-                                        isComplete
-                                          ? "bg-green-50 text-green-700 border-green-200"
-                                          : "bg-amber-50 text-amber-700 border-amber-200",
-                                      ].join(" ")}
-                                    >
-                                      {isComplete ? (
-                                        <>
-                                          <CheckCircle className="h-4 w-4 text-green-600" />
-                                          <span className="font-medium">
-                                            This truck is complete and ready!
-                                          </span>
-                                        </>
-                                      ) : (
-                                        <>
-                                          <AlertCircle className="h-4 w-4 text-amber-600" />
-                                          <span>
-                                            Please complete all required fields
-                                            for this truck
-                                          </span>
-                                        </>
-                                      )}
-                                    </div>
-                                  );
-                                })()}
-                              </div>
-
-                              {/* Overall Progress for Multiple Trucks - Mobile Optimized */}
-                              {numberOfTrucks > 1 && (
-                                <div
-                                  className={[
-                                    "rounded-lg p-4 border",
-                                    completedTrucks === numberOfTrucks
-                                      ? "bg-green-50 border-green-200"
-                                      : "bg-muted/30 border-border",
-                                  ].join(" ")}
-                                >
-                                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
-                                    <span className="text-sm font-medium flex items-center gap-2">
-                                      Overall Progress
-                                      {completedTrucks === numberOfTrucks && (
-                                        <CheckCircle className="h-4 w-4 text-green-600" />
-                                      )}
-                                    </span>
-                                    <span
-                                      className={[
-                                        "text-sm",
-                                        completedTrucks === numberOfTrucks
-                                          ? "text-green-700 font-medium"
-                                          : "text-muted-foreground",
-                                      ].join(" ")}
-                                    >
-                                      {completedTrucks} of {numberOfTrucks}{" "}
-                                      completed
-                                    </span>
-                                  </div>
-                                  <div className="w-full bg-muted rounded-full h-3">
-                                    <div
-                                      className={[
-                                        "h-3 rounded-full transition-all duration-300",
-                                        completedTrucks === numberOfTrucks
-                                          ? "bg-green-500"
-                                          : "bg-primary",
-                                      ].join(" ")}
-                                      style={{
-                                        width: `${completionPercentage}%`,
-                                      }}
-                                    />
-                                  </div>
-                                  {completedTrucks === numberOfTrucks && (
-                                    <div className="mt-3 text-sm text-green-700 font-medium text-center sm:text-left">
-                                      🎉 All trucks completed! You're ready to
-                                      continue.
-                                    </div>
-                                  )}
-                                </div>
-                              )}
-
-                              {/* General Vehicle Documents Upload */}
-                              <div className="space-y-4">
-                                <h3 className="text-lg font-heading font-medium flex items-center gap-2">
-                                  <span className="bg-primary text-primary-foreground rounded-full w-6 h-6 flex items-center justify-center text-sm font-bold">
-                                    3
-                                  </span>
-                                  Additional Documents
-                                </h3>
-                                <MultiFileUpload />
-                              </div>
-                            </div>
-                          )}
-                        </div>
-                      )}
-
-                      {step === 3 && (
-                        <Section title="Banking Info">
-                          <FormField
-                            name="bankName"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Bank</FormLabel>
-                                <FormControl>
-                                  <Input autoComplete="off" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="accountHolder"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Account Holder</FormLabel>
-                                <FormControl>
-                                  <Input autoComplete="name" {...field} />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
+                          <ApplicationReview
+                            canEdit={(key) => steps.some((s) => s.key === key)}
+                            onEdit={editStep}
                           />
-                          <FormField
-                            name="accountNumber"
-                            control={control}
-                            render={({ field, fieldState }) => (
-                              <FormItem>
-                                <FormLabel>Account Number</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    inputMode="numeric"
-                                    autoComplete="off"
-                                    className={
-                                      fieldState.invalid
-                                        ? "border-destructive focus-visible:ring-destructive"
-                                        : undefined
-                                    }
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="accountType"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem>
-                                <FormLabel>Account Type</FormLabel>
-                                <Select
-                                  value={field.value}
-                                  onValueChange={field.onChange}
-                                >
-                                  <FormControl>
-                                    <SelectTrigger>
-                                      <SelectValue placeholder="Select" />
-                                    </SelectTrigger>
-                                  </FormControl>
-                                  <SelectContent>
-                                    <SelectItem value="cheque">
-                                      Cheque
-                                    </SelectItem>
-                                    <SelectItem value="savings">
-                                      Savings
-                                    </SelectItem>
-                                    <SelectItem value="business">
-                                      Business
-                                    </SelectItem>
-                                  </SelectContent>
-                                </Select>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="branchCode"
-                            control={control}
-                            render={({ field, fieldState }) => (
-                              <FormItem>
-                                <FormLabel>Branch Code</FormLabel>
-                                <FormControl>
-                                  <Input
-                                    inputMode="numeric"
-                                    autoComplete="off"
-                                    placeholder="250655"
-                                    className={
-                                      fieldState.invalid
-                                        ? "border-destructive focus-visible:ring-destructive"
-                                        : undefined
-                                    }
-                                    {...field}
-                                  />
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FileField
-                            name={"proofOfBank"}
-                            label="Bank Statement"
-                            accept=".pdf,.jpg,.jpeg,.png"
-                          />
-                        </Section>
+                        </div>
+                      ) : currentStep.layout === "stack" ? (
+                        <div className="space-y-8">
+                          <h2 className="text-xl font-heading font-semibold">
+                            {t(currentStep.heading)}
+                          </h2>
+                          {stepFields}
+                        </div>
+                      ) : (
+                        <Section title={t(currentStep.heading)}>{stepFields}</Section>
                       )}
 
-                      {step === 4 && (
-                        <Section title="Terms & Consent">
-                          <FormField
-                            name="acceptTerms"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem className="col-span-2">
-                                <FormControl>
-                                  <RadioGroup
-                                    value={field.value}
-                                    onValueChange={field.onChange}
-                                    className="space-y-3"
-                                  >
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem
-                                        value="yes"
-                                        id="terms-yes"
-                                      />
-                                      <Label
-                                        htmlFor="terms-yes"
-                                        className="text-sm"
-                                      >
-                                        Accept Terms of Use
-                                      </Label>
-                                    </div>
-                                  </RadioGroup>
-                                </FormControl>
-                                <div className="mt-2">
-                                  <Dialog>
-                                    <DialogTrigger asChild>
-                                      <Button
-                                        variant="link"
-                                        type="button"
-                                        className="px-0 h-auto text-xs"
-                                      >
-                                        View Terms
-                                      </Button>
-                                    </DialogTrigger>
-                                    <DialogContent>
-                                      <DialogHeader>
-                                        <DialogTitle>Terms of Use</DialogTitle>
-                                      </DialogHeader>
-                                      <div className="space-y-3 text-sm text-muted-foreground">
-                                        <p>
-                                          By continuing, you agree to provide
-                                          accurate information and maintain
-                                          valid documentation for your fleet.
-                                        </p>
-                                        <p>
-                                          Data is processed according to our
-                                          privacy policy. You can request
-                                          deletion at any time.
-                                        </p>
-                                      </div>
-                                    </DialogContent>
-                                  </Dialog>
-                                </div>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="consentStore"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem className="col-span-2">
-                                <FormControl>
-                                  <RadioGroup
-                                    value={field.value}
-                                    onValueChange={field.onChange}
-                                    className="space-y-3"
-                                  >
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem
-                                        value="yes"
-                                        id="store-yes"
-                                      />
-                                      <Label
-                                        htmlFor="store-yes"
-                                        className="text-sm"
-                                      >
-                                        Consent to data storage
-                                      </Label>
-                                    </div>
-                                  </RadioGroup>
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                          <FormField
-                            name="consentContact"
-                            control={control}
-                            render={({ field }) => (
-                              <FormItem className="col-span-2">
-                                <FormControl>
-                                  <RadioGroup
-                                    value={field.value}
-                                    onValueChange={field.onChange}
-                                    className="space-y-3"
-                                  >
-                                    <div className="flex items-center space-x-2">
-                                      <RadioGroupItem
-                                        value="yes"
-                                        id="contact-yes"
-                                      />
-                                      <Label
-                                        htmlFor="contact-yes"
-                                        className="text-sm"
-                                      >
-                                        Consent to be contacted
-                                      </Label>
-                                    </div>
-                                  </RadioGroup>
-                                </FormControl>
-                                <FormMessage />
-                              </FormItem>
-                            )}
-                          />
-                        </Section>
+                      {step === steps.length - 1 && (
+                        <UploadProgressList uploads={uploadProgress} />
                       )}
 
                       <div className="sticky bottom-0 left-0 right-0 -mx-6 px-4 sm:px-6 bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/90 border-t pt-4 pb-2 sm:pb-0 mt-2 z-10">
@@ -1801,16 +1902,15 @@ const onSubmit: SubmitHandler<FormValues> = async (data) => {
                             disabled={step === 0}
                             className="order-2 sm:order-1 h-12 sm:h-10"
                           >
-                            Back
+                            {t("Back")}
                           </Button>
                           {step < steps.length - 1 ? (
                             <Button
                               type="button"
                               onClick={goNext}
-                              disabled={step === 0 && !eligibilityStatus.ok}
                               className="order-1 sm:order-2 h-12 sm:h-10 transition-transform hover:-translate-y-0.5"
                             >
-                              Continue
+                              {returnToReview ? t("Back to review") : t("Continue")}
                             </Button>
                           ) : (
 <Button
@@ -1818,7 +1918,7 @@ const onSubmit: SubmitHandler<FormValues> = async (data) => {
   disabled={submitting}
   className="order-1 sm:order-2 h-12 sm:h-10 transition-transform hover:-translate-y-0.5"
 >
-  {submitting ? "Submitting..." : "Submit Application"}
+  {submitting ? t("Submitting...") : t("Submit Application")}
 </Button>
                           )}
                         </div>
@@ -1832,33 +1932,51 @@ const onSubmit: SubmitHandler<FormValues> = async (data) => {
         </div>
       </div>
 
+      <ResumeDraftDialog
+        draft={pendingDraft}
+        stepTitle={
+          pendingDraft && WIZARD_STEPS[pendingDraft.step]
+            ? t(WIZARD_STEPS[pendingDraft.step].title)
+            : undefined
+        }
+        onResume={resumeDraft}
+        onDiscard={discardDraft}
+      />
+
       {/* Eligibility Modal */}
       <Dialog
-        open={showEligibilityModal}
-        onOpenChange={setShowEligibilityModal}
+        open={ineligible.length > 0}
+        onOpenChange={(open) => !open && setIneligible([])}
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Application Requirements Not Met</DialogTitle>
+            <DialogTitle>{t("Application Requirements Not Met")}</DialogTitle>
             <DialogDescription>
-              Unfortunately, you don't meet the current requirements for our
-              hauler network.
+              {t(
+                "Unfortunately, you don't meet the current requirements for our hauler network."
+              )}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div className="flex items-center gap-3 p-4 bg-destructive/10 rounded-lg">
-              <AlertCircle className="h-5 w-5 text-destructive" />
-              <p className="text-sm text-destructive font-medium">
-                {eligibilityStatus.reason}
-              </p>
-            </div>
+            {ineligible.map((r) => (
+              <div
+                key={r.ruleId}
+                className="flex items-center gap-3 p-4 bg-destructive/10 rounded-lg"
+              >
+                <AlertCircle className="h-5 w-5 text-destructive" />
+                <p className="text-sm text-destructive font-medium">
+                  {t(r.message)}
+                </p>
+              </div>
+            ))}
             <p className="text-sm text-muted-foreground">
-              Please review the requirements and try again when you meet all
-              criteria.
+              {t(
+                "Please review the requirements and try again when you meet all criteria."
+              )}
             </p>
             <div className="flex justify-end">
-              <Button onClick={() => setShowEligibilityModal(false)}>
-                Understood
+              <Button onClick={() => setIneligible([])}>
+                {t("Understood")}
               </Button>
             </div>
           </div>
@@ -0,0 +1,478 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { Session } from "@supabase/supabase-js";
+import { useQuery } from "@tanstack/react-query";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { toast } from "sonner";
+import { AlertCircle, CheckCircle2, Circle, FileText, LogOut, Mail } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import Footer from "@/components/Footer";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { DataRequests } from "@/components/onboarding/DataRequests";
+import { TermsDialog } from "@/components/onboarding/TermsDialog";
+import { useI18n } from "@/hooks/use-i18n";
+import { DATA_REQUEST_COLUMNS, type DataRequest } from "@/lib/onboarding/data-requests";
+import { fetchCurrentTerms, type TermsVersion } from "@/lib/onboarding/terms";
+
+type AppStatus = Database["public"]["Enums"]["app_status"];
+
+type ApplicantApplication = {
+  id: string;
+  status: AppStatus;
+  submitted_at: string;
+  application_events: { id: string; status: AppStatus; created_at: string }[];
+  application_requests: {
+    id: string;
+    message: string;
+    items: string[];
+    token: string;
+    created_at: string;
+    resolved_at: string | null;
+  }[];
+  consent_records: { scope: string; terms_versions: { version: number } | null }[];
+};
+
+const CODE_LENGTH = 6;
+
+const statusLabels: Record<AppStatus, string> = {
+  pending: "Received",
+  in_review: "In review",
+  needs_info: "Needs more information",
+  approved: "Approved",
+  rejected: "Not approved",
+};
+
+const statusColors: Record<AppStatus, string> = {
+  pending: "bg-muted text-foreground",
+  in_review: "bg-secondary text-secondary-foreground",
+  needs_info: "bg-accent text-accent-foreground",
+  approved: "bg-primary text-primary-foreground",
+  rejected: "bg-destructive text-destructive-foreground",
+};
+
+// Applications submitted before signing in are linked by verified email first
+const fetchApplicantApplications = async () => {
+  const { error: claimError } = await supabase.rpc("claim_onboarding_applications");
+  if (claimError) throw claimError;
+
+  const { data, error } = await supabase
+    .from("onboarding_applications")
+    .select(
+      "id,status,submitted_at,application_events(id,status,created_at),application_requests(id,message,items,token,created_at,resolved_at),consent_records(scope,terms_versions(version))"
+    )
+    .order("submitted_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as ApplicantApplication[];
+};
+
+const fetchDataRequests = async () => {
+  const { data, error } = await supabase
+    .from("data_subject_requests")
+    .select(DATA_REQUEST_COLUMNS)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as DataRequest[];
+};
+
+function useSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+      setLoading(false);
+    });
+    supabase.auth.getSession().then(({ data: { session: current } }) => {
+      setSession(current);
+      setLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return { session, loading };
+}
+
+function SignInWithCode() {
+  const { t } = useI18n();
+  const [email, setEmail] = useState("");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  // The project's email template must include {{ .Token }} for the code to
+  // appear in the message.
+  const sendCode = async () => {
+    setBusy(true);
+    const address = email.trim();
+    const { error } = await supabase.auth.signInWithOtp({
+      email: address,
+      options: { shouldCreateUser: true },
+    });
+    setBusy(false);
+    if (error) {
+      toast.error(t("We couldn't send a code. Please try again."));
+      return;
+    }
+    setCode("");
+    setCodeSentTo(address);
+    toast.success(t("We've emailed a code to {email}", { email: address }));
+  };
+
+  const verifyCode = async (token: string) => {
+    setBusy(true);
+    const { error } = await supabase.auth.verifyOtp({
+      email: codeSentTo,
+      token,
+      type: "email",
+    });
+    setBusy(false);
+    if (error) {
+      setCode("");
+      toast.error(t("That code is incorrect or has expired"));
+    }
+  };
+
+  if (!codeSentTo) {
+    return (
+      <form
+        className="grid gap-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          sendCode();
+        }}
+      >
+        <div className="grid gap-2">
+          <Label htmlFor="status-email">{t("Email")}</Label>
+          <Input
+            id="status-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@example.com"
+          />
+        </div>
+        <Button type="submit" disabled={busy || !email.includes("@")}>
+          <Mail className="h-4 w-4 mr-2" />
+          {busy ? t("Please wait...") : t("Email me a code")}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="grid gap-4">
+      <p className="text-sm text-muted-foreground">
+        {t("Enter the {length}-digit code we sent to {email}.", {
+          length: CODE_LENGTH,
+          email: codeSentTo,
+        })}
+      </p>
+      <InputOTP
+        maxLength={CODE_LENGTH}
+        pattern={REGEXP_ONLY_DIGITS}
+        value={code}
+        onChange={setCode}
+        onComplete={verifyCode}
+        disabled={busy}
+        autoFocus
+      >
+        <InputOTPGroup>
+          {Array.from({ length: CODE_LENGTH }, (_, i) => (
+            <InputOTPSlot key={i} index={i} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          onClick={() => verifyCode(code)}
+          disabled={busy || code.length !== CODE_LENGTH}
+        >
+          {t("Verify")}
+        </Button>
+        <Button type="button" variant="ghost" onClick={sendCode} disabled={busy}>
+          {t("Send a new code")}
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => setCodeSentTo(null)} disabled={busy}>
+          {t("Use a different email")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Shown while the applicant's latest acceptance is of an older version
+function NewTermsNotice({
+  application,
+  terms,
+  onAccepted,
+}: {
+  application: ApplicantApplication;
+  terms: TermsVersion;
+  onAccepted: () => void;
+}) {
+  const { t, language } = useI18n();
+  const [busy, setBusy] = useState(false);
+
+  const accept = async () => {
+    setBusy(true);
+    const { error } = await supabase.rpc("accept_terms", {
+      _application_id: application.id,
+      _terms_version_id: terms.id,
+      _language: language,
+      _user_agent: navigator.userAgent,
+    });
+    setBusy(false);
+    if (error) {
+      toast.error(t("We couldn't record your acceptance. Please try again."));
+      return;
+    }
+    toast.success(t("Thank you – you've accepted the new Terms of Use"));
+    onAccepted();
+  };
+
+  return (
+    <Alert>
+      <FileText className="h-4 w-4" />
+      <AlertTitle>{t("Our Terms of Use have changed")}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        {terms.change_summary && <p className="mt-1">{terms.change_summary}</p>}
+        <div className="flex flex-wrap gap-2 pt-1">
+          <TermsDialog
+            terms={terms}
+            trigger={
+              <Button size="sm" variant="outline">
+                {t("Read the new terms")}
+              </Button>
+            }
+          />
+          <Button size="sm" onClick={accept} disabled={busy}>
+            {t("I accept")}
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+function ApplicationCard({
+  application: a,
+  terms,
+  dataRequests,
+  onChanged,
+  onDataRequestsChanged,
+}: {
+  application: ApplicantApplication;
+  terms?: TermsVersion | null;
+  dataRequests: DataRequest[];
+  onChanged: () => void;
+  onDataRequestsChanged: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const timeline = [...a.application_events].sort((x, y) =>
+    x.created_at.localeCompare(y.created_at)
+  );
+  const outstanding = a.application_requests.filter((r) => !r.resolved_at);
+  const acceptedVersion = Math.max(
+    0,
+    ...a.consent_records
+      .filter((c) => c.scope === "terms")
+      .map((c) => c.terms_versions?.version ?? 0)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <div className="flex items-start justify-between gap-4">
+          <CardTitle className="text-lg font-heading">
+            {t("Application {reference}", { reference: a.id.slice(0, 8).toUpperCase() })}
+          </CardTitle>
+          <Badge className={statusColors[a.status]}>{t(statusLabels[a.status])}</Badge>
+        </div>
+        <CardDescription>
+          {t("Submitted {date}", { date: formatDate(a.submitted_at) })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {terms && a.status !== "rejected" && acceptedVersion < terms.version && (
+          <NewTermsNotice application={a} terms={terms} onAccepted={onChanged} />
+        )}
+        {outstanding.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{t("Our reviewers need more from you")}</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-2 space-y-2">
+                {outstanding.map((r) => (
+                  <li key={r.id}>
+                    <span className="block">{r.message}</span>
+                    <span className="text-xs opacity-80">
+                      {formatDate(r.created_at, { dateStyle: "medium", timeStyle: "short" })}
+                    </span>
+                    {r.items.length > 0 && a.status === "needs_info" && (
+                      <Button size="sm" className="mt-2 block" asChild>
+                        <Link to={`/resubmit/${r.token}`}>{t("Update your application")}</Link>
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+        <div>
+          <h3 className="mb-3 text-sm font-medium">{t("Timeline")}</h3>
+          <ol className="space-y-3">
+            {timeline.map((e, i) => {
+              const latest = i === timeline.length - 1;
+              const Icon = latest ? CheckCircle2 : Circle;
+              return (
+                <li key={e.id} className="flex items-start gap-3">
+                  <Icon
+                    className={`mt-0.5 h-4 w-4 shrink-0 ${latest ? "text-primary" : "text-muted-foreground"}`}
+                  />
+                  <div>
+                    <div className={latest ? "font-medium" : undefined}>
+                      {t(statusLabels[e.status])}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatDate(e.created_at, { dateStyle: "medium", timeStyle: "short" })}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+        <DataRequests
+          applicationId={a.id}
+          requests={dataRequests}
+          onChanged={onDataRequestsChanged}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Status() {
+  const { t } = useI18n();
+  const { session, loading } = useSession();
+
+  useEffect(() => {
+    document.title = t("Application status");
+  }, [t]);
+
+  const userId = session?.user.id;
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ["applicant-applications", userId],
+    queryFn: fetchApplicantApplications,
+    enabled: Boolean(userId),
+  });
+  const { data: terms } = useQuery({
+    queryKey: ["terms", "current"],
+    queryFn: fetchCurrentTerms,
+    enabled: Boolean(userId),
+  });
+  const { data: dataRequests, refetch: refetchDataRequests } = useQuery({
+    queryKey: ["data-requests", userId],
+    queryFn: fetchDataRequests,
+    enabled: Boolean(userId),
+  });
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  return (
+    <main className="min-h-screen relative flex flex-col">
+      <div
+        className="pointer-events-none absolute inset-0"
+        style={{ background: "var(--gradient-brand)" }}
+      />
+
+      <div className="relative flex-1 flex items-start justify-center px-4 py-6 sm:py-10 md:py-16">
+        <div className="w-full max-w-2xl space-y-6">
+          <Card className="border bg-card shadow-[var(--shadow-elevated)] animate-fade-in">
+            <CardHeader className="space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-2xl font-heading font-semibold leading-none tracking-tight">
+                  {t("Application status")}
+                </h1>
+                <LanguageSwitcher className="w-36 h-9" />
+              </div>
+              <CardDescription>
+                {session
+                  ? t("Signed in as {email}", { email: session.user.email })
+                  : t("Sign in with the email address you applied with to follow your application.")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? null : session ? (
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" onClick={signOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    {t("Sign out")}
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <Link to="/">{t("Start a new application")}</Link>
+                  </Button>
+                </div>
+              ) : (
+                <SignInWithCode />
+              )}
+            </CardContent>
+          </Card>
+
+          {session && isLoading && (
+            <p className="text-center text-sm text-muted-foreground">{t("Loading…")}</p>
+          )}
+          {session && isError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{t("We couldn't load your applications")}</AlertTitle>
+              <AlertDescription>
+                <Button variant="link" className="h-auto px-0" onClick={() => refetch()}>
+                  {t("Try again")}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+          {session && data?.length === 0 && (
+            <Card>
+              <CardContent className="py-10 text-center text-muted-foreground">
+                {t("We couldn't find any applications for this email address.")}
+              </CardContent>
+            </Card>
+          )}
+          {data?.map((a) => (
+            <ApplicationCard
+              key={a.id}
+              application={a}
+              terms={terms}
+              dataRequests={(dataRequests || []).filter((r) => r.application_id === a.id)}
+              onChanged={refetch}
+              onDataRequestsChanged={refetchDataRequests}
+            />
+          ))}
+        </div>
+      </div>
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,108 @@
+// South African banks we pay out to, with their universal branch codes and
+// the shape of a valid account number at each bank.
+
+export type Bank = {
+  name: string;
+  universalBranchCode: string;
+  // Allowed account number lengths
+  accountLengths: number[];
+  // Account numbers must start with one of these, when set
+  accountPrefixes?: string[];
+  // Bank-specific check digit verification, when the bank publishes one
+  checkDigit?: (accountNumber: string) => boolean;
+};
+
+export const OTHER_BANK = "Other";
+
+// Check digit verification as the banks publish it in the BankservAfrica CDV
+// tables: the account number is right-aligned in 11 digits, each digit is
+// multiplied by its weighting, and the total must divide by the modulus.
+const modulus =
+  (weightings: number[], divisor: number) => (accountNumber: string) => {
+    const digits = accountNumber.padStart(weightings.length, "0");
+    const total = weightings.reduce((sum, w, i) => sum + Number(digits[i]) * w, 0);
+    return total % divisor === 0;
+  };
+
+// FNB uses the Luhn routine: every second digit from the right is doubled,
+// with the digits of the product added together
+const luhn = (accountNumber: string) => {
+  const total = [...accountNumber].reverse().reduce((sum, d, i) => {
+    const n = Number(d) * (i % 2 ? 2 : 1);
+    return sum + (n > 9 ? n - 9 : n);
+  }, 0);
+  return total % 10 === 0;
+};
+
+export const BANKS: Bank[] = [
+  {
+    name: "ABSA",
+    universalBranchCode: "632005",
+    accountLengths: [9, 10, 11],
+    checkDigit: modulus([1, 4, 3, 2, 9, 8, 7, 4, 3, 2, 1], 11),
+  },
+  { name: "Access Bank", universalBranchCode: "410506", accountLengths: [10, 11] },
+  { name: "African Bank", universalBranchCode: "430000", accountLengths: [11] },
+  { name: "Bank Zero", universalBranchCode: "888000", accountLengths: [10, 11] },
+  { name: "Bidvest Bank", universalBranchCode: "462005", accountLengths: [10, 11] },
+  {
+    name: "Capitec",
+    universalBranchCode: "470010",
+    accountLengths: [10],
+    checkDigit: modulus([2, 1, 9, 8, 7, 6, 5, 4, 3, 2, 1], 11),
+  },
+  { name: "Discovery Bank", universalBranchCode: "679000", accountLengths: [10, 11] },
+  { name: "FNB", universalBranchCode: "250655", accountLengths: [11], checkDigit: luhn },
+  { name: "Investec", universalBranchCode: "580105", accountLengths: [10, 11] },
+  {
+    name: "Nedbank",
+    universalBranchCode: "198765",
+    accountLengths: [10, 11],
+    checkDigit: modulus([1, 1, 9, 8, 7, 6, 5, 4, 3, 2, 1], 11),
+  },
+  { name: "Old Mutual", universalBranchCode: "462005", accountLengths: [10, 11] },
+  { name: "Postbank", universalBranchCode: "460005", accountLengths: [11] },
+  { name: "Sasfin", universalBranchCode: "683000", accountLengths: [10, 11] },
+  {
+    name: "Standard Bank",
+    universalBranchCode: "051001",
+    accountLengths: [9, 10, 11],
+    checkDigit: modulus([1, 1, 9, 8, 7, 6, 5, 4, 3, 2, 1], 11),
+  },
+  {
+    name: "TymeBank",
+    universalBranchCode: "678910",
+    accountLengths: [11],
+    accountPrefixes: ["5"],
+    checkDigit: modulus([1, 1, 9, 8, 7, 6, 5, 4, 3, 2, 1], 11),
+  },
+];
+
+export const findBank = (name: string | undefined) =>
+  BANKS.find((b) => b.name === name);
+
+/** Returns an error message, or null when the account number looks valid. */
+export function validateAccountNumber(
+  bankName: string | undefined,
+  accountNumber: string
+): string | null {
+  const bank = findBank(bankName);
+  if (!/^\d+$/.test(accountNumber)) return "Digits only";
+  if (!bank) {
+    return /^\d{8,13}$/.test(accountNumber) ? null : "8–13 digits";
+  }
+  if (!bank.accountLengths.includes(accountNumber.length)) {
+    const lengths = bank.accountLengths.join(" or ");
+    return `${bank.name} account numbers are ${lengths} digits`;
+  }
+  if (
+    bank.accountPrefixes &&
+    !bank.accountPrefixes.some((p) => accountNumber.startsWith(p))
+  ) {
+    return `${bank.name} account numbers start with ${bank.accountPrefixes.join(" or ")}`;
+  }
+  if (bank.checkDigit && !bank.checkDigit(accountNumber)) {
+    return `Not a valid ${bank.name} account number – check for typos`;
+  }
+  return null;
+}
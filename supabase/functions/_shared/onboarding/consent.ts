@@ -0,0 +1,9 @@
+// The consents given on the Terms step and the scope each is recorded under
+// in the consent ledger (consent_records.scope).
+export const CONSENT_SCOPES = [
+  { field: "acceptTerms", scope: "terms", label: "Terms of Use" },
+  { field: "consentStore", scope: "data_storage", label: "Data storage" },
+  { field: "consentContact", scope: "contact", label: "Being contacted" },
+] as const;
+
+export type ConsentScope = (typeof CONSENT_SCOPES)[number]["scope"];
@@ -0,0 +1,161 @@
+// What a reviewer can ask an applicant to correct when an application needs
+// more information. The wizard reopens with only these fields editable, and
+// the submit-application function keeps every other answer as it was.
+import type { FormValues } from "./schema.ts";
+
+export const CORRECTION_ITEMS = [
+  {
+    key: "identity",
+    label: "Identity details",
+    step: "basic",
+    fields: ["fullName", "identityType", "idNumber", "passportCountry"],
+  },
+  {
+    key: "contact",
+    label: "Contact and business details",
+    step: "basic",
+    fields: [
+      "entityType",
+      "businessName",
+      "cipcNumber",
+      "mobile",
+      "mobileVerification",
+      "email",
+      "streetAddress",
+      "suburb",
+      "city",
+      "postalCode",
+      "province",
+    ],
+  },
+  {
+    key: "trucks",
+    label: "Trucks and their compliance documents",
+    step: "vehicle",
+    fields: ["numberOfTrucks", "trucks"],
+  },
+  {
+    key: "vehicleDocuments",
+    label: "Additional vehicle documents",
+    step: "vehicle",
+    fields: ["vehicleDocuments"],
+  },
+  {
+    key: "drivers",
+    label: "Drivers and who drives each truck",
+    step: "drivers",
+    fields: ["drivers"],
+  },
+  {
+    key: "coverage",
+    label: "Where you operate",
+    step: "coverage",
+    fields: [
+      "serviceProvinces",
+      "serviceCities",
+      "lanes",
+      "crossBorder",
+      "crossBorderCountries",
+    ],
+  },
+  {
+    key: "banking",
+    label: "Banking details",
+    step: "banking",
+    fields: ["bankName", "accountHolder", "accountNumber", "accountType", "branchCode"],
+  },
+  {
+    key: "proofOfBank",
+    label: "Bank statement",
+    step: "banking",
+    fields: ["proofOfBank"],
+  },
+] as const satisfies readonly {
+  key: string;
+  label: string;
+  step: string;
+  fields: readonly (keyof FormValues)[];
+}[];
+
+export type CorrectionItem = (typeof CORRECTION_ITEMS)[number]["key"];
+
+export const isCorrectionItem = (value: unknown): value is CorrectionItem =>
+  CORRECTION_ITEMS.some((item) => item.key === value);
+
+/** Top-level form fields the applicant may change for the requested items. */
+export function editableFields(items: readonly string[]): Set<keyof FormValues> {
+  return new Set(
+    CORRECTION_ITEMS.filter((item) => items.includes(item.key)).flatMap(
+      (item) => item.fields
+    )
+  );
+}
+
+/** Wizard steps that contain at least one requested item. */
+export function editableSteps(items: readonly string[]): Set<string> {
+  return new Set(
+    CORRECTION_ITEMS.filter((item) => items.includes(item.key)).map(
+      (item) => item.step
+    )
+  );
+}
+
+// Answers added to the wizard after some applications were made: the item
+// that asks for them, and how to tell an application doesn't have them
+const LATER_ANSWERS: [CorrectionItem, (previous: Record<string, unknown>) => boolean][] = [
+  ["contact", (previous) => previous.postalCode === undefined],
+  ["coverage", (previous) => previous.serviceProvinces === undefined],
+  [
+    "trucks",
+    (previous) =>
+      Array.isArray(previous.trucks) &&
+      previous.trucks.some((truck) => !truck?.photos),
+  ],
+];
+
+/**
+ * The items an applicant is asked to correct. Applications made before an
+ * answer was added to the wizard also reopen the item that asks for it.
+ */
+export function correctionItemsFor(
+  previous: Record<string, unknown>,
+  items: readonly string[]
+): string[] {
+  const all = [...items];
+  for (const [item, missing] of LATER_ANSWERS) {
+    if (missing(previous) && !all.includes(item)) all.push(item);
+  }
+  return all;
+}
+
+/**
+ * The submitted answers for the editable fields laid over the previous
+ * payload, so nothing outside the request can change.
+ */
+export function mergeCorrections(
+  previous: Record<string, unknown>,
+  submitted: Record<string, unknown>,
+  items: readonly string[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...previous };
+  // Derived on the server from the final answers
+  delete merged.identity;
+  for (const field of editableFields(items)) {
+    merged[field] = submitted[field];
+  }
+  // Drivers are assigned on the Drivers step but stored on each truck
+  if (
+    items.includes("drivers") &&
+    !items.includes("trucks") &&
+    Array.isArray(merged.trucks)
+  ) {
+    const assigned = Array.isArray(submitted.trucks) ? submitted.trucks : [];
+    merged.trucks = merged.trucks.map((truck, i) => ({
+      ...truck,
+      driverId: assigned[i]?.driverId ?? "",
+    }));
+  }
+  // The applicant may switch language while correcting
+  if (submitted.language !== undefined) merged.language = submitted.language;
+  return merged;
+}
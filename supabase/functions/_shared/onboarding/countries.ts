@@ -0,0 +1,36 @@
+// Passport-issuing countries offered to non-SA applicants (ISO 3166-1 alpha-3).
+// SADC members first, since most of our foreign owner-drivers come from there.
+export const PASSPORT_COUNTRIES: { code: string; name: string }[] = [
+  { code: "ZWE", name: "Zimbabwe" },
+  { code: "MOZ", name: "Mozambique" },
+  { code: "LSO", name: "Lesotho" },
+  { code: "SWZ", name: "Eswatini" },
+  { code: "BWA", name: "Botswana" },
+  { code: "NAM", name: "Namibia" },
+  { code: "MWI", name: "Malawi" },
+  { code: "ZMB", name: "Zambia" },
+  { code: "AGO", name: "Angola" },
+  { code: "COD", name: "DR Congo" },
+  { code: "TZA", name: "Tanzania" },
+  { code: "MDG", name: "Madagascar" },
+  { code: "MUS", name: "Mauritius" },
+  { code: "ETH", name: "Ethiopia" },
+  { code: "KEN", name: "Kenya" },
+  { code: "NGA", name: "Nigeria" },
+  { code: "GHA", name: "Ghana" },
+  { code: "SOM", name: "Somalia" },
+  { code: "PAK", name: "Pakistan" },
+  { code: "IND", name: "India" },
+  { code: "BGD", name: "Bangladesh" },
+  { code: "CHN", name: "China" },
+  { code: "GBR", name: "United Kingdom" },
+  { code: "PRT", name: "Portugal" },
+  { code: "OTH", name: "Other" },
+];
+
+export const PASSPORT_REGEX = /^[A-Z0-9]{6,12}$/;
+
+// Countries a South African hauler can reach by road, for cross-border work
+export const CROSS_BORDER_COUNTRIES = PASSPORT_COUNTRIES.filter((c) =>
+  ["ZWE", "MOZ", "LSO", "SWZ", "BWA", "NAM", "MWI", "ZMB", "AGO", "COD", "TZA"].includes(c.code)
+);
@@ -0,0 +1,138 @@
+// Eligibility rules are rows in public.eligibility_rules that admins edit.
+// The wizard checks each rule as soon as the step holding its answers is
+// done, and submit-application checks them all again before accepting.
+import { z } from "zod";
+import type { FormValues } from "./schema.ts";
+
+export const RULE_KINDS = {
+  owns_vehicle: {
+    label: "Owns a vehicle",
+    step: "eligibility",
+    params: z.object({}),
+  },
+  has_required_docs: {
+    label: "Has roadworthy and insurance",
+    step: "eligibility",
+    params: z.object({}),
+  },
+  province_in: {
+    label: "Operates in an allowed province",
+    step: "basic",
+    params: z.object({ provinces: z.array(z.string()).min(1) }),
+  },
+  min_load_capacity: {
+    label: "Minimum load capacity per truck",
+    step: "vehicle",
+    params: z.object({ tons: z.number().positive() }),
+  },
+  vehicle_types_in: {
+    label: "Allowed vehicle types",
+    step: "vehicle",
+    params: z.object({ types: z.array(z.string()).min(1) }),
+  },
+  business_for_fleet_over: {
+    label: "Registered business for larger fleets",
+    step: "vehicle",
+    params: z.object({ trucks: z.number().int().nonnegative() }),
+  },
+} as const;
+
+export type RuleKind = keyof typeof RULE_KINDS;
+
+export const ruleKinds = Object.keys(RULE_KINDS) as RuleKind[];
+
+export const eligibilityRuleSchema = z
+  .object({
+    id: z.string(),
+    kind: z.enum(ruleKinds as [RuleKind, ...RuleKind[]]),
+    params: z.record(z.unknown()).default({}),
+    message: z.string().min(1),
+  })
+  .superRefine((rule, ctx) => {
+    const parsed = RULE_KINDS[rule.kind].params.safeParse(rule.params);
+    if (!parsed.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["params"],
+        message: parsed.error.issues[0]?.message ?? "Invalid parameters",
+      });
+    }
+  });
+
+export type EligibilityRule = z.infer<typeof eligibilityRuleSchema>;
+
+export type RuleResult = {
+  ruleId: string;
+  kind: RuleKind;
+  passed: boolean;
+  message: string;
+};
+
+// The original hard-coded checks, used until the configured rules load
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRule[] = [
+  {
+    id: "default-owns-vehicle",
+    kind: "owns_vehicle",
+    params: {},
+    message: "Reject: Driver only not allowed",
+  },
+  {
+    id: "default-has-required-docs",
+    kind: "has_required_docs",
+    params: {},
+    message: "Reject: Missing roadworthy or insurance",
+  },
+];
+
+type Answers = Partial<
+  Pick<
+    FormValues,
+    "ownsVehicle" | "hasRequiredDocs" | "province" | "numberOfTrucks" | "entityType"
+  >
+> & {
+  trucks?: { vehicleType?: string; loadCapacity?: number }[];
+};
+
+function passes(rule: EligibilityRule, answers: Answers): boolean {
+  const params = rule.params as Record<string, unknown>;
+  const trucks = answers.trucks ?? [];
+  switch (rule.kind) {
+    case "owns_vehicle":
+      return answers.ownsVehicle === "yes";
+    case "has_required_docs":
+      return answers.hasRequiredDocs === "yes";
+    case "province_in":
+      return (params.provinces as string[]).includes(answers.province ?? "");
+    case "min_load_capacity":
+      return trucks.every((t) => (t.loadCapacity ?? 0) >= (params.tons as number));
+    case "vehicle_types_in":
+      return trucks.every((t) => (params.types as string[]).includes(t.vehicleType ?? ""));
+    case "business_for_fleet_over":
+      return (
+        (answers.numberOfTrucks ?? 0) <= (params.trucks as number) ||
+        answers.entityType === "business"
+      );
+  }
+}
+
+/**
+ * Evaluates rules against the answers given so far. Pass the wizard steps
+ * that are complete to check only the rules that can be decided yet.
+ */
+export function evaluateEligibility(
+  rules: EligibilityRule[],
+  answers: Answers,
+  steps?: readonly string[]
+): RuleResult[] {
+  return rules
+    .filter((rule) => !steps || steps.includes(RULE_KINDS[rule.kind].step))
+    .map((rule) => ({
+      ruleId: rule.id,
+      kind: rule.kind,
+      passed: passes(rule, answers),
+      message: rule.message,
+    }));
+}
+
+export const failedRules = (results: RuleResult[]) =>
+  results.filter((r) => !r.passed);
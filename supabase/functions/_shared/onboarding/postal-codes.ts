@@ -0,0 +1,206 @@
+// Bundled so address suggestions and the province check work offline and in
+// the submit-application function alike. An extract of South African street
+// postal codes for the main towns and suburbs; codes that aren't listed get
+// no suggestions and aren't checked against the province.
+
+export type PostalArea = {
+  code: string;
+  suburb: string;
+  city: string;
+  province: string;
+};
+
+// [code, suburb, city, province]
+const AREAS: [string, string, string, string][] = [
+  // Gauteng
+  ["0002", "Pretoria Central", "Pretoria", "Gauteng"],
+  ["0083", "Hatfield", "Pretoria", "Gauteng"],
+  ["0122", "Mamelodi", "Pretoria", "Gauteng"],
+  ["0152", "Soshanguve", "Pretoria", "Gauteng"],
+  ["0157", "Centurion", "Centurion", "Gauteng"],
+  ["0182", "Pretoria North", "Pretoria", "Gauteng"],
+  ["1020", "Bronkhorstspruit", "Bronkhorstspruit", "Gauteng"],
+  ["1401", "Germiston", "Germiston", "Gauteng"],
+  ["1441", "Heidelberg", "Heidelberg", "Gauteng"],
+  ["1449", "Alberton", "Alberton", "Gauteng"],
+  ["1459", "Boksburg", "Boksburg", "Gauteng"],
+  ["1490", "Nigel", "Nigel", "Gauteng"],
+  ["1501", "Benoni", "Benoni", "Gauteng"],
+  ["1559", "Springs", "Springs", "Gauteng"],
+  ["1610", "Edenvale", "Edenvale", "Gauteng"],
+  ["1619", "Kempton Park", "Kempton Park", "Gauteng"],
+  ["1632", "Tembisa", "Tembisa", "Gauteng"],
+  ["1685", "Halfway House", "Midrand", "Gauteng"],
+  ["1709", "Florida", "Roodepoort", "Gauteng"],
+  ["1724", "Roodepoort", "Roodepoort", "Gauteng"],
+  ["1739", "Krugersdorp", "Krugersdorp", "Gauteng"],
+  ["1760", "Randfontein", "Randfontein", "Gauteng"],
+  ["1804", "Orlando", "Soweto", "Gauteng"],
+  ["1911", "Vanderbijlpark", "Vanderbijlpark", "Gauteng"],
+  ["1939", "Vereeniging", "Vereeniging", "Gauteng"],
+  ["2001", "Johannesburg Central", "Johannesburg", "Gauteng"],
+  ["2092", "Melville", "Johannesburg", "Gauteng"],
+  ["2191", "Bryanston", "Sandton", "Gauteng"],
+  ["2193", "Parktown", "Johannesburg", "Gauteng"],
+  ["2194", "Randburg", "Randburg", "Gauteng"],
+  ["2194", "Ferndale", "Randburg", "Gauteng"],
+  ["2196", "Sandown", "Sandton", "Gauteng"],
+  ["2196", "Rosebank", "Johannesburg", "Gauteng"],
+  ["2198", "Houghton Estate", "Johannesburg", "Gauteng"],
+
+  // KwaZulu-Natal
+  ["2940", "Newcastle", "Newcastle", "KwaZulu-Natal"],
+  ["3100", "Vryheid", "Vryheid", "KwaZulu-Natal"],
+  ["3201", "Pietermaritzburg", "Pietermaritzburg", "KwaZulu-Natal"],
+  ["3310", "Estcourt", "Estcourt", "KwaZulu-Natal"],
+  ["3370", "Ladysmith", "Ladysmith", "KwaZulu-Natal"],
+  ["3610", "Pinetown", "Pinetown", "KwaZulu-Natal"],
+  ["3629", "Westville", "Durban", "KwaZulu-Natal"],
+  ["3650", "Hillcrest", "Hillcrest", "KwaZulu-Natal"],
+  ["3880", "Empangeni", "Empangeni", "KwaZulu-Natal"],
+  ["3900", "Richards Bay", "Richards Bay", "KwaZulu-Natal"],
+  ["4001", "Durban Central", "Durban", "KwaZulu-Natal"],
+  ["4051", "Durban North", "Durban", "KwaZulu-Natal"],
+  ["4068", "Phoenix", "Durban", "KwaZulu-Natal"],
+  ["4092", "Chatsworth", "Durban", "KwaZulu-Natal"],
+  ["4126", "Amanzimtoti", "Amanzimtoti", "KwaZulu-Natal"],
+  ["4240", "Port Shepstone", "Port Shepstone", "KwaZulu-Natal"],
+  ["4319", "Umhlanga", "Umhlanga", "KwaZulu-Natal"],
+  ["4420", "Ballito", "Ballito", "KwaZulu-Natal"],
+  ["4450", "KwaDukuza", "KwaDukuza", "KwaZulu-Natal"],
+  ["4700", "Kokstad", "Kokstad", "KwaZulu-Natal"],
+
+  // Western Cape
+  ["6500", "Mossel Bay", "Mossel Bay", "Western Cape"],
+  ["6530", "George", "George", "Western Cape"],
+  ["6570", "Knysna", "Knysna", "Western Cape"],
+  ["6625", "Oudtshoorn", "Oudtshoorn", "Western Cape"],
+  ["6850", "Worcester", "Worcester", "Western Cape"],
+  ["7130", "Somerset West", "Somerset West", "Western Cape"],
+  ["7140", "Strand", "Strand", "Western Cape"],
+  ["7200", "Hermanus", "Hermanus", "Western Cape"],
+  ["7300", "Malmesbury", "Malmesbury", "Western Cape"],
+  ["7349", "Atlantis", "Atlantis", "Western Cape"],
+  ["7380", "Vredenburg", "Vredenburg", "Western Cape"],
+  ["7441", "Milnerton", "Cape Town", "Western Cape"],
+  ["7460", "Goodwood", "Cape Town", "Western Cape"],
+  ["7500", "Parow", "Cape Town", "Western Cape"],
+  ["7530", "Bellville", "Cape Town", "Western Cape"],
+  ["7550", "Durbanville", "Cape Town", "Western Cape"],
+  ["7580", "Kuils River", "Cape Town", "Western Cape"],
+  ["7600", "Stellenbosch", "Stellenbosch", "Western Cape"],
+  ["7646", "Paarl", "Paarl", "Western Cape"],
+  ["7700", "Rondebosch", "Cape Town", "Western Cape"],
+  ["7708", "Claremont", "Cape Town", "Western Cape"],
+  ["7784", "Khayelitsha", "Cape Town", "Western Cape"],
+  ["7785", "Mitchells Plain", "Cape Town", "Western Cape"],
+  ["7800", "Wynberg", "Cape Town", "Western Cape"],
+  ["7945", "Muizenberg", "Cape Town", "Western Cape"],
+  ["8001", "Cape Town City Centre", "Cape Town", "Western Cape"],
+  ["8005", "Sea Point", "Cape Town", "Western Cape"],
+
+  // Eastern Cape
+  ["4960", "Butterworth", "Butterworth", "Eastern Cape"],
+  ["5100", "Mthatha", "Mthatha", "Eastern Cape"],
+  ["5201", "East London", "East London", "Eastern Cape"],
+  ["5219", "Mdantsane", "East London", "Eastern Cape"],
+  ["5241", "Beacon Bay", "East London", "Eastern Cape"],
+  ["5320", "Komani", "Komani", "Eastern Cape"],
+  ["5601", "Qonce", "Qonce", "Eastern Cape"],
+  ["6001", "Gqeberha Central", "Gqeberha", "Eastern Cape"],
+  ["6070", "Walmer", "Gqeberha", "Eastern Cape"],
+  ["6139", "Makhanda", "Makhanda", "Eastern Cape"],
+  ["6229", "Kariega", "Kariega", "Eastern Cape"],
+  ["6280", "Graaff-Reinet", "Graaff-Reinet", "Eastern Cape"],
+  ["6330", "Jeffreys Bay", "Jeffreys Bay", "Eastern Cape"],
+
+  // Free State
+  ["1947", "Sasolburg", "Sasolburg", "Free State"],
+  ["9301", "Bloemfontein", "Bloemfontein", "Free State"],
+  ["9430", "Virginia", "Virginia", "Free State"],
+  ["9459", "Welkom", "Welkom", "Free State"],
+  ["9499", "Kroonstad", "Kroonstad", "Free State"],
+  ["9585", "Parys", "Parys", "Free State"],
+  ["9700", "Bethlehem", "Bethlehem", "Free State"],
+  ["9781", "Botshabelo", "Botshabelo", "Free State"],
+  ["9866", "Phuthaditjhaba", "Phuthaditjhaba", "Free State"],
+  ["9880", "Harrismith", "Harrismith", "Free State"],
+
+  // Limpopo
+  ["0480", "Bela-Bela", "Bela-Bela", "Limpopo"],
+  ["0510", "Modimolle", "Modimolle", "Limpopo"],
+  ["0555", "Lephalale", "Lephalale", "Limpopo"],
+  ["0600", "Mokopane", "Mokopane", "Limpopo"],
+  ["0699", "Polokwane", "Polokwane", "Limpopo"],
+  ["0826", "Giyani", "Giyani", "Limpopo"],
+  ["0850", "Tzaneen", "Tzaneen", "Limpopo"],
+  ["0900", "Musina", "Musina", "Limpopo"],
+  ["0920", "Makhado", "Makhado", "Limpopo"],
+  ["0950", "Thohoyandou", "Thohoyandou", "Limpopo"],
+  ["1390", "Phalaborwa", "Phalaborwa", "Limpopo"],
+
+  // Mpumalanga
+  ["1035", "eMalahleni", "eMalahleni", "Mpumalanga"],
+  ["1050", "Middelburg", "Middelburg", "Mpumalanga"],
+  ["1120", "Mashishing", "Mashishing", "Mpumalanga"],
+  ["1200", "Mbombela", "Mbombela", "Mpumalanga"],
+  ["1240", "White River", "White River", "Mpumalanga"],
+  ["1242", "Hazyview", "Hazyview", "Mpumalanga"],
+  ["1300", "Barberton", "Barberton", "Mpumalanga"],
+  ["1320", "Malelane", "Malelane", "Mpumalanga"],
+  ["1340", "Komatipoort", "Komatipoort", "Mpumalanga"],
+  ["2210", "Delmas", "Delmas", "Mpumalanga"],
+  ["2302", "Secunda", "Secunda", "Mpumalanga"],
+  ["2351", "Ermelo", "Ermelo", "Mpumalanga"],
+  ["2380", "eMkhondo", "eMkhondo", "Mpumalanga"],
+  ["2430", "Standerton", "Standerton", "Mpumalanga"],
+
+  // North West
+  ["0216", "Hartbeespoort", "Hartbeespoort", "North West"],
+  ["0250", "Brits", "Brits", "North West"],
+  ["0299", "Rustenburg", "Rustenburg", "North West"],
+  ["2531", "Potchefstroom", "Potchefstroom", "North West"],
+  ["2571", "Klerksdorp", "Klerksdorp", "North West"],
+  ["2735", "Mmabatho", "Mahikeng", "North West"],
+  ["2740", "Lichtenburg", "Lichtenburg", "North West"],
+  ["2745", "Mahikeng", "Mahikeng", "North West"],
+  ["2865", "Zeerust", "Zeerust", "North West"],
+  ["8601", "Vryburg", "Vryburg", "North West"],
+
+  // Northern Cape
+  ["7000", "De Aar", "De Aar", "Northern Cape"],
+  ["8190", "Calvinia", "Calvinia", "Northern Cape"],
+  ["8240", "Springbok", "Springbok", "Northern Cape"],
+  ["8280", "Port Nolloth", "Port Nolloth", "Northern Cape"],
+  ["8301", "Kimberley", "Kimberley", "Northern Cape"],
+  ["8420", "Postmasburg", "Postmasburg", "Northern Cape"],
+  ["8446", "Kathu", "Kathu", "Northern Cape"],
+  ["8460", "Kuruman", "Kuruman", "Northern Cape"],
+  ["8801", "Upington", "Upington", "Northern Cape"],
+  ["9795", "Colesberg", "Colesberg", "Northern Cape"],
+];
+
+export const POSTAL_AREAS: PostalArea[] = AREAS.map(
+  ([code, suburb, city, province]) => ({ code, suburb, city, province })
+);
+
+export const POSTAL_CODE_REGEX = /^\d{4}$/;
+
+/** Suburbs and towns known to use a postal code. */
+export const findPostalAreas = (code: string): PostalArea[] =>
+  POSTAL_AREAS.filter((a) => a.code === code.trim());
+
+/** The province a known postal code lies in. */
+export function provinceForPostalCode(code: string): string | null {
+  const provinces = new Set(findPostalAreas(code).map((a) => a.province));
+  return provinces.size === 1 ? [...provinces][0] : null;
+}
+
+/**
+ * The province the postal code belongs to, when it is known and differs
+ * from the one given.
+ */
+export function provinceMismatch(postalCode: string, province: string): string | null {
+  const expected = provinceForPostalCode(postalCode);
+  return expected && province && expected !== province ? expected : null;
+}
@@ -0,0 +1,88 @@
+// South African ID numbers: YYMMDD SSSS C A Z
+//   YYMMDD – date of birth
+//   SSSS   – gender sequence (0000–4999 female, 5000–9999 male)
+//   C      – citizenship (0 citizen, 1 permanent resident, 2 refugee)
+//   A      – legacy race digit, now always 8 or 9
+//   Z      – Luhn check digit
+
+export type Gender = "female" | "male";
+export type Citizenship = "citizen" | "permanent_resident" | "refugee";
+
+export type SaIdDetails = {
+  dateOfBirth: string; // yyyy-mm-dd
+  gender: Gender;
+  citizenship: Citizenship;
+};
+
+export type SaIdResult =
+  | ({ valid: true } & SaIdDetails)
+  | { valid: false; error: string };
+
+const CITIZENSHIP: Record<string, Citizenship> = {
+  "0": "citizen",
+  "1": "permanent_resident",
+  "2": "refugee",
+};
+
+export const CITIZENSHIP_LABELS: Record<Citizenship, string> = {
+  citizen: "SA citizen",
+  permanent_resident: "Permanent resident",
+  refugee: "Refugee",
+};
+
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+export function parseSaIdNumber(input: string, today = new Date()): SaIdResult {
+  const id = input.replace(/\s/g, "");
+  if (!/^\d{13}$/.test(id)) {
+    return { valid: false, error: "SA ID number must be 13 digits" };
+  }
+
+  const yy = Number(id.slice(0, 2));
+  const mm = Number(id.slice(2, 4));
+  const dd = Number(id.slice(4, 6));
+  // Two-digit years later than this year belong to the previous century.
+  const currentYY = today.getFullYear() % 100;
+  const century = yy > currentYY ? 1900 : 2000;
+  const year = century + yy;
+  const dob = new Date(Date.UTC(year, mm - 1, dd));
+  if (
+    mm < 1 ||
+    mm > 12 ||
+    dob.getUTCFullYear() !== year ||
+    dob.getUTCMonth() !== mm - 1 ||
+    dob.getUTCDate() !== dd
+  ) {
+    return { valid: false, error: "ID number contains an invalid birth date" };
+  }
+  if (dob.getTime() > today.getTime()) {
+    return { valid: false, error: "ID number birth date is in the future" };
+  }
+
+  const citizenship = CITIZENSHIP[id[10]];
+  if (!citizenship) {
+    return { valid: false, error: "ID number has an invalid citizenship digit" };
+  }
+
+  if (!luhnValid(id)) {
+    return { valid: false, error: "ID number failed the checksum – check for typos" };
+  }
+
+  return {
+    valid: true,
+    dateOfBirth: dob.toISOString().slice(0, 10),
+    gender: Number(id.slice(6, 10)) < 5000 ? "female" : "male",
+    citizenship,
+  };
+}
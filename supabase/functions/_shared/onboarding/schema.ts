@@ -0,0 +1,577 @@
+// Shared by the wizard and the submit-application edge function, so local
+// imports carry explicit .ts extensions for Deno.
+import { z } from "zod";
+import { format } from "date-fns";
+import { parseSaIdNumber } from "./sa-id.ts";
+import { CROSS_BORDER_COUNTRIES, PASSPORT_REGEX } from "./countries.ts";
+import { findBank, validateAccountNumber } from "./banks.ts";
+import { POSTAL_CODE_REGEX } from "./postal-codes.ts";
+
+// Provinces list for South Africa
+export const PROVINCES = [
+  "Eastern Cape",
+  "Free State",
+  "Gauteng",
+  "KwaZulu-Natal",
+  "Limpopo",
+  "Mpumalanga",
+  "North West",
+  "Northern Cape",
+  "Western Cape",
+];
+
+// Languages the wizard is offered in; the applicant's choice is stored on the
+// application for follow-up communication
+export const LANGUAGE_CODES = ["en", "af", "zu", "st"] as const;
+
+// Large fleets are loaded with the spreadsheet import
+export const MAX_TRUCKS = 200;
+
+// 17 characters; I, O and Q aren't used so they can't be mistaken for digits
+export const VIN_REGEX = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+// Preferred origin–destination lanes an applicant may list
+export const MAX_LANES = 10;
+
+export const PHONE_REGEX = /^(?:\+27|0)[1-9][0-9]{8}$/;
+
+/** A number accepted by PHONE_REGEX in E.164 form, e.g. +27821234567. */
+export const normalisePhone = (mobile: string) =>
+  `+27${mobile.trim().replace(/^(?:\+27|0)/, "")}`;
+
+export const VEHICLE_TYPES = [
+  "Flatbed",
+  "Box Truck",
+  "Tipper",
+  "Refrigerated",
+  "Tanker",
+  "Other",
+];
+
+// Compliance documents every truck must carry, keyed by field name on the
+// truck, each with the truck field holding its expiry date (yyyy-mm-dd)
+export const TRUCK_DOCUMENTS = [
+  { key: "licenceDisc", label: "Licence Disc", expiryKey: "licenceDiscExpiry" },
+  {
+    key: "roadworthyCertificate",
+    label: "Roadworthy Certificate",
+    expiryKey: "roadworthyCertificateExpiry",
+  },
+  {
+    key: "insuranceDocument",
+    label: "Insurance Document",
+    expiryKey: "insuranceDocumentExpiry",
+  },
+] as const;
+
+export type TruckDocumentKey = (typeof TRUCK_DOCUMENTS)[number]["key"];
+
+// Photos every truck needs, in the order the applicant is asked for them
+export const TRUCK_PHOTOS = [
+  { key: "front", label: "Front", hint: "Straight on, with the number plate readable" },
+  { key: "leftSide", label: "Left side", hint: "The full length of the truck" },
+  { key: "rightSide", label: "Right side", hint: "The full length of the truck" },
+  { key: "rear", label: "Rear", hint: "Including the rear number plate" },
+  { key: "loadBed", label: "Load bed", hint: "The deck or body, empty if you can" },
+  { key: "odometer", label: "Odometer", hint: "The dashboard, with the reading in focus" },
+] as const;
+
+export type TruckPhotoKey = (typeof TRUCK_PHOTOS)[number]["key"];
+
+// Where a photo's capture time came from: the camera's EXIF data, or the
+// applicant's device clock when the photo carries none
+export const PHOTO_TIME_SOURCES = ["exif", "device"] as const;
+
+// South African driving licence codes a hauler's driver may hold
+export const LICENCE_CODES = ["B", "EB", "C1", "EC1", "C", "EC"] as const;
+
+// Documents every driver on the roster must supply, keyed by field name
+export const DRIVER_DOCUMENTS = [
+  { key: "licenceScan", label: "Driving Licence" },
+  { key: "idDocument", label: "ID Document" },
+] as const;
+
+export type DriverDocumentKey = (typeof DRIVER_DOCUMENTS)[number]["key"];
+
+/**
+ * How documents are validated. In the browser they are still File objects;
+ * by the time the server sees a submission they have been uploaded and are
+ * references to stored objects.
+ */
+export type FileSchemas<R extends z.ZodTypeAny, O extends z.ZodTypeAny> = {
+  required: (message: string) => R;
+  optional: O;
+};
+
+export const browserFiles = {
+  required: (message: string) =>
+    z.any().refine((v) => v instanceof File, message),
+  optional: z.any(),
+};
+
+// Any URL the browser sends along is dropped: documents are only ever
+// linked by signing their path
+export const fileRefSchema = z.object({
+  name: z.string(),
+  path: z.string().min(1),
+  size: z.number().nonnegative(),
+  type: z.string(),
+});
+
+export type StoredFile = z.infer<typeof fileRefSchema>;
+
+/** Uploaded documents, which must live under the application's own folder. */
+export const storedFiles = (applicationId: string) => {
+  const ref = (message: string) =>
+    z
+      .object(fileRefSchema.shape, {
+        required_error: message,
+        invalid_type_error: message,
+      })
+      .refine(
+        (f) => f.path.startsWith(`applications/${applicationId}/`),
+        "Document was not uploaded for this application"
+      );
+  return { required: ref, optional: ref("Invalid document").optional() };
+};
+
+export const todayISO = () => format(new Date(), "yyyy-MM-dd");
+
+const expiryDate = (message: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, message)
+    .refine((v) => v > todayISO(), "This document has expired");
+
+// Validated as its own schema and intersected into formSchema so the ID
+// checks run even while later steps are still incomplete.
+const identitySchema = z
+  .object({
+    identityType: z.enum(["sa_id", "passport"], {
+      required_error: "Select an identity document",
+    }),
+    idNumber: z.string().trim().min(1, "Enter ID or passport number"),
+    passportCountry: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.identityType === "sa_id") {
+      const result = parseSaIdNumber(data.idNumber);
+      if ("error" in result) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: result.error,
+          path: ["idNumber"],
+        });
+      }
+      return;
+    }
+    if (!data.passportCountry) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Select the country that issued your passport",
+        path: ["passportCountry"],
+      });
+    }
+    if (!PASSPORT_REGEX.test(data.idNumber.replace(/\s/g, "").toUpperCase())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Enter a valid passport number (6–12 letters or digits)",
+        path: ["idNumber"],
+      });
+    }
+  });
+
+// Like identitySchema, kept separate so bank rules are checked on the
+// Banking step rather than only at final submission.
+const bankingSchema = z
+  .object({
+    bankName: z.string().min(2, "Select your bank"),
+    accountNumber: z.string().trim(),
+    branchCode: z.string().regex(/^\d{6}$/, "6 digits"),
+  })
+  .superRefine((data, ctx) => {
+    const accountError = validateAccountNumber(data.bankName, data.accountNumber);
+    if (accountError) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: accountError,
+        path: ["accountNumber"],
+      });
+    }
+    const bank = findBank(data.bankName);
+    if (bank && data.branchCode !== bank.universalBranchCode) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${bank.name} uses universal branch code ${bank.universalBranchCode}`,
+        path: ["branchCode"],
+      });
+    }
+  });
+
+// A truck's particulars, which fleet operators may import from a spreadsheet
+// rather than type in; documents are always attached in the wizard
+export const truckDetailsSchema = z.object({
+  vehicleType: z.string().min(2, "Select a vehicle type"),
+  loadCapacity: z.number().min(1, "Min 1T").max(15, "Max 15T"),
+  registrationNumber: z.string().min(3, "Enter registration number"),
+  vin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((v) => v === "" || VIN_REGEX.test(v), "Enter the 17-character VIN")
+    .optional(),
+  year: z
+    .number()
+    .int("Enter a valid year")
+    .min(1970, "Enter a valid year")
+    .max(new Date().getFullYear() + 1, "Enter a valid year")
+    .optional(),
+});
+
+export type TruckDetails = z.infer<typeof truckDetailsSchema>;
+
+// Where the applicant is willing to drive. Kept separate so the cross-border
+// and city rules are checked on the Coverage step.
+const coverageSchema = z
+  .object({
+    serviceProvinces: z
+      .array(z.string())
+      .min(1, "Select at least one province you service"),
+    // Towns within the provinces above; none means anywhere in them
+    serviceCities: z
+      .array(z.object({ city: z.string().min(1), province: z.string().min(1) }))
+      .default([]),
+    lanes: z
+      .array(
+        z.object({
+          origin: z.string().trim().min(2, "Enter where loads are collected"),
+          destination: z
+            .string()
+            .trim()
+            .min(2, "Enter where loads are delivered"),
+        })
+      )
+      .max(MAX_LANES, `List up to ${MAX_LANES} lanes`)
+      .default([]),
+    crossBorder: z.enum(["yes", "no"], {
+      required_error: "Tell us whether you drive across borders",
+    }),
+    crossBorderCountries: z
+      .array(
+        z
+          .string()
+          .refine((code) => CROSS_BORDER_COUNTRIES.some((c) => c.code === code))
+      )
+      .default([]),
+  })
+  .superRefine((data, ctx) => {
+    data.serviceCities.forEach((c, i) => {
+      if (!data.serviceProvinces.includes(c.province)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Select the province this town is in",
+          path: ["serviceCities", i],
+        });
+      }
+    });
+    if (data.crossBorder === "yes" && data.crossBorderCountries.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Select the countries you drive to",
+        path: ["crossBorderCountries"],
+      });
+    }
+  });
+
+export const buildFormSchema = <R extends z.ZodTypeAny, O extends z.ZodTypeAny>(
+  files: FileSchemas<R, O>
+) => {
+  const truckPhoto = (message: string) =>
+    z.object(
+      {
+        file: files.required(message),
+        takenAt: z.string().datetime({ offset: true }),
+        source: z.enum(PHOTO_TIME_SOURCES),
+      },
+      { required_error: message, invalid_type_error: message }
+    );
+
+  return z
+    .object({
+      language: z.enum(LANGUAGE_CODES),
+
+      // Eligibility
+      ownsVehicle: z.enum(["yes", "no"], {
+        required_error: "Please select if you own a vehicle",
+      }),
+      hasRequiredDocs: z.enum(["yes", "no"], {
+        required_error: "Please confirm you have required documents",
+      }),
+
+      // Step 1: Basic Info
+      // (identity fields are in identitySchema)
+      fullName: z.string().min(2, "Enter full name"),
+      entityType: z.enum(["individual", "business"], {
+        required_error: "Select an entity type",
+      }),
+      businessName: z.string().optional(),
+      cipcNumber: z.string().optional(),
+      mobile: z.string().regex(PHONE_REGEX, "Enter a valid South African number"),
+      // Proof from the phone-verification function that the applicant
+      // received a code on `mobile`; the submit function checks it again
+      mobileVerification: z
+        .object({ mobile: z.string(), token: z.string() })
+        .optional(),
+      email: z.string().email("Enter a valid email"),
+      streetAddress: z.string().trim().min(3, "Enter the street address"),
+      suburb: z.string().trim().min(2, "Enter the suburb"),
+      city: z.string().trim().min(2, "Enter the city or town"),
+      postalCode: z.string().trim().regex(POSTAL_CODE_REGEX, "Enter a 4-digit postal code"),
+      province: z.string().min(2, "Select a province or region"),
+
+      // Step 2: Vehicle Info
+      numberOfTrucks: z
+        .number()
+        .int()
+        .min(1, "Must be at least 1")
+        .max(MAX_TRUCKS, `No more than ${MAX_TRUCKS} trucks`),
+      trucks: z
+        .array(
+          truckDetailsSchema.extend({
+            licenceDisc: files.required("Upload the licence disc"),
+            roadworthyCertificate: files.required(
+              "Upload the roadworthy certificate"
+            ),
+            insuranceDocument: files.required("Upload the insurance document"),
+            licenceDiscExpiry: expiryDate("Enter the licence disc expiry date"),
+            roadworthyCertificateExpiry: expiryDate(
+              "Enter the roadworthy certificate expiry date"
+            ),
+            insuranceDocumentExpiry: expiryDate(
+              "Enter the insurance policy expiry date"
+            ),
+            photos: z.object(
+              {
+                front: truckPhoto("Take a photo of the front"),
+                leftSide: truckPhoto("Take a photo of the left side"),
+                rightSide: truckPhoto("Take a photo of the right side"),
+                rear: truckPhoto("Take a photo of the rear"),
+                loadBed: truckPhoto("Take a photo of the load bed"),
+                odometer: truckPhoto("Take a photo of the odometer"),
+              },
+              { required_error: "Take the photos of this truck" }
+            ),
+            // A driver from the roster; empty when the owner drives it
+            driverId: z.string().optional(),
+          })
+        )
+        .min(1, "At least one truck is required")
+        .max(MAX_TRUCKS, `No more than ${MAX_TRUCKS} trucks`),
+      vehicleDocuments: z.array(files.optional),
+
+      // Step 3: Drivers employed by the owner (applications made before the
+      // roster existed have none)
+      drivers: z
+        .array(
+          z.object({
+            id: z.string().min(1),
+            fullName: z.string().trim().min(2, "Enter the driver's full name"),
+            idNumber: z
+              .string()
+              .trim()
+              .min(6, "Enter the driver's ID or passport number"),
+            licenceCode: z.enum(LICENCE_CODES, {
+              required_error: "Select a licence code",
+            }),
+            prdpNumber: z.string().trim().min(3, "Enter the PrDP number"),
+            prdpExpiry: expiryDate("Enter the PrDP expiry date"),
+            licenceScan: files.required("Upload the driving licence"),
+            idDocument: files.required("Upload the driver's ID document"),
+          })
+        )
+        .default([]),
+
+      // Step 4: Coverage (all in coverageSchema)
+
+      // Step 5: Banking (bank, account and branch are in bankingSchema)
+      accountHolder: z.string().min(2, "Enter account holder name"),
+      accountType: z.enum(["cheque", "savings", "business"], {
+        required_error: "Select account type",
+      }),
+      proofOfBank: files.optional,
+
+      // Step 6: Terms
+      acceptTerms: z.enum(["yes"], {
+        required_error: "You must accept the Terms of Use",
+      }),
+      consentStore: z.enum(["yes"], {
+        required_error: "You must consent to data storage",
+      }),
+      consentContact: z.enum(["yes"], {
+        required_error: "You must consent to be contacted",
+      }),
+      // The Terms of Use version the applicant accepted; submit-application
+      // checks it's still the current one
+      termsVersion: z.string().uuid().optional(),
+    })
+    .and(identitySchema)
+    .and(bankingSchema)
+    .and(coverageSchema)
+    .refine(
+      (data) => {
+        if (data.entityType === "business") {
+          return !!data.businessName && data.businessName.length > 1;
+        }
+        return true;
+      },
+      {
+        message: "Enter business name",
+        path: ["businessName"],
+      }
+    )
+    .refine(
+      (data) => {
+        if (data.entityType === "business") {
+          return !!data.cipcNumber && data.cipcNumber.length > 1;
+        }
+        return true;
+      },
+      {
+        message: "Enter CIPC registration number",
+        path: ["cipcNumber"],
+      }
+    )
+    .superRefine((data, ctx) => {
+      const roster = new Set(data.drivers.map((d) => d.id));
+      data.trucks.forEach((truck, i) => {
+        if (truck.driverId && !roster.has(truck.driverId)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Choose a driver from your roster",
+            path: ["trucks", i, "driverId"],
+          });
+        }
+      });
+    });
+};
+
+export const formSchema = buildFormSchema(browserFiles);
+
+export type FormValues = z.infer<typeof formSchema>;
+
+export type TruckValues = FormValues["trucks"][number];
+
+export type DriverValues = FormValues["drivers"][number];
+
+export const emptyTruck = (): TruckValues => ({
+  vehicleType: "",
+  loadCapacity: 1,
+  registrationNumber: "",
+  vin: "",
+  year: undefined,
+  licenceDisc: undefined,
+  roadworthyCertificate: undefined,
+  insuranceDocument: undefined,
+  licenceDiscExpiry: "",
+  roadworthyCertificateExpiry: "",
+  insuranceDocumentExpiry: "",
+  photos: {
+    front: undefined,
+    leftSide: undefined,
+    rightSide: undefined,
+    rear: undefined,
+    loadBed: undefined,
+    odometer: undefined,
+  },
+  driverId: "",
+});
+
+export const emptyDriver = (): DriverValues => ({
+  id: crypto.randomUUID(),
+  fullName: "",
+  idNumber: "",
+  licenceCode: undefined as DriverValues["licenceCode"],
+  prdpNumber: "",
+  prdpExpiry: "",
+  licenceScan: undefined,
+  idDocument: undefined,
+});
+
+export const defaultValues: FormValues = {
+  language: "en",
+  // eligibility
+  ownsVehicle: undefined as any,
+  hasRequiredDocs: undefined as any,
+  // step 1
+  fullName: "",
+  identityType: "sa_id",
+  idNumber: "",
+  passportCountry: "",
+  entityType: "individual",
+  businessName: "",
+  cipcNumber: "",
+  mobile: "",
+  mobileVerification: undefined,
+  email: "",
+  streetAddress: "",
+  suburb: "",
+  city: "",
+  postalCode: "",
+  province: "",
+  // step 2
+  numberOfTrucks: 1,
+  trucks: [emptyTruck()],
+  vehicleDocuments: [],
+  // step 3
+  drivers: [],
+  // step 4
+  serviceProvinces: [],
+  serviceCities: [],
+  lanes: [],
+  crossBorder: undefined as FormValues["crossBorder"],
+  crossBorderCountries: [],
+  // step 5
+  bankName: "",
+  accountHolder: "",
+  accountNumber: "",
+  accountType: undefined as any,
+  branchCode: "",
+  proofOfBank: undefined,
+  // step 6
+  acceptTerms: undefined as any,
+  consentStore: undefined as any,
+  consentContact: undefined as any,
+  termsVersion: undefined,
+};
+
+export type IdentityDetails = {
+  type: FormValues["identityType"];
+  dateOfBirth: string | null;
+  gender: "female" | "male" | null;
+  citizenship: "citizen" | "permanent_resident" | "refugee" | "foreign_national";
+  passportCountry: string | null;
+};
+
+/** Derives the identity fields stored alongside an application. */
+export function deriveIdentity(
+  data: Pick<FormValues, "identityType" | "idNumber" | "passportCountry">
+): IdentityDetails {
+  if (data.identityType === "sa_id") {
+    const result = parseSaIdNumber(data.idNumber);
+    const details = "error" in result ? null : result;
+    return {
+      type: "sa_id",
+      dateOfBirth: details?.dateOfBirth ?? null,
+      gender: details?.gender ?? null,
+      citizenship: details?.citizenship ?? "citizen",
+      passportCountry: null,
+    };
+  }
+  return {
+    type: "passport",
+    dateOfBirth: null,
+    gender: null,
+    citizenship: "foreign_national",
+    passportCountry: data.passportCountry || null,
+  };
+}
@@ -0,0 +1,46 @@
+// Text messages go out through whichever provider SMS_PROVIDER names; there
+// is no default, so a deployment that forgot to set it fails loudly instead
+// of logging codes nobody receives. The console and file providers are
+// stand-ins for local development, chosen explicitly: nothing is sent, and
+// the message can be read from the function logs or the outbox file. A real gateway is added by implementing SmsProvider and registering
+// it in `providers`.
+
+export interface SmsProvider {
+  readonly name: string;
+  /** Sends `body` to `to`, an E.164 number. Rejects if it wasn't accepted. */
+  send(to: string, body: string): Promise<void>;
+}
+
+export class ConsoleSmsProvider implements SmsProvider {
+  readonly name = "console";
+
+  send(to: string, body: string) {
+    console.log(`[sms] to ${to}: ${body}`);
+    return Promise.resolve();
+  }
+}
+
+/** Appends each message as a JSON line to SMS_OUTBOX_FILE. */
+export class FileSmsProvider implements SmsProvider {
+  readonly name = "file";
+
+  constructor(private path: string) {}
+
+  async send(to: string, body: string) {
+    const line = JSON.stringify({ to, body, sentAt: new Date().toISOString() });
+    await Deno.writeTextFile(this.path, `${line}\n`, { append: true });
+  }
+}
+
+const providers: Record<string, () => SmsProvider> = {
+  console: () => new ConsoleSmsProvider(),
+  file: () => new FileSmsProvider(Deno.env.get("SMS_OUTBOX_FILE") ?? "sms-outbox.jsonl"),
+};
+
+export function getSmsProvider(): SmsProvider {
+  const name = Deno.env.get("SMS_PROVIDER");
+  if (!name) throw new Error("SMS_PROVIDER is not set");
+  const create = providers[name];
+  if (!create) throw new Error(`Unknown SMS_PROVIDER "${name}"`);
+  return create();
+}
@@ -0,0 +1,201 @@
+// Sends and checks one-time PINs that prove an applicant can receive texts on
+// the mobile number they entered.
+//
+//   { action: "send", mobile }          texts a new code to the number
+//   { action: "verify", mobile, code }  returns { token } once the code matches
+//
+// The token goes along with the submission, and submit-application stamps
+// phone_verified_at from it. Codes are stored hashed, expire after ten
+// minutes and allow a handful of guesses; sending is rate limited per number,
+// and both sending and checking codes per client IP when the platform
+// reports one.
+//
+// Run locally with `supabase functions serve phone-verification` and
+// SMS_PROVIDER=console to have the code printed in the function logs.
+
+import { createClient } from "@supabase/supabase-js";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getSmsProvider } from "../_shared/sms.ts";
+import { normalisePhone, PHONE_REGEX } from "../_shared/onboarding/schema.ts";
+
+const CODE_LENGTH = 6;
+const CODE_TTL_MINUTES = 10;
+const MAX_ATTEMPTS = 5;
+// Per number: a pause between codes, and a cap over a rolling hour
+const RESEND_AFTER_SECONDS = 60;
+const MAX_CODES_PER_HOUR = 5;
+// Per client IP over a rolling hour, across every number
+const MAX_SENDS_PER_IP_PER_HOUR = 10;
+const MAX_VERIFIES_PER_IP_PER_HOUR = 30;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const randomCode = () => {
+  const digits = crypto.getRandomValues(new Uint32Array(CODE_LENGTH));
+  return Array.from(digits, (d) => d % 10).join("");
+};
+
+// The platform's proxy appends the address it received the request from, so
+// only the last x-forwarded-for entry can be trusted; earlier ones are
+// whatever the client sent. Without one, only the per-number limits apply.
+const clientIp = (req: Request): string | null =>
+  req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || null;
+
+async function allowFromIp(ip: string, action: "send" | "verify", perHour: number) {
+  const { data, error } = await supabase.rpc("allow_phone_verification_request", {
+    _ip: ip,
+    _action: action,
+    _per_hour: perHour,
+  });
+  if (error) throw error;
+  return data === true;
+}
+
+const tooManyFromIp = () =>
+  json({ error: "Too many attempts from your network. Try again later." }, 429);
+
+// Salted with the number so equal codes for different numbers don't match
+async function hashCode(phone: string, code: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${phone}:${code}`)
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function sendCode(phone: string, ip: string | null) {
+  if (ip && !(await allowFromIp(ip, "send", MAX_SENDS_PER_IP_PER_HOUR))) {
+    return tooManyFromIp();
+  }
+
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { data: recent, error: recentError } = await supabase
+    .from("phone_verifications")
+    .select("created_at")
+    .eq("phone", phone)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false });
+  if (recentError) throw recentError;
+
+  if (recent.length > 0) {
+    const waited = (Date.now() - Date.parse(recent[0].created_at)) / 1000;
+    if (waited < RESEND_AFTER_SECONDS) {
+      const retryAfter = Math.ceil(RESEND_AFTER_SECONDS - waited);
+      return json(
+        { error: "Please wait {seconds} seconds before asking for another code", retryAfter },
+        429
+      );
+    }
+  }
+  if (recent.length >= MAX_CODES_PER_HOUR) {
+    const oldest = Date.parse(recent[recent.length - 1].created_at);
+    const retryAfter = Math.ceil((oldest + 60 * 60 * 1000 - Date.now()) / 1000);
+    return json(
+      { error: "Too many codes were sent to this number. Try again later.", retryAfter },
+      429
+    );
+  }
+
+  const code = randomCode();
+  const { data: row, error: insertError } = await supabase
+    .from("phone_verifications")
+    .insert({
+      phone,
+      code_hash: await hashCode(phone, code),
+      expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+    })
+    .select("id")
+    .single();
+  if (insertError) throw insertError;
+
+  try {
+    await getSmsProvider().send(
+      phone,
+      `Your Lope verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`
+    );
+  } catch (err) {
+    // A code that never arrived shouldn't count towards the limits
+    await supabase.from("phone_verifications").delete().eq("id", row.id);
+    throw err;
+  }
+
+  return json({ sent: true, retryAfter: RESEND_AFTER_SECONDS });
+}
+
+async function verifyCode(phone: string, code: string, ip: string | null) {
+  if (ip && !(await allowFromIp(ip, "verify", MAX_VERIFIES_PER_IP_PER_HOUR))) {
+    return tooManyFromIp();
+  }
+
+  // The guess is counted before it is compared, in the same statement that
+  // checks guesses remain
+  const { data: attempts, error } = await supabase.rpc(
+    "take_phone_verification_attempt",
+    { _phone: phone, _max_attempts: MAX_ATTEMPTS }
+  );
+  if (error) throw error;
+  const pending = attempts?.[0];
+  if (!pending) {
+    return json({ error: "That code has expired. Ask for a new one." }, 410);
+  }
+
+  if (pending.code_hash !== (await hashCode(phone, code))) {
+    return json({ error: "That code is incorrect or has expired" }, 422);
+  }
+
+  const { error: updateError } = await supabase
+    .from("phone_verifications")
+    .update({ verified_at: new Date().toISOString() })
+    .eq("id", pending.id);
+  if (updateError) throw updateError;
+
+  return json({ token: pending.id });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  let body: { action?: unknown; mobile?: unknown; code?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+
+  if (typeof body.mobile !== "string" || !PHONE_REGEX.test(body.mobile.trim())) {
+    return json({ error: "Enter a valid South African number" }, 400);
+  }
+  const phone = normalisePhone(body.mobile);
+  const ip = clientIp(req);
+
+  try {
+    if (body.action === "send") return await sendCode(phone, ip);
+    if (body.action === "verify") {
+      if (typeof body.code !== "string" || !/^\d+$/.test(body.code)) {
+        return json({ error: "That code is incorrect or has expired" }, 422);
+      }
+      return await verifyCode(phone, body.code, ip);
+    }
+    return json({ error: "Unknown action" }, 400);
+  } catch (err) {
+    console.error(err);
+    return json({ error: "We couldn't send a code. Please try again." }, 500);
+  }
+});
@@ -0,0 +1,106 @@
+// Logs an applicant the wizard turned away, for the eligibility report. The
+// wizard sends which rules passed at the step it stopped on; only results for
+// rules that are configured are kept, with each rule's kind and message
+// taken from the rule itself, and nothing the applicant answered is stored.
+//
+//   { step, results: [{ ruleId, passed }] }  returns 204
+//
+// Run locally with `supabase functions serve record-eligibility-attempt`.
+
+import { createClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  eligibilityRuleSchema,
+  failedRules,
+  RULE_KINDS,
+  ruleKinds,
+  type EligibilityRule,
+  type RuleResult,
+} from "../_shared/onboarding/eligibility.ts";
+
+// The wizard steps a rule can be decided on
+const RULE_STEPS = [...new Set(ruleKinds.map((kind) => RULE_KINDS[kind].step))] as [
+  string,
+  ...string[],
+];
+
+const attemptSchema = z.object({
+  step: z.enum(RULE_STEPS),
+  results: z
+    .array(z.object({ ruleId: z.string().min(1).max(64), passed: z.boolean() }))
+    .min(1)
+    .max(50),
+});
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Enabled rules, plus the built-in ones the wizard falls back to while the
+// configured rules load
+async function knownRules(): Promise<Map<string, EligibilityRule>> {
+  const { data, error } = await supabase
+    .from("eligibility_rules")
+    .select("id,kind,params,message")
+    .eq("enabled", true);
+  if (error) throw error;
+  const rules = (data ?? []).flatMap((row) => {
+    const parsed = eligibilityRuleSchema.safeParse(row);
+    return parsed.success ? [parsed.data] : [];
+  });
+  return new Map([...DEFAULT_ELIGIBILITY_RULES, ...rules].map((rule) => [rule.id, rule]));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+  const parsed = attemptSchema.safeParse(body);
+  if (!parsed.success) {
+    return json({ error: "Invalid eligibility attempt" }, 400);
+  }
+
+  try {
+    const rules = await knownRules();
+    const results: RuleResult[] = parsed.data.results.flatMap(({ ruleId, passed }) => {
+      const rule = rules.get(ruleId);
+      return rule ? [{ ruleId, kind: rule.kind, passed, message: rule.message }] : [];
+    });
+    const failed = failedRules(results);
+    if (failed.length === 0) {
+      return json({ error: "No configured rule failed" }, 400);
+    }
+
+    const { error } = await supabase.from("eligibility_attempts").insert({
+      source: "wizard",
+      step: parsed.data.step,
+      results,
+      failed_rule_ids: failed.map((r) => r.ruleId),
+    });
+    if (error) throw error;
+    return new Response(null, { status: 204, headers: corsHeaders });
+  } catch (err) {
+    console.error(err);
+    return json({ error: "Could not record the attempt" }, 500);
+  }
+});
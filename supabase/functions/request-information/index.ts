@@ -0,0 +1,124 @@
+// Sends an application back to the applicant for corrections and texts them
+// the link that reopens the wizard. The database records the request as the
+// reviewer, so it checks they are one; the link then goes to the
+// application's mobile number through the same SMS provider
+// phone-verification uses.
+//
+//   { applicationId, items, message }  returns { token, notified }
+//
+// Links point at SITE_URL, or the reviewer's own origin when it isn't set.
+// A text that couldn't be sent leaves the request in place, and the reviewer
+// can still copy the link.
+//
+// Run locally with `supabase functions serve request-information`.
+
+import { createClient } from "@supabase/supabase-js";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getSmsProvider } from "../_shared/sms.ts";
+import { isCorrectionItem } from "../_shared/onboarding/corrections.ts";
+import { normalisePhone, PHONE_REGEX } from "../_shared/onboarding/schema.ts";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Errors raised by request_application_info that the reviewer can act on
+const requestErrors: Record<string, number> = {
+  "42501": 403,
+  "22023": 400,
+};
+
+async function textLink(applicationId: string, link: string): Promise<boolean> {
+  const { data: application, error } = await supabase
+    .from("onboarding_applications")
+    .select("phone")
+    .eq("id", applicationId)
+    .maybeSingle();
+  if (error) throw error;
+  const phone = application?.phone;
+  if (!phone || !PHONE_REGEX.test(phone)) return false;
+
+  await getSmsProvider().send(
+    normalisePhone(phone),
+    `Lope needs more information about your application. Update it here: ${link}`
+  );
+  return true;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Only reviewers can request information" }, 401);
+  }
+
+  let body: { applicationId?: unknown; items?: unknown; message?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+  const { applicationId, items, message } = body;
+  if (typeof applicationId !== "string" || !UUID_REGEX.test(applicationId)) {
+    return json({ error: "Invalid application id" }, 400);
+  }
+  if (!Array.isArray(items) || !items.every(isCorrectionItem)) {
+    return json({ error: "Choose what the applicant should correct" }, 400);
+  }
+  if (typeof message !== "string") {
+    return json({ error: "Say what the applicant still needs to provide" }, 400);
+  }
+
+  const reviewer = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { auth: { persistSession: false }, global: { headers: { Authorization: authorization } } }
+  );
+  const { data: token, error } = await reviewer.rpc("request_application_info", {
+    _application_id: applicationId,
+    _items: items,
+    _message: message,
+  });
+  if (error) {
+    const status = requestErrors[error.code];
+    if (status) return json({ error: error.message }, status);
+    console.error(error);
+    return json({ error: "Could not send the request" }, 500);
+  }
+
+  const site = Deno.env.get("SITE_URL") ?? req.headers.get("origin");
+  let notified = false;
+  if (site) {
+    try {
+      notified = await textLink(applicationId, `${site.replace(/\/$/, "")}/resubmit/${token}`);
+    } catch (err) {
+      console.error(`Could not text the link for ${applicationId}`, err);
+    }
+  }
+  if (notified) {
+    const { error: notedError } = await supabase
+      .from("application_requests")
+      .update({ notified_at: new Date().toISOString() })
+      .eq("token", token);
+    if (notedError) console.error(notedError);
+  }
+
+  return json({ token, notified });
+});
@@ -0,0 +1,95 @@
+// Reveals the banking details of an application to a reviewer with the
+// banking_viewer role. The database does the reveal as the reviewer, so it
+// checks their role and logs the reason given. Reviewers can't read bank
+// statements from storage themselves: the statement on record is signed here
+// for a minute and only after that reveal succeeded.
+//
+//   { applicationId, reason }  returns the details, proofOfBank with a url
+//
+// Run locally with `supabase functions serve reveal-banking`.
+
+import { createClient } from "@supabase/supabase-js";
+import { corsHeaders } from "../_shared/cors.ts";
+
+const DOCUMENTS_BUCKET = "onboarding-documents";
+const STATEMENT_URL_SECONDS = 60;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Errors raised by reveal_application_banking that the reviewer can act on
+const revealErrors: Record<string, number> = {
+  "42501": 403,
+  "22023": 400,
+  P0002: 404,
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) {
+    return json({ error: "Sign in to reveal banking details" }, 401);
+  }
+
+  let body: { applicationId?: unknown; reason?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+  const { applicationId, reason } = body;
+  if (typeof applicationId !== "string" || !UUID_REGEX.test(applicationId)) {
+    return json({ error: "Invalid application id" }, 400);
+  }
+  if (typeof reason !== "string") {
+    return json({ error: "Say why you need to see the banking details", code: "22023" }, 400);
+  }
+
+  const reviewer = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { auth: { persistSession: false }, global: { headers: { Authorization: authorization } } }
+  );
+  const { data, error } = await reviewer.rpc("reveal_application_banking", {
+    _application_id: applicationId,
+    _reason: reason,
+  });
+  if (error) {
+    const status = revealErrors[error.code];
+    if (status) return json({ error: error.message, code: error.code }, status);
+    console.error(error);
+    return json({ error: "Could not reveal the banking details" }, 500);
+  }
+
+  const details = (data ?? {}) as { proofOfBank?: { path?: string; url?: string } };
+  const statement = details.proofOfBank;
+  if (statement?.path) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .createSignedUrl(statement.path, STATEMENT_URL_SECONDS);
+    if (signError) {
+      console.error(signError);
+      return json({ error: "Could not reveal the banking details" }, 500);
+    }
+    details.proofOfBank = { ...statement, url: signed.signedUrl };
+  }
+  return json(details);
+});
@@ -0,0 +1,450 @@
+// Accepts a finished onboarding submission whose documents have already been
+// uploaded to storage. Re-validates it with the wizard's own schema and the
+// configured eligibility rules, checks the mobile number was verified by
+// phone-verification and that the current Terms of Use were accepted, then
+// writes the application, its document references and the consents given in
+// one transaction. Banking details go to the database separately from the
+// payload, to be encrypted there.
+// If anything fails, every object uploaded for the application is removed so
+// no orphaned documents are left behind.
+//
+// With a requestToken it instead accepts the applicant's corrections to an
+// application that needs more information. Only the requested fields are
+// taken from the submission, new documents live in a folder of their own,
+// and a failure removes just those, leaving the earlier version intact.
+//
+// Run locally with `supabase functions serve submit-application`.
+
+import { createClient } from "@supabase/supabase-js";
+import { corsHeaders } from "../_shared/cors.ts";
+import {
+  buildFormSchema,
+  deriveIdentity,
+  DRIVER_DOCUMENTS,
+  normalisePhone,
+  storedFiles,
+  TRUCK_DOCUMENTS,
+  TRUCK_PHOTOS,
+  type DriverDocumentKey,
+  type StoredFile,
+  type TruckDocumentKey,
+} from "../_shared/onboarding/schema.ts";
+import {
+  correctionItemsFor,
+  mergeCorrections,
+} from "../_shared/onboarding/corrections.ts";
+import { provinceMismatch } from "../_shared/onboarding/postal-codes.ts";
+import { CONSENT_SCOPES } from "../_shared/onboarding/consent.ts";
+import {
+  eligibilityRuleSchema,
+  evaluateEligibility,
+  failedRules,
+  type EligibilityRule,
+} from "../_shared/onboarding/eligibility.ts";
+
+const DOCUMENTS_BUCKET = "onboarding-documents";
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const documentKinds: Record<TruckDocumentKey, string> = {
+  licenceDisc: "licence_disc",
+  roadworthyCertificate: "roadworthy_certificate",
+  insuranceDocument: "insurance_document",
+};
+
+const driverDocumentKinds: Record<DriverDocumentKey, string> = {
+  licenceScan: "driver_licence",
+  idDocument: "driver_id_document",
+};
+
+type DocumentRow = StoredFile & {
+  kind: string;
+  truck_index: number | null;
+  driver_index?: number;
+  photo_shot?: string;
+  captured_at?: string;
+  capture_source?: string;
+};
+
+const supabase = createClient(
+  Deno.env.get("SUPABASE_URL")!,
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  { auth: { persistSession: false } }
+);
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/** Lists every object below a storage folder, descending into subfolders. */
+async function listObjects(folder: string): Promise<string[]> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .list(folder, { limit: 1000 });
+  if (error) throw error;
+
+  const paths: string[] = [];
+  for (const item of data ?? []) {
+    const path = `${folder}/${item.name}`;
+    // Folders come back without an id
+    if (item.id) paths.push(path);
+    else paths.push(...(await listObjects(path)));
+  }
+  return paths;
+}
+
+async function removeUploads(folder: string) {
+  try {
+    const paths = await listObjects(folder);
+    if (paths.length > 0) {
+      const { error } = await supabase.storage
+        .from(DOCUMENTS_BUCKET)
+        .remove(paths);
+      if (error) throw error;
+    }
+  } catch (err) {
+    console.error(`Could not clean up uploads in ${folder}`, err);
+  }
+}
+
+// Rows that no longer parse are skipped rather than blocking every applicant
+async function loadEligibilityRules(): Promise<EligibilityRule[]> {
+  const { data, error } = await supabase
+    .from("eligibility_rules")
+    .select("id,kind,params,message")
+    .eq("enabled", true)
+    .order("position");
+  if (error) throw error;
+  return (data ?? []).flatMap((row) => {
+    const parsed = eligibilityRuleSchema.safeParse(row);
+    if (!parsed.success) console.warn(`Skipping invalid eligibility rule ${row.id}`);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// When the phone-verification function confirmed this number, within the
+// last day, for the token the applicant was given
+async function phoneVerifiedAt(
+  mobile: string,
+  token: string | undefined
+): Promise<string | null> {
+  if (!token || !UUID_REGEX.test(token)) return null;
+  const { data, error } = await supabase
+    .from("phone_verifications")
+    .select("verified_at")
+    .eq("id", token)
+    .eq("phone", normalisePhone(mobile))
+    .gt("verified_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+    .maybeSingle();
+  if (error) throw error;
+  return data?.verified_at ?? null;
+}
+
+// The latest published Terms of Use, which new applications must accept
+async function currentTermsVersion(): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("terms_versions")
+    .select("id")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+// Submissions may be anonymous; a signed-in applicant is linked to the row
+async function currentUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  const { data } = await supabase.auth.getUser(token);
+  return data.user?.id ?? null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  let body: { applicationId?: unknown; values?: unknown; requestToken?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+
+  const applicationId = body.applicationId;
+  if (typeof applicationId !== "string" || !UUID_REGEX.test(applicationId)) {
+    return json({ error: "Invalid application id" }, 400);
+  }
+
+  const requestToken = body.requestToken;
+  if (
+    requestToken !== undefined &&
+    (typeof requestToken !== "string" || !UUID_REGEX.test(requestToken))
+  ) {
+    return json({ error: "Invalid request token" }, 400);
+  }
+
+  // Checked before anything can trigger a cleanup, so a replayed request
+  // can't delete the documents of an application that already exists
+  let correction: { request_id: string; items: string[]; payload: unknown } | null = null;
+  if (requestToken) {
+    const { data: requests, error: lookupError } = await supabase.rpc(
+      "get_info_request",
+      { _token: requestToken }
+    );
+    if (lookupError) {
+      console.error(lookupError);
+      return json({ error: "Submission failed. Please try again." }, 500);
+    }
+    correction = requests?.find((r) => r.application_id === applicationId) ?? null;
+    if (!correction) {
+      return json({ error: "This request has already been answered" }, 409);
+    }
+
+    // Banking details aren't sent back to the applicant; unless they were
+    // asked to change them, the stored ones are kept
+    const { data: banking, error: bankingError } = await supabase.rpc(
+      "info_request_banking",
+      { _token: requestToken }
+    );
+    if (bankingError) {
+      console.error(bankingError);
+      return json({ error: "Submission failed. Please try again." }, 500);
+    }
+    correction = {
+      ...correction,
+      payload: { ...(correction.payload as Record<string, unknown>), ...(banking ?? {}) },
+    };
+  } else {
+    const { data: existing, error: lookupError } = await supabase
+      .from("onboarding_applications")
+      .select("id")
+      .eq("id", applicationId)
+      .maybeSingle();
+    if (lookupError) {
+      console.error(lookupError);
+      return json({ error: "Submission failed. Please try again." }, 500);
+    }
+    if (existing) {
+      return json({ error: "This application has already been submitted" }, 409);
+    }
+  }
+
+  const uploadFolder = correction
+    ? `applications/${applicationId}/resubmissions/${correction.request_id}`
+    : `applications/${applicationId}`;
+  const previous = (correction?.payload ?? {}) as Record<string, unknown>;
+  const values = correction
+    ? mergeCorrections(
+        previous,
+        (body.values ?? {}) as Record<string, unknown>,
+        correctionItemsFor(previous, correction.items)
+      )
+    : body.values;
+
+  try {
+    const parsed = buildFormSchema(storedFiles(applicationId)).safeParse(values);
+    if (!parsed.success) {
+      await removeUploads(uploadFolder);
+      return json(
+        {
+          error: "Some answers are invalid",
+          issues: parsed.error.issues.map((i) => ({
+            path: i.path.join("."),
+            message: i.message,
+          })),
+        },
+        422
+      );
+    }
+    const data = parsed.data;
+
+    const eligibility = evaluateEligibility(await loadEligibilityRules(), data);
+    const failed = failedRules(eligibility);
+    if (failed.length > 0) {
+      await removeUploads(uploadFolder);
+      const { error: attemptError } = await supabase
+        .from("eligibility_attempts")
+        .insert({
+          source: "server",
+          results: eligibility,
+          failed_rule_ids: failed.map((r) => r.ruleId),
+        });
+      if (attemptError) console.error(attemptError);
+      return json(
+        {
+          error: "This application doesn't meet our eligibility requirements",
+          issues: failed.map((r) => ({ path: "eligibility", message: r.message })),
+        },
+        422
+      );
+    }
+
+    // A number kept unchanged in a correction stays verified (or not) as it
+    // was; any other number must have been verified for this submission
+    const previousMobile = (correction?.payload as { mobile?: string } | null)?.mobile;
+    const mobileChanged = !correction || data.mobile !== previousMobile;
+    const verifiedAt = mobileChanged
+      ? await phoneVerifiedAt(data.mobile, data.mobileVerification?.token)
+      : undefined;
+    if (mobileChanged && !verifiedAt) {
+      await removeUploads(uploadFolder);
+      return json(
+        {
+          error: "Verify your mobile number",
+          issues: [{ path: "mobile", message: "Verify your mobile number" }],
+        },
+        422
+      );
+    }
+
+    // Terms published while the applicant was filling in the form have to be
+    // read and accepted first
+    if (!correction && data.termsVersion !== (await currentTermsVersion())) {
+      await removeUploads(uploadFolder);
+      return json(
+        {
+          error: "The Terms of Use have changed",
+          issues: [
+            {
+              path: "acceptTerms",
+              message: "Our Terms of Use were updated. Read and accept the new version.",
+            },
+          ],
+        },
+        422
+      );
+    }
+
+    const documents: DocumentRow[] = [
+      ...data.vehicleDocuments
+        .filter((f): f is StoredFile => !!f)
+        .map((f) => ({ ...f, kind: "vehicle_document", truck_index: null })),
+      ...data.trucks.flatMap((truck, i) =>
+        TRUCK_DOCUMENTS.map((doc) => ({
+          ...truck[doc.key],
+          kind: documentKinds[doc.key],
+          truck_index: i,
+        }))
+      ),
+      ...data.trucks.flatMap((truck, i) =>
+        TRUCK_PHOTOS.map((shot) => ({
+          ...truck.photos[shot.key].file,
+          kind: "truck_photo",
+          truck_index: i,
+          photo_shot: shot.key,
+          captured_at: truck.photos[shot.key].takenAt,
+          capture_source: truck.photos[shot.key].source,
+        }))
+      ),
+      ...data.drivers.flatMap((driver, i) =>
+        DRIVER_DOCUMENTS.map((doc) => ({
+          ...driver[doc.key],
+          kind: driverDocumentKinds[doc.key],
+          truck_index: null,
+          driver_index: i,
+        }))
+      ),
+    ];
+    // Its reference is kept with the encrypted banking details instead
+    const bankStatement: DocumentRow[] = data.proofOfBank
+      ? [{ ...data.proofOfBank, kind: "bank_proof", truck_index: null }]
+      : [];
+
+    const stored = new Set(await listObjects(`applications/${applicationId}`));
+    const missing = [...documents, ...bankStatement].filter((d) => !stored.has(d.path));
+    if (missing.length > 0) {
+      await removeUploads(uploadFolder);
+      return json(
+        {
+          error: `Documents were not received: ${missing.map((d) => d.name).join(", ")}`,
+        },
+        422
+      );
+    }
+
+    const identity = deriveIdentity(data);
+    // Encrypted by the database; never stored in the payload
+    const { accountNumber, branchCode, proofOfBank, ...answers } = data;
+    const application = {
+      applicant_name: data.fullName,
+      email: data.email,
+      phone: data.mobile,
+      id_type: identity.type,
+      date_of_birth: identity.dateOfBirth,
+      gender: identity.gender,
+      citizenship: identity.citizenship,
+      preferred_language: data.language,
+      address_street: data.streetAddress,
+      address_suburb: data.suburb,
+      address_city: data.city,
+      address_postal_code: data.postalCode,
+      address_province: data.province,
+      // The applicant is warned but may go ahead; reviewers see the flag
+      province_mismatch: !!provinceMismatch(data.postalCode, data.province),
+      eligibility_results: eligibility,
+      ...(mobileChanged && { phone_verified_at: verifiedAt }),
+      payload: { ...answers, mobileVerification: undefined, identity },
+      banking: { accountNumber, branchCode, proofOfBank },
+    };
+
+    if (correction) {
+      const { error: resubmitError } = await supabase.rpc(
+        "resubmit_onboarding_application",
+        {
+          _request_id: correction.request_id,
+          _application: application,
+          _documents: documents,
+        }
+      );
+      if (resubmitError) {
+        // Lost a race with another answer to the same request, which shares
+        // this upload folder – leave its documents alone
+        if (resubmitError.code === "P0002") {
+          return json({ error: "This request has already been answered" }, 409);
+        }
+        throw resubmitError;
+      }
+      return json({ id: applicationId });
+    }
+
+    const { error: submitError } = await supabase.rpc(
+      "submit_onboarding_application",
+      {
+        _application: {
+          ...application,
+          id: applicationId,
+          user_id: await currentUserId(req),
+          consents: CONSENT_SCOPES.map(({ field, scope }) => ({
+            scope,
+            granted: data[field] === "yes",
+            terms_version_id: data.termsVersion,
+            language: data.language,
+            user_agent: req.headers.get("user-agent"),
+          })),
+        },
+        _documents: documents,
+      }
+    );
+    if (submitError) {
+      // Lost a race with an identical request – that one owns the uploads
+      if (submitError.code === "23505") {
+        return json({ error: "This application has already been submitted" }, 409);
+      }
+      throw submitError;
+    }
+
+    return json({ id: applicationId });
+  } catch (err) {
+    console.error(err);
+    await removeUploads(uploadFolder);
+    return json({ error: "Submission failed. Please try again." }, 500);
+  }
+});
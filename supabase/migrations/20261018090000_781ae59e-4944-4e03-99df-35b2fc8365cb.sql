@@ -0,0 +1,90 @@
+-- Server-side drafts for the hauler onboarding wizard
+
+CREATE TABLE IF NOT EXISTS public.onboarding_drafts (
+  email text PRIMARY KEY,
+  resume_token uuid NOT NULL,
+  form_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  files jsonb NOT NULL DEFAULT '{}'::jsonb,
+  step integer NOT NULL DEFAULT 0,
+  current_truck_index integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_drafts_updated_at ON public.onboarding_drafts (updated_at DESC);
+
+-- Drafts are only reachable through the functions below; no direct anon access
+ALTER TABLE public.onboarding_drafts ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all drafts"
+  ON public.onboarding_drafts
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE TRIGGER set_onboarding_drafts_updated_at
+  BEFORE UPDATE ON public.onboarding_drafts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Upsert a draft. An existing draft is only overwritten by the browser that
+-- created it (same resume token), so knowing an email is not enough.
+CREATE OR REPLACE FUNCTION public.save_onboarding_draft(
+  _email text,
+  _resume_token uuid,
+  _form_values jsonb,
+  _files jsonb,
+  _step integer,
+  _current_truck_index integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.onboarding_drafts (email, resume_token, form_values, files, step, current_truck_index)
+  VALUES (lower(trim(_email)), _resume_token, _form_values, _files, _step, _current_truck_index)
+  ON CONFLICT (email) DO UPDATE
+    SET form_values = EXCLUDED.form_values,
+        files = EXCLUDED.files,
+        step = EXCLUDED.step,
+        current_truck_index = EXCLUDED.current_truck_index
+    WHERE public.onboarding_drafts.resume_token = EXCLUDED.resume_token;
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_onboarding_draft(_email text, _resume_token uuid)
+RETURNS TABLE (
+  form_values jsonb,
+  files jsonb,
+  step integer,
+  current_truck_index integer,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.form_values, d.files, d.step, d.current_truck_index, d.updated_at
+  FROM public.onboarding_drafts d
+  WHERE d.email = lower(trim(_email)) AND d.resume_token = _resume_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_onboarding_draft(_email text, _resume_token uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.onboarding_drafts
+  WHERE email = lower(trim(_email)) AND resume_token = _resume_token;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_onboarding_draft(text, uuid, jsonb, jsonb, integer, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_onboarding_draft(text, uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_onboarding_draft(text, uuid) TO anon, authenticated;
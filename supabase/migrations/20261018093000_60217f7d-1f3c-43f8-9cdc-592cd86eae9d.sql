@@ -0,0 +1,20 @@
+-- Identity details derived from the applicant's SA ID number or passport,
+-- stored in columns so admins can filter on them
+
+ALTER TABLE public.onboarding_applications
+  ADD COLUMN IF NOT EXISTS id_type text CHECK (id_type IN ('sa_id','passport')),
+  ADD COLUMN IF NOT EXISTS date_of_birth date,
+  ADD COLUMN IF NOT EXISTS gender text CHECK (gender IN ('female','male')),
+  ADD COLUMN IF NOT EXISTS citizenship text CHECK (citizenship IN ('citizen','permanent_resident','refugee','foreign_national'));
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_applications_citizenship ON public.onboarding_applications (citizenship);
+CREATE INDEX IF NOT EXISTS idx_onboarding_applications_gender ON public.onboarding_applications (gender);
+CREATE INDEX IF NOT EXISTS idx_onboarding_applications_date_of_birth ON public.onboarding_applications (date_of_birth);
+
+-- Backfill from payloads submitted before the columns existed
+UPDATE public.onboarding_applications
+SET id_type = COALESCE(payload->'identity'->>'type', id_type),
+    date_of_birth = COALESCE((payload->'identity'->>'dateOfBirth')::date, date_of_birth),
+    gender = COALESCE(payload->'identity'->>'gender', gender),
+    citizenship = COALESCE(payload->'identity'->>'citizenship', citizenship)
+WHERE payload ? 'identity';
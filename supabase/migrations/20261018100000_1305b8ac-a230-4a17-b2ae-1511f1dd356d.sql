@@ -0,0 +1,63 @@
+-- Expiry dates for per-truck compliance documents
+
+DO $$ BEGIN
+  CREATE TYPE public.truck_document_type AS ENUM ('licence_disc','roadworthy_certificate','insurance_document');
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+CREATE TABLE IF NOT EXISTS public.document_expiries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  truck_index integer NOT NULL,
+  registration_number text,
+  document_type public.truck_document_type NOT NULL,
+  document_path text,
+  expires_on date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (application_id, truck_index, document_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_expiries_expires_on ON public.document_expiries (expires_on);
+
+ALTER TABLE public.document_expiries ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all document expiries"
+  ON public.document_expiries
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Keep document_expiries in step with the trucks in an application payload
+CREATE OR REPLACE FUNCTION public.sync_document_expiries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.document_expiries WHERE application_id = NEW.id;
+
+  INSERT INTO public.document_expiries (application_id, truck_index, registration_number, document_type, document_path, expires_on)
+  SELECT NEW.id,
+         (t.ordinality - 1)::integer,
+         t.truck->>'registrationNumber',
+         d.document_type,
+         t.truck->d.doc_key->>'path',
+         (t.truck->>d.expiry_key)::date
+  FROM jsonb_array_elements(COALESCE(NEW.payload->'trucks', '[]'::jsonb)) WITH ORDINALITY AS t(truck, ordinality)
+  CROSS JOIN (VALUES
+    ('licence_disc'::public.truck_document_type, 'licenceDisc', 'licenceDiscExpiry'),
+    ('roadworthy_certificate'::public.truck_document_type, 'roadworthyCertificate', 'roadworthyCertificateExpiry'),
+    ('insurance_document'::public.truck_document_type, 'insuranceDocument', 'insuranceDocumentExpiry')
+  ) AS d(document_type, doc_key, expiry_key)
+  WHERE COALESCE(t.truck->>d.expiry_key, '') <> '';
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$ BEGIN
+  CREATE TRIGGER sync_onboarding_application_document_expiries
+  AFTER INSERT OR UPDATE OF payload ON public.onboarding_applications
+  FOR EACH ROW EXECUTE FUNCTION public.sync_document_expiries();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
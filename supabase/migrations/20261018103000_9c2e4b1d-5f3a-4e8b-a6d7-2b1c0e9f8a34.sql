@@ -0,0 +1,71 @@
+-- Applications are now written only by the submit-application edge function,
+-- which validates the submission and records its documents in one transaction
+
+CREATE TABLE IF NOT EXISTS public.application_documents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('vehicle_document','licence_disc','roadworthy_certificate','insurance_document','bank_proof')),
+  truck_index integer,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  size_bytes bigint NOT NULL,
+  content_type text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_documents_application_id ON public.application_documents (application_id);
+
+ALTER TABLE public.application_documents ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application documents"
+  ON public.application_documents
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Inserts the application and its document references atomically
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship'
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.submit_onboarding_application(jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_onboarding_application(jsonb, jsonb) TO service_role;
+
+DROP POLICY IF EXISTS "Anyone can insert applications" ON public.onboarding_applications;
@@ -0,0 +1,57 @@
+-- Language the applicant completed the wizard in, so follow-up contact can
+-- be made in the same language
+
+ALTER TABLE public.onboarding_applications
+  ADD COLUMN IF NOT EXISTS preferred_language text NOT NULL DEFAULT 'en';
+
+DO $$ BEGIN
+  ALTER TABLE public.onboarding_applications
+    ADD CONSTRAINT onboarding_applications_preferred_language_check
+    CHECK (preferred_language IN ('en','af','zu','st'));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+UPDATE public.onboarding_applications
+SET preferred_language = payload->>'language'
+WHERE payload->>'language' IN ('en','af','zu','st')
+  AND preferred_language IS DISTINCT FROM payload->>'language';
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en')
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,141 @@
+-- Applicant status portal: a timeline of status changes, reviewer requests
+-- applicants can see, and a way to link applications to a verified email
+
+CREATE TABLE IF NOT EXISTS public.application_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  status public.app_status NOT NULL,
+  previous_status public.app_status,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_events_application_id ON public.application_events (application_id, created_at);
+
+ALTER TABLE public.application_events ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.application_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  message text NOT NULL CHECK (length(btrim(message)) > 0),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_requests_application_id ON public.application_requests (application_id);
+
+ALTER TABLE public.application_requests ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application events"
+  ON public.application_events
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view events for their own applications"
+  ON public.application_events
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.onboarding_applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid()
+  ));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can manage application requests"
+  ON public.application_requests
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Users can view requests for their own applications"
+  ON public.application_requests
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.onboarding_applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid()
+  ));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Applicants can now sign in, so they must not be able to change their own
+-- status; reviewers remain the only writers
+DROP POLICY IF EXISTS "Users can update their own applications" ON public.onboarding_applications;
+
+-- Record every status an application passes through
+CREATE OR REPLACE FUNCTION public.log_application_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.application_events (application_id, status, actor_id, created_at)
+    VALUES (NEW.id, NEW.status, auth.uid(), NEW.submitted_at);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.application_events (application_id, status, previous_status, actor_id)
+    VALUES (NEW.id, NEW.status, OLD.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$ BEGIN
+  CREATE TRIGGER log_onboarding_application_status
+  AFTER INSERT OR UPDATE OF status ON public.onboarding_applications
+  FOR EACH ROW EXECUTE FUNCTION public.log_application_status();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Existing applications start their timeline at submission, plus their
+-- current status when it has moved on since
+INSERT INTO public.application_events (application_id, status, created_at)
+SELECT a.id, 'pending', a.submitted_at
+FROM public.onboarding_applications a
+WHERE NOT EXISTS (SELECT 1 FROM public.application_events e WHERE e.application_id = a.id);
+
+INSERT INTO public.application_events (application_id, status, previous_status, created_at)
+SELECT a.id, a.status, 'pending', a.updated_at
+FROM public.onboarding_applications a
+WHERE a.status <> 'pending'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.application_events e
+    WHERE e.application_id = a.id AND e.status = a.status
+  );
+
+-- Links applications submitted without an account to the signed-in user once
+-- they have proven they own the email address
+CREATE OR REPLACE FUNCTION public.claim_onboarding_applications()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email text;
+  _count integer;
+BEGIN
+  SELECT u.email INTO _email
+  FROM auth.users u
+  WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL;
+
+  IF _email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.onboarding_applications
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL AND lower(email) = lower(_email);
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_onboarding_applications() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_onboarding_applications() TO authenticated;
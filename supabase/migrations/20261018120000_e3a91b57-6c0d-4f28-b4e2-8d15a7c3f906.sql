@@ -0,0 +1,3 @@
+-- Applications that are missing something go back to the applicant instead
+-- of being rejected. Added on its own so later migrations can use the value.
+ALTER TYPE public.app_status ADD VALUE IF NOT EXISTS 'needs_info' AFTER 'in_review';
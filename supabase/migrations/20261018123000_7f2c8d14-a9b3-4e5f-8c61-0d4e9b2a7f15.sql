@@ -0,0 +1,149 @@
+-- Reviewers can send an application back for specific corrections. The
+-- applicant follows a link carrying the request's token to reopen the wizard,
+-- and each resubmission keeps the version it replaced.
+
+ALTER TABLE public.application_requests
+  ADD COLUMN IF NOT EXISTS items text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS token uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_application_requests_token ON public.application_requests (token);
+
+ALTER TABLE public.onboarding_applications
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS public.application_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  payload jsonb NOT NULL,
+  submitted_at timestamptz NOT NULL,
+  replaced_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (application_id, version)
+);
+
+ALTER TABLE public.application_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application versions"
+  ON public.application_versions
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Records what the applicant must correct and sends the application back
+CREATE OR REPLACE FUNCTION public.request_application_info(_application_id uuid, _items text[], _message text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can request information' USING ERRCODE = '42501';
+  END IF;
+  IF coalesce(array_length(_items, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item for the applicant to correct' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.application_requests (application_id, message, items)
+  VALUES (_application_id, _message, _items)
+  RETURNING token INTO _token;
+
+  UPDATE public.onboarding_applications
+  SET status = 'needs_info'
+  WHERE id = _application_id;
+
+  RETURN _token;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_application_info(uuid, text[], text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_application_info(uuid, text[], text) TO authenticated;
+
+-- The open request behind a resubmission link, with the answers to pre-fill
+CREATE OR REPLACE FUNCTION public.get_info_request(_token uuid)
+RETURNS TABLE (
+  request_id uuid,
+  application_id uuid,
+  items text[],
+  message text,
+  payload jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, a.id, r.items, r.message, a.payload
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.token = _token
+    AND r.resolved_at IS NULL
+    AND a.status = 'needs_info';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_info_request(uuid) TO anon, authenticated;
+
+-- Keeps the current version, applies the corrected one and returns the
+-- application to the review queue
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resubmit_onboarding_application(uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resubmit_onboarding_application(uuid, jsonb, jsonb) TO service_role;
@@ -0,0 +1,190 @@
+-- Eligibility rules admins can edit without a release. The wizard and the
+-- submit-application function both evaluate them; each application keeps
+-- the results it was accepted with, and turned-away attempts are logged.
+
+CREATE TABLE IF NOT EXISTS public.eligibility_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('owns_vehicle','has_required_docs','province_in','min_load_capacity','vehicle_types_in','business_for_fleet_over')),
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  message text NOT NULL CHECK (length(btrim(message)) > 0),
+  enabled boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.eligibility_rules ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE TRIGGER set_eligibility_rules_updated_at
+  BEFORE UPDATE ON public.eligibility_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Anyone can view enabled eligibility rules"
+  ON public.eligibility_rules
+  FOR SELECT TO anon, authenticated
+  USING (enabled);
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can manage eligibility rules"
+  ON public.eligibility_rules
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- The two checks the wizard used to hard-code
+INSERT INTO public.eligibility_rules (kind, message, position)
+SELECT v.kind, v.message, v.position
+FROM (VALUES
+  ('owns_vehicle', 'Reject: Driver only not allowed', 0),
+  ('has_required_docs', 'Reject: Missing roadworthy or insurance', 1)
+) AS v(kind, message, position)
+WHERE NOT EXISTS (SELECT 1 FROM public.eligibility_rules r WHERE r.kind = v.kind);
+
+ALTER TABLE public.onboarding_applications
+  ADD COLUMN IF NOT EXISTS eligibility_results jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.eligibility_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  source text NOT NULL CHECK (source IN ('wizard','server')),
+  step text,
+  results jsonb NOT NULL,
+  failed_rule_ids text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_eligibility_attempts_created_at ON public.eligibility_attempts (created_at DESC);
+
+ALTER TABLE public.eligibility_attempts ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all eligibility attempts"
+  ON public.eligibility_attempts
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Called by the wizard when an applicant is turned away. Only rule results
+-- are kept, never the applicant's answers.
+CREATE OR REPLACE FUNCTION public.record_ineligible_attempt(_step text, _results jsonb)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.eligibility_attempts (source, step, results, failed_rule_ids)
+  SELECT 'wizard',
+         left(_step, 40),
+         _results,
+         COALESCE(array_agg(r->>'ruleId') FILTER (WHERE (r->>'passed')::boolean IS NOT TRUE), '{}')
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(_results) = 'array' THEN _results ELSE '[]'::jsonb END
+  ) AS r;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_ineligible_attempt(text, jsonb) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb)
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
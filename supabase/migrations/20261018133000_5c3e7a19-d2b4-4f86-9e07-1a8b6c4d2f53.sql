@@ -0,0 +1,239 @@
+-- Driver roster: drivers a fleet owner employs, kept in step with the
+-- application payload so reviewers can verify each one
+
+ALTER TABLE public.application_documents
+  ADD COLUMN IF NOT EXISTS driver_index integer;
+
+ALTER TABLE public.application_documents
+  DROP CONSTRAINT IF EXISTS application_documents_kind_check;
+
+ALTER TABLE public.application_documents
+  ADD CONSTRAINT application_documents_kind_check
+  CHECK (kind IN ('vehicle_document','licence_disc','roadworthy_certificate','insurance_document','bank_proof','driver_licence','driver_id_document'));
+
+CREATE TABLE IF NOT EXISTS public.application_drivers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  driver_key text NOT NULL,
+  full_name text NOT NULL,
+  id_number text NOT NULL,
+  licence_code text NOT NULL,
+  prdp_number text NOT NULL,
+  prdp_expires_on date NOT NULL,
+  licence_document_path text,
+  id_document_path text,
+  truck_indexes integer[] NOT NULL DEFAULT '{}',
+  verified_at timestamptz,
+  verified_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (application_id, driver_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_drivers_prdp_expires_on ON public.application_drivers (prdp_expires_on);
+
+ALTER TABLE public.application_drivers ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application drivers"
+  ON public.application_drivers
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE TRIGGER update_application_drivers_updated_at
+  BEFORE UPDATE ON public.application_drivers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Keep application_drivers in step with payload->'drivers'. A driver whose
+-- details or documents change on resubmission has to be verified again.
+CREATE OR REPLACE FUNCTION public.sync_application_drivers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.application_drivers ad
+  WHERE ad.application_id = NEW.id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(COALESCE(NEW.payload->'drivers', '[]'::jsonb)) AS d
+      WHERE d->>'id' = ad.driver_key
+    );
+
+  INSERT INTO public.application_drivers AS ad (
+    application_id, driver_key, full_name, id_number, licence_code, prdp_number,
+    prdp_expires_on, licence_document_path, id_document_path, truck_indexes
+  )
+  SELECT NEW.id,
+         d->>'id',
+         d->>'fullName',
+         d->>'idNumber',
+         d->>'licenceCode',
+         d->>'prdpNumber',
+         (d->>'prdpExpiry')::date,
+         d->'licenceScan'->>'path',
+         d->'idDocument'->>'path',
+         ARRAY(
+           SELECT (t.ordinality - 1)::integer
+           FROM jsonb_array_elements(COALESCE(NEW.payload->'trucks', '[]'::jsonb)) WITH ORDINALITY AS t(truck, ordinality)
+           WHERE t.truck->>'driverId' = d->>'id'
+           ORDER BY t.ordinality
+         )
+  FROM jsonb_array_elements(COALESCE(NEW.payload->'drivers', '[]'::jsonb)) AS d
+  ON CONFLICT (application_id, driver_key) DO UPDATE
+  SET full_name = EXCLUDED.full_name,
+      id_number = EXCLUDED.id_number,
+      licence_code = EXCLUDED.licence_code,
+      prdp_number = EXCLUDED.prdp_number,
+      prdp_expires_on = EXCLUDED.prdp_expires_on,
+      licence_document_path = EXCLUDED.licence_document_path,
+      id_document_path = EXCLUDED.id_document_path,
+      truck_indexes = EXCLUDED.truck_indexes,
+      verified_at = CASE
+        WHEN (ad.full_name, ad.id_number, ad.licence_code, ad.prdp_number, ad.prdp_expires_on, ad.licence_document_path, ad.id_document_path)
+             IS DISTINCT FROM (EXCLUDED.full_name, EXCLUDED.id_number, EXCLUDED.licence_code, EXCLUDED.prdp_number, EXCLUDED.prdp_expires_on, EXCLUDED.licence_document_path, EXCLUDED.id_document_path)
+        THEN NULL ELSE ad.verified_at END,
+      verified_by = CASE
+        WHEN (ad.full_name, ad.id_number, ad.licence_code, ad.prdp_number, ad.prdp_expires_on, ad.licence_document_path, ad.id_document_path)
+             IS DISTINCT FROM (EXCLUDED.full_name, EXCLUDED.id_number, EXCLUDED.licence_code, EXCLUDED.prdp_number, EXCLUDED.prdp_expires_on, EXCLUDED.licence_document_path, EXCLUDED.id_document_path)
+        THEN NULL ELSE ad.verified_by END;
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$ BEGIN
+  CREATE TRIGGER sync_onboarding_application_drivers
+  AFTER INSERT OR UPDATE OF payload ON public.onboarding_applications
+  FOR EACH ROW EXECUTE FUNCTION public.sync_application_drivers();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Marks a driver as checked by the signed-in reviewer, or clears the mark
+CREATE OR REPLACE FUNCTION public.set_driver_verified(_driver_id uuid, _verified boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can verify drivers' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.application_drivers
+  SET verified_at = CASE WHEN _verified THEN now() END,
+      verified_by = CASE WHEN _verified THEN auth.uid() END
+  WHERE id = _driver_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_driver_verified(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_driver_verified(uuid, boolean) TO authenticated;
+
+-- Driver documents are recorded with the roster position they belong to
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb)
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
@@ -0,0 +1,130 @@
+-- Mobile numbers verified with a one-time PIN sent by SMS
+
+CREATE TABLE IF NOT EXISTS public.phone_verifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone text NOT NULL,
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  verified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_verifications_phone ON public.phone_verifications (phone, created_at DESC);
+
+-- Only the phone-verification and submit-application functions read or
+-- write codes, using the service role
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.onboarding_applications
+  ADD COLUMN IF NOT EXISTS phone_verified_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results, phone_verified_at
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb),
+    NULLIF(_application->>'phone_verified_at', '')::timestamptz
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      -- Left out when the number is unchanged and was verified before
+      phone_verified_at = CASE
+        WHEN _application ? 'phone_verified_at'
+        THEN NULLIF(_application->>'phone_verified_at', '')::timestamptz
+        ELSE phone_verified_at
+      END,
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- The applicant's address captured in parts, stored in columns so
+-- applications can be reported on by region
+
+ALTER TABLE public.onboarding_applications
+  ADD COLUMN IF NOT EXISTS address_street text,
+  ADD COLUMN IF NOT EXISTS address_suburb text,
+  ADD COLUMN IF NOT EXISTS address_city text,
+  ADD COLUMN IF NOT EXISTS address_postal_code text,
+  ADD COLUMN IF NOT EXISTS address_province text,
+  -- Set when the province chosen isn't the one the postal code belongs to
+  ADD COLUMN IF NOT EXISTS province_mismatch boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_applications_address_province ON public.onboarding_applications (address_province);
+CREATE INDEX IF NOT EXISTS idx_onboarding_applications_address_city ON public.onboarding_applications (address_city);
+CREATE INDEX IF NOT EXISTS idx_onboarding_applications_address_postal_code ON public.onboarding_applications (address_postal_code);
+
+-- Earlier applications have a single free-text address; only the province
+-- can be carried over. The rest is asked for on their next correction.
+UPDATE public.onboarding_applications
+SET address_province = payload->>'province'
+WHERE address_province IS NULL
+  AND payload->>'province' IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results, phone_verified_at,
+    address_street, address_suburb, address_city, address_postal_code,
+    address_province, province_mismatch
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb),
+    NULLIF(_application->>'phone_verified_at', '')::timestamptz,
+    _application->>'address_street',
+    _application->>'address_suburb',
+    _application->>'address_city',
+    _application->>'address_postal_code',
+    _application->>'address_province',
+    COALESCE((_application->>'province_mismatch')::boolean, false)
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      -- Left out when the number is unchanged and was verified before
+      phone_verified_at = CASE
+        WHEN _application ? 'phone_verified_at'
+        THEN NULLIF(_application->>'phone_verified_at', '')::timestamptz
+        ELSE phone_verified_at
+      END,
+      address_street = _application->>'address_street',
+      address_suburb = _application->>'address_suburb',
+      address_city = _application->>'address_city',
+      address_postal_code = _application->>'address_postal_code',
+      address_province = _application->>'address_province',
+      province_mismatch = COALESCE((_application->>'province_mismatch')::boolean, false),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', '')
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Where haulers are willing to drive: the provinces and towns they service,
+-- their preferred lanes and the countries they cross into. Kept in step with
+-- the application payload so dispatch can filter by coverage.
+
+CREATE TABLE IF NOT EXISTS public.application_service_areas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  province text NOT NULL,
+  -- NULL when the hauler services the whole province
+  city text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_service_areas_application_id ON public.application_service_areas (application_id);
+CREATE INDEX IF NOT EXISTS idx_application_service_areas_province ON public.application_service_areas (province, city);
+
+CREATE TABLE IF NOT EXISTS public.application_lanes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  origin text NOT NULL,
+  destination text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (application_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_lanes_origin ON public.application_lanes (lower(origin));
+CREATE INDEX IF NOT EXISTS idx_application_lanes_destination ON public.application_lanes (lower(destination));
+
+CREATE TABLE IF NOT EXISTS public.application_cross_border_countries (
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  -- ISO 3166-1 alpha-3
+  country_code text NOT NULL,
+  PRIMARY KEY (application_id, country_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_cross_border_countries_country ON public.application_cross_border_countries (country_code);
+
+ALTER TABLE public.application_service_areas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.application_lanes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.application_cross_border_countries ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application service areas"
+  ON public.application_service_areas
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application lanes"
+  ON public.application_lanes
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application cross-border countries"
+  ON public.application_cross_border_countries
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Rebuilt from payload on every change; nothing is recorded against these
+-- rows, so replacing them outright is safe
+CREATE OR REPLACE FUNCTION public.sync_application_coverage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.application_service_areas WHERE application_id = NEW.id;
+  DELETE FROM public.application_lanes WHERE application_id = NEW.id;
+  DELETE FROM public.application_cross_border_countries WHERE application_id = NEW.id;
+
+  INSERT INTO public.application_service_areas (application_id, province, city)
+  SELECT NEW.id, p, NULL
+  FROM jsonb_array_elements_text(COALESCE(NEW.payload->'serviceProvinces', '[]'::jsonb)) AS p
+  UNION ALL
+  SELECT NEW.id, c->>'province', c->>'city'
+  FROM jsonb_array_elements(COALESCE(NEW.payload->'serviceCities', '[]'::jsonb)) AS c;
+
+  INSERT INTO public.application_lanes (application_id, position, origin, destination)
+  SELECT NEW.id, (l.ordinality - 1)::integer, l.lane->>'origin', l.lane->>'destination'
+  FROM jsonb_array_elements(COALESCE(NEW.payload->'lanes', '[]'::jsonb)) WITH ORDINALITY AS l(lane, ordinality);
+
+  IF NEW.payload->>'crossBorder' = 'yes' THEN
+    INSERT INTO public.application_cross_border_countries (application_id, country_code)
+    SELECT DISTINCT NEW.id, code
+    FROM jsonb_array_elements_text(COALESCE(NEW.payload->'crossBorderCountries', '[]'::jsonb)) AS code;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DO $$ BEGIN
+  CREATE TRIGGER sync_onboarding_application_coverage
+  AFTER INSERT OR UPDATE OF payload ON public.onboarding_applications
+  FOR EACH ROW EXECUTE FUNCTION public.sync_application_coverage();
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Applications made before this step have no coverage in their payload; it
+-- is asked for on their next correction, and the trigger picks it up then.
@@ -0,0 +1,153 @@
+-- Guided truck photos: each truck's set of required shots is stored as
+-- documents of kind 'truck_photo', with the angle and when it was taken
+
+ALTER TABLE public.application_documents
+  ADD COLUMN IF NOT EXISTS photo_shot text,
+  ADD COLUMN IF NOT EXISTS captured_at timestamptz,
+  -- 'exif' when the time came from the photo itself, 'device' when it's the
+  -- applicant's clock at the moment the photo was attached
+  ADD COLUMN IF NOT EXISTS capture_source text CHECK (capture_source IN ('exif','device'));
+
+ALTER TABLE public.application_documents
+  DROP CONSTRAINT IF EXISTS application_documents_kind_check;
+
+ALTER TABLE public.application_documents
+  ADD CONSTRAINT application_documents_kind_check
+  CHECK (kind IN ('vehicle_document','licence_disc','roadworthy_certificate','insurance_document','bank_proof','driver_licence','driver_id_document','truck_photo'));
+
+ALTER TABLE public.application_documents
+  DROP CONSTRAINT IF EXISTS application_documents_photo_shot_check;
+
+ALTER TABLE public.application_documents
+  ADD CONSTRAINT application_documents_photo_shot_check
+  CHECK ((kind = 'truck_photo') = (photo_shot IS NOT NULL));
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results, phone_verified_at,
+    address_street, address_suburb, address_city, address_postal_code,
+    address_province, province_mismatch
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb),
+    NULLIF(_application->>'phone_verified_at', '')::timestamptz,
+    _application->>'address_street',
+    _application->>'address_suburb',
+    _application->>'address_city',
+    _application->>'address_postal_code',
+    _application->>'address_province',
+    COALESCE((_application->>'province_mismatch')::boolean, false)
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type, photo_shot, captured_at, capture_source)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', ''),
+         d->>'photo_shot',
+         NULLIF(d->>'captured_at', '')::timestamptz,
+         d->>'capture_source'
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      -- Left out when the number is unchanged and was verified before
+      phone_verified_at = CASE
+        WHEN _application ? 'phone_verified_at'
+        THEN NULLIF(_application->>'phone_verified_at', '')::timestamptz
+        ELSE phone_verified_at
+      END,
+      address_street = _application->>'address_street',
+      address_suburb = _application->>'address_suburb',
+      address_city = _application->>'address_city',
+      address_postal_code = _application->>'address_postal_code',
+      address_province = _application->>'address_province',
+      province_mismatch = COALESCE((_application->>'province_mismatch')::boolean, false),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type, photo_shot, captured_at, capture_source)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', ''),
+         d->>'photo_shot',
+         NULLIF(d->>'captured_at', '')::timestamptz,
+         d->>'capture_source'
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
@@ -0,0 +1,80 @@
+-- Anonymous funnel events from the onboarding wizard, sent only once the
+-- applicant has agreed to analytics. A random per-visit session id ties the
+-- events of one visit together; nothing links them to an application, and
+-- only field names are kept, never the answers.
+CREATE TABLE IF NOT EXISTS public.onboarding_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL,
+  kind text NOT NULL CHECK (kind IN (
+    'step_entered',
+    'step_completed',
+    'validation_failed',
+    'eligibility_rejected',
+    'submission_failed',
+    'submitted'
+  )),
+  step text,
+  field text,
+  detail text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_onboarding_events_created_at ON public.onboarding_events (created_at DESC);
+
+ALTER TABLE public.onboarding_events ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all onboarding events"
+  ON public.onboarding_events
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+CREATE OR REPLACE FUNCTION public.record_onboarding_event(
+  _session_id uuid,
+  _kind text,
+  _step text,
+  _field text,
+  _detail text
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.onboarding_events (session_id, kind, step, field, detail)
+  VALUES (_session_id, _kind, left(_step, 40), left(_field, 80), left(_detail, 120));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_onboarding_event(uuid, text, text, text, text) TO anon, authenticated;
+
+-- Daily counts for the analytics page. Sessions are distinct per day, so a
+-- visit that runs past midnight is counted on both days.
+CREATE OR REPLACE FUNCTION public.onboarding_funnel(_since timestamptz)
+RETURNS TABLE (day date, kind text, step text, field text, detail text, sessions bigint, events bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can read onboarding analytics' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT (e.created_at AT TIME ZONE 'Africa/Johannesburg')::date,
+         e.kind,
+         e.step,
+         e.field,
+         e.detail,
+         count(DISTINCT e.session_id),
+         count(*)
+  FROM public.onboarding_events e
+  WHERE e.created_at >= _since
+  GROUP BY 1, 2, 3, 4, 5;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.onboarding_funnel(timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.onboarding_funnel(timestamptz) TO authenticated;
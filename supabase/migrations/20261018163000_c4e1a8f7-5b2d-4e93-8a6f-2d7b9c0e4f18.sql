@@ -0,0 +1,241 @@
+-- Terms of Use are published as numbered, immutable versions; the latest is
+-- the one applicants accept. Every consent is appended to a ledger with the
+-- version shown, the scope, when it was given and the browser it came from.
+CREATE TABLE IF NOT EXISTS public.terms_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer NOT NULL UNIQUE CHECK (version > 0),
+  title text NOT NULL,
+  body text NOT NULL,
+  change_summary text,
+  published_at timestamptz NOT NULL DEFAULT now(),
+  published_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.terms_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Anyone can read published terms"
+  ON public.terms_versions
+  FOR SELECT TO anon, authenticated
+  USING (true);
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- The terms every application so far was submitted under
+INSERT INTO public.terms_versions (version, title, body, published_at)
+VALUES (
+  1,
+  'Terms of Use',
+  E'By continuing, you agree to provide accurate information and maintain valid documentation for your fleet.\n\nData is processed according to our privacy policy. You can request deletion at any time.',
+  '2025-01-01T00:00:00Z'
+)
+ON CONFLICT (version) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.consent_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  terms_version_id uuid NOT NULL REFERENCES public.terms_versions(id),
+  scope text NOT NULL CHECK (scope IN ('terms','data_storage','contact')),
+  granted boolean NOT NULL DEFAULT true,
+  language text,
+  user_agent text,
+  -- 'backfill' marks consents given before the ledger existed
+  source text NOT NULL CHECK (source IN ('application','status_page','backfill')),
+  recorded_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_records_application ON public.consent_records (application_id, scope, recorded_at DESC);
+
+ALTER TABLE public.consent_records ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: rows are written by the functions below and never changed
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all consent records"
+  ON public.consent_records
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Applicants can select their own consent records"
+  ON public.consent_records
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.onboarding_applications a
+    WHERE a.id = application_id AND a.user_id = auth.uid()
+  ));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Applications already submitted accepted all three on the original terms
+INSERT INTO public.consent_records (application_id, terms_version_id, scope, language, source, recorded_at)
+SELECT a.id, v.id, s.scope, a.preferred_language, 'backfill', a.submitted_at
+FROM public.onboarding_applications a
+CROSS JOIN public.terms_versions v
+CROSS JOIN (VALUES ('terms'), ('data_storage'), ('contact')) AS s(scope)
+WHERE v.version = 1
+  AND NOT EXISTS (SELECT 1 FROM public.consent_records r WHERE r.application_id = a.id);
+
+-- Publishes the next version of the terms, which applicants accept from now on
+CREATE OR REPLACE FUNCTION public.publish_terms_version(_title text, _body text, _change_summary text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _version integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can publish terms' USING ERRCODE = '42501';
+  END IF;
+  IF coalesce(btrim(_title), '') = '' OR coalesce(btrim(_body), '') = '' THEN
+    RAISE EXCEPTION 'Terms need a title and text' USING ERRCODE = '22023';
+  END IF;
+
+  LOCK TABLE public.terms_versions IN EXCLUSIVE MODE;
+  SELECT COALESCE(max(version), 0) + 1 INTO _version FROM public.terms_versions;
+
+  INSERT INTO public.terms_versions (version, title, body, change_summary, published_by)
+  VALUES (_version, btrim(_title), btrim(_body), NULLIF(btrim(_change_summary), ''), auth.uid());
+
+  RETURN _version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_terms_version(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_terms_version(text, text, text) TO authenticated;
+
+-- A signed-in applicant accepting the latest terms from the status page
+CREATE OR REPLACE FUNCTION public.accept_terms(_application_id uuid, _terms_version_id uuid, _language text, _user_agent text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.onboarding_applications
+    WHERE id = _application_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Application not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF _terms_version_id IS DISTINCT FROM (
+    SELECT id FROM public.terms_versions ORDER BY version DESC LIMIT 1
+  ) THEN
+    RAISE EXCEPTION 'These terms have been replaced by a newer version' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.consent_records (application_id, terms_version_id, scope, language, user_agent, source)
+  VALUES (_application_id, _terms_version_id, 'terms', NULLIF(_language, ''), left(_user_agent, 500), 'status_page');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.accept_terms(uuid, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_terms(uuid, uuid, text, text) TO authenticated;
+
+-- Haulers whose latest acceptance is of an older version than the current one.
+-- Rejected applications are left out.
+CREATE OR REPLACE FUNCTION public.terms_reacceptance_due()
+RETURNS TABLE (
+  application_id uuid,
+  applicant_name text,
+  email text,
+  status public.app_status,
+  accepted_version integer,
+  accepted_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can see consent records' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.id, a.applicant_name, a.email, a.status, latest.version, latest.recorded_at
+  FROM public.onboarding_applications a
+  LEFT JOIN LATERAL (
+    SELECT v.version, r.recorded_at
+    FROM public.consent_records r
+    JOIN public.terms_versions v ON v.id = r.terms_version_id
+    WHERE r.application_id = a.id AND r.scope = 'terms' AND r.granted
+    ORDER BY v.version DESC, r.recorded_at DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE a.status <> 'rejected'
+    AND COALESCE(latest.version, 0) < (SELECT max(v.version) FROM public.terms_versions v)
+  ORDER BY a.submitted_at DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.terms_reacceptance_due() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.terms_reacceptance_due() TO authenticated;
+
+-- The submitted consents are written to the ledger with the application
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results, phone_verified_at,
+    address_street, address_suburb, address_city, address_postal_code,
+    address_province, province_mismatch
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb),
+    NULLIF(_application->>'phone_verified_at', '')::timestamptz,
+    _application->>'address_street',
+    _application->>'address_suburb',
+    _application->>'address_city',
+    _application->>'address_postal_code',
+    _application->>'address_province',
+    COALESCE((_application->>'province_mismatch')::boolean, false)
+  );
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type, photo_shot, captured_at, capture_source)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', ''),
+         d->>'photo_shot',
+         NULLIF(d->>'captured_at', '')::timestamptz,
+         d->>'capture_source'
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  INSERT INTO public.consent_records (application_id, terms_version_id, scope, granted, language, user_agent, source)
+  SELECT _id,
+         (c->>'terms_version_id')::uuid,
+         c->>'scope',
+         COALESCE((c->>'granted')::boolean, true),
+         NULLIF(c->>'language', ''),
+         left(c->>'user_agent', 500),
+         'application'
+  FROM jsonb_array_elements(COALESCE(_application->'consents', '[]'::jsonb)) AS c;
+
+  RETURN _id;
+END;
+$$;
@@ -0,0 +1,194 @@
+-- Requests from applicants under POPIA to see, correct or erase the personal
+-- information we hold about them. Applicants lodge them from the status page
+-- and reviewers work through them before the due date.
+CREATE TABLE IF NOT EXISTS public.data_subject_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Not a foreign key: the request is kept after the application is erased
+  application_id uuid NOT NULL,
+  reference text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('access','correction','deletion')),
+  details text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open','completed','declined')),
+  due_at timestamptz NOT NULL DEFAULT now() + interval '30 days',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolution text
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_open ON public.data_subject_requests (status, due_at);
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_user ON public.data_subject_requests (user_id, created_at DESC);
+
+ALTER TABLE public.data_subject_requests ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all data subject requests"
+  ON public.data_subject_requests
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  CREATE POLICY "Applicants can select their own data subject requests"
+  ON public.data_subject_requests
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- What remains of an erased application: enough to show it existed and when
+-- and why it was erased, and nothing that identifies the applicant
+CREATE TABLE IF NOT EXISTS public.application_erasures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL UNIQUE,
+  reference text NOT NULL,
+  request_id uuid REFERENCES public.data_subject_requests(id) ON DELETE SET NULL,
+  submitted_at timestamptz NOT NULL,
+  status_at_erasure public.app_status NOT NULL,
+  document_count integer NOT NULL DEFAULT 0,
+  erased_at timestamptz NOT NULL DEFAULT now(),
+  erased_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.application_erasures ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application erasures"
+  ON public.application_erasures
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- A signed-in applicant asking about one of their applications
+CREATE OR REPLACE FUNCTION public.lodge_data_request(_application_id uuid, _kind text, _details text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.onboarding_applications
+    WHERE id = _application_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Application not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.data_subject_requests
+    WHERE application_id = _application_id AND kind = _kind AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'A request of this kind is already open' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.data_subject_requests (application_id, reference, user_id, kind, details)
+  VALUES (
+    _application_id,
+    upper(left(_application_id::text, 8)),
+    auth.uid(),
+    _kind,
+    NULLIF(left(btrim(_details), 2000), '')
+  )
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.lodge_data_request(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.lodge_data_request(uuid, text, text) TO authenticated;
+
+-- Closes an open request with a note for the applicant
+CREATE OR REPLACE FUNCTION public.resolve_data_request(_request_id uuid, _status text, _resolution text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can resolve data requests' USING ERRCODE = '42501';
+  END IF;
+  IF _status NOT IN ('completed', 'declined') THEN
+    RAISE EXCEPTION 'Unknown status %', _status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.data_subject_requests
+  SET status = _status,
+      resolution = NULLIF(btrim(_resolution), ''),
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE id = _request_id AND status = 'open';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request is no longer open' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_data_request(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.resolve_data_request(uuid, text, text) TO authenticated;
+
+-- Erases the application a deletion request is about. Its documents must
+-- already have been removed from storage. Related rows go with it through
+-- their foreign keys; drafts and phone verifications are matched on the
+-- applicant's email and number. An anonymised stub is left behind, and the
+-- application's requests keep only what the audit trail needs.
+CREATE OR REPLACE FUNCTION public.erase_application(_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.data_subject_requests;
+  _application public.onboarding_applications;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+    RAISE EXCEPTION 'Only reviewers can erase applications' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _request FROM public.data_subject_requests
+  WHERE id = _request_id AND kind = 'deletion' AND status = 'open'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open deletion request' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _application FROM public.onboarding_applications
+  WHERE id = _request.application_id
+  FOR UPDATE;
+  IF FOUND THEN
+    INSERT INTO public.application_erasures (
+      application_id, reference, request_id, submitted_at, status_at_erasure, document_count, erased_by
+    )
+    SELECT _application.id,
+           _request.reference,
+           _request.id,
+           _application.submitted_at,
+           _application.status,
+           (SELECT count(*) FROM public.application_documents WHERE application_id = _application.id),
+           auth.uid();
+
+    DELETE FROM public.onboarding_drafts WHERE lower(email) = lower(_application.email);
+    DELETE FROM public.phone_verifications
+    WHERE phone = '+27' || regexp_replace(btrim(coalesce(_application.phone, '')), '^(\+27|0)', '');
+    DELETE FROM public.onboarding_applications WHERE id = _application.id;
+  END IF;
+
+  UPDATE public.data_subject_requests
+  SET details = NULL,
+      user_id = NULL
+  WHERE application_id = _request.application_id;
+
+  UPDATE public.data_subject_requests
+  SET status = 'completed',
+      resolution = 'Application and documents erased',
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE application_id = _request.application_id AND status = 'open';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.erase_application(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.erase_application(uuid) TO authenticated;
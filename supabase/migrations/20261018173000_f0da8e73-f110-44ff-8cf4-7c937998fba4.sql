@@ -0,0 +1,375 @@
+-- Banking details are kept out of the application payload. The account
+-- number, branch code and bank statement reference are encrypted with a key
+-- held in Vault; reviewers see them masked, and only those given the
+-- banking_viewer role can reveal them, each time with a reason that is logged.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS supabase_vault WITH SCHEMA vault;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'banking_details_key') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'base64'),
+      'banking_details_key',
+      'Encrypts the banking details in public.application_banking'
+    );
+  END IF;
+END $$;
+
+-- Granted alongside admin to reviewers who may see full banking details
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'banking_viewer';
+
+CREATE OR REPLACE FUNCTION public.banking_key()
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key text;
+BEGIN
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'banking_details_key';
+  IF _key IS NULL THEN
+    RAISE EXCEPTION 'The banking details key is missing from Vault';
+  END IF;
+  RETURN _key;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.banking_key() FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS public.application_banking (
+  application_id uuid PRIMARY KEY REFERENCES public.onboarding_applications(id) ON DELETE CASCADE,
+  -- Shown in place of the account number
+  account_number_last4 text,
+  -- accountNumber, branchCode and proofOfBank, as encrypted JSON
+  details bytea NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.application_banking ENABLE ROW LEVEL SECURITY;
+
+-- The ciphertext is never handed out, even to admins
+REVOKE ALL ON public.application_banking FROM anon, authenticated;
+GRANT SELECT (application_id, account_number_last4, updated_at) ON public.application_banking TO authenticated;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select all application banking"
+  ON public.application_banking
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Every reveal of an application's banking details. Not a foreign key, so
+-- the log outlives an erased application.
+CREATE TABLE IF NOT EXISTS public.banking_access_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id uuid NOT NULL,
+  accessed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  accessed_by_email text,
+  reason text NOT NULL,
+  accessed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_banking_access_log_application ON public.banking_access_log (application_id, accessed_at DESC);
+
+ALTER TABLE public.banking_access_log ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  CREATE POLICY "Admins can select the banking access log"
+  ON public.banking_access_log
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Encrypts the secret banking answers of a submission and keeps the last
+-- four digits of the account number for display
+CREATE OR REPLACE FUNCTION public.store_application_banking(_application_id uuid, _banking jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.application_banking (application_id, account_number_last4, details)
+  VALUES (
+    _application_id,
+    NULLIF(right(_banking->>'accountNumber', 4), ''),
+    extensions.pgp_sym_encrypt(
+      jsonb_strip_nulls(jsonb_build_object(
+        'accountNumber', _banking->'accountNumber',
+        'branchCode', _banking->'branchCode',
+        'proofOfBank', _banking->'proofOfBank'
+      ))::text,
+      public.banking_key(),
+      'cipher-algo=aes256'
+    )
+  )
+  ON CONFLICT (application_id) DO UPDATE
+  SET account_number_last4 = EXCLUDED.account_number_last4,
+      details = EXCLUDED.details,
+      updated_at = now();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.store_application_banking(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.decrypt_application_banking(_application_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _details bytea;
+BEGIN
+  SELECT details INTO _details FROM public.application_banking WHERE application_id = _application_id;
+  IF _details IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN extensions.pgp_sym_decrypt(_details, public.banking_key())::jsonb;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.decrypt_application_banking(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Whether the signed-in reviewer may reveal banking details
+CREATE OR REPLACE FUNCTION public.can_reveal_banking()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN public.has_role(auth.uid(), 'admin'::public.app_role)
+     AND public.has_role(auth.uid(), 'banking_viewer'::public.app_role);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.can_reveal_banking() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.can_reveal_banking() TO authenticated;
+
+-- The decrypted banking details of an application, for a reviewer with the
+-- banking_viewer role who says why they need them
+CREATE OR REPLACE FUNCTION public.reveal_application_banking(_application_id uuid, _reason text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _details jsonb;
+BEGIN
+  IF NOT public.can_reveal_banking() THEN
+    RAISE EXCEPTION 'You don''t have permission to reveal banking details' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Say why you need to see the banking details' USING ERRCODE = '22023';
+  END IF;
+
+  _details := public.decrypt_application_banking(_application_id);
+  IF _details IS NULL THEN
+    RAISE EXCEPTION 'No banking details are on record for this application' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.banking_access_log (application_id, accessed_by, accessed_by_email, reason)
+  VALUES (_application_id, auth.uid(), auth.jwt()->>'email', btrim(_reason));
+
+  RETURN _details;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reveal_application_banking(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reveal_application_banking(uuid, text) TO authenticated;
+
+-- Move banking details already submitted out of the payload. Earlier
+-- versions lose theirs: only the current details are kept, encrypted.
+SELECT public.store_application_banking(id, payload)
+FROM public.onboarding_applications
+WHERE payload ?| array['accountNumber', 'branchCode', 'proofOfBank'];
+
+UPDATE public.onboarding_applications
+SET payload = payload - 'accountNumber' - 'branchCode' - 'proofOfBank'
+WHERE payload ?| array['accountNumber', 'branchCode', 'proofOfBank'];
+
+UPDATE public.application_versions
+SET payload = payload - 'accountNumber' - 'branchCode' - 'proofOfBank'
+WHERE payload ?| array['accountNumber', 'branchCode', 'proofOfBank'];
+
+DELETE FROM public.application_documents WHERE kind = 'bank_proof';
+
+-- The applicant correcting an application gets their own banking details
+-- back, so answers they weren't asked to change still validate
+CREATE OR REPLACE FUNCTION public.get_info_request(_token uuid)
+RETURNS TABLE (
+  request_id uuid,
+  application_id uuid,
+  items text[],
+  message text,
+  payload jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, a.id, r.items, r.message,
+         a.payload || COALESCE(public.decrypt_application_banking(a.id), '{}'::jsonb)
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.token = _token
+    AND r.resolved_at IS NULL
+    AND a.status = 'needs_info';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_info_request(uuid) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.submit_onboarding_application(_application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := (_application->>'id')::uuid;
+BEGIN
+  INSERT INTO public.onboarding_applications (
+    id, user_id, applicant_name, email, phone, status, payload,
+    id_type, date_of_birth, gender, citizenship, preferred_language,
+    eligibility_results, phone_verified_at,
+    address_street, address_suburb, address_city, address_postal_code,
+    address_province, province_mismatch
+  ) VALUES (
+    _id,
+    NULLIF(_application->>'user_id', '')::uuid,
+    _application->>'applicant_name',
+    _application->>'email',
+    _application->>'phone',
+    'pending',
+    _application->'payload',
+    _application->>'id_type',
+    NULLIF(_application->>'date_of_birth', '')::date,
+    _application->>'gender',
+    _application->>'citizenship',
+    COALESCE(NULLIF(_application->>'preferred_language', ''), 'en'),
+    COALESCE(_application->'eligibility_results', '[]'::jsonb),
+    NULLIF(_application->>'phone_verified_at', '')::timestamptz,
+    _application->>'address_street',
+    _application->>'address_suburb',
+    _application->>'address_city',
+    _application->>'address_postal_code',
+    _application->>'address_province',
+    COALESCE((_application->>'province_mismatch')::boolean, false)
+  );
+
+  IF _application ? 'banking' THEN
+    PERFORM public.store_application_banking(_id, _application->'banking');
+  END IF;
+
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type, photo_shot, captured_at, capture_source)
+  SELECT _id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', ''),
+         d->>'photo_shot',
+         NULLIF(d->>'captured_at', '')::timestamptz,
+         d->>'capture_source'
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d;
+
+  INSERT INTO public.consent_records (application_id, terms_version_id, scope, granted, language, user_agent, source)
+  SELECT _id,
+         (c->>'terms_version_id')::uuid,
+         c->>'scope',
+         COALESCE((c->>'granted')::boolean, true),
+         NULLIF(c->>'language', ''),
+         left(c->>'user_agent', 500),
+         'application'
+  FROM jsonb_array_elements(COALESCE(_application->'consents', '[]'::jsonb)) AS c;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      -- Left out when the number is unchanged and was verified before
+      phone_verified_at = CASE
+        WHEN _application ? 'phone_verified_at'
+        THEN NULLIF(_application->>'phone_verified_at', '')::timestamptz
+        ELSE phone_verified_at
+      END,
+      address_street = _application->>'address_street',
+      address_suburb = _application->>'address_suburb',
+      address_city = _application->>'address_city',
+      address_postal_code = _application->>'address_postal_code',
+      address_province = _application->>'address_province',
+      province_mismatch = COALESCE((_application->>'province_mismatch')::boolean, false),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  IF _application ? 'banking' THEN
+    PERFORM public.store_application_banking(_app.id, _application->'banking');
+  END IF;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents carried over from the previous version are already recorded
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type, photo_shot, captured_at, capture_source)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', ''),
+         d->>'photo_shot',
+         NULLIF(d->>'captured_at', '')::timestamptz,
+         d->>'capture_source'
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO NOTHING;
+
+  RETURN _app.id;
+END;
+$$;
@@ -0,0 +1,39 @@
+-- Onboarding documents include identity documents and bank statements, so
+-- the bucket stops being public. Applicants can still upload; reviewers open
+-- documents through signed links, which need the SELECT policies below.
+UPDATE storage.buckets SET public = false WHERE id = 'onboarding-documents';
+
+DROP POLICY IF EXISTS "Public can view onboarding documents" ON storage.objects;
+
+-- Bank statements, under applications/{id}/bank-proof/ or a resubmission's
+-- own bank-proof folder, are left out: reviewers only get one through the
+-- reveal-banking function, signed after a logged reveal
+DO $$ BEGIN
+  CREATE POLICY "Admins can view onboarding documents"
+  ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'onboarding-documents'
+    AND public.has_role(auth.uid(), 'admin'::public.app_role)
+    AND name NOT LIKE 'applications/%/bank-proof/%'
+  );
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+-- Removing objects needs them to be visible, so while the applicant's
+-- request to erase an application is open its bank statements are too
+DO $$ BEGIN
+  CREATE POLICY "Admins can view bank statements being erased"
+  ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'onboarding-documents'
+    AND public.has_role(auth.uid(), 'admin'::public.app_role)
+    AND name LIKE 'applications/%/bank-proof/%'
+    AND EXISTS (
+      SELECT 1 FROM public.data_subject_requests r
+      WHERE r.application_id::text = split_part(name, '/', 2)
+        AND r.kind = 'deletion'
+        AND r.status = 'open'
+    )
+  );
+EXCEPTION WHEN duplicate_object THEN null; END $$;
@@ -0,0 +1,46 @@
+-- Whoever holds a correction link only gets the answers that aren't secret:
+-- banking details no longer come back with the payload. The applicant
+-- re-enters them when asked to; otherwise submit-application keeps the
+-- stored ones, which it reads with info_request_banking.
+CREATE OR REPLACE FUNCTION public.get_info_request(_token uuid)
+RETURNS TABLE (
+  request_id uuid,
+  application_id uuid,
+  items text[],
+  message text,
+  payload jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, a.id, r.items, r.message, a.payload
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.token = _token
+    AND r.resolved_at IS NULL
+    AND a.status = 'needs_info';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_info_request(uuid) TO anon, authenticated;
+
+-- The decrypted banking details behind an open correction request, for
+-- submit-application only
+CREATE OR REPLACE FUNCTION public.info_request_banking(_token uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.decrypt_application_banking(a.id)
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.token = _token
+    AND r.resolved_at IS NULL
+    AND a.status = 'needs_info';
+$$;
+
+REVOKE ALL ON FUNCTION public.info_request_banking(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.info_request_banking(uuid) TO service_role;
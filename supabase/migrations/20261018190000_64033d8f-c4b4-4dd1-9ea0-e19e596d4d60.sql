@@ -0,0 +1,31 @@
+-- Drafts no longer hold account numbers or branch codes. Remove those saved
+-- before, and leave them out of anything an older page still sends.
+UPDATE public.onboarding_drafts
+SET form_values = form_values - 'accountNumber' - 'branchCode'
+WHERE form_values ?| ARRAY['accountNumber', 'branchCode'];
+
+CREATE OR REPLACE FUNCTION public.save_onboarding_draft(
+  _email text,
+  _resume_token uuid,
+  _form_values jsonb,
+  _files jsonb,
+  _step integer,
+  _current_truck_index integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.onboarding_drafts (email, resume_token, form_values, files, step, current_truck_index)
+  VALUES (lower(trim(_email)), _resume_token, _form_values - 'accountNumber' - 'branchCode', _files, _step, _current_truck_index)
+  ON CONFLICT (email) DO UPDATE
+    SET form_values = EXCLUDED.form_values,
+        files = EXCLUDED.files,
+        step = EXCLUDED.step,
+        current_truck_index = EXCLUDED.current_truck_index
+    WHERE public.onboarding_drafts.resume_token = EXCLUDED.resume_token;
+  RETURN FOUND;
+END;
+$$;
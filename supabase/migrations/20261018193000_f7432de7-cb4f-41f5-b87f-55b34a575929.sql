@@ -0,0 +1,86 @@
+-- Drafts can be continued on another device. The applicant is emailed a
+-- sign-in link, and once signed in with that address they can open and keep
+-- saving the draft saved under it, whichever browser started it. Without
+-- signing in a draft still belongs to the browser that created it.
+-- Drafts are removed 30 days after they were last saved.
+
+-- The signed-in user's email, once they have confirmed they receive it
+CREATE OR REPLACE FUNCTION public.verified_email()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(u.email)
+  FROM auth.users u
+  WHERE u.id = auth.uid() AND u.email_confirmed_at IS NOT NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.verified_email() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verified_email() TO authenticated;
+
+DELETE FROM public.onboarding_drafts WHERE updated_at < now() - interval '30 days';
+
+-- Expired drafts are cleared whenever one is saved, so an address whose
+-- draft was abandoned can be used again from another browser
+CREATE OR REPLACE FUNCTION public.save_onboarding_draft(
+  _email text,
+  _resume_token uuid,
+  _form_values jsonb,
+  _files jsonb,
+  _step integer,
+  _current_truck_index integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.onboarding_drafts WHERE updated_at < now() - interval '30 days';
+
+  INSERT INTO public.onboarding_drafts (email, resume_token, form_values, files, step, current_truck_index)
+  VALUES (lower(trim(_email)), _resume_token, _form_values - 'accountNumber' - 'branchCode', _files, _step, _current_truck_index)
+  ON CONFLICT (email) DO UPDATE
+    SET resume_token = EXCLUDED.resume_token,
+        form_values = EXCLUDED.form_values,
+        files = EXCLUDED.files,
+        step = EXCLUDED.step,
+        current_truck_index = EXCLUDED.current_truck_index
+    WHERE public.onboarding_drafts.resume_token = EXCLUDED.resume_token
+       OR public.onboarding_drafts.email = public.verified_email();
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_onboarding_draft(_email text, _resume_token uuid)
+RETURNS TABLE (
+  form_values jsonb,
+  files jsonb,
+  step integer,
+  current_truck_index integer,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.form_values, d.files, d.step, d.current_truck_index, d.updated_at
+  FROM public.onboarding_drafts d
+  WHERE d.email = lower(trim(_email))
+    AND (d.resume_token = _resume_token OR d.email = public.verified_email())
+    AND d.updated_at >= now() - interval '30 days';
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_onboarding_draft(_email text, _resume_token uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.onboarding_drafts
+  WHERE email = lower(trim(_email))
+    AND (resume_token = _resume_token OR email = public.verified_email());
+$$;
@@ -0,0 +1,69 @@
+-- Guesses at a one-time PIN are counted before the code is compared, in one
+-- statement, so parallel requests can't each slip in under the limit. Both
+-- sending and checking codes are also limited per client IP, so cycling
+-- through numbers doesn't get around the per-number limits.
+
+-- Takes one of the remaining guesses at the latest live code for a number.
+-- Returns nothing once the code has expired or every guess is used.
+CREATE OR REPLACE FUNCTION public.take_phone_verification_attempt(_phone text, _max_attempts integer)
+RETURNS TABLE (id uuid, code_hash text)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.phone_verifications v
+  SET attempts = v.attempts + 1
+  WHERE v.id = (
+      SELECT p.id FROM public.phone_verifications p
+      WHERE p.phone = _phone AND p.verified_at IS NULL AND p.expires_at > now()
+      ORDER BY p.created_at DESC
+      LIMIT 1
+    )
+    AND v.attempts < _max_attempts
+  RETURNING v.id, v.code_hash;
+$$;
+
+REVOKE ALL ON FUNCTION public.take_phone_verification_attempt(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.take_phone_verification_attempt(text, integer) TO service_role;
+
+CREATE TABLE IF NOT EXISTS public.phone_verification_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip text NOT NULL,
+  action text NOT NULL CHECK (action IN ('send','verify')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_verification_requests_ip ON public.phone_verification_requests (ip, action, created_at DESC);
+
+-- Only the phone-verification function uses it, with the service role
+ALTER TABLE public.phone_verification_requests ENABLE ROW LEVEL SECURITY;
+
+-- Records a request from an IP and says whether it is within the hourly
+-- limit for that action. Requests from one IP are taken one at a time.
+CREATE OR REPLACE FUNCTION public.allow_phone_verification_request(_ip text, _action text, _per_hour integer)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _recent integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('phone-verification:' || _ip));
+
+  DELETE FROM public.phone_verification_requests WHERE created_at < now() - interval '1 hour';
+
+  SELECT count(*) INTO _recent
+  FROM public.phone_verification_requests
+  WHERE ip = _ip AND action = _action AND created_at >= now() - interval '1 hour';
+  IF _recent >= _per_hour THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.phone_verification_requests (ip, action) VALUES (_ip, _action);
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.allow_phone_verification_request(text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.allow_phone_verification_request(text, text, integer) TO service_role;
@@ -0,0 +1,101 @@
+-- Correction requests are texted to the applicant by the request-information
+-- function, which notes when it did. A resubmission marks the documents it
+-- no longer uses as superseded, so only the current version's are live.
+
+ALTER TABLE public.application_requests
+  ADD COLUMN IF NOT EXISTS notified_at timestamptz;
+
+ALTER TABLE public.application_documents
+  ADD COLUMN IF NOT EXISTS superseded_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.resubmit_onboarding_application(_request_id uuid, _application jsonb, _documents jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _app public.onboarding_applications%ROWTYPE;
+BEGIN
+  SELECT a.* INTO _app
+  FROM public.application_requests r
+  JOIN public.onboarding_applications a ON a.id = r.application_id
+  WHERE r.id = _request_id AND r.resolved_at IS NULL
+  FOR UPDATE OF a, r;
+
+  IF NOT FOUND OR _app.status <> 'needs_info' THEN
+    RAISE EXCEPTION 'This request has already been answered' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.application_versions (application_id, version, payload, submitted_at)
+  VALUES (_app.id, _app.version, _app.payload, _app.submitted_at);
+
+  UPDATE public.onboarding_applications
+  SET applicant_name = _application->>'applicant_name',
+      email = _application->>'email',
+      phone = _application->>'phone',
+      id_type = _application->>'id_type',
+      date_of_birth = NULLIF(_application->>'date_of_birth', '')::date,
+      gender = _application->>'gender',
+      citizenship = _application->>'citizenship',
+      preferred_language = COALESCE(NULLIF(_application->>'preferred_language', ''), preferred_language),
+      eligibility_results = COALESCE(_application->'eligibility_results', eligibility_results),
+      -- Left out when the number is unchanged and was verified before
+      phone_verified_at = CASE
+        WHEN _application ? 'phone_verified_at'
+        THEN NULLIF(_application->>'phone_verified_at', '')::timestamptz
+        ELSE phone_verified_at
+      END,
+      address_street = _application->>'address_street',
+      address_suburb = _application->>'address_suburb',
+      address_city = _application->>'address_city',
+      address_postal_code = _application->>'address_postal_code',
+      address_province = _application->>'address_province',
+      province_mismatch = COALESCE((_application->>'province_mismatch')::boolean, false),
+      payload = _application->'payload',
+      version = _app.version + 1,
+      submitted_at = now(),
+      status = 'pending'
+  WHERE id = _app.id;
+
+  IF _application ? 'banking' THEN
+    PERFORM public.store_application_banking(_app.id, _application->'banking');
+  END IF;
+
+  UPDATE public.application_requests
+  SET resolved_at = now()
+  WHERE id = _request_id;
+
+  -- Documents the new version no longer uses stay on record, superseded
+  UPDATE public.application_documents
+  SET superseded_at = now()
+  WHERE application_id = _app.id
+    AND superseded_at IS NULL
+    AND storage_path NOT IN (
+      SELECT d->>'path' FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+    );
+
+  -- Documents carried over from the previous version are already recorded,
+  -- though possibly for another truck or driver than before
+  INSERT INTO public.application_documents (application_id, kind, truck_index, driver_index, storage_path, file_name, size_bytes, content_type, photo_shot, captured_at, capture_source)
+  SELECT _app.id,
+         d->>'kind',
+         NULLIF(d->>'truck_index', '')::integer,
+         NULLIF(d->>'driver_index', '')::integer,
+         d->>'path',
+         d->>'name',
+         (d->>'size')::bigint,
+         NULLIF(d->>'type', ''),
+         d->>'photo_shot',
+         NULLIF(d->>'captured_at', '')::timestamptz,
+         d->>'capture_source'
+  FROM jsonb_array_elements(COALESCE(_documents, '[]'::jsonb)) AS d
+  ON CONFLICT (storage_path) DO UPDATE
+    SET kind = EXCLUDED.kind,
+        truck_index = EXCLUDED.truck_index,
+        driver_index = EXCLUDED.driver_index,
+        photo_shot = EXCLUDED.photo_shot;
+
+  RETURN _app.id;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Turned-away attempts are logged by the record-eligibility-attempt function,
+-- which checks what the wizard sends against the configured rules. Nobody
+-- can write to eligibility_attempts directly any more, and what is stored
+-- is kept small.
+DROP FUNCTION IF EXISTS public.record_ineligible_attempt(text, jsonb);
+
+DO $$ BEGIN
+  ALTER TABLE public.eligibility_attempts
+    ADD CONSTRAINT eligibility_attempts_results_size CHECK (
+      CASE WHEN jsonb_typeof(results) = 'array'
+        THEN jsonb_array_length(results) <= 50 AND octet_length(results::text) <= 16384
+        ELSE false
+      END
+    ) NOT VALID;
+EXCEPTION WHEN duplicate_object THEN null; END $$;
+
+DO $$ BEGIN
+  ALTER TABLE public.eligibility_attempts
+    ADD CONSTRAINT eligibility_attempts_step_length CHECK (length(step) <= 40) NOT VALID;
+EXCEPTION WHEN duplicate_object THEN null; END $$;